@@ -16,6 +16,10 @@ import Admin from "@/pages/admin";
 import Dreamboard from "@/pages/dashboard";
 import CreatePackage from "@/pages/packages/create";
 import EditPackage from "@/pages/packages/edit";
+import CreateTreatmentPlan from "@/pages/plans/create";
+import ViewTreatmentPlan from "@/pages/plans/view";
+import AuthorProfile from "@/pages/authors/view";
+import TemplateBuilder from "@/pages/templates/builder";
 
 function Router() {
   return (
@@ -32,6 +36,11 @@ function Router() {
       <Route path="/admin" component={Admin} />
       <Route path="/packages/create" component={CreatePackage} />
       <Route path="/packages/:id/edit" component={EditPackage} />
+      <Route path="/plans/create" component={CreateTreatmentPlan} />
+      <Route path="/plans/:id" component={ViewTreatmentPlan} />
+      <Route path="/authors/:userId" component={AuthorProfile} />
+      <Route path="/templates/new" component={TemplateBuilder} />
+      <Route path="/templates/:templateId/edit" component={TemplateBuilder} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,559 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Save, Trash2, Play, Loader2, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+interface ArcRecord {
+  id: string;
+  name: string;
+  description: string;
+  core_message?: string;
+  category?: string;
+  when_to_use: string[];
+  presenting_issues: string[];
+  key_language: string[];
+  prompt_integration: string;
+  mapped_issues: string[];
+}
+
+interface MetaphorFamilyRecord {
+  name: string;
+  primary_images: string[];
+  related_imagery: string[];
+  good_for_issues: string[];
+  avoid_for: string[];
+  recommended_for: string[];
+}
+
+interface ArcsResponse {
+  arcs: ArcRecord[];
+  issueKeys: string[];
+  foundationArcs: string[];
+  version: number;
+}
+
+interface FamiliesResponse {
+  families: MetaphorFamilyRecord[];
+  issueKeys: string[];
+  version: number;
+}
+
+interface DryRunResult {
+  selectedArcs: { arcId: string; arcName: string; reason: string }[];
+  primaryMetaphor: { family: string; primaryImages: string[]; reason: string } | null;
+  arcPriority: string[];
+  reasoningLog: string[];
+}
+
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Form state keeps list fields as one entry per line
+interface ArcForm {
+  id: string;
+  name: string;
+  description: string;
+  core_message: string;
+  category: "clinical" | "dream";
+  when_to_use: string;
+  presenting_issues: string;
+  key_language: string;
+  prompt_integration: string;
+  mapped_issues: string[];
+}
+
+interface FamilyForm {
+  name: string;
+  primary_images: string;
+  related_imagery: string;
+  good_for_issues: string;
+  avoid_for: string;
+  recommended_for: string[];
+}
+
+const EMPTY_ARC: ArcForm = {
+  id: "",
+  name: "",
+  description: "",
+  core_message: "",
+  category: "clinical",
+  when_to_use: "",
+  presenting_issues: "",
+  key_language: "",
+  prompt_integration: "",
+  mapped_issues: [],
+};
+
+const EMPTY_FAMILY: FamilyForm = {
+  name: "",
+  primary_images: "",
+  related_imagery: "",
+  good_for_issues: "",
+  avoid_for: "",
+  recommended_for: [],
+};
+
+const toLines = (values: string[] = []) => values.join("\n");
+const fromLines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean);
+
+function arcToForm(arc: ArcRecord): ArcForm {
+  return {
+    id: arc.id,
+    name: arc.name,
+    description: arc.description || "",
+    core_message: arc.core_message || "",
+    category: arc.category === "dream" ? "dream" : "clinical",
+    when_to_use: toLines(arc.when_to_use),
+    presenting_issues: toLines(arc.presenting_issues),
+    key_language: toLines(arc.key_language),
+    prompt_integration: arc.prompt_integration || "",
+    mapped_issues: arc.mapped_issues,
+  };
+}
+
+function arcFromForm(form: ArcForm) {
+  return {
+    id: form.id.trim(),
+    name: form.name,
+    description: form.description,
+    core_message: form.core_message || undefined,
+    category: form.category,
+    when_to_use: fromLines(form.when_to_use),
+    presenting_issues: fromLines(form.presenting_issues),
+    key_language: fromLines(form.key_language),
+    prompt_integration: form.prompt_integration,
+    mapped_issues: form.mapped_issues,
+  };
+}
+
+function familyToForm(family: MetaphorFamilyRecord): FamilyForm {
+  return {
+    name: family.name,
+    primary_images: toLines(family.primary_images),
+    related_imagery: toLines(family.related_imagery),
+    good_for_issues: toLines(family.good_for_issues),
+    avoid_for: toLines(family.avoid_for),
+    recommended_for: family.recommended_for,
+  };
+}
+
+function familyFromForm(form: FamilyForm) {
+  return {
+    name: form.name.trim(),
+    primary_images: fromLines(form.primary_images),
+    related_imagery: fromLines(form.related_imagery),
+    good_for_issues: fromLines(form.good_for_issues),
+    avoid_for: fromLines(form.avoid_for),
+    recommended_for: form.recommended_for,
+  };
+}
+
+// Read the body ourselves so validation issues can be listed
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    credentials: "include",
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const result = await response.json();
+  if (!response.ok) {
+    throw { message: result.message, issues: result.issues || [] };
+  }
+  return result;
+}
+
+function IssueKeyPicker({ keys, selected, onChange, testId }: {
+  keys: string[];
+  selected: string[];
+  onChange: (keys: string[]) => void;
+  testId: string;
+}) {
+  const toggle = (key: string) => {
+    onChange(selected.includes(key) ? selected.filter(k => k !== key) : [...selected, key]);
+  };
+  return (
+    <div className="flex flex-wrap gap-1" data-testid={testId}>
+      {keys.map(key => (
+        <Badge
+          key={key}
+          variant={selected.includes(key) ? "default" : "outline"}
+          className="cursor-pointer"
+          onClick={() => toggle(key)}
+        >
+          {key}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+function LinesField({ label, value, onChange, testId, rows = 3 }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  testId: string;
+  rows?: number;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label>{label} <span className="text-xs text-muted-foreground">(one per line)</span></Label>
+      <Textarea value={value} onChange={(e) => onChange(e.target.value)} rows={rows} data-testid={testId} />
+    </div>
+  );
+}
+
+/**
+ * Admin editor for narrative arcs and metaphor families, with a dry-run of the strategy planner
+ * against the unsaved draft
+ */
+export function ArcLibraryEditor() {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<"arc" | "family">("arc");
+  const [editingId, setEditingId] = useState<string | null>(null); // null = creating
+  const [arcForm, setArcForm] = useState<ArcForm>(EMPTY_ARC);
+  const [familyForm, setFamilyForm] = useState<FamilyForm>(EMPTY_FAMILY);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [sample, setSample] = useState({ presentingIssue: "", desiredOutcome: "", symbolicDimensionLevel: 60 });
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+
+  const { data: arcData } = useQuery<ArcsResponse>({ queryKey: ["/api/admin/arcs"] });
+  const { data: familyData } = useQuery<FamiliesResponse>({ queryKey: ["/api/admin/metaphor-families"] });
+
+  const resetForm = (nextKind: "arc" | "family") => {
+    setKind(nextKind);
+    setEditingId(null);
+    setArcForm(EMPTY_ARC);
+    setFamilyForm(EMPTY_FAMILY);
+    setIssues([]);
+    setDryRun(null);
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/arcs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/metaphor-families"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/methodology"] });
+    queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith("/api/narrative-arcs") });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (kind === "arc") {
+        const arc = arcFromForm(arcForm);
+        return editingId
+          ? sendJson(`/api/admin/arcs/${editingId}`, "PUT", arc)
+          : sendJson("/api/admin/arcs", "POST", arc);
+      }
+      const family = familyFromForm(familyForm);
+      return editingId
+        ? sendJson(`/api/admin/metaphor-families/${editingId}`, "PUT", family)
+        : sendJson("/api/admin/metaphor-families", "POST", family);
+    },
+    onSuccess: (result) => {
+      setIssues([]);
+      setEditingId(kind === "arc" ? result.arc.id : result.family.name);
+      refresh();
+      toast({ title: "Saved", description: `Methodology v${result.version} is now live` });
+    },
+    onError: (error: any) => {
+      setIssues(error.issues || []);
+      toast({ title: "Save Failed", description: error.message || "Draft failed validation", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const url = kind === "arc" ? `/api/admin/arcs/${editingId}` : `/api/admin/metaphor-families/${editingId}`;
+      return sendJson(url, "DELETE");
+    },
+    onSuccess: () => {
+      resetForm(kind);
+      refresh();
+      toast({ title: "Deleted" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: async (): Promise<DryRunResult> => {
+      const draft = kind === "arc" ? { arc: arcFromForm(arcForm) } : { metaphorFamily: familyFromForm(familyForm) };
+      return sendJson("/api/admin/strategy/dry-run", "POST", { ...sample, ...draft });
+    },
+    onSuccess: (result) => {
+      setIssues([]);
+      setDryRun(result);
+    },
+    onError: (error: any) => {
+      setIssues(error.issues || []);
+      setDryRun(null);
+      toast({ title: "Dry Run Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isFoundation = kind === "arc" && !!editingId && !!arcData?.foundationArcs.includes(editingId);
+  const draftName = kind === "arc" ? arcForm.id : familyForm.name;
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_2fr]">
+      <Card className="p-4">
+        <Tabs value={kind} onValueChange={(value) => resetForm(value as "arc" | "family")}>
+          <TabsList className="w-full">
+            <TabsTrigger value="arc" className="flex-1" data-testid="tab-arcs">Arcs</TabsTrigger>
+            <TabsTrigger value="family" className="flex-1" data-testid="tab-metaphor-families">Metaphors</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="arc" className="space-y-1">
+            <Button variant="outline" size="sm" className="w-full mb-2" onClick={() => resetForm("arc")} data-testid="button-new-arc">
+              <Plus className="w-4 h-4 mr-2" />
+              New Arc
+            </Button>
+            {arcData?.arcs.map(arc => (
+              <button
+                key={arc.id}
+                type="button"
+                onClick={() => { setEditingId(arc.id); setArcForm(arcToForm(arc)); setIssues([]); setDryRun(null); }}
+                className={`w-full text-left rounded-md px-2 py-1 text-sm hover-elevate ${editingId === arc.id ? "bg-accent" : ""}`}
+                data-testid={`arc-item-${arc.id}`}
+              >
+                <span className="font-medium">{arc.name}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {arc.id} · {arc.category || "clinical"}
+                  {arcData.foundationArcs.includes(arc.id) ? " · foundation" : ""}
+                </span>
+              </button>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="family" className="space-y-1">
+            <Button variant="outline" size="sm" className="w-full mb-2" onClick={() => resetForm("family")} data-testid="button-new-family">
+              <Plus className="w-4 h-4 mr-2" />
+              New Family
+            </Button>
+            {familyData?.families.map(family => (
+              <button
+                key={family.name}
+                type="button"
+                onClick={() => { setEditingId(family.name); setFamilyForm(familyToForm(family)); setIssues([]); setDryRun(null); }}
+                className={`w-full text-left rounded-md px-2 py-1 text-sm hover-elevate ${editingId === family.name ? "bg-accent" : ""}`}
+                data-testid={`family-item-${family.name}`}
+              >
+                <span className="font-medium">{family.name}</span>
+                <span className="block text-xs text-muted-foreground truncate">{family.primary_images.join(", ")}</span>
+              </button>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </Card>
+
+      <div className="space-y-6">
+        <Card className="p-6 space-y-4">
+          <h3 className="font-semibold">
+            {editingId ? `Edit ${kind === "arc" ? "Arc" : "Metaphor Family"}: ${editingId}` : `New ${kind === "arc" ? "Arc" : "Metaphor Family"}`}
+          </h3>
+
+          {kind === "arc" ? (
+            <>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-1">
+                  <Label>ID</Label>
+                  <Input
+                    value={arcForm.id}
+                    onChange={(e) => setArcForm({ ...arcForm, id: e.target.value })}
+                    disabled={!!editingId}
+                    placeholder="quiet-harbor"
+                    data-testid="input-arc-id"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Name</Label>
+                  <Input value={arcForm.name} onChange={(e) => setArcForm({ ...arcForm, name: e.target.value })} data-testid="input-arc-name" />
+                </div>
+                <div className="space-y-1">
+                  <Label>Category</Label>
+                  <Select value={arcForm.category} onValueChange={(value) => setArcForm({ ...arcForm, category: value as ArcForm["category"] })}>
+                    <SelectTrigger data-testid="select-arc-category">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="clinical">Clinical</SelectItem>
+                      <SelectItem value="dream">DREAM</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>Description</Label>
+                <Input value={arcForm.description} onChange={(e) => setArcForm({ ...arcForm, description: e.target.value })} data-testid="input-arc-description" />
+              </div>
+              <div className="space-y-1">
+                <Label>Core Message</Label>
+                <Input value={arcForm.core_message} onChange={(e) => setArcForm({ ...arcForm, core_message: e.target.value })} data-testid="input-arc-core-message" />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <LinesField label="Presenting Issues" value={arcForm.presenting_issues} onChange={(value) => setArcForm({ ...arcForm, presenting_issues: value })} testId="textarea-arc-presenting-issues" />
+                <LinesField label="When to Use" value={arcForm.when_to_use} onChange={(value) => setArcForm({ ...arcForm, when_to_use: value })} testId="textarea-arc-when-to-use" />
+              </div>
+              <LinesField label="Key Language" value={arcForm.key_language} onChange={(value) => setArcForm({ ...arcForm, key_language: value })} testId="textarea-arc-key-language" rows={5} />
+              <div className="space-y-1">
+                <Label>Prompt Integration</Label>
+                <Textarea
+                  value={arcForm.prompt_integration}
+                  onChange={(e) => setArcForm({ ...arcForm, prompt_integration: e.target.value })}
+                  rows={3}
+                  data-testid="textarea-arc-prompt-integration"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Selected by the planner for</Label>
+                <IssueKeyPicker
+                  keys={arcData?.issueKeys || []}
+                  selected={arcForm.mapped_issues}
+                  onChange={(mapped_issues) => setArcForm({ ...arcForm, mapped_issues })}
+                  testId="picker-arc-mapped-issues"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input
+                  value={familyForm.name}
+                  onChange={(e) => setFamilyForm({ ...familyForm, name: e.target.value })}
+                  disabled={!!editingId}
+                  placeholder="mountain_stillness"
+                  data-testid="input-family-name"
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <LinesField label="Primary Images" value={familyForm.primary_images} onChange={(value) => setFamilyForm({ ...familyForm, primary_images: value })} testId="textarea-family-primary-images" />
+                <LinesField label="Related Imagery" value={familyForm.related_imagery} onChange={(value) => setFamilyForm({ ...familyForm, related_imagery: value })} testId="textarea-family-related-imagery" />
+                <LinesField label="Good For" value={familyForm.good_for_issues} onChange={(value) => setFamilyForm({ ...familyForm, good_for_issues: value })} testId="textarea-family-good-for" />
+                <LinesField label="Avoid For" value={familyForm.avoid_for} onChange={(value) => setFamilyForm({ ...familyForm, avoid_for: value })} testId="textarea-family-avoid-for" />
+              </div>
+              <div className="space-y-1">
+                <Label>First recommendation for</Label>
+                <IssueKeyPicker
+                  keys={familyData?.issueKeys || []}
+                  selected={familyForm.recommended_for}
+                  onChange={(recommended_for) => setFamilyForm({ ...familyForm, recommended_for })}
+                  testId="picker-family-recommended-for"
+                />
+              </div>
+            </>
+          )}
+
+          {issues.length > 0 && (
+            <div className="rounded-md border border-destructive/50 p-3 space-y-1 text-sm" data-testid="arc-editor-issues">
+              <div className="flex items-center gap-2 font-medium text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                Validation failed
+              </div>
+              {issues.map((issue, i) => (
+                <p key={i} className="font-mono text-xs">{issue.path || "(root)"}: {issue.message}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !draftName} data-testid="button-save-arc-library">
+              {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              {editingId ? "Save Changes" : "Create"}
+            </Button>
+            {editingId && (
+              <Button
+                variant="outline"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending || isFoundation}
+                title={isFoundation ? "Foundation arcs can't be deleted" : undefined}
+                data-testid="button-delete-arc-library"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <h3 className="font-semibold">Dry-run Plan</h3>
+          <p className="text-sm text-muted-foreground">
+            Runs the strategy planner on a sample issue with this draft applied. Nothing is saved.
+          </p>
+          <div className="grid gap-4 sm:grid-cols-[2fr_2fr_1fr]">
+            <Input
+              value={sample.presentingIssue}
+              onChange={(e) => setSample({ ...sample, presentingIssue: e.target.value })}
+              placeholder="Presenting issue, e.g. anxious before presentations"
+              data-testid="input-dry-run-issue"
+            />
+            <Input
+              value={sample.desiredOutcome}
+              onChange={(e) => setSample({ ...sample, desiredOutcome: e.target.value })}
+              placeholder="Desired outcome"
+              data-testid="input-dry-run-outcome"
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={sample.symbolicDimensionLevel}
+              onChange={(e) => setSample({ ...sample, symbolicDimensionLevel: Number(e.target.value) })}
+              title="Symbolic dimension level (metaphors are chosen at 40+)"
+              data-testid="input-dry-run-symbolic"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => dryRunMutation.mutate()}
+            disabled={dryRunMutation.isPending || !sample.presentingIssue || !draftName}
+            data-testid="button-dry-run-plan"
+          >
+            {dryRunMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+            Dry-run Plan
+          </Button>
+
+          {dryRun && (
+            <div className="space-y-3 text-sm" data-testid="dry-run-result">
+              <div className="flex flex-wrap gap-1">
+                {dryRun.arcPriority.map(arcId => (
+                  <Badge key={arcId} variant={arcId === draftName ? "default" : "secondary"}>{arcId}</Badge>
+                ))}
+              </div>
+              {dryRun.selectedArcs.map(arc => (
+                <p key={arc.arcId}>
+                  <span className="font-medium">{arc.arcName}</span>
+                  <span className="text-muted-foreground"> - {arc.reason}</span>
+                </p>
+              ))}
+              {dryRun.primaryMetaphor && (
+                <p>
+                  <span className="font-medium">Metaphor: {dryRun.primaryMetaphor.family}</span>
+                  <span className="text-muted-foreground"> - {dryRun.primaryMetaphor.primaryImages.join(", ")}</span>
+                </p>
+              )}
+              <div className="rounded-md bg-muted p-3 space-y-1">
+                {dryRun.reasoningLog.map((line, i) => (
+                  <p key={i} className="font-mono text-xs">{line}</p>
+                ))}
+              </div>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from "react";
+import { Check, Circle, Loader2 } from "lucide-react";
+import type { GenerationStage } from "@shared/schema";
+import { STAGE_ORDER, type GenerationProgressState } from "@/lib/generationStream";
+import { cn } from "@/lib/utils";
+
+const STAGE_LABELS: Record<GenerationStage, string> = {
+  plan: "Engine plan",
+  outline: "Story outline",
+  draft: "Draft",
+  polish: "Polish",
+  refiner: "Pattern refiner",
+  quality: "Quality guard",
+  finalize: "Finishing",
+};
+
+interface GenerationProgressProps {
+  progress: GenerationProgressState;
+  showText?: boolean;
+  className?: string;
+}
+
+export function GenerationProgress({ progress, showText = true, className }: GenerationProgressProps) {
+  const textRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest streamed text in view
+  useEffect(() => {
+    if (textRef.current) {
+      textRef.current.scrollTop = textRef.current.scrollHeight;
+    }
+  }, [progress.partialText]);
+
+  const stages = STAGE_ORDER.filter((stage) => progress.stages[stage]);
+
+  return (
+    <div className={cn("space-y-4", className)} data-testid="generation-progress">
+      <ol className="space-y-2">
+        {stages.map((stage) => {
+          const { status, message } = progress.stages[stage]!;
+          return (
+            <li key={stage} className="flex items-start gap-3 text-sm" data-testid={`progress-stage-${stage}`}>
+              {status === "complete" ? (
+                <Check className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+              ) : status === "active" ? (
+                <Loader2 className="w-4 h-4 mt-0.5 text-primary animate-spin shrink-0" />
+              ) : (
+                <Circle className="w-4 h-4 mt-0.5 text-muted-foreground/40 shrink-0" />
+              )}
+              <div className="min-w-0">
+                <span className={cn("font-medium", status === "pending" && "text-muted-foreground")}>
+                  {STAGE_LABELS[stage]}
+                </span>
+                {message && status !== "pending" && (
+                  <span className="text-muted-foreground"> · {message}</span>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {showText && progress.partialText && (
+        <div
+          ref={textRef}
+          className="max-h-64 overflow-y-auto rounded-md border bg-muted/30 p-4 text-sm whitespace-pre-wrap text-muted-foreground"
+          data-testid="progress-partial-text"
+        >
+          {progress.partialText}
+        </div>
+      )}
+    </div>
+  );
+}
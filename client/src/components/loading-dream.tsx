@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Moon, Sparkles, Star, Volume2, VolumeX } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { GenerationProgress } from "@/components/generation-progress";
+import type { GenerationProgressState } from "@/lib/generationStream";
 
 // Peaceful thumbnail placeholders - curated serene landscapes for calming DREAM experience
 const PEACEFUL_IMAGES = [
@@ -19,6 +21,7 @@ interface LoadingDreamProps {
   isSoundPlaying?: boolean;
   userThumbnails?: string[]; // Crowdsourced DREAM thumbnails
   finalImage?: string; // The final generated thumbnail to reveal
+  progress?: GenerationProgressState; // Live stage events from the generation stream
 }
 
 export function LoadingDream({ 
@@ -26,7 +29,8 @@ export function LoadingDream({
   onToggleSound,
   isSoundPlaying = false,
   userThumbnails = [],
-  finalImage
+  finalImage,
+  progress
 }: LoadingDreamProps) {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [dots, setDots] = useState("");
@@ -115,6 +119,9 @@ export function LoadingDream({
               </p>
             </div>
 
+            {/* Live generation stages + partial script */}
+            {progress && <GenerationProgress progress={progress} />}
+
             {/* Lullaby toggle button */}
             {onToggleSound && (
               <div className="flex justify-center">
@@ -0,0 +1,246 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, RefreshCw, RotateCcw, Loader2, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { MethodologyConfig } from "@shared/schema";
+
+interface MethodologyConfigSummary {
+  key: string;
+  liveVersion: number;
+  versions: Omit<MethodologyConfig, "content">[];
+}
+
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+const CONFIG_LABELS: Record<string, string> = {
+  "narrative-arcs": "Narrative Arcs",
+  "metaphor-library": "Metaphor Library",
+  "principles": "Core Principles",
+  "language-mastery": "Language Mastery",
+  "ego-config": "Ego Strengthening",
+};
+
+/**
+ * Admin editor for the versioned methodology configs: edit JSON, save a new live version, roll back
+ */
+export function MethodologyConfigEditor() {
+  const { toast } = useToast();
+  const [selectedKey, setSelectedKey] = useState("narrative-arcs");
+  const [viewVersion, setViewVersion] = useState<number | null>(null); // null = live version
+  const [draft, setDraft] = useState("");
+  const [notes, setNotes] = useState("");
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+
+  const { data: configs = [] } = useQuery<MethodologyConfigSummary[]>({
+    queryKey: ["/api/admin/methodology"],
+  });
+  const selected = configs.find(c => c.key === selectedKey);
+
+  const contentUrl = viewVersion === null
+    ? `/api/admin/methodology/${selectedKey}`
+    : `/api/admin/methodology/${selectedKey}?version=${viewVersion}`;
+  const { data: content, isLoading: isLoadingContent } = useQuery<{ version: number; content: unknown }>({
+    queryKey: [contentUrl],
+  });
+
+  useEffect(() => {
+    if (content) {
+      setDraft(JSON.stringify(content.content, null, 2));
+      setIssues([]);
+    }
+  }, [content]);
+
+  const refreshConfigs = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/methodology"] });
+    queryClient.invalidateQueries({ predicate: q => String(q.queryKey[0]).startsWith(`/api/admin/methodology/${selectedKey}`) });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(draft);
+      } catch (error: any) {
+        throw { issues: [{ path: "(json)", message: error.message }] };
+      }
+
+      // Read the body ourselves so validation issues can be listed
+      const response = await fetch(`/api/admin/methodology/${selectedKey}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ content: parsed, notes: notes || undefined }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw { message: body.message, issues: body.issues || [] };
+      }
+      return body;
+    },
+    onSuccess: (result) => {
+      setIssues([]);
+      setNotes("");
+      setViewVersion(null);
+      refreshConfigs();
+      toast({ title: "Config Saved", description: `${CONFIG_LABELS[selectedKey]} v${result.version} is now live` });
+    },
+    onError: (error: any) => {
+      setIssues(error.issues || []);
+      toast({ title: "Save Failed", description: error.message || "Config failed validation", variant: "destructive" });
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (version: number) => {
+      return await apiRequest(`/api/admin/methodology/${selectedKey}/activate`, {
+        method: "POST",
+        body: JSON.stringify({ version }),
+      });
+    },
+    onSuccess: (_result, version) => {
+      setViewVersion(null);
+      refreshConfigs();
+      toast({ title: "Config Activated", description: version === 0 ? "Bundled default is live" : `v${version} is live` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Activation Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reloadMutation = useMutation({
+    mutationFn: async () => apiRequest("/api/admin/methodology-reload", { method: "POST" }),
+    onSuccess: () => {
+      refreshConfigs();
+      toast({ title: "Configs Reloaded" });
+    },
+  });
+
+  const handleKeyChange = (key: string) => {
+    setSelectedKey(key);
+    setViewVersion(null);
+    setNotes("");
+  };
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[2fr_1fr]">
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center gap-3 flex-wrap">
+          <Select value={selectedKey} onValueChange={handleKeyChange}>
+            <SelectTrigger className="w-64" data-testid="select-methodology-key">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CONFIG_LABELS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {content && (
+            <Badge variant={content.version === selected?.liveVersion ? "default" : "outline"}>
+              {content.version === 0 ? "Bundled default" : `v${content.version}`}
+              {content.version === selected?.liveVersion ? " (live)" : ""}
+            </Badge>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            onClick={() => reloadMutation.mutate()}
+            disabled={reloadMutation.isPending}
+            data-testid="button-reload-methodology"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Reload
+          </Button>
+        </div>
+
+        {isLoadingContent ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading config...
+          </div>
+        ) : (
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="font-mono text-xs min-h-[480px]"
+            spellCheck={false}
+            data-testid="textarea-methodology-json"
+          />
+        )}
+
+        {issues.length > 0 && (
+          <div className="rounded-md border border-destructive/50 p-3 space-y-1 text-sm" data-testid="methodology-issues">
+            <div className="flex items-center gap-2 font-medium text-destructive">
+              <AlertTriangle className="w-4 h-4" />
+              Validation failed
+            </div>
+            {issues.map((issue, i) => (
+              <p key={i} className="font-mono text-xs">{issue.path || "(root)"}: {issue.message}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="What changed? (optional)"
+            data-testid="input-methodology-notes"
+          />
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending || !draft}
+            data-testid="button-save-methodology"
+          >
+            {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            Save as New Version
+          </Button>
+        </div>
+      </Card>
+
+      <Card className="p-6 space-y-3">
+        <h3 className="font-semibold">Version History</h3>
+        {[...(selected?.versions || []), { version: 0, notes: "Bundled with the app", createdAt: null } as any].map((version) => (
+          <div key={version.version} className="flex items-center gap-2 text-sm" data-testid={`methodology-version-${version.version}`}>
+            <button
+              type="button"
+              onClick={() => setViewVersion(version.version)}
+              className="flex-1 text-left hover:underline"
+            >
+              <span className="font-medium">{version.version === 0 ? "Bundled default" : `v${version.version}`}</span>
+              {version.notes && <span className="text-muted-foreground"> - {version.notes}</span>}
+              {version.createdAt && (
+                <span className="block text-xs text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</span>
+              )}
+            </button>
+            {version.version === selected?.liveVersion ? (
+              <Badge>Live</Badge>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => activateMutation.mutate(version.version)}
+                disabled={activateMutation.isPending}
+                data-testid={`button-activate-methodology-${version.version}`}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Activate
+              </Button>
+            )}
+          </div>
+        ))}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { Check, X } from "lucide-react";
+import type { ScriptPhase, ScriptSegmentation } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+const PHASE_LABELS: Record<ScriptPhase, string> = {
+  induction: "Induction",
+  deepening: "Deepening",
+  work: "Work",
+  emergence: "Emergence",
+};
+
+const PHASE_COLORS: Record<ScriptPhase, string> = {
+  induction: "bg-sky-400",
+  deepening: "bg-indigo-500",
+  work: "bg-violet-500",
+  emergence: "bg-amber-400",
+};
+
+const SOURCE_LABELS: Record<ScriptSegmentation["source"], string> = {
+  headings: "from section headings",
+  cues: "from transition cues",
+  llm: "AI-assisted",
+  estimated: "estimated by position",
+};
+
+export interface PhaseCheck {
+  name: string;
+  passed: boolean;
+  details: string;
+  phase?: ScriptPhase;
+}
+
+interface PhaseTimelineProps {
+  segmentation: ScriptSegmentation;
+  checks?: PhaseCheck[];
+  className?: string;
+}
+
+export function PhaseTimeline({ segmentation, checks = [], className }: PhaseTimelineProps) {
+  const segments = segmentation.segments.filter((segment) => segment.wordCount > 0);
+  const total = Math.max(1, segmentation.wordCount);
+
+  return (
+    <div className={cn("space-y-3", className)} data-testid="phase-timeline">
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="font-medium">Script phases</span>
+        <span className="text-muted-foreground">{SOURCE_LABELS[segmentation.source]}</span>
+      </div>
+
+      <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+        {segments.map((segment) => (
+          <div
+            key={`${segment.phase}-${segment.start}`}
+            className={cn(PHASE_COLORS[segment.phase], segment.confidence < 0.5 && "opacity-60")}
+            style={{ width: `${(segment.wordCount / total) * 100}%` }}
+            title={`${PHASE_LABELS[segment.phase]}: words ${segment.wordStart + 1}-${segment.wordStart + segment.wordCount}`}
+            data-testid={`phase-segment-${segment.phase}`}
+          />
+        ))}
+      </div>
+
+      <ul className="grid gap-2 sm:grid-cols-2 text-sm">
+        {segments.map((segment) => {
+          const phaseChecks = checks.filter((check) => check.phase === segment.phase);
+          return (
+            <li key={`${segment.phase}-${segment.start}`} className="flex items-start gap-2">
+              <span className={cn("mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full", PHASE_COLORS[segment.phase])} />
+              <div className="min-w-0">
+                <span className="font-medium">{PHASE_LABELS[segment.phase]}</span>
+                <span className="text-muted-foreground"> · {segment.wordCount} words</span>
+                {phaseChecks.map((check) => (
+                  <div
+                    key={check.name}
+                    className="flex items-start gap-1 text-xs text-muted-foreground"
+                    title={check.details}
+                    data-testid={`phase-check-${segment.phase}`}
+                  >
+                    {check.passed ? (
+                      <Check className="w-3 h-3 mt-0.5 text-primary shrink-0" />
+                    ) : (
+                      <X className="w-3 h-3 mt-0.5 text-destructive shrink-0" />
+                    )}
+                    <span>{check.name}</span>
+                  </div>
+                ))}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
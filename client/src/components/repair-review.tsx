@@ -0,0 +1,83 @@
+import { Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ScriptRepair } from "@shared/script-repair";
+import { cn } from "@/lib/utils";
+
+interface RepairReviewProps {
+  repairs: ScriptRepair[];
+  accepted: Set<string>;
+  onToggle: (id: string, accept: boolean) => void;
+  onSave?: () => void;
+  saving?: boolean;
+  dirty?: boolean; // Choices changed since the script was last saved
+  className?: string;
+}
+
+export function RepairReview({ repairs, accepted, onToggle, onSave, saving, dirty, className }: RepairReviewProps) {
+  if (repairs.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-3", className)} data-testid="repair-review">
+      <div className="flex items-baseline justify-between text-sm">
+        <span className="font-medium">Quality repairs</span>
+        <span className="text-muted-foreground">
+          {accepted.size} of {repairs.length} accepted
+        </span>
+      </div>
+
+      <ul className="space-y-3">
+        {repairs.map((repair) => {
+          const isAccepted = accepted.has(repair.id);
+          return (
+            <li key={repair.id} className="rounded-md border p-3 text-sm" data-testid={`repair-${repair.id}`}>
+              <p className="leading-relaxed">
+                {repair.diff.map((op, i) => (
+                  <span
+                    key={i}
+                    className={cn(
+                      op.type === "insert" && "bg-primary/15 text-primary",
+                      op.type === "delete" && "bg-destructive/10 text-destructive line-through",
+                    )}
+                  >
+                    {op.text}
+                  </span>
+                ))}
+              </p>
+              <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground">
+                {repair.reasons.map((reason) => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+              <div className="mt-2 flex gap-2">
+                <Button
+                  size="sm"
+                  variant={isAccepted ? "default" : "outline"}
+                  onClick={() => onToggle(repair.id, true)}
+                  data-testid={`button-accept-${repair.id}`}
+                >
+                  <Check className="w-3 h-3 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant={isAccepted ? "outline" : "default"}
+                  onClick={() => onToggle(repair.id, false)}
+                  data-testid={`button-reject-${repair.id}`}
+                >
+                  <X className="w-3 h-3 mr-1" />
+                  Keep original
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {onSave && (
+        <Button size="sm" onClick={onSave} disabled={!dirty || saving} data-testid="button-save-repairs">
+          {saving ? "Saving..." : "Save script"}
+        </Button>
+      )}
+    </div>
+  );
+}
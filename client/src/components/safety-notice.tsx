@@ -0,0 +1,55 @@
+import { ShieldAlert, ShieldCheck } from "lucide-react";
+import type { SafetyScreeningResult } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+
+interface SafetyNoticeProps {
+  result: SafetyScreeningResult;
+  className?: string;
+}
+
+export function SafetyNotice({ result, className }: SafetyNoticeProps) {
+  if (result.decision === "allowed") return null;
+
+  if (result.decision === "refer_out") {
+    const reasons = result.reasons.filter((reason) => reason.decision === "refer_out");
+    return (
+      <Alert variant="destructive" className={className} data-testid="alert-safety-referral">
+        <ShieldAlert className="h-4 w-4" />
+        <AlertTitle>Referral recommended</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p data-testid="text-referral-message">{result.referralMessage}</p>
+          <ul className="list-disc pl-5 text-sm">
+            {reasons.map((reason) => (
+              <li key={`${reason.code}-${reason.field}`}>
+                {reason.message} ("{reason.matched}")
+              </li>
+            ))}
+          </ul>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { directives, avoidMetaphorFamilies } = result.modifications;
+  // Avoided families are listed once below rather than per matched avoid_for issue
+  const conditions = result.reasons.filter((reason) => reason.code !== "metaphor_avoid_for");
+  return (
+    <Alert className={className} data-testid="alert-safety-modifications">
+      <ShieldCheck className="h-4 w-4" />
+      <AlertTitle>Script will be adapted for safety</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-5 text-sm space-y-1">
+          {conditions.map((reason) => (
+            <li key={`${reason.code}-${reason.field}-${reason.matched}`}>{reason.message}</li>
+          ))}
+          {directives.map((directive) => (
+            <li key={directive}>{directive}</li>
+          ))}
+          {avoidMetaphorFamilies.length > 0 && (
+            <li>No {avoidMetaphorFamilies.join(", ")} imagery</li>
+          )}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
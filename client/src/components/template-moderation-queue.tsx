@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Template, TemplateJSON } from "@shared/schema";
+
+/**
+ * Admin queue of user templates made public: approve to list them in the marketplace, or reject with a reason
+ */
+export function TemplateModerationQueue() {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: queue = [], isLoading } = useQuery<Template[]>({
+    queryKey: ["/api/admin/templates/moderation"],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ templateId, decision }: { templateId: string; decision: "approved" | "rejected" }) => {
+      return await apiRequest(`/api/admin/templates/${templateId}/moderate`, {
+        method: "POST",
+        body: JSON.stringify({ decision, notes: notes[templateId] || undefined }),
+      });
+    },
+    onSuccess: (template: Template, { decision }) => {
+      toast({
+        title: decision === "approved" ? "Template Approved" : "Template Rejected",
+        description: decision === "approved" ? `${template.name} is now listed in the marketplace` : `${template.name} was sent back to its author`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/templates/moderation"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Moderation Failed",
+        description: error.message || "Failed to moderate template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (queue.length === 0) {
+    return (
+      <Card className="p-12 text-center text-muted-foreground" data-testid="text-moderation-empty">
+        No templates waiting for review
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {queue.map((template) => {
+        const json = template.jsonData as TemplateJSON;
+        const isPending = moderateMutation.isPending && moderateMutation.variables?.templateId === template.templateId;
+
+        return (
+          <Card key={template.templateId} className="p-6 space-y-4" data-testid={`card-moderation-${template.templateId}`}>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold">{template.name}</h3>
+                <p className="text-sm text-muted-foreground">{template.description}</p>
+                {template.userId && (
+                  <Link href={`/authors/${template.userId}`} className="text-xs text-primary hover:underline">
+                    View author
+                  </Link>
+                )}
+              </div>
+              <Badge variant="outline">{template.category || "uncategorized"}</Badge>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-xs">
+              {Object.entries(json.dimensions).map(([dimension, config]) => (
+                <Badge key={dimension} variant="secondary">
+                  {dimension} {config.level}
+                </Badge>
+              ))}
+            </div>
+
+            <Textarea
+              value={notes[template.templateId] || ""}
+              onChange={(e) => setNotes({ ...notes, [template.templateId]: e.target.value })}
+              placeholder="Notes for the author (required context when rejecting)"
+              rows={2}
+              data-testid={`input-moderation-notes-${template.templateId}`}
+            />
+
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => moderateMutation.mutate({ templateId: template.templateId, decision: "approved" })}
+                disabled={isPending}
+                data-testid={`button-approve-${template.templateId}`}
+              >
+                <Check className="w-4 h-4 mr-2" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => moderateMutation.mutate({ templateId: template.templateId, decision: "rejected" })}
+                disabled={isPending || !notes[template.templateId]?.trim()}
+                data-testid={`button-reject-${template.templateId}`}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
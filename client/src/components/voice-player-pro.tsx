@@ -3,13 +3,19 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Play, Pause, Square, Volume2, Download, Loader2 } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Play, Pause, Square, Volume2, Download, Loader2, Trash2 } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { GenerationAudio } from "@shared/schema";
 
 interface VoicePlayerProProps {
   text: string;
   title?: string;
+  defaultBed?: string; // Ambient bed id, or "none"
+  tailSeconds?: number; // Keep the bed playing after the narration (sleep tracks)
+  generationId?: number; // Store renditions with this script and replay them instead of re-rendering
 }
 
 interface Voice {
@@ -20,20 +26,71 @@ interface Voice {
   recommended: boolean;
 }
 
-export function VoicePlayerPro({ text, title = "Professional Voice Narration" }: VoicePlayerProProps) {
+interface AmbientBed {
+  id: string;
+  name: string;
+  description: string;
+}
+
+const JOB_POLL_MS = 2000;
+const JOB_MAX_WAIT_MS = 15 * 60 * 1000; // Stop polling a job that hasn't finished by then
+const MODEL = 'tts-1-hd'; // Use HD model for best quality
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.round(seconds % 60)).padStart(2, "0")}`;
+}
+
+export function VoicePlayerPro({ text, title = "Professional Voice Narration", defaultBed = "none", tailSeconds = 0, generationId }: VoicePlayerProProps) {
   const { toast } = useToast();
   const [isPlaying, setIsPlaying] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [selectedVoice, setSelectedVoice] = useState<string>("nova");
   const [speed, setSpeed] = useState(0.6); // Default 60% speed for hypnosis
+  const [selectedBed, setSelectedBed] = useState<string>(defaultBed);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const pollAbortRef = useRef<AbortController | null>(null);
 
   // Fetch available voices
   const { data: voices = [] } = useQuery<Voice[]>({
     queryKey: ['/api/tts/voices'],
   });
 
+  const { data: beds = [] } = useQuery<AmbientBed[]>({
+    queryKey: ['/api/tts/beds'],
+  });
+
+  const renditionsKey = [`/api/generations/${generationId}/audio`];
+  const { data: renditions = [] } = useQuery<GenerationAudio[]>({
+    queryKey: renditionsKey,
+    enabled: !!generationId,
+  });
+
+  // A stored rendition of the current text with the current settings plays without re-rendering
+  const storedRendition = renditions.find(r =>
+    !r.isStale &&
+    r.voice === selectedVoice &&
+    Math.abs(r.speed - speed) < 0.001 &&
+    r.model === MODEL &&
+    (r.bed || "none") === selectedBed
+  );
+
+  const deleteRenditionMutation = useMutation({
+    mutationFn: async (audioId: number) => {
+      return await apiRequest(`/api/generations/${generationId}/audio/${audioId}`, { method: 'DELETE' });
+    },
+    onSuccess: (_data, audioId) => {
+      if (storedRendition?.id === audioId) {
+        resetAudio();
+      }
+      queryClient.invalidateQueries({ queryKey: renditionsKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Delete Failed", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Cleanup audio on unmount
   useEffect(() => {
     return () => {
@@ -41,39 +98,86 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
         audioRef.current.pause();
         audioRef.current = null;
       }
-      if (audioUrl) {
+      if (audioUrl?.startsWith('blob:')) {
         URL.revokeObjectURL(audioUrl);
       }
     };
   }, [audioUrl]);
 
+  // Stop polling a background job once the player goes away
+  useEffect(() => {
+    return () => pollAbortRef.current?.abort();
+  }, []);
+
+  // Background job (needed for beds and stored renditions); poll until the stored file is ready
+  const renderStoredAudio = async (): Promise<string> => {
+    pollAbortRef.current?.abort();
+    const controller = new AbortController();
+    pollAbortRef.current = controller;
+
+    const { jobId } = await apiRequest('/api/tts/jobs', {
+      method: 'POST',
+      body: JSON.stringify({
+        text,
+        voice: selectedVoice,
+        speed,
+        model: MODEL,
+        generationId,
+        bed: selectedBed === "none" ? undefined : { type: selectedBed, tailSeconds },
+      }),
+    });
+
+    const deadline = Date.now() + JOB_MAX_WAIT_MS;
+    while (!controller.signal.aborted) {
+      if (Date.now() > deadline) {
+        throw new Error('Audio is taking longer than expected - please try again in a few minutes');
+      }
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_MS));
+      if (controller.signal.aborted) break;
+      const job = await apiRequest(`/api/jobs/${jobId}`);
+      if (job.status === 'failed') {
+        throw new Error(job.errorMessage || 'Failed to mix audio');
+      }
+      if (job.status === 'completed') {
+        if (generationId) {
+          queryClient.invalidateQueries({ queryKey: renditionsKey });
+        }
+        return job.result.audioUrl;
+      }
+    }
+    throw new DOMException('Audio polling stopped', 'AbortError');
+  };
+
+  const renderNarration = async (): Promise<string> => {
+    const response = await fetch('/api/tts/generate', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        text,
+        voice: selectedVoice,
+        speed,
+        model: MODEL,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to generate audio');
+    }
+
+    return URL.createObjectURL(await response.blob());
+  };
+
   const generateAudio = async (): Promise<string | null> => {
     try {
       setIsGenerating(true);
 
-      const response = await fetch('/api/tts/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text,
-          voice: selectedVoice,
-          speed,
-          model: 'tts-1-hd', // Use HD model for best quality
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to generate audio');
-      }
-
-      const audioBlob = await response.blob();
-      const url = URL.createObjectURL(audioBlob);
+      const url = generationId || selectedBed !== "none" ? await renderStoredAudio() : await renderNarration();
 
       // Cleanup previous audio
-      if (audioUrl) {
+      if (audioUrl?.startsWith('blob:')) {
         URL.revokeObjectURL(audioUrl);
       }
 
@@ -87,6 +191,7 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
 
       return url;
     } catch (error: any) {
+      if (error?.name === 'AbortError') return null; // Unmounted or superseded by a newer request
       setIsGenerating(false);
       toast({
         title: "Generation Failed",
@@ -100,6 +205,10 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
   const handlePlay = async () => {
     // Generate audio if not already cached
     let playUrl = audioUrl;
+    if (!playUrl && storedRendition) {
+      playUrl = storedRendition.storagePath;
+      setAudioUrl(playUrl);
+    }
     if (!playUrl) {
       playUrl = await generateAudio();
       if (!playUrl) return; // Generation failed
@@ -152,7 +261,7 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
     if (audioUrl) {
       const a = document.createElement('a');
       a.href = audioUrl;
-      a.download = `hypnosis-script-${selectedVoice}.mp3`;
+      a.download = `hypnosis-script-${selectedVoice}.${storedRendition?.format || 'mp3'}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -164,25 +273,36 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
     }
   };
 
-  // Regenerate when voice or speed changes
-  const handleVoiceChange = (value: string) => {
-    setSelectedVoice(value);
-    setAudioUrl(null); // Clear audio to force regeneration
+  // Regenerate (or pick a different stored rendition) when voice, speed or bed changes
+  function resetAudio() {
+    setAudioUrl(null);
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current = null;
     }
     setIsPlaying(false);
+  }
+
+  const handleVoiceChange = (value: string) => {
+    setSelectedVoice(value);
+    resetAudio();
+  };
+
+  const handleBedChange = (value: string) => {
+    setSelectedBed(value);
+    resetAudio();
   };
 
   const handleSpeedChange = (value: number[]) => {
     setSpeed(value[0]);
-    setAudioUrl(null); // Clear audio to force regeneration
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current = null;
-    }
-    setIsPlaying(false);
+    resetAudio();
+  };
+
+  const selectRendition = (rendition: GenerationAudio) => {
+    setSelectedVoice(rendition.voice);
+    setSpeed(rendition.speed);
+    setSelectedBed(rendition.bed || "none");
+    resetAudio();
   };
 
   const recommendedVoices = voices.filter(v => v.recommended);
@@ -232,6 +352,24 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
           </Select>
         </div>
 
+        {/* Background Bed */}
+        <div>
+          <label className="text-sm text-muted-foreground mb-1 block">Background</label>
+          <Select value={selectedBed} onValueChange={handleBedChange}>
+            <SelectTrigger data-testid="select-bed-pro">
+              <SelectValue placeholder="Select a background" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Voice only</SelectItem>
+              {beds.map((bed) => (
+                <SelectItem key={bed.id} value={bed.id}>
+                  {bed.name} - {bed.description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Speed Control */}
         <div>
           <div className="flex items-center justify-between mb-1">
@@ -257,7 +395,7 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
         {isGenerating && (
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Loader2 className="w-4 h-4 animate-spin" />
-            <span>Generating professional audio...</span>
+            <span>{selectedBed === "none" ? "Generating professional audio..." : "Generating and mixing audio (this can take a few minutes)..."}</span>
           </div>
         )}
 
@@ -285,7 +423,7 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
               ) : (
                 <>
                   <Play className="w-4 h-4 mr-2" />
-                  {audioUrl ? 'Play' : 'Generate & Play'}
+                  {audioUrl || storedRendition ? 'Play' : 'Generate & Play'}
                 </>
               )}
             </Button>
@@ -329,6 +467,36 @@ export function VoicePlayerPro({ text, title = "Professional Voice Narration" }:
           </div>
         )}
 
+        {/* Stored Renditions */}
+        {renditions.length > 0 && (
+          <div className="border-t pt-3 space-y-2">
+            <label className="text-sm text-muted-foreground block">Saved Narrations</label>
+            {renditions.map((rendition) => (
+              <div key={rendition.id} className="flex items-center gap-2 text-sm" data-testid={`rendition-${rendition.id}`}>
+                <button
+                  type="button"
+                  onClick={() => selectRendition(rendition)}
+                  className={`flex-1 text-left hover:underline ${rendition.id === storedRendition?.id ? 'font-medium' : ''}`}
+                >
+                  {rendition.voice} · {Math.round(rendition.speed * 100)}%
+                  {rendition.bed ? ` · ${beds.find(b => b.id === rendition.bed)?.name || rendition.bed}` : ''}
+                  {' · '}{formatDuration(rendition.durationSeconds)}
+                </button>
+                {rendition.isStale && <Badge variant="outline">Outdated</Badge>}
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteRenditionMutation.mutate(rendition.id)}
+                  disabled={deleteRenditionMutation.isPending}
+                  data-testid={`button-delete-rendition-${rendition.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="text-xs text-muted-foreground border-t pt-3">
           <p>✨ Powered by OpenAI TTS - Professional quality hypnosis narration</p>
         </div>
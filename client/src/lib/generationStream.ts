@@ -0,0 +1,105 @@
+import type { GenerationProgressEvent, GenerationStage } from "@shared/schema";
+
+export type StageStatus = "pending" | "active" | "complete";
+
+export interface StageProgress {
+  status: StageStatus;
+  message?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface GenerationProgressState {
+  stages: Partial<Record<GenerationStage, StageProgress>>;
+  partialText: string;
+}
+
+export const STAGE_ORDER: GenerationStage[] = ["plan", "outline", "draft", "refiner", "quality", "polish", "finalize"];
+
+// Stages every generation goes through; polish appears only when the server reports it (reader cues)
+const DEFAULT_STAGES: GenerationStage[] = ["plan", "outline", "draft", "refiner", "quality", "finalize"];
+
+export const initialGenerationProgress: GenerationProgressState = {
+  stages: Object.fromEntries(DEFAULT_STAGES.map((stage) => [stage, { status: "pending" }])),
+  partialText: "",
+};
+
+export function applyGenerationEvent(
+  state: GenerationProgressState,
+  event: GenerationProgressEvent,
+): GenerationProgressState {
+  if (event.type === "token") {
+    // Polish rewrites the draft, so restart the visible text when it begins streaming
+    const restart = event.stage === "polish" && state.stages.polish?.status !== "active";
+    return { ...state, partialText: (restart ? "" : state.partialText) + event.text };
+  }
+
+  return {
+    ...state,
+    stages: {
+      ...state.stages,
+      [event.stage]: {
+        status: event.status === "started" ? "active" : "complete",
+        message: event.message,
+        data: event.data,
+      },
+    },
+  };
+}
+
+/**
+ * POST to a generation route and read its Server-Sent Events progress stream.
+ * Resolves with the route's normal JSON result (the `complete` event).
+ */
+export async function streamGeneration<T>(
+  url: string,
+  body: unknown,
+  onEvent: (event: GenerationProgressEvent) => void,
+): Promise<T> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+    },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  // Validation errors come back as plain JSON before the stream opens
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let eventName = "message";
+      let data = "";
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) eventName = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (!data) continue; // Heartbeat comment
+
+      const payload = JSON.parse(data);
+      if (eventName === "complete") return payload as T;
+      if (eventName === "error") throw new Error(payload.message || "Generation failed");
+      onEvent(payload as GenerationProgressEvent);
+    }
+  }
+
+  throw new Error("Generation stream ended unexpectedly");
+}
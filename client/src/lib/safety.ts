@@ -0,0 +1,15 @@
+import type { SafetyScreeningResult } from "@shared/schema";
+
+/**
+ * The screening behind a refer-out response ("422: {message, referral, safety}"), or null for other errors
+ */
+export function getSafetyReferral(error: Error): SafetyScreeningResult | null {
+  const match = /^422: ([\s\S]*)$/.exec(error.message);
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.referral ? (body.safety as SafetyScreeningResult) : null;
+  } catch {
+    return null;
+  }
+}
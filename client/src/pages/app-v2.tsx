@@ -6,18 +6,37 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
 import { VoicePlayerPro } from "@/components/voice-player-pro";
+import { GenerationProgress } from "@/components/generation-progress";
+import { SafetyNotice } from "@/components/safety-notice";
+import { PhaseTimeline, type PhaseCheck } from "@/components/phase-timeline";
+import { RepairReview } from "@/components/repair-review";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { ArrowLeft, ArrowRight, Sparkles, Check, Sliders, User, MessageSquare, Eye, Wand2, FileText, Dices, ChevronsUpDown, Save, Download } from "lucide-react";
 import { AppHeader } from "@/components/app-header";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { applyGenerationEvent, initialGenerationProgress, streamGeneration } from "@/lib/generationStream";
+import { getSafetyReferral } from "@/lib/safety";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import type { DurationEstimate, SafetyScreeningResult, ScriptSegmentation } from "@shared/schema";
+import { applyRepairs, type ScriptRepairSet } from "@shared/script-repair";
 
 type Step = "intake" | "recommendations" | "mixer" | "results";
 
+interface FullScriptResult {
+  generationId?: number;
+  fullScript: string;
+  repairs?: ScriptRepairSet; // Span repairs the user can accept or reject
+  estimatedDuration?: DurationEstimate;
+}
+
+// Session lengths offered for generation (minutes read aloud)
+const SESSION_LENGTHS = [10, 15, 20, 30, 45];
+
 interface RecommendedTemplate {
   template: {
     id: number;
@@ -29,6 +48,7 @@ interface RecommendedTemplate {
   };
   matchScore: number;
   matchReasons: string[];
+  recommendationId?: string; // Echoed back on preview/generate so the pick trains template ranking
 }
 
 const PRESENTING_ISSUES = [
@@ -116,6 +136,8 @@ export default function AppV2() {
   const [desiredOutcome, setDesiredOutcome] = useState("");
   const [notes, setNotes] = useState("");
   const [selectedArcId, setSelectedArcId] = useState<string>("");
+  const [targetDuration, setTargetDuration] = useState<string>(""); // Minutes; "" = default length
+  const [readerMarkup, setReaderMarkup] = useState(false); // Add reader cues (pauses, breaths, sections)
   
   // Type-ahead state
   const [issueOpen, setIssueOpen] = useState(false);
@@ -134,7 +156,13 @@ export default function AppV2() {
   
   // Results state
   const [previewResult, setPreviewResult] = useState<{ preview: string; estimatedLength: string } | null>(null);
-  const [fullScriptResult, setFullScriptResult] = useState<{ fullScript: string } | null>(null);
+  const [fullScriptResult, setFullScriptResult] = useState<FullScriptResult | null>(null);
+  const [acceptedRepairs, setAcceptedRepairs] = useState<Set<string>>(new Set());
+  const [repairsDirty, setRepairsDirty] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState(initialGenerationProgress);
+  
+  // Clinical safety screening of the intake (referral or adaptations)
+  const [safetyResult, setSafetyResult] = useState<SafetyScreeningResult | null>(null);
   
   // Save Mix state
   const [saveMixDialogOpen, setSaveMixDialogOpen] = useState(false);
@@ -198,15 +226,78 @@ export default function AppV2() {
     enabled: step === "mixer"
   });
 
+  // Accept or reject one span repair; the shown script is the draft with the accepted repairs
+  const toggleRepair = (id: string, accept: boolean) => {
+    if (!fullScriptResult?.repairs) return;
+    const accepted = new Set(acceptedRepairs);
+    if (accept) accepted.add(id);
+    else accepted.delete(id);
+    setAcceptedRepairs(accepted);
+    setRepairsDirty(true);
+    setFullScriptResult({
+      ...fullScriptResult,
+      fullScript: applyRepairs(fullScriptResult.repairs.base, fullScriptResult.repairs.repairs, accepted),
+    });
+  };
+
+  // Save the script with the repair choices applied
+  const saveRepairsMutation = useMutation({
+    mutationFn: async () => apiRequest(`/api/generations/${fullScriptResult!.generationId}/script`, {
+      method: 'PATCH',
+      body: JSON.stringify({ fullScript: fullScriptResult!.fullScript }),
+    }),
+    onSuccess: () => {
+      setRepairsDirty(false);
+      toast({
+        title: "Script Saved",
+        description: "Your repair choices were applied",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save script",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Phase timeline for the finished script
+  const { data: scriptPhases } = useQuery<{ segmentation: ScriptSegmentation; checks: PhaseCheck[] }>({
+    queryKey: ['/api/scripts/segment', fullScriptResult?.fullScript],
+    queryFn: () => apiRequest('/api/scripts/segment', {
+      method: 'POST',
+      body: JSON.stringify({ script: fullScriptResult!.fullScript }),
+    }),
+    enabled: !!fullScriptResult?.fullScript,
+  });
+
   // Get template recommendations mutation
   const getRecommendationsMutation = useMutation({
     mutationFn: async (data: { presentingIssue: string; desiredOutcome: string; clientNotes?: string }) => {
+      // Screen the intake first; a referral stops here
+      const safety: SafetyScreeningResult = await apiRequest('/api/safety/screen', {
+        method: 'POST',
+        body: JSON.stringify(data),
+      });
+      setSafetyResult(safety.decision === 'allowed' ? null : safety);
+      if (safety.decision === 'refer_out') return null;
+      
       return await apiRequest('/api/templates/recommend', {
         method: 'POST',
         body: JSON.stringify(data),
       });
     },
     onSuccess: (data) => {
+      if (data === null) {
+        toast({
+          title: "Referral Recommended",
+          description: "This intake needs a licensed professional before a script",
+          variant: "destructive",
+        });
+        return;
+      }
+      
       // API returns recommendations array directly
       const recommendationsArray = Array.isArray(data) ? data : [];
       setRecommendations(recommendationsArray);
@@ -294,6 +385,20 @@ export default function AppV2() {
     });
   };
 
+  // A refer-out from preview/generation sends the user back to intake with the referral
+  const handleSafetyReferral = (error: Error): boolean => {
+    const referral = getSafetyReferral(error);
+    if (!referral) return false;
+    setSafetyResult(referral);
+    setStep("intake");
+    toast({
+      title: "Referral Recommended",
+      description: "No script was generated for this intake",
+      variant: "destructive",
+    });
+    return true;
+  };
+
   // Generate preview mutation
   const generatePreviewMutation = useMutation({
     mutationFn: async () => {
@@ -306,6 +411,7 @@ export default function AppV2() {
           desiredOutcome,
           clientNotes: notes.trim() || undefined,
           arcId: selectedArcId || undefined,
+          recommendationId: selectedTemplate.recommendationId,
         }),
       });
     },
@@ -318,6 +424,7 @@ export default function AppV2() {
       });
     },
     onError: (error) => {
+      if (handleSafetyReferral(error)) return;
       toast({
         title: "Preview Failed",
         description: error.message || "Failed to generate preview",
@@ -331,18 +438,25 @@ export default function AppV2() {
     mutationFn: async () => {
       if (!selectedTemplate) throw new Error("No template selected");
       
-      return await apiRequest(`/api/templates/${selectedTemplate.template.templateId}/generate`, {
-        method: 'POST',
-        body: JSON.stringify({
+      setGenerationProgress(initialGenerationProgress);
+      return await streamGeneration<FullScriptResult>(
+        `/api/templates/${selectedTemplate.template.templateId}/generate`,
+        {
           presentingIssue,
           desiredOutcome,
           clientNotes: notes.trim() || undefined,
           arcId: selectedArcId || undefined,
-        }),
-      });
+          targetDurationMinutes: targetDuration ? Number(targetDuration) : undefined,
+          recommendationId: selectedTemplate.recommendationId,
+          readerMarkup: readerMarkup || undefined,
+        },
+        (event) => setGenerationProgress((prev) => applyGenerationEvent(prev, event)),
+      );
     },
     onSuccess: (data) => {
       setFullScriptResult(data);
+      setAcceptedRepairs(new Set(data.repairs?.repairs.map((repair) => repair.id)));
+      setRepairsDirty(false);
       setStep("results");
       toast({
         title: "Script Generated",
@@ -350,6 +464,7 @@ export default function AppV2() {
       });
     },
     onError: (error) => {
+      if (handleSafetyReferral(error)) return;
       toast({
         title: "Generation Failed",
         description: error.message || "Failed to generate script",
@@ -384,6 +499,7 @@ export default function AppV2() {
 
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-6 py-12">
+        {safetyResult && <SafetyNotice result={safetyResult} className="mb-8" />}
         {step === "intake" && (
           <div className="space-y-8">
             <div className="text-center">
@@ -641,6 +757,38 @@ export default function AppV2() {
                   )}
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="session-length">Session Length (Optional)</Label>
+                  <Select value={targetDuration || "default"} onValueChange={(value) => setTargetDuration(value === "default" ? "" : value)}>
+                    <SelectTrigger id="session-length" data-testid="select-session-length">
+                      <SelectValue placeholder="Standard length" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default" data-testid="session-length-default">
+                        Standard length
+                      </SelectItem>
+                      {SESSION_LENGTHS.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)} data-testid={`session-length-${minutes}`}>
+                          {minutes} minutes
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    How long the script takes to read aloud - sets the word budget for each phase
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="reader-markup">Reader Cues</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Mark sections, pauses and breaths for reading the script aloud
+                    </p>
+                  </div>
+                  <Switch id="reader-markup" checked={readerMarkup} onCheckedChange={setReaderMarkup} data-testid="switch-reader-markup" />
+                </div>
+
                 <div className="p-4 bg-muted/50 rounded-lg border border-muted">
                   <p className="text-sm text-muted-foreground">
                     <strong className="text-foreground">Privacy Note:</strong> Do not include client names or personally identifiable information. This helps maintain confidentiality.
@@ -1072,6 +1220,12 @@ export default function AppV2() {
                 {generateFullScriptMutation.isPending ? "Generating..." : "Generate Full Script ($3)"}
               </Button>
             </div>
+
+            {generateFullScriptMutation.isPending && (
+              <Card className="p-6">
+                <GenerationProgress progress={generationProgress} />
+              </Card>
+            )}
           </div>
         )}
 
@@ -1141,6 +1295,9 @@ export default function AppV2() {
                     Adjust Mix
                   </Button>
                 </div>
+                {generateFullScriptMutation.isPending && (
+                  <GenerationProgress progress={generationProgress} className="mt-6" />
+                )}
               </Card>
             )}
 
@@ -1154,9 +1311,32 @@ export default function AppV2() {
                       <h3 className="text-lg font-semibold">Complete Hypnosis Script</h3>
                       <p className="text-sm text-muted-foreground">
                         Your full therapeutic script is ready
+                        {fullScriptResult.estimatedDuration && (
+                          <span data-testid="text-estimated-duration">
+                            {" "}· about {Math.round(fullScriptResult.estimatedDuration.minutes)} minutes read aloud
+                          </span>
+                        )}
                       </p>
                     </div>
                   </div>
+                  {scriptPhases && (
+                    <PhaseTimeline
+                      segmentation={scriptPhases.segmentation}
+                      checks={scriptPhases.checks}
+                      className="mb-6"
+                    />
+                  )}
+                  {fullScriptResult.repairs && (
+                    <RepairReview
+                      repairs={fullScriptResult.repairs.repairs}
+                      accepted={acceptedRepairs}
+                      onToggle={toggleRepair}
+                      onSave={fullScriptResult.generationId ? () => saveRepairsMutation.mutate() : undefined}
+                      saving={saveRepairsMutation.isPending}
+                      dirty={repairsDirty}
+                      className="mb-6"
+                    />
+                  )}
                   <div 
                     className="prose max-w-none dark:prose-invert whitespace-pre-wrap"
                     data-testid="full-script-content"
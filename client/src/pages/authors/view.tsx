@@ -0,0 +1,164 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Loader2, Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { Template } from "@shared/schema";
+
+interface AuthorProfileResponse {
+  author: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    profileImageUrl: string | null;
+    memberSince: string | null;
+  };
+  templates: Template[];
+  stats: {
+    templateCount: number;
+    totalUsage: number;
+    reviewCount: number;
+    ratingAvg: number | null; // x100
+  };
+}
+
+// ratingAvg is stored x100 (450 = 4.50)
+const formatRating = (ratingAvg: number | null) => (ratingAvg === null ? "No ratings" : `${(ratingAvg / 100).toFixed(1)}★`);
+
+export default function AuthorProfile() {
+  const { userId } = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<AuthorProfileResponse>({
+    queryKey: [`/api/authors/${userId}`],
+  });
+
+  const rateMutation = useMutation({
+    mutationFn: async ({ templateId, rating }: { templateId: string; rating: number }) => {
+      return await apiRequest(`/api/templates/${templateId}/reviews`, {
+        method: "POST",
+        body: JSON.stringify({ rating }),
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Thanks for rating!",
+        description: "Your rating helps others find the best templates.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/authors/${userId}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rating Failed",
+        description: error.message || "Failed to save rating",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p>Author not found</p>
+      </div>
+    );
+  }
+
+  const { author, templates, stats } = data;
+  const name = [author.firstName, author.lastName].filter(Boolean).join(" ") || "Anonymous author";
+  const canRate = !!user && user.id !== author.id;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")} className="mb-4" data-testid="button-back">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dreamboard
+          </Button>
+
+          <div className="flex items-center gap-4">
+            {author.profileImageUrl && (
+              <img src={author.profileImageUrl} alt={name} className="w-16 h-16 rounded-full object-cover" />
+            )}
+            <div>
+              <h1 className="text-4xl font-bold" data-testid="text-author-name">{name}</h1>
+              {author.memberSince && (
+                <p className="text-muted-foreground">Member since {new Date(author.memberSince).toLocaleDateString()}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            <Badge variant="secondary" data-testid="badge-template-count">{stats.templateCount} templates</Badge>
+            <Badge variant="secondary" data-testid="badge-rating">
+              {formatRating(stats.ratingAvg)} ({stats.reviewCount} reviews)
+            </Badge>
+            <Badge variant="secondary" data-testid="badge-usage">{stats.totalUsage} scripts generated</Badge>
+          </div>
+        </div>
+
+        {templates.length === 0 ? (
+          <Card className="p-12 text-center text-muted-foreground">No published templates yet</Card>
+        ) : (
+          <div className="space-y-4">
+            {templates.map((template) => (
+              <Card key={template.templateId} data-testid={`card-template-${template.templateId}`}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <CardTitle className="text-lg">{template.name}</CardTitle>
+                      {template.description && <CardDescription>{template.description}</CardDescription>}
+                    </div>
+                    <div className="text-right text-sm">
+                      <div className="font-medium">{formatRating(template.ratingAvg)}</div>
+                      <div className="text-muted-foreground">{template.reviewCount} reviews · {template.usageCount} uses</div>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="flex items-center justify-between gap-4">
+                  <div className="flex flex-wrap gap-1">
+                    {template.category && <Badge variant="outline">{template.category}</Badge>}
+                    {template.tags?.map((tag) => (
+                      <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                    ))}
+                  </div>
+                  {canRate && (
+                    <div className="flex" data-testid={`rating-${template.templateId}`}>
+                      {[1, 2, 3, 4, 5].map((rating) => (
+                        <button
+                          key={rating}
+                          type="button"
+                          onClick={() => rateMutation.mutate({ templateId: template.templateId, rating })}
+                          disabled={rateMutation.isPending}
+                          aria-label={`Rate ${rating} stars`}
+                          data-testid={`button-rate-${template.templateId}-${rating}`}
+                        >
+                          <Star className="w-5 h-5 text-muted-foreground hover:text-yellow-500" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,11 +8,11 @@ import { VoicePlayerPro } from "@/components/voice-player-pro";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Copy, FileText, Calendar, Tag, Sparkles, Wand2, Star, Package, Moon, Play } from "lucide-react";
+import { Copy, FileText, Calendar, Tag, Sparkles, Wand2, Star, Package, Moon, Play, ClipboardList, SlidersHorizontal } from "lucide-react";
 import { AppHeader } from "@/components/app-header";
 import { format } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Generation } from "@shared/schema";
+import type { Generation, Template, TreatmentClientProfile, TreatmentPlan } from "@shared/schema";
 
 export default function Dreamboard() {
   const { toast } = useToast();
@@ -43,6 +43,16 @@ export default function Dreamboard() {
     enabled: isAuthenticated,
   });
 
+  const { data: authoredTemplates } = useQuery<Template[]>({
+    queryKey: ["/api/user/authored-templates"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: treatmentPlans } = useQuery<TreatmentPlan[]>({
+    queryKey: ["/api/treatment-plans"],
+    enabled: isAuthenticated,
+  });
+
   // Mutation for toggling favorite
   const favoriteMutation = useMutation({
     mutationFn: async ({ id, isFavorite }: { id: number; isFavorite: boolean }) => {
@@ -132,6 +142,76 @@ export default function Dreamboard() {
           </div>
         )}
 
+        {/* Treatment Plans Section */}
+        <div className="mb-12">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-semibold">Treatment Plans</h2>
+            <Link href="/plans/create">
+              <Button size="sm" variant="outline" data-testid="button-create-plan">
+                <ClipboardList className="w-4 h-4 mr-2" />
+                New Plan
+              </Button>
+            </Link>
+          </div>
+          {treatmentPlans && treatmentPlans.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {treatmentPlans.map((plan) => (
+                <Link key={plan.id} href={`/plans/${plan.id}`}>
+                  <Card className="p-4 hover-elevate cursor-pointer" data-testid={`plan-card-${plan.id}`}>
+                    <div className="flex items-start justify-between mb-2">
+                      <h3 className="font-semibold" data-testid={`plan-title-${plan.id}`}>{plan.title}</h3>
+                      <Badge data-testid={`plan-status-${plan.id}`}>{plan.status}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {(plan.clientProfile as TreatmentClientProfile).name} - {(plan.clientProfile as TreatmentClientProfile).presentingIssue}
+                    </p>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Plan a multi-session protocol for a client - each session builds on the suggestions and metaphors of the last.
+            </p>
+          )}
+        </div>
+
+        {/* My Templates Section */}
+        <div className="mb-12">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-semibold">My Templates</h2>
+            <Link href="/templates/new">
+              <Button size="sm" variant="outline" data-testid="button-create-template">
+                <SlidersHorizontal className="w-4 h-4 mr-2" />
+                Build Template
+              </Button>
+            </Link>
+          </div>
+          {authoredTemplates && authoredTemplates.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {authoredTemplates.map((template) => (
+                <Link key={template.templateId} href={`/templates/${template.templateId}/edit`}>
+                  <Card className="p-4 hover-elevate cursor-pointer" data-testid={`template-card-${template.templateId}`}>
+                    <div className="flex items-start justify-between mb-2">
+                      <h3 className="font-semibold">{template.name}</h3>
+                      {template.isPublic && (
+                        <Badge variant="outline" data-testid={`template-moderation-${template.templateId}`}>
+                          {template.moderationStatus === "approved" ? "public" : template.moderationStatus === "rejected" ? "rejected" : "in review"}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{template.description}</p>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Build your own template by shaping all eight dimensions, with a live preview of the prompt it produces.
+            </p>
+          )}
+        </div>
+
         {/* My Scripts Heading */}
         <div className="mb-6">
           <h2 className="text-2xl font-semibold">My Scripts</h2>
@@ -330,7 +410,7 @@ export default function Dreamboard() {
             
             {/* Voice Player for Full Script */}
             <div className="border-t pt-4">
-              <VoicePlayerPro text={generation.fullScript} title="Listen to Script" />
+              <VoicePlayerPro text={generation.fullScript} title="Listen to Script" generationId={generation.id} />
             </div>
           </>
         ) : generation.previewText ? (
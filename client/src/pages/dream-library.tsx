@@ -554,7 +554,7 @@ export default function DreamLibrary() {
                 <Card className="bg-card/90 backdrop-blur-sm">
                   <div className="p-6">
                     <h3 className="text-lg font-semibold mb-4">Listen</h3>
-                    <VoicePlayerPro text={dreamDetails.fullScript} />
+                    <VoicePlayerPro text={dreamDetails.fullScript} generationId={dreamDetails.id} defaultBed="delta" tailSeconds={300} />
                   </div>
                 </Card>
               )}
@@ -698,7 +698,7 @@ export default function DreamLibrary() {
               <Card className="bg-card/90 backdrop-blur-sm">
                 <div className="p-6">
                   <h3 className="text-lg font-semibold mb-4">Listen</h3>
-                  <VoicePlayerPro text={dreamDetails.fullScript} />
+                  <VoicePlayerPro text={dreamDetails.fullScript} generationId={dreamDetails.id} defaultBed="delta" tailSeconds={300} />
                 </div>
               </Card>
             )}
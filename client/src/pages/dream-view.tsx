@@ -4,9 +4,10 @@ import { useRef, useState, useEffect } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { VoicePlayerPro } from "@/components/voice-player-pro";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, MonitorPlay } from "lucide-react";
 import { AppHeader } from "@/components/app-header";
 import type { Generation } from "@shared/schema";
+import { hasReaderMarkup, parseReaderScript, renderPlainText } from "@shared/reader-script";
 import {
   Carousel,
   CarouselContent,
@@ -67,6 +68,10 @@ export default function DreamView() {
   const hasMultipleImages = dream.imageUrls && dream.imageUrls.length > 1;
   const displayImages = hasMultipleImages ? dream.imageUrls : (dream.imageUrl ? [dream.imageUrl] : []);
 
+  // Scripts with reader cues are shown (and narrated) as plain prose; the teleprompter keeps the cues
+  const fullScript = dream.fullScript || "";
+  const scriptText = hasReaderMarkup(fullScript) ? renderPlainText(parseReaderScript(fullScript)) : fullScript;
+
   return (
     <div className="relative min-h-screen">
       {/* Full-screen blurred background - syncs with carousel */}
@@ -154,17 +159,31 @@ export default function DreamView() {
           {dream.fullScript && (
             <Card className="p-6 bg-background/80 backdrop-blur-md space-y-4">
               <div>
-                <h2 className="text-xl font-semibold mb-4">Your Dream Journey</h2>
+                <div className="flex items-center justify-between gap-4 mb-4">
+                  <h2 className="text-xl font-semibold">Your Dream Journey</h2>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => window.open(`/api/generations/${dream.id}/reader?format=teleprompter`, "_blank")}
+                    data-testid="button-teleprompter"
+                  >
+                    <MonitorPlay className="w-4 h-4 mr-2" />
+                    Teleprompter
+                  </Button>
+                </div>
                 <div className="prose prose-sm max-w-none dark:prose-invert whitespace-pre-wrap bg-muted/30 p-4 rounded-md max-h-96 overflow-y-auto">
-                  {dream.fullScript}
+                  {scriptText}
                 </div>
               </div>
 
               {/* Voice Player */}
               <div className="border-t pt-4">
                 <VoicePlayerPro 
-                  text={dream.fullScript} 
+                  text={fullScript} 
                   title="Listen to Your Dream Journey" 
+                  defaultBed="delta"
+                  tailSeconds={300}
+                  generationId={dream.id}
                 />
               </div>
             </Card>
@@ -11,6 +11,7 @@ import { Moon, Sparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { applyGenerationEvent, initialGenerationProgress, streamGeneration } from "@/lib/generationStream";
 import { useAuth } from "@/hooks/useAuth";
 import { validateContent } from "@/lib/contentValidator";
 import { AppHeader } from "@/components/app-header";
@@ -43,6 +44,7 @@ export default function Dream() {
   const [generationId, setGenerationId] = useState<number | null>(null);
   const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
   const [revealingFinalImage, setRevealingFinalImage] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState(initialGenerationProgress);
   
   // Lullaby music hook
   const lullaby = useLullaby();
@@ -102,10 +104,12 @@ export default function Dream() {
   // Generate DREAM script mutation (Step 2)
   const generateDreamScript = useMutation({
     mutationFn: async (data: { journeyIdea: string; expandedStory?: string; archetypeId?: number; arcId?: string }) => {
-      return await apiRequest('/api/generate-dream-script', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      });
+      setGenerationProgress(initialGenerationProgress);
+      return await streamGeneration<any>(
+        '/api/generate-dream-script',
+        data,
+        (event) => setGenerationProgress((prev) => applyGenerationEvent(prev, event)),
+      );
     },
     onSuccess: (data) => {
       setGeneratedScript(data.fullScript);
@@ -375,6 +379,7 @@ export default function Dream() {
                 isSoundPlaying={lullaby.isPlaying}
                 userThumbnails={dreamThumbnails}
                 finalImage={revealingFinalImage ? thumbnailUrl || undefined : undefined}
+                progress={revealingFinalImage ? undefined : generationProgress}
               />
             ) : (
               // Step 2: Story Editor
@@ -6,9 +6,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Save, Sparkles, Download, ArrowLeft } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Loader2, Save, Sparkles, Download, ArrowLeft, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+
+const EXPORT_FORMATS = [
+  { format: "docx", label: "Word (.docx)" },
+  { format: "pdf", label: "PDF" },
+  { format: "epub", label: "EPUB (e-readers)" },
+  { format: "bundle", label: "ZIP bundle (Markdown, audio, images)" },
+  { format: "txt", label: "Plain text" },
+];
 
 export default function EditPackage() {
   const { id } = useParams();
@@ -17,8 +31,39 @@ export default function EditPackage() {
 
   const { data, isLoading } = useQuery({
     queryKey: [`/api/packages/${id}`],
+    // Scripts are generated by a background job - poll until the package settles
+    refetchInterval: (query) =>
+      (query.state.data as any)?.package?.status === "generating" ? 3000 : false,
   });
 
+  // Announce the outcome once a background generation settles
+  const packageStatus = (data as any)?.package?.status;
+  const wasGenerating = useRef(false);
+  useEffect(() => {
+    if (packageStatus === "generating") {
+      wasGenerating.current = true;
+      return;
+    }
+    if (!wasGenerating.current || !packageStatus) return;
+    wasGenerating.current = false;
+
+    const scripts: any[] = (data as any)?.scripts || [];
+    const successCount = scripts.filter((s) => s.status === "completed").length;
+    const failedCount = scripts.filter((s) => s.status === "failed").length;
+    if (failedCount === 0) {
+      toast({
+        title: "Package Generated!",
+        description: `All ${successCount} scripts created successfully.`,
+      });
+    } else {
+      toast({
+        title: "Partial Generation",
+        description: `${successCount} scripts succeeded, ${failedCount} failed. Check individual scripts for details.`,
+        variant: "destructive",
+      });
+    }
+  }, [packageStatus]);
+
   const updateScriptMutation = useMutation({
     mutationFn: async ({
       scriptId,
@@ -38,27 +83,18 @@ export default function EditPackage() {
   });
 
   const generateAllMutation = useMutation({
-    mutationFn: async () => {
+    // 'missing' keeps completed scripts and only generates failed/unfinished ones
+    mutationFn: async (mode: "all" | "missing" = "all") => {
       return await apiRequest(`/api/packages/${id}/generate`, {
         method: "POST",
+        body: JSON.stringify({ mode }),
       });
     },
-    onSuccess: (response) => {
-      const failedCount = response.failedScripts?.length || 0;
-      const successCount = response.generatedScripts.length;
-      
-      if (failedCount === 0) {
-        toast({
-          title: "Package Generated!",
-          description: `All ${successCount} scripts created successfully.`,
-        });
-      } else {
-        toast({
-          title: "Partial Generation",
-          description: `${successCount} scripts succeeded, ${failedCount} failed. Check individual scripts for details.`,
-          variant: "destructive",
-        });
-      }
+    onSuccess: () => {
+      toast({
+        title: "Generation Started",
+        description: "Scripts are being generated in the background. You can leave this page and come back.",
+      });
       queryClient.invalidateQueries({ queryKey: [`/api/packages/${id}`] });
     },
     onError: (error: any) => {
@@ -70,6 +106,28 @@ export default function EditPackage() {
     },
   });
 
+  const regenerateScriptMutation = useMutation({
+    mutationFn: async (scriptId: number) => {
+      return await apiRequest(`/api/packages/${id}/scripts/${scriptId}/regenerate`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Regenerating Script",
+        description: "The script is being regenerated in the background.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/packages/${id}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Regeneration Error",
+        description: error.message || "Failed to regenerate script",
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -87,6 +145,7 @@ export default function EditPackage() {
   }
 
   const { package: pkg, scripts } = data;
+  const hasMissing = pkg.status === 'partial' || pkg.status === 'failed';
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
@@ -112,8 +171,19 @@ export default function EditPackage() {
             </div>
 
             <div className="flex gap-2">
+              {hasMissing && (
+                <Button
+                  variant="outline"
+                  onClick={() => generateAllMutation.mutate("missing")}
+                  disabled={generateAllMutation.isPending}
+                  data-testid="button-generate-missing"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Generate Missing/Failed
+                </Button>
+              )}
               <Button
-                onClick={() => generateAllMutation.mutate()}
+                onClick={() => generateAllMutation.mutate("all")}
                 disabled={generateAllMutation.isPending || pkg.status === 'generating'}
                 data-testid="button-generate-all"
               >
@@ -129,25 +199,29 @@ export default function EditPackage() {
                   </>
                 )}
               </Button>
-              <Button
-                variant="outline"
-                disabled={pkg.status !== 'completed'}
-                onClick={() => {
-                  if (pkg.status === 'completed') {
-                    window.open(`/api/packages/${id}/export`, '_blank');
-                  } else {
-                    toast({
-                      title: "Export Not Available",
-                      description: `Package must be fully completed before export. Current status: ${pkg.status}`,
-                      variant: "destructive",
-                    });
-                  }
-                }}
-                data-testid="button-export"
-              >
-                <Download className="w-4 h-4 mr-2" />
-                Export Package
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    disabled={pkg.status !== 'completed'}
+                    data-testid="button-export"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export Package
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <DropdownMenuItem
+                      key={format}
+                      onClick={() => window.open(`/api/packages/${id}/export?format=${format}`, '_blank')}
+                      data-testid={`menu-export-${format}`}
+                    >
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
@@ -164,6 +238,8 @@ export default function EditPackage() {
                   updates,
                 })
               }
+              onRegenerate={() => regenerateScriptMutation.mutate(script.id)}
+              isRegenerating={regenerateScriptMutation.isPending && regenerateScriptMutation.variables === script.id}
             />
           ))}
         </div>
@@ -176,10 +252,14 @@ function ScriptConceptCard({
   script,
   index,
   onUpdate,
+  onRegenerate,
+  isRegenerating,
 }: {
   script: any;
   index: number;
   onUpdate: (updates: any) => void;
+  onRegenerate: () => void;
+  isRegenerating: boolean;
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [title, setTitle] = useState(script.userModifiedTitle || script.conceptTitle);
@@ -220,21 +300,39 @@ function ScriptConceptCard({
               {script.conceptDescription}
             </CardDescription>
           </div>
-          <Button
-            variant={isEditing ? "default" : "outline"}
-            size="sm"
-            onClick={isEditing ? handleSave : () => setIsEditing(true)}
-            data-testid={`button-edit-${script.id}`}
-          >
-            {isEditing ? (
-              <>
-                <Save className="w-4 h-4 mr-2" />
-                Save
-              </>
-            ) : (
-              "Edit"
+          <div className="flex gap-2">
+            {(script.status === 'failed' || script.status === 'completed') && !isEditing && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onRegenerate}
+                disabled={isRegenerating}
+                data-testid={`button-regenerate-${script.id}`}
+              >
+                {isRegenerating ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                )}
+                Regenerate
+              </Button>
             )}
-          </Button>
+            <Button
+              variant={isEditing ? "default" : "outline"}
+              size="sm"
+              onClick={isEditing ? handleSave : () => setIsEditing(true)}
+              data-testid={`button-edit-${script.id}`}
+            >
+              {isEditing ? (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save
+                </>
+              ) : (
+                "Edit"
+              )}
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Loader2, Plus, Sparkles, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface SessionDraft {
+  goal: string;
+  arcId: string; // "" lets the planner choose
+}
+
+const MAX_SESSIONS = 12;
+
+const DEFAULT_SESSIONS: SessionDraft[] = [
+  { goal: "Build safety and a felt sense of calm", arcId: "" },
+  { goal: "Explore the pattern behind the issue", arcId: "" },
+  { goal: "Rehearse the new response", arcId: "" },
+  { goal: "Consolidate and future-pace", arcId: "" },
+];
+
+export default function CreateTreatmentPlan() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const [title, setTitle] = useState("");
+  const [clientName, setClientName] = useState("");
+  const [presentingIssue, setPresentingIssue] = useState("");
+  const [desiredOutcome, setDesiredOutcome] = useState("");
+  const [clientNotes, setClientNotes] = useState("");
+  const [sessions, setSessions] = useState<SessionDraft[]>(DEFAULT_SESSIONS);
+
+  const { data: narrativeArcs = [] } = useQuery<any[]>({
+    queryKey: ["/api/narrative-arcs?type=clinical"],
+  });
+
+  const createPlanMutation = useMutation({
+    mutationFn: async (data: any) => {
+      return await apiRequest("/api/treatment-plans", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Treatment Plan Created!",
+        description: `${data.sessions.length} sessions planned.`,
+      });
+      navigate(`/plans/${data.plan.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error Creating Plan",
+        description: error.message || "Something went wrong",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSession = (index: number, updates: Partial<SessionDraft>) => {
+    setSessions(sessions.map((session, i) => (i === index ? { ...session, ...updates } : session)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (sessions.some((session) => !session.goal.trim())) {
+      toast({
+        title: "Missing Session Goal",
+        description: "Every session needs a goal",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createPlanMutation.mutate({
+      title,
+      client: {
+        name: clientName,
+        presentingIssue,
+        desiredOutcome,
+        clientNotes: clientNotes || undefined,
+      },
+      sessions: sessions.map((session) => ({
+        goal: session.goal.trim(),
+        arcId: session.arcId || undefined,
+      })),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/dashboard")}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            ← Back to Dreamboard
+          </Button>
+          <h1 className="text-4xl font-bold mb-2">Create Treatment Plan</h1>
+          <p className="text-muted-foreground">
+            Plan a multi-session protocol for one client - each session builds on the last
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardList className="w-5 h-5" />
+                Client Profile
+              </CardTitle>
+              <CardDescription>
+                Shared by every session in the plan
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="title" data-testid="label-title">
+                  Plan Title *
+                </Label>
+                <Input
+                  id="title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g., Public Speaking Confidence - 4 Sessions"
+                  required
+                  data-testid="input-title"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="clientName" data-testid="label-client-name">
+                  Client *
+                </Label>
+                <Input
+                  id="clientName"
+                  value={clientName}
+                  onChange={(e) => setClientName(e.target.value)}
+                  placeholder="Name or alias"
+                  required
+                  data-testid="input-client-name"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="presentingIssue" data-testid="label-issue">
+                  Presenting Issue *
+                </Label>
+                <Input
+                  id="presentingIssue"
+                  value={presentingIssue}
+                  onChange={(e) => setPresentingIssue(e.target.value)}
+                  placeholder="e.g., anxiety before presentations"
+                  required
+                  data-testid="input-issue"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="desiredOutcome" data-testid="label-outcome">
+                  Desired Outcome *
+                </Label>
+                <Input
+                  id="desiredOutcome"
+                  value={desiredOutcome}
+                  onChange={(e) => setDesiredOutcome(e.target.value)}
+                  placeholder="e.g., feel calm and grounded when speaking"
+                  required
+                  data-testid="input-outcome"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="clientNotes" data-testid="label-notes">
+                  Client Notes (Optional)
+                </Label>
+                <Textarea
+                  id="clientNotes"
+                  value={clientNotes}
+                  onChange={(e) => setClientNotes(e.target.value)}
+                  placeholder="Background, preferences, anything to avoid..."
+                  rows={3}
+                  data-testid="input-notes"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Sessions</CardTitle>
+              <CardDescription>
+                In order. Leave the arc on auto to let the planner choose for each session's goal.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {sessions.map((session, index) => (
+                <div key={index} className="flex items-start gap-3" data-testid={`session-row-${index + 1}`}>
+                  <span className="mt-2 w-6 text-sm font-medium text-muted-foreground">{index + 1}.</span>
+                  <div className="flex-1 space-y-2">
+                    <Input
+                      value={session.goal}
+                      onChange={(e) => updateSession(index, { goal: e.target.value })}
+                      placeholder="Session goal"
+                      data-testid={`input-session-goal-${index + 1}`}
+                    />
+                    <Select
+                      value={session.arcId || "auto"}
+                      onValueChange={(value) => updateSession(index, { arcId: value === "auto" ? "" : value })}
+                    >
+                      <SelectTrigger data-testid={`select-session-arc-${index + 1}`}>
+                        <SelectValue placeholder="Auto-select arcs" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Auto-select arcs</SelectItem>
+                        {narrativeArcs.map((arc: any) => (
+                          <SelectItem key={arc.id} value={arc.id}>
+                            {arc.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setSessions(sessions.filter((_, i) => i !== index))}
+                    disabled={sessions.length === 1}
+                    data-testid={`button-remove-session-${index + 1}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setSessions([...sessions, { goal: "", arcId: "" }])}
+                disabled={sessions.length >= MAX_SESSIONS}
+                data-testid="button-add-session"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Session
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="flex gap-3">
+            <Button
+              type="submit"
+              disabled={createPlanMutation.isPending}
+              className="flex-1"
+              data-testid="button-create"
+            >
+              {createPlanMutation.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Planning Sessions...
+                </>
+              ) : (
+                <>
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  Plan Sessions
+                </>
+              )}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => navigate("/dashboard")}
+              disabled={createPlanMutation.isPending}
+              data-testid="button-cancel"
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  SeriesContinuity,
+  SessionAnchors,
+  SessionPlan,
+  TreatmentClientProfile,
+  TreatmentPlan,
+  TreatmentPlanSession,
+} from "@shared/schema";
+
+interface TreatmentPlanResponse {
+  plan: TreatmentPlan;
+  sessions: TreatmentPlanSession[];
+  continuity: SeriesContinuity | null; // What the next session to generate carries forward
+}
+
+export default function ViewTreatmentPlan() {
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<TreatmentPlanResponse>({
+    queryKey: [`/api/treatment-plans/${id}`],
+    // Sessions are generated by a background job - poll until the plan settles
+    refetchInterval: (query) =>
+      (query.state.data as TreatmentPlanResponse | undefined)?.plan.status === "generating" ? 3000 : false,
+  });
+
+  const generateSessionMutation = useMutation({
+    mutationFn: async (sessionId: number) => {
+      return await apiRequest(`/api/treatment-plans/${id}/sessions/${sessionId}/generate`, {
+        method: "POST",
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Generation Started",
+        description: "The session is being generated in the background, building on the sessions before it.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/treatment-plans/${id}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Generation Error",
+        description: error.message || "Failed to generate session",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p>Treatment plan not found</p>
+      </div>
+    );
+  }
+
+  const { plan, sessions, continuity } = data;
+  const client = plan.clientProfile as TreatmentClientProfile;
+  const nextSession = sessions.find((session) => session.status !== "completed");
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-8">
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/dashboard")}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dreamboard
+          </Button>
+
+          <h1 className="text-4xl font-bold mb-2" data-testid="text-plan-title">{plan.title}</h1>
+          <p className="text-muted-foreground">
+            {client.name} - {client.presentingIssue} → {client.desiredOutcome}
+          </p>
+          <Badge className="mt-2" data-testid="badge-status">{plan.status}</Badge>
+        </div>
+
+        {continuity && continuity.previousSessions.length > 0 && (
+          <Card className="mb-6" data-testid="card-continuity">
+            <CardHeader>
+              <CardTitle className="text-lg">Carried into session {continuity.sessionNumber}</CardTitle>
+              <CardDescription>Anchors from earlier sessions the next script returns to</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {continuity.metaphorFamily && (
+                <div>
+                  <span className="font-medium">Metaphor:</span>{" "}
+                  <span className="text-muted-foreground">
+                    {continuity.metaphorFamily}
+                    {continuity.images.length > 0 && ` (${continuity.images.join(", ")})`}
+                  </span>
+                </div>
+              )}
+              {continuity.suggestions.length > 0 && (
+                <ul className="space-y-1 text-muted-foreground">
+                  {continuity.suggestions.map((suggestion, i) => (
+                    <li key={i}>
+                      <span className="text-xs">Session {suggestion.sessionNumber}:</span> "{suggestion.text}"
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="space-y-4">
+          {sessions.map((session) => (
+            <SessionCard
+              key={session.id}
+              session={session}
+              canGenerate={session.status !== "generating" && (session.status === "completed" || session.id === nextSession?.id)}
+              onGenerate={() => generateSessionMutation.mutate(session.id)}
+              isGenerating={generateSessionMutation.isPending && generateSessionMutation.variables === session.id}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SessionCard({
+  session,
+  canGenerate,
+  onGenerate,
+  isGenerating,
+}: {
+  session: TreatmentPlanSession;
+  canGenerate: boolean;
+  onGenerate: () => void;
+  isGenerating: boolean;
+}) {
+  const plan = session.plan as SessionPlan | null;
+  const anchors = session.anchors as SessionAnchors | null;
+
+  return (
+    <Card data-testid={`card-session-${session.sessionNumber}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1">
+            <div className="flex items-center gap-2 mb-2">
+              <Badge variant="outline">Session {session.sessionNumber}</Badge>
+              <Badge data-testid={`badge-session-status-${session.sessionNumber}`}>{session.status}</Badge>
+            </div>
+            <CardTitle className="text-lg">{session.goal}</CardTitle>
+            {session.presentingIssue && <CardDescription>Focus: {session.presentingIssue}</CardDescription>}
+          </div>
+          <Button
+            variant={session.status === "completed" ? "outline" : "default"}
+            size="sm"
+            onClick={onGenerate}
+            disabled={!canGenerate || isGenerating}
+            data-testid={`button-generate-session-${session.sessionNumber}`}
+          >
+            {isGenerating || session.status === "generating" ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : session.status === "completed" ? (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            ) : (
+              <Sparkles className="w-4 h-4 mr-2" />
+            )}
+            {session.status === "completed" ? "Regenerate" : "Generate"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {plan && (
+          <>
+            <div>
+              <span className="font-medium">Arcs:</span>{" "}
+              <span className="text-muted-foreground">{plan.arcs.map((arc) => arc.arcName).join(", ")}</span>
+            </div>
+            {plan.metaphorFamily && (
+              <div>
+                <span className="font-medium">Metaphor:</span>{" "}
+                <span className="text-muted-foreground">{plan.metaphorFamily}</span>
+              </div>
+            )}
+          </>
+        )}
+        {anchors && anchors.suggestions.length > 0 && (
+          <div className="pt-2 border-t">
+            <span className="font-medium">Key suggestions:</span>
+            <ul className="mt-1 space-y-1 text-muted-foreground">
+              {anchors.suggestions.map((suggestion, i) => (
+                <li key={i}>"{suggestion}"</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {session.generationId && (
+          <Badge variant="secondary" data-testid={`badge-generated-${session.sessionNumber}`}>
+            ✓ Script Generated (ID: {session.generationId})
+          </Badge>
+        )}
+        {session.status === "failed" && session.errorMessage && (
+          <p className="text-destructive" data-testid={`text-error-${session.sessionNumber}`}>
+            Error: {session.errorMessage}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,551 @@
+import { useState, useEffect, useMemo } from "react";
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DimensionSlider } from "@/components/dimension-slider";
+import { AlertTriangle, ArrowLeft, Loader2, Save, Sparkles, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { templateJSONSchema, type DimensionConfig, type Template, type TemplateJSON } from "@shared/schema";
+
+interface AssembledPrompt {
+  systemPrompt: string;
+  userPrompt: string;
+  dimensionInstructions: string;
+}
+
+type Dimension = keyof DimensionConfig;
+
+// Text and list fields the builder edits per dimension (level is always shown)
+const DIMENSION_FIELDS: Record<Dimension, { label: string; description: string; text: string[]; lists: string[] }> = {
+  somatic: { label: "Somatic", description: "Body, breath and physical sensation", text: ["emphasis"], lists: ["techniques"] },
+  language: { label: "Language", description: "Hypnotic language complexity and style", text: ["style", "pacing"], lists: [] },
+  symbolic: { label: "Symbolic", description: "Metaphor, archetype and story", text: ["archetype", "metaphor"], lists: [] },
+  psychological: { label: "Psychological", description: "Depth of therapeutic change work", text: ["depth"], lists: ["approaches"] },
+  temporal: { label: "Temporal", description: "Regression, progression and timeline work", text: ["focus"], lists: ["work_types"] },
+  perspective: { label: "Perspective", description: "Point of view and perspective shifts", text: ["primary_pov"], lists: ["techniques"] },
+  relational: { label: "Relational", description: "Inner and outer relationships", text: [], lists: ["approaches"] },
+  spiritual: { label: "Spiritual", description: "Meaning, purpose and transcendence", text: ["framework"], lists: [] },
+};
+
+const DIMENSIONS = Object.keys(DIMENSION_FIELDS) as Dimension[];
+
+const label = (field: string) => field.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+function blankTemplate(): TemplateJSON {
+  return {
+    id: "",
+    version: "1.0.0",
+    name: "",
+    description: "",
+    category: "custom",
+    tags: [],
+    use_cases: [],
+    presenting_issues: [],
+    dimensions: {
+      somatic: { level: 50, techniques: [] },
+      language: { level: 50 },
+      symbolic: { level: 50, archetype: null, metaphor: null },
+      psychological: { level: 50, approaches: [] },
+      temporal: { level: 0, work_types: [] },
+      perspective: { level: 0, techniques: [] },
+      relational: { level: 0, approaches: [] },
+      spiritual: { enabled: false, level: 0 },
+    },
+    generation_rules: {},
+    prompting_hints: { priority: [], avoid: [] },
+    metadata: { created_by: "user", usage_count: 0, is_public: false },
+  };
+}
+
+const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 60) || "template";
+
+/**
+ * Values the system templates already use for a field, offered as one-click suggestions
+ */
+function collectSuggestions(templates: Template[]) {
+  const suggestions: Record<string, Set<string>> = {};
+  const add = (key: string, values: unknown) => {
+    const list = Array.isArray(values) ? values : typeof values === "string" ? [values] : [];
+    suggestions[key] = suggestions[key] || new Set();
+    list.forEach((value) => suggestions[key].add(String(value)));
+  };
+  for (const template of templates) {
+    const json = template.jsonData as TemplateJSON;
+    for (const dimension of DIMENSIONS) {
+      const config = json.dimensions[dimension] as unknown as Record<string, unknown>;
+      for (const field of [...DIMENSION_FIELDS[dimension].text, ...DIMENSION_FIELDS[dimension].lists]) {
+        add(`${dimension}.${field}`, config[field]);
+      }
+    }
+    Object.entries(json.generation_rules || {}).forEach(([field, value]) => add(`generation_rules.${field}`, value));
+  }
+  return Object.fromEntries(Object.entries(suggestions).map(([key, values]) => [key, Array.from(values).sort()]));
+}
+
+export default function TemplateBuilder() {
+  const { templateId } = useParams();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const isNew = !templateId;
+
+  const [draft, setDraft] = useState<TemplateJSON>(blankTemplate);
+  const [isPublic, setIsPublic] = useState(false);
+  const [saved, setSaved] = useState<string | null>(null); // Draft and visibility as last saved; null = never saved
+  const [sampleIssue, setSampleIssue] = useState("anxiety before presentations");
+  const [sampleOutcome, setSampleOutcome] = useState("feel calm and confident");
+  const [assembled, setAssembled] = useState<AssembledPrompt | null>(null);
+  const [sample, setSample] = useState<{ preview: string; estimatedLength: string } | null>(null);
+
+  const { data: existing, isLoading } = useQuery<Template>({
+    queryKey: [`/api/templates/${templateId}`],
+    enabled: !isNew,
+  });
+
+  const { data: systemTemplates = [] } = useQuery<Template[]>({
+    queryKey: ["/api/templates?type=system"],
+  });
+  const suggestions = useMemo(() => collectSuggestions(systemTemplates), [systemTemplates]);
+
+  useEffect(() => {
+    if (existing) {
+      setDraft(existing.jsonData as TemplateJSON);
+      setIsPublic(existing.isPublic);
+      setSaved(JSON.stringify({ json: existing.jsonData, isPublic: existing.isPublic }));
+    }
+  }, [existing]);
+
+  const validation = useMemo(() => templateJSONSchema.safeParse(draft), [draft]);
+  const issues = [
+    ...(draft.name.trim() ? [] : [{ path: "name", message: "Name is required" }]),
+    ...(validation.success ? [] : validation.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))),
+  ];
+  const isValid = issues.length === 0;
+  const isDirty = saved !== JSON.stringify({ json: draft, isPublic });
+
+  // Live preview of the exact prompts the DimensionAssembler builds for this draft
+  useEffect(() => {
+    if (!validation.success) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const result = await apiRequest("/api/templates/prompt-preview", {
+          method: "POST",
+          body: JSON.stringify({ template: draft, presentingIssue: sampleIssue, desiredOutcome: sampleOutcome }),
+        });
+        if (!cancelled) setAssembled(result);
+      } catch {
+        // Validation is shown locally; a failed preview keeps the last one
+      }
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [draft, sampleIssue, sampleOutcome, validation.success]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<Template> => {
+      if (isNew && saved === null) {
+        const id = `${slugify(draft.name)}-${Date.now().toString(36)}`;
+        const jsonData = { ...draft, id, metadata: { ...draft.metadata, is_public: isPublic } };
+        return await apiRequest("/api/templates", {
+          method: "POST",
+          body: JSON.stringify({
+            templateId: id,
+            jsonData,
+            name: jsonData.name,
+            description: jsonData.description,
+            category: jsonData.category,
+            tags: jsonData.tags,
+            isPublic,
+          }),
+        });
+      }
+      return await apiRequest(`/api/templates/${draft.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ jsonData: { ...draft, metadata: { ...draft.metadata, is_public: isPublic } }, isPublic }),
+      });
+    },
+    onSuccess: (template) => {
+      const json = template.jsonData as TemplateJSON;
+      setDraft(json);
+      setIsPublic(template.isPublic);
+      setSaved(JSON.stringify({ json, isPublic: template.isPublic }));
+      queryClient.invalidateQueries({ queryKey: [`/api/templates/${template.templateId}`] });
+      if (isNew) {
+        navigate(`/templates/${template.templateId}/edit`, { replace: true });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sampleMutation = useMutation({
+    mutationFn: async () => {
+      // The sample is generated from the saved template
+      const template = isDirty ? await saveMutation.mutateAsync() : null;
+      const id = template?.templateId ?? draft.id;
+      return await apiRequest(`/api/templates/${id}/preview`, {
+        method: "POST",
+        body: JSON.stringify({ presentingIssue: sampleIssue, desiredOutcome: sampleOutcome }),
+      });
+    },
+    onSuccess: (data) => setSample(data),
+    onError: (error: any) => {
+      toast({
+        title: "Sample Failed",
+        description: error.message || "Failed to generate sample",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDimension = (dimension: Dimension, updates: Record<string, unknown>) => {
+    setDraft({
+      ...draft,
+      dimensions: { ...draft.dimensions, [dimension]: { ...draft.dimensions[dimension], ...updates } },
+    });
+  };
+
+  if (!isNew && isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <Button variant="ghost" onClick={() => navigate("/dashboard")} className="mb-4" data-testid="button-back">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Dreamboard
+            </Button>
+            <h1 className="text-4xl font-bold mb-2">{isNew ? "Build a Template" : `Edit ${draft.name}`}</h1>
+            <p className="text-muted-foreground">Shape all eight dimensions and watch the generation prompt update as you go</p>
+          </div>
+          <div className="flex items-center gap-3 pt-12">
+            {!isNew && <Badge variant="outline" data-testid="badge-version">v{draft.version}</Badge>}
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!isValid || !isDirty || saveMutation.isPending}
+              data-testid="button-save"
+            >
+              {saveMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              {saved === null ? "Create Template" : isDirty ? "Save Changes" : "Saved"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Basics</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <TextField label="Name *" value={draft.name} onChange={(name) => setDraft({ ...draft, name })} testId="name" />
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    rows={2}
+                    data-testid="input-description"
+                  />
+                </div>
+                <TextField label="Category" value={draft.category} onChange={(category) => setDraft({ ...draft, category })} testId="category" />
+                <ListField label="Tags" values={draft.tags} onChange={(tags) => setDraft({ ...draft, tags })} testId="tags" />
+                <ListField label="Presenting Issues" values={draft.presenting_issues} onChange={(presenting_issues) => setDraft({ ...draft, presenting_issues })} testId="presenting-issues" />
+                <ListField label="Use Cases" values={draft.use_cases} onChange={(use_cases) => setDraft({ ...draft, use_cases })} testId="use-cases" />
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label htmlFor="isPublic">Publish to marketplace</Label>
+                    <p className="text-xs text-muted-foreground">Public templates are listed once a moderator approves them, and again after each edit</p>
+                  </div>
+                  <Switch id="isPublic" checked={isPublic} onCheckedChange={setIsPublic} data-testid="switch-public" />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Dimensions</CardTitle>
+                <CardDescription>Levels are 0-100; 0 leaves a dimension out of the prompt</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-8">
+                {DIMENSIONS.map((dimension) => {
+                  const config = draft.dimensions[dimension] as unknown as Record<string, any>;
+                  const fields = DIMENSION_FIELDS[dimension];
+                  return (
+                    <div key={dimension} className="space-y-3" data-testid={`section-${dimension}`}>
+                      {dimension === "spiritual" && (
+                        <div className="flex items-center justify-between">
+                          <Label htmlFor="spiritual-enabled">Spiritual dimension enabled</Label>
+                          <Switch
+                            id="spiritual-enabled"
+                            checked={draft.dimensions.spiritual.enabled}
+                            onCheckedChange={(enabled) => updateDimension("spiritual", { enabled })}
+                            data-testid="switch-spiritual-enabled"
+                          />
+                        </div>
+                      )}
+                      <DimensionSlider
+                        name={fields.label}
+                        description={fields.description}
+                        value={config.level}
+                        enabled={dimension !== "spiritual" || draft.dimensions.spiritual.enabled}
+                        onChange={(level) => updateDimension(dimension, { level })}
+                      />
+                      {fields.text.map((field) => (
+                        <TextField
+                          key={field}
+                          label={label(field)}
+                          value={config[field] ?? ""}
+                          onChange={(value) => updateDimension(dimension, { [field]: value || (dimension === "symbolic" ? null : undefined) })}
+                          suggestions={suggestions[`${dimension}.${field}`]}
+                          testId={`${dimension}-${field}`}
+                        />
+                      ))}
+                      {fields.lists.map((field) => (
+                        <ListField
+                          key={field}
+                          label={label(field)}
+                          values={config[field] ?? []}
+                          onChange={(values) => updateDimension(dimension, { [field]: values })}
+                          suggestions={suggestions[`${dimension}.${field}`]}
+                          testId={`${dimension}-${field}`}
+                        />
+                      ))}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Generation Rules & Hints</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {(["opening_style", "closing_style", "voice_tone", "pacing"] as const).map((field) => (
+                  <TextField
+                    key={field}
+                    label={label(field)}
+                    value={draft.generation_rules[field] ?? ""}
+                    onChange={(value) => setDraft({ ...draft, generation_rules: { ...draft.generation_rules, [field]: value || undefined } })}
+                    suggestions={suggestions[`generation_rules.${field}`]}
+                    testId={`rules-${field}`}
+                  />
+                ))}
+                <ListField
+                  label="Prioritize"
+                  values={draft.prompting_hints.priority ?? []}
+                  onChange={(priority) => setDraft({ ...draft, prompting_hints: { ...draft.prompting_hints, priority } })}
+                  testId="hints-priority"
+                />
+                <ListField
+                  label="Avoid"
+                  values={draft.prompting_hints.avoid ?? []}
+                  onChange={(avoid) => setDraft({ ...draft, prompting_hints: { ...draft.prompting_hints, avoid } })}
+                  testId="hints-avoid"
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6 lg:sticky lg:top-4 lg:self-start">
+            {issues.length > 0 && (
+              <Card className="border-destructive" data-testid="card-validation">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-destructive" />
+                    Fix before saving
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="text-sm space-y-1">
+                    {issues.map((issue, i) => (
+                      <li key={i}>
+                        <code className="text-xs">{issue.path || "(template)"}</code>: {issue.message}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Wand2 className="w-5 h-5" />
+                  Live Prompt Preview
+                </CardTitle>
+                <CardDescription>The exact prompt this template produces for a sample client</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-3 md:grid-cols-2">
+                  <TextField label="Sample issue" value={sampleIssue} onChange={setSampleIssue} testId="sample-issue" />
+                  <TextField label="Sample outcome" value={sampleOutcome} onChange={setSampleOutcome} testId="sample-outcome" />
+                </div>
+                <Tabs defaultValue="system">
+                  <TabsList>
+                    <TabsTrigger value="system">System Prompt</TabsTrigger>
+                    <TabsTrigger value="user">User Prompt</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="system">
+                    <pre className="max-h-[480px] overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs" data-testid="text-system-prompt">
+                      {assembled?.systemPrompt ?? "Complete the template to see its prompt"}
+                    </pre>
+                  </TabsContent>
+                  <TabsContent value="user">
+                    <pre className="max-h-[480px] overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs" data-testid="text-user-prompt">
+                      {assembled?.userPrompt ?? "Complete the template to see its prompt"}
+                    </pre>
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Sparkles className="w-5 h-5" />
+                  Sample
+                </CardTitle>
+                <CardDescription>Generate a ~150-word sample for the sample client{isDirty ? " (saves the template first)" : ""}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Button
+                  onClick={() => sampleMutation.mutate()}
+                  disabled={!isValid || sampleMutation.isPending || !sampleIssue.trim() || !sampleOutcome.trim()}
+                  data-testid="button-generate-sample"
+                >
+                  {sampleMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                  Generate 150-word sample
+                </Button>
+                {sample && (
+                  <div className="space-y-2" data-testid="text-sample">
+                    <p className="text-sm whitespace-pre-wrap">{sample.preview}</p>
+                    <Badge variant="secondary">Full script: {sample.estimatedLength}</Badge>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TextField({
+  label,
+  value,
+  onChange,
+  suggestions = [],
+  testId,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  suggestions?: string[];
+  testId: string;
+}) {
+  const listId = `suggestions-${testId}`;
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={testId}>{label}</Label>
+      <Input
+        id={testId}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        list={suggestions.length > 0 ? listId : undefined}
+        data-testid={`input-${testId}`}
+      />
+      {suggestions.length > 0 && (
+        <datalist id={listId}>
+          {suggestions.map((suggestion) => (
+            <option key={suggestion} value={suggestion} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Comma-separated list with the values other templates use as one-click additions
+ */
+function ListField({
+  label,
+  values,
+  onChange,
+  suggestions = [],
+  testId,
+}: {
+  label: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  suggestions?: string[];
+  testId: string;
+}) {
+  const [text, setText] = useState(values.join(", "));
+
+  // Keep the text in sync when the list changes from outside (loading, suggestions)
+  useEffect(() => {
+    const parsed = text.split(",").map((value) => value.trim()).filter(Boolean);
+    if (parsed.join("\u0000") !== values.join("\u0000")) setText(values.join(", "));
+  }, [values]);
+
+  const unused = suggestions.filter((suggestion) => !values.includes(suggestion));
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={testId}>{label}</Label>
+      <Input
+        id={testId}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          onChange(e.target.value.split(",").map((value) => value.trim()).filter(Boolean));
+        }}
+        placeholder="Comma-separated"
+        data-testid={`input-${testId}`}
+      />
+      {unused.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {unused.slice(0, 12).map((suggestion) => (
+            <Badge
+              key={suggestion}
+              variant="outline"
+              className="cursor-pointer text-xs hover:bg-muted"
+              onClick={() => onChange([...values, suggestion])}
+              data-testid={`suggestion-${testId}-${suggestion}`}
+            >
+              + {suggestion}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
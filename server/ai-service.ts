@@ -1,34 +1,16 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { dimensionAssembler, type AssembledPrompt } from './dimension-assembler';
 import { scriptEngine } from './script-engine';
 import { runPatternRefiner } from './pattern-refiner';
 import { runQualityGuard } from './quality-guard';
-import type { TemplateJSON } from '@shared/schema';
-
-/*
-<important_code_snippet_instructions>
-The newest Anthropic model is "claude-sonnet-4-20250514", not "claude-3-7-sonnet-20250219", "claude-3-5-sonnet-20241022" nor "claude-3-sonnet-20240229". 
-If the user doesn't specify a model, always prefer using "claude-sonnet-4-20250514" as it is the latest model.
-</important_code_snippet_instructions>
-*/
-
-// <important_do_not_delete>
-const DEFAULT_MODEL_STR = "claude-sonnet-4-20250514";
-// </important_do_not_delete>
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-// Helper function to strip markdown code blocks from AI responses
-function cleanJsonResponse(text: string): string {
-  // Remove markdown code block markers (```json, ```, etc.)
-  const cleaned = text
-    .replace(/^```(?:json)?\s*\n?/gm, '')
-    .replace(/\n?```\s*$/gm, '')
-    .trim();
-  return cleaned;
-}
+import { llmProvider, cleanJsonResponse } from './llm-provider';
+import { PartialJsonStringReader, type ProgressCallback } from './generation-stream';
+import type { SafetyScreeningResult } from './script-engine/safety-screener';
+import { pacingModel, formatDuration, type DurationEstimate, type WordBudget } from './script-engine/pacing-model';
+import { formatSeriesContinuity } from './script-engine/treatment-planner';
+import { SCRIPT_PHASES, PHASE_SHARES, type ScriptPhase } from './script-engine/phase-segmenter';
+import type { ArcJourney, SeriesContinuity, TemplateJSON } from '@shared/schema';
+import { composeRepairs, type ScriptRepairSet } from '@shared/script-repair';
+import { READER_MARKUP_GUIDE, hasReaderMarkup, parseReaderScript, renderPlainText } from '@shared/reader-script';
 
 // Template-based generation parameters
 export interface TemplateScriptGenerationParams {
@@ -37,8 +19,15 @@ export interface TemplateScriptGenerationParams {
   desiredOutcome: string;
   clientNotes?: string;
   arcId?: string; // Optional manual narrative arc selection (e.g., "earned-delight", "oasis-rest")
+  arcJourney?: ArcJourney; // Multi-stage arc journey (overrides arcId)
   emergenceType?: 'regular' | 'sleep'; // How to bring them out of trance
   targetWordCount?: number; // Default 1500-2000 for regular, 3000+ for DREAM
+  targetDurationMinutes?: number; // Converted to word budgets by the pacing model (overrides targetWordCount)
+  ttsSpeed?: number; // Narration speed the duration is planned and estimated for
+  onProgress?: ProgressCallback; // Optional: stage + partial text events for SSE
+  safety?: SafetyScreeningResult; // Screening the caller already ran (and audited); the engine screens when omitted
+  continuity?: SeriesContinuity; // Treatment plan sessions: the anchors of earlier sessions to build on
+  readerMarkup?: boolean; // Polish the final script with reader cues (sections, pauses, breaths) for reading aloud
 }
 
 // Remix generation parameters
@@ -70,6 +59,10 @@ export interface FullScriptGenerationResult {
   };
   systemPrompt?: string; // Track the system prompt for testing/debugging
   userPrompt?: string; // Track the user prompt for testing/debugging
+  repairs?: ScriptRepairSet; // Span repairs from the refiner and Quality Guard, against the draft (omitted once reader cues are added)
+  estimatedDuration?: DurationEstimate; // Spoken duration of fullScript
+  wordBudget?: WordBudget; // Set when a target duration was requested
+  generationPlan?: { arcs: string[]; primaryMetaphor: string | null }; // What the ScriptEngine planned
 }
 
 // Dimension values for analysis
@@ -102,7 +95,7 @@ export class AIService {
       params.clientNotes || ''
     );
     
-    // Step 2: Get IP-enhanced directives from ScriptEngine
+    // Step 2: Get IP-enhanced directives from ScriptEngine (throws SafetyReferralError on refer-out)
     const engineOutput = await scriptEngine.generate({
       presentingIssue: params.presentingIssue,
       desiredOutcome: params.desiredOutcome,
@@ -110,7 +103,8 @@ export class AIService {
       symbolicDimensionLevel: params.template.dimensions.symbolic.level,
       somaticDimensionLevel: params.template.dimensions.somatic.level,
       clientLevel: 'beginner', // Default for preview
-      targetTranceDep: 'light'
+      targetTranceDep: 'light',
+      safety: params.safety
     });
     
     // Step 3: Combine both into enhanced prompts
@@ -137,18 +131,13 @@ Format as JSON:
   "estimatedLength": "15-20 minutes"
 }`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 2000,
+    const responseText = await llmProvider.complete({
+      task: 'preview',
       system: enhancedSystemPrompt,
-      messages: [{ role: 'user', content: previewPrompt }],
+      prompt: previewPrompt,
+      maxTokens: 2000,
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     
     // Include prompts for tracking/debugging
     return {
@@ -170,9 +159,15 @@ Format as JSON:
       params.clientNotes || ''
     );
     
+    const onProgress = params.onProgress;
+
     // Step 2: Get IP-enhanced directives from ScriptEngine
+    onProgress?.({ type: 'stage', stage: 'plan', status: 'started', message: 'Planning narrative arcs and metaphor' });
     const emergenceType = params.emergenceType || 'regular';
-    const targetWordCount = params.targetWordCount || 1750; // Default to mid-range of 1500-2000
+    const wordBudget = params.targetDurationMinutes
+      ? pacingModel.wordBudget(params.targetDurationMinutes, { speed: params.ttsSpeed, emergenceType, journey: params.arcJourney })
+      : undefined;
+    const targetWordCount = wordBudget?.totalWords || params.targetWordCount || 1750; // Default to mid-range of 1500-2000
     const engineOutput = await scriptEngine.generate({
       presentingIssue: params.presentingIssue,
       desiredOutcome: params.desiredOutcome,
@@ -182,7 +177,34 @@ Format as JSON:
       clientLevel: 'intermediate', // Full scripts assume some experience
       targetTranceDep: 'medium',
       emergenceType: emergenceType,
-      arcId: params.arcId // Optional manual arc selection
+      arcId: params.arcId, // Optional manual arc selection
+      arcJourney: params.arcJourney,
+      targetWordCount: targetWordCount,
+      safety: params.safety,
+      preferredMetaphorFamily: params.continuity?.metaphorFamily || undefined
+    });
+    onProgress?.({
+      type: 'stage',
+      stage: 'plan',
+      status: 'complete',
+      message: 'Engine plan ready',
+      data: {
+        arcs: engineOutput.generationContract.selectedArcs.map(a => a.arcName),
+        primaryMetaphor: engineOutput.generationContract.primaryMetaphor?.family || null,
+      },
+    });
+    
+    // Outline: the phase layout and word targets the draft is written to
+    onProgress?.({ type: 'stage', stage: 'outline', status: 'started', message: 'Laying out the phases' });
+    const phaseWords = wordBudget?.phases ?? Object.fromEntries(
+      SCRIPT_PHASES.map(phase => [phase, Math.round(targetWordCount * PHASE_SHARES[phase])])
+    ) as Record<ScriptPhase, number>;
+    onProgress?.({
+      type: 'stage',
+      stage: 'outline',
+      status: 'complete',
+      message: `Outline ready (~${targetWordCount} words)`,
+      data: { phases: phaseWords, stages: wordBudget?.stages },
     });
     
     // Step 3: Combine both into enhanced prompts
@@ -200,11 +222,15 @@ You MUST weave these narrative arcs throughout the script and maintain metaphor
 
 **STRUCTURED INSTRUCTIONS FROM SCRIPT ENGINE**:
 ${engineOutput.structuredInstructions.join('\n')}
-
+${params.continuity ? `
+**SERIES CONTINUITY**:
+${formatSeriesContinuity(params.continuity)}
+` : ''}
 **TASK**: Generate a COMPLETE hypnosis script following ALL the instructions above.
 
 Requirements:
 1. FULL SCRIPT (~${targetWordCount} words) with all phases:
+   (${wordBudget ? `Read aloud in ~${wordBudget.targetMinutes} minutes - w` : 'W'}ord budget: induction ~${phaseWords.induction}, deepening ~${phaseWords.deepening}, therapeutic work ~${phaseWords.work}, emergence ~${phaseWords.emergence})
    - Induction (guide client into trance) - Use somatic anchoring early (first 100-150 words)
    - Deepening (deepen the trance state) - Apply selected narrative arcs
    - Therapeutic work (address the issue) - Maintain metaphor consistency, use all selected arcs
@@ -233,42 +259,136 @@ Format as JSON:
 
     // Stage 2: Dream Maker (generate script)
     console.log('[STAGE 2] Dream Maker - Generating script...');
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 4000,
+    onProgress?.({ type: 'stage', stage: 'draft', status: 'started', message: 'Writing the script' });
+    const scriptReader = new PartialJsonStringReader('fullScript');
+    const responseText = await llmProvider.complete({
+      task: 'full-script',
       system: enhancedSystemPrompt,
-      messages: [{ role: 'user', content: fullScriptPrompt }],
+      prompt: fullScriptPrompt,
+      maxTokens: 4000,
+      onToken: onProgress && ((chunk) => {
+        const text = scriptReader.push(chunk);
+        if (text) onProgress({ type: 'token', stage: 'draft', text });
+      }),
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     console.log('[STAGE 2] ✓ Script generated');
+    onProgress?.({
+      type: 'stage',
+      stage: 'draft',
+      status: 'complete',
+      message: 'Draft complete',
+      data: { wordCount: result.fullScript.split(/\s+/).filter(Boolean).length },
+    });
     
     // Stage 3: Pattern Refiner (fix repetitive patterns)
-    const refinerResult = await runPatternRefiner(result.fullScript);
+    onProgress?.({ type: 'stage', stage: 'refiner', status: 'started', message: 'Checking sentence patterns' });
+    const refinerResult = await runPatternRefiner(result.fullScript, { mode: 'spans' });
     const refinedScript = refinerResult.refinedScript;
+    onProgress?.({
+      type: 'stage',
+      stage: 'refiner',
+      status: 'complete',
+      message: refinerResult.changesMessage,
+      data: {
+        diversityScore: refinerResult.analysis.diversityScore,
+        changed: refinedScript !== result.fullScript,
+        repairs: refinerResult.repairs?.length ?? 0,
+      },
+    });
     
     // Stage 4: Quality Guard (validate and polish)
+    onProgress?.({ type: 'stage', stage: 'quality', status: 'started', message: 'Running quality checks' });
     const qualityResult = await runQualityGuard(refinedScript, {
       emergenceType: emergenceType,
       targetWordCount: targetWordCount,
-      allowRetry: true
+      allowRetry: true,
+      useLlmSegmentation: true,
+      repairMode: 'spans'
+    });
+    onProgress?.({
+      type: 'stage',
+      stage: 'quality',
+      status: 'complete',
+      message: `Quality score ${qualityResult.score}%`,
+      data: {
+        score: qualityResult.score,
+        passed: qualityResult.passed,
+        checks: qualityResult.checks.map(c => ({ name: c.name, passed: c.passed, phase: c.phase, principle: c.principle })),
+        segmentation: qualityResult.segmentation,
+        repairs: qualityResult.repairs?.length ?? 0,
+      },
     });
     
     console.log(`[4-STAGE PIPELINE] Complete! Final quality score: ${qualityResult.score}%`);
     
+    // Stage 5 (optional): Polish - reader cues go on last so the refiner and Quality Guard only ever see prose
+    let finalScript = qualityResult.finalScript;
+    if (params.readerMarkup) {
+      onProgress?.({ type: 'stage', stage: 'polish', status: 'started', message: 'Adding reader cues' });
+      const marked = await this.addReaderMarkup(finalScript, onProgress);
+      if (marked) finalScript = marked;
+      onProgress?.({
+        type: 'stage',
+        stage: 'polish',
+        status: 'complete',
+        message: marked ? 'Reader cues added' : 'Reader cues skipped (the wording changed)',
+        data: { applied: Boolean(marked) },
+      });
+    }
+    
+    const estimatedDuration = pacingModel.estimate(finalScript, { speed: params.ttsSpeed, emergenceType });
+    console.log(`[4-STAGE PIPELINE] Estimated duration: ${formatDuration(estimatedDuration)}${wordBudget ? ` (target: ${wordBudget.targetMinutes} min)` : ''}`);
+    
     // Include prompts for tracking/debugging
     return {
       ...result,
-      fullScript: qualityResult.finalScript, // Use quality-checked script
+      fullScript: finalScript, // Use quality-checked script
+      // Repairs apply to prose; the marked-up script can't be rebuilt from them
+      repairs: finalScript === qualityResult.finalScript ? {
+        base: result.fullScript,
+        repairs: composeRepairs(result.fullScript, refinerResult.repairs || [], qualityResult.repairs || []),
+      } : undefined,
+      estimatedDuration,
+      wordBudget,
+      generationPlan: {
+        arcs: engineOutput.generationContract.selectedArcs.map(a => a.arcId),
+        primaryMetaphor: engineOutput.generationContract.primaryMetaphor?.family ?? null,
+      },
       systemPrompt: enhancedSystemPrompt,
       userPrompt: fullScriptPrompt,
     };
   }
 
+  /**
+   * Add reader-script cues to a finished script without changing its wording.
+   * Returns null when the model rewrote the text instead, so the checked script is kept.
+   */
+  private async addReaderMarkup(script: string, onProgress?: ProgressCallback): Promise<string | null> {
+    const marked = (await llmProvider.complete({
+      task: 'reader-markup',
+      system: 'You prepare finished hypnosis scripts for a practitioner to read aloud. You add delivery cues; you never change the words.',
+      prompt: `SCRIPT:
+${script}
+
+${READER_MARKUP_GUIDE}
+
+TASK: Return the script above with reader markup added. Keep every word and sentence exactly as written, in the same order. Output only the marked-up script.`,
+      maxTokens: 6000,
+      onToken: onProgress && ((text) => onProgress({ type: 'token', stage: 'polish', text })),
+    })).trim();
+
+    const words = (text: string) => text.toLowerCase().match(/[a-z0-9']+/g) || [];
+    const original = words(script);
+    const spoken = words(renderPlainText(parseReaderScript(marked)));
+    const changed = Math.abs(spoken.length - original.length);
+    if (!hasReaderMarkup(marked) || changed > Math.max(5, original.length * 0.02)) {
+      console.warn(`[READER MARKUP] Discarded markup pass (${original.length} words in, ${spoken.length} out)`);
+      return null;
+    }
+    return marked;
+  }
+
   /**
    * Generate remix script by applying template to existing script
    */
@@ -311,22 +431,18 @@ Format as JSON:
   }
 }`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 4000,
+    const responseText = await llmProvider.complete({
+      task: 'remix-script',
       system: assembled.systemPrompt,
-      messages: [{ role: 'user', content: remixPrompt }],
+      prompt: remixPrompt,
+      maxTokens: 4000,
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     
     // Include prompts for tracking/debugging
     return {
       ...result,
+      estimatedDuration: pacingModel.estimate(result.fullScript),
       systemPrompt: assembled.systemPrompt,
       userPrompt: remixPrompt,
     };
@@ -375,18 +491,13 @@ Format as JSON:
   "analysis": "Brief explanation of the script's dimensional pattern and overall approach..."
 }`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 1500,
+    const responseText = await llmProvider.complete({
+      task: 'analyze-dimensions',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: 1500,
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     return result;
   }
 
@@ -434,18 +545,13 @@ Format as JSON:
   "storyLength": "approximate word count"
 }`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 3000,
+    const responseText = await llmProvider.complete({
+      task: 'dream-story',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: 3000,
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     return result;
   }
 
@@ -494,19 +600,14 @@ Format as JSON array:
 
 Make each concept distinct and valuable. Think like a professional creating a sellable product.`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 4000,
+    const responseText = await llmProvider.complete({
+      task: 'package-concepts',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: 4000,
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
     
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     return result;
   }
 
@@ -540,19 +641,14 @@ Format as JSON:
   "title": "Your beautiful title here"
 }`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 200,
+    const responseText = await llmProvider.complete({
+      task: 'dream-title',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: 200,
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
     
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     return result.title;
   }
 
@@ -593,19 +689,14 @@ Format as JSON:
   "end": "Visual description of the peaceful ending place"
 }`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL_STR,
-      max_tokens: 500,
+    const responseText = await llmProvider.complete({
+      task: 'dream-scenes',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+      prompt: userPrompt,
+      maxTokens: 500,
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response from AI');
-    }
     
-    const result = JSON.parse(cleanJsonResponse(textContent.text));
+    const result = JSON.parse(cleanJsonResponse(responseText));
     return result;
   }
 }
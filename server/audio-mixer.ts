@@ -0,0 +1,326 @@
+/**
+ * Audio Mixer - lays narration over a procedurally generated ambient bed
+ *
+ * - Beds (rain, ocean, brown noise, binaural theta/delta) are synthesized on the fly,
+ *   so there are no audio assets to license or store
+ * - The bed ducks under speech and comes back up in the pauses
+ * - It fades in across the induction and out across the emergence (plus an optional tail)
+ * - Mixing and encoding run block by block, so long sleep tracks stay within memory
+ */
+
+import {
+  createAudioEncoder,
+  TTS_SAMPLE_RATE,
+  type AudioFormat,
+} from './audio-utils';
+import type { NarrationTrack } from './tts-service';
+
+export type AmbientBed = 'rain' | 'ocean' | 'brown-noise' | 'theta' | 'delta';
+
+export const AMBIENT_BEDS: Record<AmbientBed, { name: string; description: string }> = {
+  'rain': { name: 'Rain', description: 'Steady rainfall with soft droplets' },
+  'ocean': { name: 'Ocean', description: 'Slow waves rolling in and out' },
+  'brown-noise': { name: 'Brown Noise', description: 'Deep, even rumble that masks room noise' },
+  'theta': { name: 'Binaural Theta (6 Hz)', description: 'Relaxed, trance-friendly focus. Use headphones.' },
+  'delta': { name: 'Binaural Delta (2 Hz)', description: 'Deep sleep. Use headphones.' },
+};
+
+export function isAmbientBed(value: unknown): value is AmbientBed {
+  return typeof value === 'string' && value in AMBIENT_BEDS;
+}
+
+export interface MixOptions {
+  bed: AmbientBed;
+  level: number; // Bed level relative to speech, 0..1
+  ducking: boolean;
+  duckAmount: number; // Bed gain while speech is playing, 0..1
+  tailSeconds: number; // Bed keeps playing (and fading) after the narration ends
+  format: AudioFormat;
+  seed: number;
+}
+
+export interface MixResult {
+  audio: Buffer;
+  format: AudioFormat;
+  durationSeconds: number;
+  bed: AmbientBed;
+}
+
+const DEFAULT_MIX_OPTIONS: Omit<MixOptions, 'bed'> = {
+  level: 0.4,
+  ducking: true,
+  duckAmount: 0.45,
+  tailSeconds: 0,
+  format: 'mp3',
+  seed: 1,
+};
+
+const BLOCK_SECONDS = 1;
+const ENVELOPE_WINDOW_SECONDS = 0.01;
+const SPEECH_GATE = 0.01; // -40 dBFS
+const DUCK_LOOKAHEAD_SECONDS = 0.15; // Start dipping just before a phrase
+const DUCK_HOLD_SECONDS = 0.4; // Don't swell back up between words
+const DUCK_ATTACK_SECONDS = 0.12;
+const DUCK_RELEASE_SECONDS = 0.8;
+const FALLBACK_FADE_IN_SECONDS = 20;
+const FALLBACK_FADE_OUT_SECONDS = 30;
+const BINAURAL_CARRIER_HZ = 200;
+
+/**
+ * Seeded PRNG (mulberry32) so a render is reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Writes the next block of bed audio into both channels, at roughly speech level (~0.1 RMS)
+ */
+interface BedGenerator {
+  fill(left: Float32Array, right: Float32Array): void;
+}
+
+class BrownNoise {
+  private value = 0;
+  constructor(private random: () => number) {}
+
+  next(): number {
+    const white = this.random() * 2 - 1;
+    this.value = (this.value + 0.02 * white) / 1.02;
+    return this.value;
+  }
+}
+
+class BrownNoiseBed implements BedGenerator {
+  private left: BrownNoise;
+  private right: BrownNoise;
+
+  constructor(seed: number) {
+    this.left = new BrownNoise(createRandom(seed));
+    this.right = new BrownNoise(createRandom(seed + 1));
+  }
+
+  fill(left: Float32Array, right: Float32Array): void {
+    for (let i = 0; i < left.length; i++) {
+      left[i] = this.left.next() * 1.75;
+      right[i] = this.right.next() * 1.75;
+    }
+  }
+}
+
+class RainBed implements BedGenerator {
+  private random: () => number;
+  private hiss = [0, 0];
+  private drops = [0, 0];
+  private dropDecay: number;
+  private dropChance: number;
+
+  constructor(seed: number, private sampleRate: number) {
+    this.random = createRandom(seed);
+    this.dropDecay = Math.exp(-1 / (0.004 * sampleRate)); // ~4ms droplet tails
+    this.dropChance = 40 / sampleRate; // ~40 audible droplets a second per channel
+  }
+
+  private sample(channel: number): number {
+    const white = this.random() * 2 - 1;
+    this.hiss[channel] += 0.35 * (white - this.hiss[channel]); // Soft low-pass takes the edge off
+    if (this.random() < this.dropChance) {
+      this.drops[channel] = 0.3 + 0.7 * this.random();
+    }
+    this.drops[channel] *= this.dropDecay;
+    return this.hiss[channel] * 0.27 + white * this.drops[channel] * 0.47;
+  }
+
+  fill(left: Float32Array, right: Float32Array): void {
+    for (let i = 0; i < left.length; i++) {
+      left[i] = this.sample(0);
+      right[i] = this.sample(1);
+    }
+  }
+}
+
+class OceanBed implements BedGenerator {
+  private left: BrownNoise;
+  private right: BrownNoise;
+  private position = 0;
+
+  constructor(seed: number, private sampleRate: number) {
+    this.left = new BrownNoise(createRandom(seed));
+    this.right = new BrownNoise(createRandom(seed + 1));
+  }
+
+  fill(left: Float32Array, right: Float32Array): void {
+    for (let i = 0; i < left.length; i++) {
+      const t = this.position++ / this.sampleRate;
+      // Two slow, unrelated swells so the waves don't sound looped
+      const swell = 0.55 + 0.15 * Math.sin(2 * Math.PI * t / 23);
+      left[i] = this.left.next() * 2.7 * (swell + 0.3 * Math.sin(2 * Math.PI * t / 9));
+      right[i] = this.right.next() * 2.7 * (swell + 0.3 * Math.sin(2 * Math.PI * t / 9 + 0.6));
+    }
+  }
+}
+
+/**
+ * Slightly different tones in each ear; the brain hears the difference as a slow beat
+ */
+class BinauralBed implements BedGenerator {
+  private position = 0;
+
+  constructor(private beatHz: number, private sampleRate: number) {}
+
+  fill(left: Float32Array, right: Float32Array): void {
+    const amplitude = 0.1 * Math.SQRT2;
+    for (let i = 0; i < left.length; i++) {
+      const t = this.position++ / this.sampleRate;
+      left[i] = amplitude * Math.sin(2 * Math.PI * BINAURAL_CARRIER_HZ * t);
+      right[i] = amplitude * Math.sin(2 * Math.PI * (BINAURAL_CARRIER_HZ + this.beatHz) * t);
+    }
+  }
+}
+
+export function createBedGenerator(bed: AmbientBed, seed: number = 1, sampleRate: number = TTS_SAMPLE_RATE): BedGenerator {
+  switch (bed) {
+    case 'rain':
+      return new RainBed(seed, sampleRate);
+    case 'ocean':
+      return new OceanBed(seed, sampleRate);
+    case 'brown-noise':
+      return new BrownNoiseBed(seed);
+    case 'theta':
+      return new BinauralBed(6, sampleRate);
+    case 'delta':
+      return new BinauralBed(2, sampleRate);
+  }
+}
+
+/**
+ * Per-window bed gain (1 in silence, duckAmount under speech) with attack/release smoothing
+ */
+export function computeDuckEnvelope(
+  samples: Int16Array,
+  duckAmount: number,
+  sampleRate: number = TTS_SAMPLE_RATE
+): Float32Array {
+  const windowSize = Math.max(1, Math.round(sampleRate * ENVELOPE_WINDOW_SECONDS));
+  const windowCount = Math.ceil(samples.length / windowSize);
+
+  const speaking = new Uint8Array(windowCount);
+  for (let w = 0; w < windowCount; w++) {
+    const start = w * windowSize;
+    const end = Math.min(start + windowSize, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const value = samples[i] / 32768;
+      sum += value * value;
+    }
+    speaking[w] = Math.sqrt(sum / (end - start)) > SPEECH_GATE ? 1 : 0;
+  }
+
+  // Widen each speech window backwards (lookahead) and forwards (hold)
+  const lookahead = Math.round(DUCK_LOOKAHEAD_SECONDS / ENVELOPE_WINDOW_SECONDS);
+  const hold = Math.round(DUCK_HOLD_SECONDS / ENVELOPE_WINDOW_SECONDS);
+  const ducked = new Uint8Array(windowCount);
+  let lastSpeech = -Infinity;
+  for (let w = 0; w < windowCount; w++) {
+    if (speaking[w]) lastSpeech = w;
+    if (w - lastSpeech <= hold) ducked[w] = 1;
+  }
+  let nextSpeech = Infinity;
+  for (let w = windowCount - 1; w >= 0; w--) {
+    if (speaking[w]) nextSpeech = w;
+    if (nextSpeech - w <= lookahead) ducked[w] = 1;
+  }
+
+  const attack = 1 - Math.exp(-ENVELOPE_WINDOW_SECONDS / DUCK_ATTACK_SECONDS);
+  const release = 1 - Math.exp(-ENVELOPE_WINDOW_SECONDS / DUCK_RELEASE_SECONDS);
+  const envelope = new Float32Array(windowCount);
+  let gain = 1;
+  for (let w = 0; w < windowCount; w++) {
+    const target = ducked[w] ? duckAmount : 1;
+    gain += (target - gain) * (target < gain ? attack : release);
+    envelope[w] = gain;
+  }
+  return envelope;
+}
+
+/**
+ * Where the bed fades in and out: across the induction and emergence when the script marks them
+ */
+export function fadeWindows(narration: NarrationTrack, tailSeconds: number, sampleRate: number = TTS_SAMPLE_RATE) {
+  const narrationSeconds = narration.samples.length / sampleRate;
+  const total = narrationSeconds + tailSeconds;
+
+  const induction = narration.sections.find(s => s.section === 'induction');
+  const fadeInEnd = induction ? induction.endSeconds : Math.min(FALLBACK_FADE_IN_SECONDS, total / 3);
+
+  const emergence = narration.sections.find(s => s.section === 'emergence');
+  const fadeOutStart = emergence
+    ? Math.max(emergence.startSeconds, fadeInEnd)
+    : Math.max(fadeInEnd, narrationSeconds - FALLBACK_FADE_OUT_SECONDS);
+
+  return { fadeInEnd, fadeOutStart, total };
+}
+
+export class AudioMixer {
+  mix(narration: NarrationTrack, options: Partial<MixOptions> & { bed: AmbientBed }): MixResult {
+    const { bed, level, ducking, duckAmount, tailSeconds, format, seed } = { ...DEFAULT_MIX_OPTIONS, ...options };
+    const sampleRate = TTS_SAMPLE_RATE;
+    const speech = narration.samples;
+
+    const { fadeInEnd, fadeOutStart, total } = fadeWindows(narration, tailSeconds, sampleRate);
+    const totalSamples = Math.round(total * sampleRate);
+    const fadeInSamples = Math.max(1, Math.round(fadeInEnd * sampleRate));
+    const fadeOutStartSample = Math.round(fadeOutStart * sampleRate);
+    const fadeOutSamples = Math.max(1, totalSamples - fadeOutStartSample);
+
+    const envelope = ducking ? computeDuckEnvelope(speech, duckAmount, sampleRate) : null;
+    const windowSize = Math.max(1, Math.round(sampleRate * ENVELOPE_WINDOW_SECONDS));
+
+    const generator = createBedGenerator(bed, seed, sampleRate);
+    const encoder = createAudioEncoder(format, 2, sampleRate);
+    const blockSize = Math.round(BLOCK_SECONDS * sampleRate);
+    const bedLeft = new Float32Array(blockSize);
+    const bedRight = new Float32Array(blockSize);
+
+    for (let blockStart = 0; blockStart < totalSamples; blockStart += blockSize) {
+      const length = Math.min(blockSize, totalSamples - blockStart);
+      const left = bedLeft.subarray(0, length);
+      const right = bedRight.subarray(0, length);
+      generator.fill(left, right);
+
+      const outLeft = new Int16Array(length);
+      const outRight = new Int16Array(length);
+      for (let i = 0; i < length; i++) {
+        const n = blockStart + i;
+
+        let gain = level;
+        if (n < fadeInSamples) gain *= n / fadeInSamples;
+        if (n >= fadeOutStartSample) gain *= Math.max(0, 1 - (n - fadeOutStartSample) / fadeOutSamples);
+        if (envelope && n < speech.length) gain *= envelope[Math.floor(n / windowSize)];
+
+        const voice = n < speech.length ? speech[n] / 32768 : 0;
+        outLeft[i] = toInt16(voice + left[i] * gain);
+        outRight[i] = toInt16(voice + right[i] * gain);
+      }
+      encoder.write(outLeft, outRight);
+    }
+
+    const audio = encoder.finish();
+    console.log(`[MIXER] ${bed} bed under ${Math.round(speech.length / sampleRate)}s of narration (${Math.round(total)}s total)`);
+
+    return { audio, format, durationSeconds: total, bed };
+  }
+}
+
+function toInt16(value: number): number {
+  return Math.max(-32768, Math.min(32767, Math.round(value * 32767)));
+}
+
+export const audioMixer = new AudioMixer();
@@ -0,0 +1,201 @@
+/**
+ * Audio Utils - 16-bit mono PCM helpers for building narration tracks
+ *
+ * TTS chunks arrive as raw PCM so they can be leveled, padded with real
+ * silence and joined sample-accurately before a single final encode.
+ */
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+export const TTS_SAMPLE_RATE = 24000; // OpenAI `pcm` output: 24kHz, 16-bit signed LE, mono
+
+export type AudioFormat = 'mp3' | 'wav';
+
+export const AUDIO_CONTENT_TYPES: Record<AudioFormat, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+};
+
+const TARGET_RMS = 0.1; // ~-20 dBFS speech level
+const PEAK_CEILING = 0.98;
+const FADE_MS = 10;
+
+/**
+ * View a little-endian PCM buffer as samples (copies when the buffer is unaligned)
+ */
+export function pcmToSamples(pcm: Buffer): Int16Array {
+  const length = Math.floor(pcm.length / 2);
+  if (pcm.byteOffset % 2 === 0) {
+    return new Int16Array(pcm.buffer, pcm.byteOffset, length);
+  }
+  const samples = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = pcm.readInt16LE(i * 2);
+  }
+  return samples;
+}
+
+export function samplesToPcm(samples: Int16Array): Buffer {
+  return Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+}
+
+export function silence(seconds: number, sampleRate: number = TTS_SAMPLE_RATE): Int16Array {
+  return new Int16Array(Math.max(0, Math.round(seconds * sampleRate)));
+}
+
+/**
+ * RMS of the audible part of a clip (0..1): 20ms windows quieter than -50 dBFS are skipped
+ * so pauses between phrases don't drag the level down
+ */
+export function measureRms(samples: Int16Array, sampleRate: number = TTS_SAMPLE_RATE): number {
+  const windowSize = Math.max(1, Math.round(sampleRate * 0.02));
+  const gate = 0.00316; // -50 dBFS
+  let sum = 0;
+  let count = 0;
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(start + windowSize, samples.length);
+    let windowSum = 0;
+    for (let i = start; i < end; i++) {
+      const value = samples[i] / 32768;
+      windowSum += value * value;
+    }
+    if (Math.sqrt(windowSum / (end - start)) > gate) {
+      sum += windowSum;
+      count += end - start;
+    }
+  }
+  return count === 0 ? 0 : Math.sqrt(sum / count);
+}
+
+/**
+ * Scale a clip to the target speech level (then by `gain`), never pushing peaks past the ceiling.
+ * Short fades at both ends keep the joins click-free.
+ */
+export function normalizeLoudness(samples: Int16Array, gain: number = 1, targetRms: number = TARGET_RMS): Int16Array {
+  const rms = measureRms(samples);
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i] / 32768));
+  }
+
+  let scale = rms > 0 ? (targetRms / rms) * gain : gain;
+  if (peak > 0) {
+    scale = Math.min(scale, PEAK_CEILING / peak);
+  }
+
+  const fade = Math.min(Math.round((FADE_MS / 1000) * TTS_SAMPLE_RATE), Math.floor(samples.length / 2));
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const edge = Math.min(i, samples.length - 1 - i);
+    const envelope = edge < fade ? edge / fade : 1;
+    out[i] = Math.max(-32768, Math.min(32767, Math.round(samples[i] * scale * envelope)));
+  }
+  return out;
+}
+
+export function concatSamples(parts: Int16Array[]): Int16Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Int16Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function durationSeconds(samples: Int16Array, sampleRate: number = TTS_SAMPLE_RATE): number {
+  return samples.length / sampleRate;
+}
+
+export interface AudioEncoder {
+  write(left: Int16Array, right?: Int16Array): void; // `right` only for stereo
+  finish(): Buffer;
+}
+
+class WavEncoder implements AudioEncoder {
+  private chunks: Buffer[] = [];
+  private dataBytes = 0;
+
+  constructor(private channels: 1 | 2, private sampleRate: number) {}
+
+  write(left: Int16Array, right?: Int16Array): void {
+    let chunk: Buffer;
+    if (this.channels === 1) {
+      chunk = Buffer.from(samplesToPcm(left));
+    } else {
+      chunk = Buffer.alloc(left.length * 4);
+      for (let i = 0; i < left.length; i++) {
+        chunk.writeInt16LE(left[i], i * 4);
+        chunk.writeInt16LE(right ? right[i] : left[i], i * 4 + 2);
+      }
+    }
+    this.chunks.push(chunk);
+    this.dataBytes += chunk.length;
+  }
+
+  finish(): Buffer {
+    const blockAlign = this.channels * 2;
+    const header = Buffer.alloc(44);
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + this.dataBytes, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16); // PCM chunk size
+    header.writeUInt16LE(1, 20); // PCM format
+    header.writeUInt16LE(this.channels, 22);
+    header.writeUInt32LE(this.sampleRate, 24);
+    header.writeUInt32LE(this.sampleRate * blockAlign, 28); // Byte rate
+    header.writeUInt16LE(blockAlign, 32);
+    header.writeUInt16LE(16, 34); // Bits per sample
+    header.write('data', 36);
+    header.writeUInt32LE(this.dataBytes, 40);
+    return Buffer.concat([header, ...this.chunks]);
+  }
+}
+
+class Mp3StreamEncoder implements AudioEncoder {
+  private encoder: Mp3Encoder;
+  private frames: Buffer[] = [];
+  private static BLOCK = 1152 * 16;
+
+  constructor(private channels: 1 | 2, sampleRate: number) {
+    this.encoder = new Mp3Encoder(channels, sampleRate, channels === 2 ? 128 : 64);
+  }
+
+  write(left: Int16Array, right?: Int16Array): void {
+    for (let i = 0; i < left.length; i += Mp3StreamEncoder.BLOCK) {
+      const l = left.subarray(i, i + Mp3StreamEncoder.BLOCK);
+      const frame = this.channels === 2
+        ? this.encoder.encodeBuffer(l, (right || left).subarray(i, i + Mp3StreamEncoder.BLOCK))
+        : this.encoder.encodeBuffer(l);
+      this.frames.push(Buffer.from(frame));
+    }
+  }
+
+  finish(): Buffer {
+    this.frames.push(Buffer.from(this.encoder.flush()));
+    return Buffer.concat(this.frames);
+  }
+}
+
+/**
+ * Incremental encoder, so long tracks can be mixed and encoded block by block
+ */
+export function createAudioEncoder(format: AudioFormat, channels: 1 | 2 = 1, sampleRate: number = TTS_SAMPLE_RATE): AudioEncoder {
+  return format === 'wav' ? new WavEncoder(channels, sampleRate) : new Mp3StreamEncoder(channels, sampleRate);
+}
+
+export function encodeWav(samples: Int16Array, sampleRate: number = TTS_SAMPLE_RATE): Buffer {
+  return encodeAudio(samples, 'wav', sampleRate);
+}
+
+export function encodeMp3(samples: Int16Array, sampleRate: number = TTS_SAMPLE_RATE): Buffer {
+  return encodeAudio(samples, 'mp3', sampleRate);
+}
+
+export function encodeAudio(samples: Int16Array, format: AudioFormat, sampleRate: number = TTS_SAMPLE_RATE): Buffer {
+  const encoder = createAudioEncoder(format, 1, sampleRate);
+  encoder.write(samples);
+  return encoder.finish();
+}
@@ -0,0 +1,272 @@
+/**
+ * Cassette Store - record and replay AI calls
+ *
+ * Every LLM and TTS call can be written to / read from a named cassette on disk
+ * (tests/cassettes/<name>.json), keyed by a hash of the prompt that was sent.
+ *
+ * Modes (CASSETTE_MODE):
+ * - 'off' (default): pass straight through to the live provider
+ * - 'record': call the live provider and save each request/response pair
+ * - 'replay': never touch the network; answer from the cassette or fail
+ *
+ * When a prompt changes (e.g. DimensionAssembler output is edited) the old
+ * recording no longer matches its hash. Replay then raises a StaleCassetteError
+ * and adds the entry to the stale report instead of silently serving old output.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+export type CassetteKind = 'llm' | 'tts';
+
+export interface CassetteRequest {
+  system?: string;
+  prompt: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  voice?: string;
+  speed?: number;
+}
+
+export interface CassetteInteraction {
+  key: string;
+  kind: CassetteKind;
+  task: string;
+  request: CassetteRequest;
+  response: string; // Text for LLM calls, base64 audio for TTS calls
+  recordedAt: string;
+}
+
+interface CassetteFile {
+  version: 1;
+  name: string;
+  interactions: CassetteInteraction[];
+}
+
+export interface StaleCassetteEntry {
+  cassette: string;
+  kind: CassetteKind;
+  task: string;
+  requestedKey: string;
+  recordedKeys: string[];
+  firstDifference: string;
+}
+
+export class CassetteMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMissError';
+  }
+}
+
+export class StaleCassetteError extends CassetteMissError {
+  constructor(message: string, public readonly entry: StaleCassetteEntry) {
+    super(message);
+    this.name = 'StaleCassetteError';
+  }
+}
+
+/**
+ * Hash the parts of a request that define "the same prompt".
+ * Model and temperature are part of the key: a response recorded against one model
+ * or temperature must not replay for another, so a model bump means re-recording.
+ */
+export function hashPrompt(kind: CassetteKind, task: string, request: CassetteRequest): string {
+  const material = JSON.stringify({
+    kind,
+    task,
+    system: request.system ?? '',
+    prompt: request.prompt,
+    model: request.model,
+    temperature: request.temperature ?? null,
+    voice: request.voice ?? null,
+    speed: request.speed ?? null,
+  });
+  return crypto.createHash('sha256').update(material).digest('hex').slice(0, 16);
+}
+
+/**
+ * Describe where two prompts first diverge (for stale reports)
+ */
+function describeFirstDifference(recorded: CassetteRequest, current: CassetteRequest): string {
+  for (const field of ['system', 'prompt'] as const) {
+    const before = (recorded[field] ?? '').split('\n');
+    const after = (current[field] ?? '').split('\n');
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      if (before[i] !== after[i]) {
+        return `${field} line ${i + 1}: recorded "${(before[i] ?? '').slice(0, 80)}" → now "${(after[i] ?? '').slice(0, 80)}"`;
+      }
+    }
+  }
+  if (recorded.model !== current.model) {
+    return `model: recorded "${recorded.model}" → now "${current.model}"`;
+  }
+  if ((recorded.temperature ?? null) !== (current.temperature ?? null)) {
+    return `temperature: recorded ${recorded.temperature ?? 'default'} → now ${current.temperature ?? 'default'}`;
+  }
+  return 'voice/speed settings changed';
+}
+
+export class CassetteStore {
+  mode: CassetteMode;
+  dir: string;
+  private cassetteName: string;
+  private loaded = new Map<string, CassetteFile>();
+  private resetThisRun = new Set<string>();
+  private stale: StaleCassetteEntry[] = [];
+
+  constructor(
+    mode: CassetteMode = (process.env.CASSETTE_MODE as CassetteMode) || 'off',
+    dir: string = process.env.CASSETTE_DIR || path.join(process.cwd(), 'tests', 'cassettes'),
+    cassetteName: string = process.env.CASSETTE_NAME || 'default'
+  ) {
+    if (!['off', 'record', 'replay'].includes(mode)) {
+      throw new Error(`Unknown CASSETTE_MODE "${mode}" (expected off, record or replay)`);
+    }
+    this.mode = mode;
+    this.dir = dir;
+    this.cassetteName = cassetteName;
+  }
+
+  /**
+   * Switch the active cassette (tests call this in beforeAll)
+   */
+  useCassette(name: string, mode?: CassetteMode): void {
+    this.cassetteName = name;
+    if (mode) {
+      this.mode = mode;
+    }
+  }
+
+  get currentCassette(): string {
+    return this.cassetteName;
+  }
+
+  hasCassette(name: string): boolean {
+    return fs.existsSync(this.filePath(name));
+  }
+
+  /**
+   * Answer a call from the cassette, or perform it live (recording if enabled)
+   */
+  async run(
+    kind: CassetteKind,
+    task: string,
+    request: CassetteRequest,
+    perform: () => Promise<string>
+  ): Promise<string> {
+    if (this.mode === 'off') {
+      return perform();
+    }
+
+    const key = hashPrompt(kind, task, request);
+    const cassette = this.load(this.cassetteName);
+
+    if (this.mode === 'replay') {
+      const hit = cassette.interactions.find(i => i.key === key);
+      if (hit) {
+        return hit.response;
+      }
+      throw this.missError(cassette, kind, task, key, request);
+    }
+
+    // Record mode: the first write in a run replaces the cassette so old prompts don't linger
+    if (!this.resetThisRun.has(this.cassetteName)) {
+      cassette.interactions = [];
+      this.resetThisRun.add(this.cassetteName);
+    }
+
+    const response = await perform();
+    cassette.interactions = cassette.interactions.filter(i => i.key !== key);
+    cassette.interactions.push({
+      key,
+      kind,
+      task,
+      request,
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+    this.save(cassette);
+    return response;
+  }
+
+  /**
+   * Stale entries seen so far in this process
+   */
+  getStaleReport(): StaleCassetteEntry[] {
+    return [...this.stale];
+  }
+
+  formatStaleReport(): string {
+    if (this.stale.length === 0) {
+      return '';
+    }
+    const lines = [`[CASSETTE] ${this.stale.length} stale recording(s) - prompts changed since they were recorded:`];
+    for (const entry of this.stale) {
+      lines.push(`  ${entry.cassette} › ${entry.kind}:${entry.task} (${entry.recordedKeys.join(', ')} → ${entry.requestedKey})`);
+      lines.push(`    ${entry.firstDifference}`);
+    }
+    lines.push('  Re-record with CASSETTE_MODE=record once the new prompts are intended.');
+    return lines.join('\n');
+  }
+
+  private missError(
+    cassette: CassetteFile,
+    kind: CassetteKind,
+    task: string,
+    key: string,
+    request: CassetteRequest
+  ): CassetteMissError {
+    const sameTask = cassette.interactions.filter(i => i.kind === kind && i.task === task);
+    if (sameTask.length === 0) {
+      return new CassetteMissError(
+        `No recording for ${kind}:${task} in cassette "${cassette.name}" (key ${key}). Record it with CASSETTE_MODE=record.`
+      );
+    }
+
+    const entry: StaleCassetteEntry = {
+      cassette: cassette.name,
+      kind,
+      task,
+      requestedKey: key,
+      recordedKeys: sameTask.map(i => i.key),
+      firstDifference: describeFirstDifference(sameTask[0].request, request),
+    };
+    this.stale.push(entry);
+
+    return new StaleCassetteError(
+      `Stale cassette "${cassette.name}" for ${kind}:${task}: prompt changed since recording (${entry.firstDifference})`,
+      entry
+    );
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  private load(name: string): CassetteFile {
+    const cached = this.loaded.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const filePath = this.filePath(name);
+    const cassette: CassetteFile = fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+      : { version: 1, name, interactions: [] };
+    this.loaded.set(name, cassette);
+    return cassette;
+  }
+
+  private save(cassette: CassetteFile): void {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(this.filePath(cassette.name), JSON.stringify(cassette, null, 2) + '\n');
+  }
+}
+
+// Export singleton instance configured from env
+export const cassetteStore = new CassetteStore();
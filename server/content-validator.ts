@@ -1,6 +1,10 @@
 /**
  * Content validation utility for user-submitted text
  * Blocks inappropriate content across all endpoints
+ *
+ * Clinical language ("blood pressure", "kill the craving", suicidality, self-harm) is not
+ * blocked here; the safety screener (script-engine/safety-screener.ts) decides whether to
+ * allow, modify or refer out
  */
 
 // Use word boundaries to avoid false positives (e.g., "harm" in "harmless")
@@ -9,16 +13,13 @@ const INAPPROPRIATE_PATTERNS = [
   /\bsex\b/i, /\bsexy\b/i, /\bnude\b/i, /\bnaked\b/i, /\bporn\b/i, /\bexplicit\b/i, /\berotic\b/i, /\bxxx\b/i,
   
   // Violence (use word boundaries to avoid "harmless", "charm", etc.)
-  /\bviolent\b/i, /\bkill\b/i, /\bmurder\b/i, /\bblood\b/i, /\bgore\b/i, /\btorture\b/i,
+  /\bviolent\b/i, /\bmurder\b/i, /\bgore\b/i, /\btorture\b/i,
   
   // Hate speech
   /\bracist\b/i, /\bdiscrimination\b/i, /\bslur\b/i,
   
   // Drugs
   /\bcocaine\b/i, /\bheroin\b/i, /\bmeth\b/i,
-  
-  // Self-harm
-  /\bsuicide\b/i, /\bself-harm\b/i,
 ];
 
 export interface ValidationResult {
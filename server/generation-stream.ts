@@ -0,0 +1,146 @@
+/**
+ * Generation Stream - Server-Sent Events for long-running script generation
+ *
+ * Generation routes answer with plain JSON by default. When the client sends
+ * `Accept: text/event-stream`, the same route streams progress instead:
+ *
+ *   event: stage     data: { type: 'stage', stage: 'plan', status: 'complete', ... }
+ *   event: token     data: { type: 'token', stage: 'draft', text: '...' }
+ *   event: complete  data: <the JSON body the route would normally return>
+ *   event: error     data: { message }
+ */
+
+import type { Request, Response } from 'express';
+import type { GenerationProgressEvent } from '@shared/schema';
+
+export type ProgressCallback = (event: GenerationProgressEvent) => void;
+
+const HEARTBEAT_MS = 15000;
+
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+export class GenerationEventStream {
+  private closed = false;
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(private res: Response) {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
+    res.flushHeaders();
+
+    // Comment lines keep proxies from timing out during long AI calls
+    this.heartbeat = setInterval(() => this.write(': ping\n\n'), HEARTBEAT_MS);
+    res.on('close', () => this.end());
+  }
+
+  /**
+   * Progress callback to hand to AIService / routes
+   */
+  readonly progress: ProgressCallback = (event) => {
+    this.send(event.type, event);
+  };
+
+  complete(body: unknown): void {
+    this.send('complete', body);
+    this.end();
+  }
+
+  fail(message: string): void {
+    this.send('error', { message });
+    this.end();
+  }
+
+  private send(event: string, data: unknown): void {
+    this.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private write(chunk: string): void {
+    if (!this.closed) {
+      this.res.write(chunk);
+    }
+  }
+
+  private end(): void {
+    if (this.closed) return;
+    this.closed = true;
+    clearInterval(this.heartbeat);
+    this.res.end();
+  }
+}
+
+/**
+ * Incrementally decodes one string field from streamed JSON model output,
+ * e.g. the "fullScript" value of {"fullScript": "...", "marketingAssets": {...}},
+ * so partial script text can be shown while the model is still writing.
+ */
+export class PartialJsonStringReader {
+  private buffer = ''; // Undecoded input: everything before the value starts, then only a pending escape
+  private started = false;
+  private done = false;
+
+  constructor(private field: string) {}
+
+  /**
+   * Feed a raw chunk; returns newly decoded field text (may be empty)
+   */
+  push(chunk: string): string {
+    if (this.done) return '';
+    this.buffer += chunk;
+
+    if (!this.started) {
+      const start = this.findValueStart();
+      if (start === -1) return '';
+      this.started = true;
+      this.buffer = this.buffer.slice(start);
+    }
+
+    // Only the new input is decoded; a split escape sequence is kept for the next chunk
+    const { text, consumed, finished } = this.decode();
+    this.done = finished;
+    this.buffer = finished ? '' : this.buffer.slice(consumed);
+    return text;
+  }
+
+  private findValueStart(): number {
+    const match = new RegExp(`"${this.field}"\\s*:\\s*"`).exec(this.buffer);
+    return match ? match.index + match[0].length : -1;
+  }
+
+  private decode(): { text: string; consumed: number; finished: boolean } {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+    let text = '';
+    let i = 0;
+
+    while (i < this.buffer.length) {
+      const ch = this.buffer[i];
+      if (ch === '"') {
+        return { text, consumed: i + 1, finished: true };
+      }
+      if (ch !== '\\') {
+        text += ch;
+        i++;
+        continue;
+      }
+
+      // Escape sequence - wait for the rest of it if the chunk ended mid-escape
+      const next = this.buffer[i + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = this.buffer.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        text += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+      } else {
+        text += escapes[next] ?? next;
+        i += 2;
+      }
+    }
+
+    return { text, consumed: i, finished: false };
+  }
+}
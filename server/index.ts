@@ -1,8 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { jobQueue } from "./job-queue";
+import { registerJobHandlers } from "./job-handlers";
+import { reloadMethodologyConfig, startMethodologyConfigRefresh } from "./methodology-config-loader";
 
 const app = express();
+// Template archives can hold up to 200 templates - parsed first so the default 100kb limit doesn't apply
+app.use("/api/templates/import", express.json({ limit: "5mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -68,4 +73,14 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Methodology configs saved by admins replace the bundled defaults (and are polled for changes)
+  reloadMethodologyConfig().catch(error => {
+    console.error('[METHODOLOGY] Could not load configs, using bundled defaults:', error.message);
+  });
+  startMethodologyConfigRefresh();
+
+  // Background worker for queued generation, image and TTS jobs
+  registerJobHandlers(jobQueue);
+  jobQueue.start();
 })();
@@ -0,0 +1,639 @@
+/**
+ * Job Handlers - the work behind each background job type
+ *
+ * - package: fans a package out into one script job per package script
+ * - script: generates one package script, one treatment plan session, or one DREAM script (then queues its images)
+ * - image: moderation + DREAM scene images for a saved generation
+ * - tts: narrates text (optionally over an ambient bed), stores the audio in object storage
+ *   and records it as a rendition when it belongs to a generation
+ */
+
+import { storage } from './storage';
+import { aiService } from './ai-service';
+import { templateManager } from './template-manager';
+import { templateSelector } from './template-selector';
+import { ttsService, hashScript, type TTSOptions } from './tts-service';
+import { audioMixer, type AmbientBed } from './audio-mixer';
+import type { AudioFormat } from './audio-utils';
+import { ObjectStorageService } from './objectStorage';
+import { PermanentJobError, type JobQueue, type JobContext } from './job-queue';
+import { screenClientContext } from './safety-screening';
+import type { SafetyScreeningInput } from './script-engine/safety-screener';
+import { treatmentPlanner, sessionFocus, type PlannedSession } from './script-engine/treatment-planner';
+import { pacingModel } from './script-engine/pacing-model';
+import type { ArcJourney, Archetype, PackageScript, SessionAnchors, TreatmentClientProfile, TreatmentPlan, TreatmentPlanSession } from '@shared/schema';
+
+export type PackageGenerationMode = 'all' | 'missing';
+
+export interface PackageJobPayload {
+  packageId: number;
+  mode?: PackageGenerationMode; // 'missing' keeps completed scripts and their generations
+}
+
+export interface PackageScriptJobPayload {
+  kind: 'package-script';
+  packageId: number;
+  packageScriptId: number;
+}
+
+export interface DreamScriptJobPayload {
+  kind: 'dream';
+  journeyIdea: string;
+  expandedStory?: string;
+  archetypeId?: number;
+  targetDurationMinutes?: number; // Overrides the default ~3000 words
+  readerMarkup?: boolean; // Add reader cues to the final script
+}
+
+export interface TreatmentSessionJobPayload {
+  kind: 'treatment-session';
+  planId: number;
+  sessionId: number;
+}
+
+export type ScriptJobPayload = PackageScriptJobPayload | DreamScriptJobPayload | TreatmentSessionJobPayload;
+
+export interface ImageJobPayload {
+  generationId: number;
+  journeyIdea: string;
+  archetypeName: string;
+}
+
+export interface TTSJobPayload {
+  text: string;
+  voice: TTSOptions['voice'];
+  speed: number;
+  model?: TTSOptions['model'];
+  generationId?: number; // Stores the audio as a rendition of this script (replayed and exported)
+  format?: AudioFormat;
+  bed?: {
+    type: AmbientBed;
+    level?: number;
+    ducking?: boolean;
+    tailSeconds?: number; // Sleep tracks keep the bed going after the last word
+  };
+}
+
+const DREAM_OUTCOME = "Experience a peaceful, restful journey into natural sleep";
+
+/**
+ * Pick the scripts a package run should (re)generate.
+ * In 'missing' mode a script is kept only if it completed and its generation still exists.
+ */
+export function selectScriptsToGenerate<T extends { status: string; generationId: number | null }>(
+  scripts: T[],
+  mode: PackageGenerationMode = 'all'
+): T[] {
+  if (mode === 'all') return scripts;
+  return scripts.filter(s => !(s.status === 'completed' && s.generationId));
+}
+
+/**
+ * Derive package status from its scripts: still generating, all done, all failed, or a mix
+ */
+export async function refreshPackageStatus(packageId: number): Promise<string> {
+  const scripts = await storage.getPackageScripts(packageId);
+  const inFlight = scripts.some(s => s.status === 'generating');
+  const completed = scripts.filter(s => s.status === 'completed').length;
+  const failed = scripts.filter(s => s.status === 'failed').length;
+
+  const status = inFlight ? 'generating'
+    : completed === scripts.length ? 'completed'
+    : failed === scripts.length ? 'failed'
+    : completed > 0 || failed > 0 ? 'partial'
+    : 'draft';
+
+  await storage.updatePackageStatus(packageId, status);
+  return status;
+}
+
+/**
+ * Derive treatment plan status from its sessions
+ */
+export async function refreshTreatmentPlanStatus(planId: number): Promise<string> {
+  const sessions = await storage.getTreatmentPlanSessions(planId);
+  const completed = sessions.filter(s => s.status === 'completed').length;
+
+  const status = sessions.some(s => s.status === 'generating') ? 'generating'
+    : sessions.length > 0 && completed === sessions.length ? 'completed'
+    : completed > 0 || sessions.some(s => s.status === 'failed') ? 'in_progress'
+    : 'draft';
+
+  await storage.updateTreatmentPlanStatus(planId, status);
+  return status;
+}
+
+/**
+ * Sessions as the treatment planner reads them (jsonb columns typed)
+ */
+export function toPlannedSessions(sessions: Array<{
+  sessionNumber: number;
+  goal: string;
+  presentingIssue: string | null;
+  desiredOutcome: string | null;
+  arcId: string | null;
+  arcJourney: unknown;
+  status: string;
+  anchors: unknown;
+}>): PlannedSession[] {
+  return sessions.map(session => ({
+    sessionNumber: session.sessionNumber,
+    goal: session.goal,
+    presentingIssue: session.presentingIssue,
+    desiredOutcome: session.desiredOutcome,
+    arcId: session.arcId,
+    arcJourney: session.arcJourney as ArcJourney | null,
+    status: session.status,
+    anchors: session.anchors as SessionAnchors | null,
+  }));
+}
+
+export function registerJobHandlers(queue: JobQueue): void {
+  // ============================================
+  // PACKAGE - fan out to one script job per script
+  // ============================================
+  queue.registerHandler('package', (payload: PackageJobPayload, context) => fanOutPackage(queue, payload, context));
+
+  // ============================================
+  // SCRIPT - one package script, treatment plan session or DREAM script
+  // ============================================
+  queue.registerHandler('script', async (payload: ScriptJobPayload, context) => {
+    switch (payload.kind) {
+      case 'dream':
+        return generateDreamScript(queue, payload, context);
+      case 'treatment-session':
+        return generateTreatmentSession(payload, context);
+      default:
+        return generatePackageScript(payload, context);
+    }
+  });
+
+  // ============================================
+  // IMAGE - DREAM scene images for a saved generation
+  // ============================================
+  queue.registerHandler('image', async (payload: ImageJobPayload, { progress }) => {
+    const generation = await storage.getGenerationById(payload.generationId);
+    if (!generation || !generation.fullScript) {
+      throw new PermanentJobError(`Generation ${payload.generationId} not found`);
+    }
+
+    progress({ type: 'stage', stage: 'finalize', status: 'started', message: 'Painting scene images' });
+
+    // Content moderation check before image generation
+    const OpenAI = (await import('openai')).default;
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const moderation = await openai.moderations.create({ input: payload.journeyIdea });
+    if (moderation.results[0]?.flagged) {
+      console.log('[DREAM] Journey idea flagged by moderation, skipping image generation');
+      return { skipped: 'flagged' };
+    }
+
+    const scenes = await aiService.generateDreamScenes({
+      journeyIdea: payload.journeyIdea,
+      archetypeName: payload.archetypeName,
+      fullScript: generation.fullScript,
+    });
+
+    const { generateDreamSceneImages } = await import('./image-service');
+    const imageUrls = await generateDreamSceneImages(scenes, payload.archetypeName);
+    await storage.updateGenerationImages(generation.id, imageUrls[0], imageUrls);
+    console.log(`[DREAM] ✓ ${imageUrls.length} scene images saved for generation ${generation.id}`);
+
+    return { thumbnailUrl: imageUrls[0], imageUrls };
+  });
+
+  // ============================================
+  // TTS - narrate and store audio
+  // ============================================
+  queue.registerHandler('tts', async (payload: TTSJobPayload) => {
+    const options: TTSOptions = {
+      voice: payload.voice,
+      speed: payload.speed,
+      model: payload.model,
+      format: payload.format,
+    };
+    const format = payload.format || 'mp3';
+
+    let audio: Buffer;
+    let durationSeconds: number;
+    if (payload.bed) {
+      const narration = await ttsService.renderNarration(payload.text, options);
+      const mixed = audioMixer.mix(narration, {
+        bed: payload.bed.type,
+        level: payload.bed.level,
+        ducking: payload.bed.ducking,
+        tailSeconds: payload.bed.tailSeconds,
+        format,
+      });
+      audio = mixed.audio;
+      durationSeconds = mixed.durationSeconds;
+    } else {
+      const speech = await ttsService.synthesize(payload.text, options);
+      audio = speech.audio;
+      durationSeconds = speech.durationSeconds;
+    }
+
+    const objectStorage = new ObjectStorageService();
+    const audioUrl = await objectStorage.uploadAudio(audio, format);
+    const bed = payload.bed?.type ?? null;
+
+    if (!payload.generationId) {
+      return { audioUrl, bytes: audio.length, durationSeconds, bed };
+    }
+
+    const rendition = await storage.createGenerationAudio({
+      generationId: payload.generationId,
+      voice: payload.voice,
+      speed: payload.speed,
+      model: payload.model || 'tts-1-hd',
+      format,
+      bed,
+      durationSeconds,
+      bytes: audio.length,
+      storagePath: audioUrl,
+      scriptHash: hashScript(payload.text),
+    });
+    return { audioUrl, bytes: audio.length, durationSeconds, bed, renditionId: rendition.id };
+  });
+}
+
+// Screen (and audit) before generating; a refer-out gives the same answer on every retry
+async function screenForJob(input: SafetyScreeningInput, source: string, userId: string | null) {
+  const safety = await screenClientContext(input, { source, userId });
+  if (safety.decision === 'refer_out') {
+    throw new PermanentJobError(safety.referralMessage || 'Referral recommended');
+  }
+  return safety;
+}
+
+async function fanOutPackage(queue: JobQueue, payload: PackageJobPayload, { job, isFinalAttempt }: JobContext) {
+  const pkg = await storage.getPackageById(payload.packageId);
+  if (!pkg) {
+    throw new PermanentJobError(`Package ${payload.packageId} not found`);
+  }
+
+  const marked = new Set<number>(); // Scripts this attempt set to 'generating'
+  const enqueued = new Set<number>();
+  let hasScripts = false;
+  try {
+    const scripts = await storage.getPackageScripts(pkg.id);
+    if (scripts.length === 0) {
+      throw new PermanentJobError('Package has no scripts to generate');
+    }
+    hasScripts = true;
+
+    const mode = payload.mode || 'all';
+    const toGenerate = selectScriptsToGenerate(scripts, mode);
+    const reusedCount = scripts.length - toGenerate.length;
+    if (toGenerate.length === 0) {
+      const status = await refreshPackageStatus(pkg.id);
+      return { packageId: pkg.id, mode, scriptJobIds: [], reusedCount, status };
+    }
+
+    await storage.updatePackageStatus(pkg.id, 'generating');
+
+    const scriptJobIds: number[] = [];
+    for (const script of toGenerate) {
+      // A re-run (lost lease, retry) reuses script jobs an earlier run already queued
+      const [pending] = (await storage.getJobsByPayload('script', 'packageScriptId', script.id))
+        .filter(j => j.status === 'queued' || j.status === 'running');
+      if (pending) {
+        enqueued.add(script.id);
+        scriptJobIds.push(pending.id);
+        continue;
+      }
+
+      await storage.updatePackageScript(script.id, { status: 'generating', errorMessage: null });
+      marked.add(script.id);
+      const scriptJob = await queue.enqueue('script', job.userId, {
+        kind: 'package-script',
+        packageId: pkg.id,
+        packageScriptId: script.id,
+      });
+      enqueued.add(script.id);
+      scriptJobIds.push(scriptJob.id);
+    }
+
+    return { packageId: pkg.id, mode, scriptJobIds, reusedCount };
+  } catch (error: any) {
+    // The route set the package to 'generating'; leave it there only while a retry will follow
+    if (isFinalAttempt || error instanceof PermanentJobError) {
+      const unqueued = Array.from(marked).filter(scriptId => !enqueued.has(scriptId));
+      for (const scriptId of unqueued) {
+        await storage.updatePackageScript(scriptId, {
+          status: 'failed',
+          errorMessage: error.message || 'Unknown error while queueing generation',
+        });
+      }
+      if (hasScripts) {
+        await refreshPackageStatus(pkg.id);
+      } else {
+        await storage.updatePackageStatus(pkg.id, 'failed');
+      }
+    }
+    throw error;
+  }
+}
+
+async function generatePackageScript(payload: PackageScriptJobPayload, context: JobContext) {
+  const { job, isFinalAttempt } = context;
+  const scripts = await storage.getPackageScripts(payload.packageId);
+  const script = scripts.find(s => s.id === payload.packageScriptId);
+  if (!script) {
+    throw new PermanentJobError(`Package script ${payload.packageScriptId} not found`);
+  }
+
+  try {
+    // A re-run of this job (lost lease, failure after saving) links the script it already saved
+    const generation = (await storage.getGenerationByJobId(job.id)) ?? await writePackageScript(script, context);
+
+    // Link generation to package script and clear any previous error
+    await storage.updatePackageScript(script.id, {
+      generationId: generation.id,
+      status: 'completed',
+      errorMessage: null,
+    });
+    await refreshPackageStatus(payload.packageId);
+
+    return { generationId: generation.id };
+  } catch (error: any) {
+    // Only mark the script failed once no retry will follow
+    if (isFinalAttempt || error instanceof PermanentJobError) {
+      await storage.updatePackageScript(script.id, {
+        status: 'failed',
+        errorMessage: error.message || 'Unknown error during generation',
+      });
+      await refreshPackageStatus(payload.packageId);
+    }
+    throw error;
+  }
+}
+
+async function writePackageScript(script: PackageScript, { job, progress }: JobContext) {
+  // Use modified values if available, otherwise use suggested values
+  const presentingIssue = script.userModifiedIssue || script.suggestedPresentingIssue || '';
+  const desiredOutcome = script.userModifiedOutcome || script.suggestedDesiredOutcome || '';
+
+  // Get template if assigned (assignedTemplateId is the numeric database ID)
+  let template = null;
+  if (script.assignedTemplateId) {
+    template = await templateManager.getTemplateByDbId(Number(script.assignedTemplateId));
+  }
+
+  // If no template assigned, use template selector to find one
+  if (!template) {
+    const recommendations = await templateSelector.recommendTemplates(presentingIssue, desiredOutcome);
+    if (recommendations.length > 0) {
+      template = recommendations[0].template;
+    }
+  }
+
+  if (!template) {
+    throw new PermanentJobError(`No template available for script: ${script.conceptTitle}`);
+  }
+
+  // jsonData is already parsed by Drizzle (jsonb type)
+  const templateJson = template.jsonData as any;
+  if (!templateJson || !templateJson.dimensions) {
+    throw new PermanentJobError(`Invalid template data for template ID ${script.assignedTemplateId}`);
+  }
+
+  const result = await aiService.generateFullScript({
+    template: templateJson,
+    presentingIssue,
+    desiredOutcome,
+    onProgress: progress,
+    safety: await screenForJob({ presentingIssue, desiredOutcome }, 'package', job.userId),
+  });
+
+  return storage.createGeneration({
+    userId: job.userId,
+    title: script.userModifiedTitle || script.conceptTitle,
+    generationMode: 'create_new',
+    isFree: false,
+    presentingIssue,
+    desiredOutcome,
+    fullScript: result.fullScript,
+    assetsJson: result.marketingAssets,
+    templateUsed: template.templateId,
+    templateVersion: await templateManager.pinVersion(template),
+    pricePaidCents: 0, // Part of package, no individual charge
+    paymentStatus: 'completed',
+    systemPrompt: result.systemPrompt,
+    userPrompt: result.userPrompt,
+    jobId: job.id,
+  });
+}
+
+async function generateTreatmentSession(payload: TreatmentSessionJobPayload, context: JobContext) {
+  const { job, isFinalAttempt } = context;
+  const plan = await storage.getTreatmentPlanById(payload.planId);
+  if (!plan) {
+    throw new PermanentJobError(`Treatment plan ${payload.planId} not found`);
+  }
+  const sessions = await storage.getTreatmentPlanSessions(plan.id);
+  const session = sessions.find(s => s.id === payload.sessionId);
+  if (!session) {
+    throw new PermanentJobError(`Treatment plan session ${payload.sessionId} not found`);
+  }
+
+  try {
+    // A re-run of this job (lost lease, failure after saving) links the script it already saved
+    const saved = await storage.getGenerationByJobId(job.id);
+    const generation = saved?.fullScript ? saved : await writeTreatmentSession(plan, sessions, session, context);
+
+    // Anchors always come from the linked script, so later sessions echo what this one actually said
+    const generationPlan = generation.generationPlan as { arcs: string[]; primaryMetaphor: string | null } | null;
+    const anchors = treatmentPlanner.extractAnchors(generation.fullScript!, {
+      arcs: generationPlan?.arcs ?? [],
+      metaphorFamily: generationPlan?.primaryMetaphor ?? null,
+    });
+    await storage.updateTreatmentPlanSession(session.id, {
+      generationId: generation.id,
+      anchors,
+      status: 'completed',
+      errorMessage: null,
+    });
+    await refreshTreatmentPlanStatus(plan.id);
+    console.log(`[TREATMENT PLAN] Session ${session.sessionNumber} of plan ${plan.id}: ${anchors.suggestions.length} suggestions, ${anchors.images.length} images carried forward`);
+
+    return { generationId: generation.id, anchors };
+  } catch (error: any) {
+    if (isFinalAttempt || error instanceof PermanentJobError) {
+      await storage.updateTreatmentPlanSession(session.id, {
+        status: 'failed',
+        errorMessage: error.message || 'Unknown error during generation',
+      });
+      await refreshTreatmentPlanStatus(plan.id);
+    }
+    throw error;
+  }
+}
+
+async function writeTreatmentSession(
+  plan: TreatmentPlan,
+  sessions: TreatmentPlanSession[],
+  session: TreatmentPlanSession,
+  { job, progress }: JobContext
+) {
+  const profile = plan.clientProfile as TreatmentClientProfile;
+  const planned = toPlannedSessions(sessions);
+  const current = planned[sessions.indexOf(session)];
+  const continuity = treatmentPlanner.buildContinuity(planned, current.sessionNumber);
+  const { presentingIssue, desiredOutcome, clientNotes } = sessionFocus(profile, current);
+
+  let template = session.assignedTemplateId ? await templateManager.getTemplateById(session.assignedTemplateId) : null;
+  if (!template) {
+    const recommendations = await templateSelector.recommendTemplates(presentingIssue, desiredOutcome);
+    template = recommendations[0]?.template ?? null;
+  }
+  const templateJson = template?.jsonData as any;
+  if (!template || !templateJson?.dimensions) {
+    throw new PermanentJobError(`No template available for session ${session.sessionNumber}`);
+  }
+
+  const result = await aiService.generateFullScript({
+    template: templateJson,
+    presentingIssue,
+    desiredOutcome,
+    clientNotes,
+    arcId: current.arcId || undefined,
+    arcJourney: current.arcJourney || undefined,
+    emergenceType: profile.emergenceType,
+    continuity,
+    onProgress: progress,
+    safety: await screenForJob({ presentingIssue, desiredOutcome }, 'plan', job.userId),
+  });
+
+  return storage.createGeneration({
+    userId: job.userId,
+    title: `${plan.title} - Session ${session.sessionNumber}`,
+    generationMode: 'create_new',
+    isFree: false,
+    presentingIssue,
+    desiredOutcome,
+    fullScript: result.fullScript,
+    assetsJson: result.marketingAssets,
+    templateUsed: template.templateId,
+    templateVersion: await templateManager.pinVersion(template),
+    pricePaidCents: 0,
+    paymentStatus: 'completed',
+    systemPrompt: result.systemPrompt,
+    userPrompt: result.userPrompt,
+    generationPlan: result.generationPlan ?? null,
+    jobId: job.id,
+  });
+}
+
+async function generateDreamScript(queue: JobQueue, payload: DreamScriptJobPayload, context: JobContext) {
+  const { job } = context;
+
+  // Fetch selected archetype or use first blended archetype
+  const archetype = payload.archetypeId
+    ? await storage.getArchetypeById(payload.archetypeId)
+    : (await storage.getBlendedArchetypes())[0];
+  if (!archetype) {
+    throw new PermanentJobError('Archetype not found');
+  }
+
+  // A re-run of this job (lost lease, failure after saving) finishes from the saved script instead of writing another
+  const saved = await storage.getGenerationByJobId(job.id);
+  const { generation, estimatedDuration } = saved?.fullScript
+    ? { generation: saved, estimatedDuration: pacingModel.estimate(saved.fullScript, { emergenceType: 'sleep' }) }
+    : await writeDreamScript(payload, archetype, context);
+
+  // Scene images run as their own job so an image failure never loses the script
+  const imageJob = (await storage.getJobsByPayload('image', 'generationId', generation.id))[0]
+    ?? await queue.enqueue('image', job.userId, {
+      generationId: generation.id,
+      journeyIdea: payload.journeyIdea,
+      archetypeName: archetype.name,
+    });
+
+  return {
+    fullScript: generation.fullScript,
+    storyOutline: payload.expandedStory,
+    generationId: generation.id,
+    title: generation.title,
+    imageJobId: imageJob.id,
+    estimatedDuration,
+  };
+}
+
+async function writeDreamScript(
+  payload: DreamScriptJobPayload,
+  archetype: Archetype,
+  { job, progress }: JobContext
+) {
+  // Get a template suitable for DREAM (high somatic, high symbolic)
+  const recommendations = await templateSelector.recommendTemplates(payload.journeyIdea, "deep rest and peaceful sleep");
+  if (recommendations.length === 0) {
+    throw new PermanentJobError('No suitable template found for DREAM hypnosis');
+  }
+
+  const template = recommendations[0].template;
+  const templateJson = typeof template.jsonData === 'string'
+    ? JSON.parse(template.jsonData)
+    : template.jsonData as any;
+
+  // Enhance template for DREAM: boost somatic and symbolic, set archetype
+  const dreamTemplate = {
+    ...templateJson,
+    dimensions: {
+      ...templateJson.dimensions,
+      somatic: {
+        ...templateJson.dimensions.somatic,
+        level: Math.max(70, templateJson.dimensions.somatic.level)
+      },
+      symbolic: {
+        ...templateJson.dimensions.symbolic,
+        level: Math.max(70, templateJson.dimensions.symbolic.level),
+        archetype: `${archetype.name} - ${archetype.description || ''}`
+      },
+    }
+  };
+
+  if (payload.expandedStory) {
+    progress({ type: 'stage', stage: 'outline', status: 'complete', message: 'Story outline ready', data: { outline: payload.expandedStory } });
+  }
+
+  // Generate DREAM script (30 minutes = ~3000 words)
+  // If expandedStory is provided (two-step flow), use it instead of the brief journey idea
+  const result = await aiService.generateFullScript({
+    template: dreamTemplate,
+    presentingIssue: payload.expandedStory || payload.journeyIdea,
+    desiredOutcome: DREAM_OUTCOME,
+    emergenceType: 'sleep',  // Key difference: sleep emergence
+    targetWordCount: 3000,  // 30-minute script
+    targetDurationMinutes: payload.targetDurationMinutes,
+    readerMarkup: payload.readerMarkup,
+    onProgress: progress,
+    // Always the user's own words; the LLM-shaped story is screened alongside, never instead
+    safety: await screenForJob(
+      { presentingIssue: payload.journeyIdea, desiredOutcome: DREAM_OUTCOME, clientNotes: payload.expandedStory },
+      'dream',
+      job.userId
+    ),
+  });
+
+  progress({ type: 'stage', stage: 'finalize', status: 'started', message: 'Creating title' });
+  const dreamTitle = await aiService.generateDreamTitle({
+    journeyIdea: payload.journeyIdea,
+    archetypeName: archetype.name,
+  });
+
+  const generation = await storage.createGeneration({
+    userId: job.userId,
+    title: dreamTitle,
+    generationMode: 'dream',
+    isFree: false,
+    presentingIssue: payload.journeyIdea,
+    desiredOutcome: DREAM_OUTCOME,
+    storyOutline: payload.expandedStory, // Save the 800-1200 word story outline from Step 1
+    fullScript: result.fullScript,
+    archetypeId: archetype.id,
+    jobId: job.id,
+  });
+
+  return { generation, estimatedDuration: result.estimatedDuration };
+}
@@ -0,0 +1,262 @@
+/**
+ * Job Queue - durable background work backed by the `jobs` table
+ *
+ * Routes enqueue jobs and return immediately; a worker loop in the same
+ * process (or any other process pointed at the same database) leases due
+ * jobs, runs the registered handler, and records the outcome.
+ *
+ * - Retries: failed attempts are re-queued with exponential backoff until
+ *   maxAttempts; throw PermanentJobError to fail without retrying
+ * - Per-user concurrency: a user never has more than JOB_MAX_PER_USER jobs running
+ * - Crash recovery: jobs whose lease is older than JOB_LEASE_MS go back to the queue; a running
+ *   job renews its lease on a heartbeat so long generations are never re-queued mid-run
+ */
+
+import { EventEmitter } from 'events';
+import os from 'os';
+import { storage, type IStorage } from './storage';
+import type { Job, GenerationProgressEvent, GenerationStageEvent } from '@shared/schema';
+import type { ProgressCallback } from './generation-stream';
+
+export type JobType = 'script' | 'package' | 'image' | 'tts';
+
+export type IJobStore = Pick<
+  IStorage,
+  'createJob' | 'getJobById' | 'claimNextJob' | 'updateJobProgress' | 'completeJob' | 'retryJob' | 'failJob' | 'requeueStaleJobs' | 'renewJobLease'
+>;
+
+export interface JobContext {
+  job: Job;
+  isFinalAttempt: boolean; // No retry follows if this attempt throws
+  progress: ProgressCallback;
+}
+
+export type JobHandler = (payload: any, context: JobContext) => Promise<unknown>;
+
+export interface JobQueueOptions {
+  concurrency: number; // Jobs this worker runs at once
+  maxRunningPerUser: number;
+  pollIntervalMs: number;
+  backoffBaseMs: number;
+  maxBackoffMs: number;
+  leaseMs: number;
+}
+
+/**
+ * Thrown by handlers for failures a retry cannot fix (missing data, invalid input)
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  concurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10),
+  maxRunningPerUser: parseInt(process.env.JOB_MAX_PER_USER || '2', 10),
+  pollIntervalMs: parseInt(process.env.JOB_POLL_MS || '2000', 10),
+  backoffBaseMs: parseInt(process.env.JOB_BACKOFF_MS || '10000', 10),
+  maxBackoffMs: 10 * 60 * 1000,
+  leaseMs: parseInt(process.env.JOB_LEASE_MS || String(15 * 60 * 1000), 10),
+};
+
+/**
+ * Delay before retry N (1-based): base, 2x base, 4x base... capped
+ */
+export function computeBackoff(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.min(baseMs * 2 ** Math.max(0, attempt - 1), maxMs);
+}
+
+export class JobQueue {
+  private handlers = new Map<string, JobHandler>();
+  private events = new EventEmitter();
+  private options: JobQueueOptions;
+  private workerId = `${os.hostname()}:${process.pid}`;
+  private timer: NodeJS.Timeout | null = null;
+  private running = 0;
+  private ticking = false;
+
+  constructor(private store: IJobStore = storage, options: Partial<JobQueueOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.events.setMaxListeners(0);
+  }
+
+  registerHandler(type: JobType, handler: JobHandler): void {
+    this.handlers.set(type, handler);
+  }
+
+  async enqueue(
+    type: JobType,
+    userId: string,
+    payload: Record<string, unknown>,
+    options: { maxAttempts?: number } = {}
+  ): Promise<Job> {
+    const job = await this.store.createJob({
+      type,
+      userId,
+      payload,
+      status: 'queued',
+      maxAttempts: options.maxAttempts ?? 3,
+    });
+    console.log(`[JOBS] Enqueued ${type} job #${job.id} for user ${userId}`);
+
+    // Don't wait for the next poll when this worker has capacity
+    if (this.timer) {
+      setImmediate(() => this.tick());
+    }
+    return job;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    console.log(`[JOBS] Worker ${this.workerId} started (concurrency ${this.options.concurrency}, ${this.options.maxRunningPerUser} per user)`);
+    this.timer = setInterval(() => this.tick(), this.options.pollIntervalMs);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One poll: recover expired leases, then claim jobs up to the concurrency limit
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const requeued = await this.store.requeueStaleJobs(new Date(Date.now() - this.options.leaseMs));
+      if (requeued > 0) {
+        console.log(`[JOBS] Re-queued ${requeued} job(s) with expired leases`);
+      }
+
+      while (this.running < this.options.concurrency) {
+        const job = await this.store.claimNextJob(this.workerId, this.options.maxRunningPerUser);
+        if (!job) break;
+        this.running++;
+        this.execute(job)
+          .catch((error: any) => {
+            // Store unreachable while recording the outcome; the lease expires and the job is re-queued
+            console.error(`[JOBS] Failed to record outcome of ${job.type} job #${job.id}:`, error?.message || error);
+          })
+          .finally(() => {
+            this.running--;
+          });
+      }
+    } catch (error: any) {
+      console.error('[JOBS] Poll failed:', error.message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run one leased job and record its outcome
+   */
+  async execute(job: Job): Promise<void> {
+    const stageEvents: GenerationStageEvent[] = [];
+    const progress: ProgressCallback = (event: GenerationProgressEvent) => {
+      this.events.emit(`progress:${job.id}`, event);
+      if (event.type === 'stage') {
+        stageEvents.push(event);
+        this.store.updateJobProgress(job.id, stageEvents).catch(() => {});
+      }
+    };
+
+    const leaseOwner = job.lockedBy || this.workerId;
+    const heartbeat = setInterval(() => {
+      this.store.renewJobLease(job.id, leaseOwner).catch(() => {});
+    }, Math.max(1000, Math.floor(this.options.leaseMs / 3)));
+    let recorded: boolean;
+
+    try {
+      const handler = this.handlers.get(job.type);
+      if (!handler) {
+        throw new PermanentJobError(`No handler registered for job type "${job.type}"`);
+      }
+      if (job.attempts > job.maxAttempts) {
+        throw new PermanentJobError('Exceeded max attempts (worker stopped mid-run)');
+      }
+
+      console.log(`[JOBS] Running ${job.type} job #${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+      const result = await handler(job.payload, {
+        job,
+        isFinalAttempt: job.attempts >= job.maxAttempts,
+        progress,
+      });
+      clearInterval(heartbeat);
+
+      recorded = await this.store.completeJob(job.id, leaseOwner, result);
+      if (recorded) console.log(`[JOBS] ✓ ${job.type} job #${job.id} completed`);
+    } catch (error: any) {
+      clearInterval(heartbeat);
+      const message = error?.message || 'Unknown job error';
+      const canRetry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+
+      if (canRetry) {
+        const delay = computeBackoff(job.attempts, this.options.backoffBaseMs, this.options.maxBackoffMs);
+        recorded = await this.store.retryJob(job.id, leaseOwner, message, new Date(Date.now() + delay));
+        if (recorded) console.warn(`[JOBS] ${job.type} job #${job.id} failed (${message}); retrying in ${Math.round(delay / 1000)}s`);
+      } else {
+        recorded = await this.store.failJob(job.id, leaseOwner, message);
+        if (recorded) console.error(`[JOBS] ✗ ${job.type} job #${job.id} failed permanently: ${message}`);
+      }
+    }
+
+    if (!recorded) {
+      // The lease expired and the job was re-queued (or claimed by another worker); that run owns the outcome
+      console.warn(`[JOBS] Lost the lease on ${job.type} job #${job.id}; discarding this run's outcome`);
+      return;
+    }
+
+    const finished = await this.store.getJobById(job.id);
+    if (finished && (finished.status === 'completed' || finished.status === 'failed')) {
+      this.events.emit(`done:${job.id}`, finished);
+    }
+  }
+
+  /**
+   * Resolve once a job completes or fails, forwarding live progress when the job runs in this process.
+   * Also polls the database so jobs run by another worker are still noticed.
+   */
+  waitForJob(jobId: number, onProgress?: ProgressCallback, pollMs: number = 5000): Promise<Job> {
+    return new Promise((resolve, reject) => {
+      const progressListener = (event: GenerationProgressEvent) => onProgress?.(event);
+      const cleanup = () => {
+        clearInterval(poll);
+        this.events.off(`progress:${jobId}`, progressListener);
+        this.events.off(`done:${jobId}`, finish);
+      };
+      const finish = (job: Job) => {
+        cleanup();
+        resolve(job);
+      };
+      const check = async () => {
+        try {
+          const job = await this.store.getJobById(jobId);
+          if (!job) {
+            cleanup();
+            reject(new Error(`Job ${jobId} not found`));
+          } else if (job.status === 'completed' || job.status === 'failed') {
+            finish(job);
+          }
+        } catch (error) {
+          cleanup();
+          reject(error);
+        }
+      };
+
+      this.events.on(`progress:${jobId}`, progressListener);
+      this.events.on(`done:${jobId}`, finish);
+      const poll = setInterval(check, pollMs);
+      check();
+    });
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new JobQueue();
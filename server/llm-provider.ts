@@ -0,0 +1,252 @@
+/**
+ * LLM Provider Layer
+ *
+ * Single entry point for every text-generation call in the app.
+ * The provider is chosen by config (LLM_PROVIDER):
+ * - 'anthropic' (default): Claude via @anthropic-ai/sdk
+ * - 'openai': any OpenAI-compatible chat completions endpoint (LLM_BASE_URL)
+ * - 'stub': offline fixture replay for CI and laptops without API keys
+ *
+ * Whatever the provider, calls pass through the cassette store (CASSETTE_MODE)
+ * so they can be recorded and replayed by prompt hash.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI from 'openai';
+import fs from 'fs';
+import path from 'path';
+import { cassetteStore, type CassetteStore } from './cassette-store';
+
+/*
+<important_code_snippet_instructions>
+The newest Anthropic model is "claude-sonnet-4-20250514", not "claude-3-7-sonnet-20250219", "claude-3-5-sonnet-20241022" nor "claude-3-sonnet-20240229".
+If the user doesn't specify a model, always prefer using "claude-sonnet-4-20250514" as it is the latest model.
+</important_code_snippet_instructions>
+*/
+
+// <important_do_not_delete>
+const DEFAULT_MODEL_STR = "claude-sonnet-4-20250514";
+// </important_do_not_delete>
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'stub';
+
+export interface LLMRequest {
+  task: string; // Stable label for the call site (e.g. 'full-script', 'micro-polish') - used for fixture lookup
+  system?: string;
+  prompt: string;
+  maxTokens: number;
+  temperature?: number;
+  onToken?: (text: string) => void; // Optional: receive text deltas as they stream in
+}
+
+export interface ILLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<string>;
+}
+
+// Real Anthropic implementation
+export class AnthropicProvider implements ILLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private client: Anthropic | null = null;
+
+  constructor(model: string = DEFAULT_MODEL_STR) {
+    this.model = model;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    if (!this.client) {
+      this.client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+    }
+
+    const params = {
+      model: this.model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: [{ role: 'user' as const, content: request.prompt }],
+    };
+
+    let response: Anthropic.Message;
+    if (request.onToken) {
+      const stream = this.client.messages.stream(params);
+      stream.on('text', request.onToken);
+      response = await stream.finalMessage();
+    } else {
+      response = await this.client.messages.create(params);
+    }
+
+    const textContent = response.content[0];
+    if (textContent.type !== 'text') {
+      throw new Error(`Expected text response from AI (${request.task})`);
+    }
+    return textContent.text;
+  }
+}
+
+// OpenAI-compatible implementation (OpenAI, Azure, vLLM, Ollama, LM Studio...)
+export class OpenAICompatibleProvider implements ILLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private client: OpenAI | null = null;
+
+  constructor(model: string = DEFAULT_OPENAI_MODEL) {
+    this.model = model;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    if (!this.client) {
+      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('Missing required secret for OpenAI-compatible provider: LLM_API_KEY or OPENAI_API_KEY');
+      }
+      this.client = new OpenAI({
+        apiKey,
+        baseURL: process.env.LLM_BASE_URL || undefined,
+      });
+    }
+
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+    if (request.system) {
+      messages.push({ role: 'system', content: request.system });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    const params = {
+      model: this.model,
+      max_tokens: request.maxTokens,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages,
+    };
+
+    let text: string | null | undefined;
+    if (request.onToken) {
+      const stream = await this.client.chat.completions.create({ ...params, stream: true });
+      text = '';
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          request.onToken(delta);
+        }
+      }
+    } else {
+      const response = await this.client.chat.completions.create(params);
+      text = response.choices[0]?.message?.content;
+    }
+
+    if (!text) {
+      throw new Error(`Expected text response from AI (${request.task})`);
+    }
+    return text;
+  }
+}
+
+// Offline implementation - replays canned responses from <fixtureDir>/<task>.json|.txt
+export class FixtureProvider implements ILLMProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'fixture-replay';
+  private fixtureDir: string;
+  private cache = new Map<string, string>();
+
+  constructor(fixtureDir: string = path.join(process.cwd(), 'server', 'llm-fixtures')) {
+    this.fixtureDir = fixtureDir;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const text = this.read(request.task);
+    request.onToken?.(text);
+    return text;
+  }
+
+  private read(task: string): string {
+    const cached = this.cache.get(task);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    for (const ext of ['.json', '.txt']) {
+      const filePath = path.join(this.fixtureDir, `${task}${ext}`);
+      if (fs.existsSync(filePath)) {
+        const text = fs.readFileSync(filePath, 'utf-8');
+        this.cache.set(task, text);
+        return text;
+      }
+    }
+
+    throw new Error(`No LLM fixture for task "${task}" in ${this.fixtureDir}`);
+  }
+}
+
+// Record/replay wrapper - delegates to the cassette store, which passes through when CASSETTE_MODE=off
+export class CassetteProvider implements ILLMProvider {
+  constructor(private inner: ILLMProvider, private store: CassetteStore = cassetteStore) {}
+
+  get name(): LLMProviderName {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    let calledInner = false;
+    const text = await this.store.run(
+      'llm',
+      request.task,
+      {
+        system: request.system,
+        prompt: request.prompt,
+        model: this.inner.model,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+      },
+      () => {
+        calledInner = true;
+        return this.inner.complete(request);
+      }
+    );
+
+    // Replayed responses arrive all at once
+    if (!calledInner) {
+      request.onToken?.(text);
+    }
+    return text;
+  }
+}
+
+/**
+ * Build the provider for a given config (defaults read from env)
+ */
+export function createLLMProvider(
+  providerName: string = process.env.LLM_PROVIDER || 'anthropic',
+  model: string | undefined = process.env.LLM_MODEL || undefined
+): ILLMProvider {
+  switch (providerName) {
+    case 'anthropic':
+      return new AnthropicProvider(model);
+    case 'openai':
+      return new OpenAICompatibleProvider(model);
+    case 'stub':
+      return new FixtureProvider(process.env.LLM_FIXTURE_DIR || undefined);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}" (expected anthropic, openai or stub)`);
+  }
+}
+
+/**
+ * Strip markdown code fences (```json ... ```) from model output before JSON.parse
+ */
+export function cleanJsonResponse(text: string): string {
+  return text
+    .replace(/^```(?:json)?\s*\n?/gm, '')
+    .replace(/\n?```\s*$/gm, '')
+    .trim();
+}
+
+// Export the provider selected by config, wrapped for cassette record/replay
+export const llmProvider: ILLMProvider = new CassetteProvider(createLLMProvider());
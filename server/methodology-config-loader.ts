@@ -0,0 +1,64 @@
+/**
+ * Methodology Config Loader - keeps the live methodology configs in step with the database
+ *
+ * Loads the active version of each config at startup, after every admin save/rollback,
+ * and on a light poll so other instances pick up changes without a restart.
+ */
+
+import { storage } from './storage';
+import {
+  methodologyConfig,
+  validateMethodologyConfig,
+  type MethodologyConfigKey,
+  type MethodologyLoadResult,
+  type MethodologyVersions,
+} from './script-engine/methodology-config';
+import type { MethodologyConfig } from '@shared/schema';
+
+const REFRESH_MS = parseInt(process.env.METHODOLOGY_CONFIG_REFRESH_MS || '60000', 10); // 0 disables polling
+
+function describeVersions(versions: MethodologyVersions): string {
+  return Object.entries(versions)
+    .map(([key, version]) => `${key}=${version === 0 ? 'bundled' : `v${version}`}`)
+    .join(', ');
+}
+
+export async function reloadMethodologyConfig(): Promise<MethodologyLoadResult> {
+  const before = describeVersions(methodologyConfig.getVersions());
+  const records = await storage.getActiveMethodologyConfigs();
+  const result = methodologyConfig.load(records);
+
+  const after = describeVersions(result.versions);
+  if (after !== before) {
+    console.log(`[METHODOLOGY] Live configs: ${after}`);
+  }
+  return result;
+}
+
+/**
+ * Validate a config document, store it as the next version and make it live.
+ * Throws the ZodError untouched so callers can report each issue.
+ */
+export async function saveMethodologyConfig(
+  key: MethodologyConfigKey,
+  content: Record<string, unknown>,
+  notes?: string,
+  createdBy?: string,
+): Promise<{ record: MethodologyConfig; reload: MethodologyLoadResult }> {
+  validateMethodologyConfig(key, content);
+  const record = await storage.createMethodologyConfigVersion({ key, content, notes, createdBy });
+  const reload = await reloadMethodologyConfig();
+  return { record, reload };
+}
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+export function startMethodologyConfigRefresh(intervalMs: number = REFRESH_MS): void {
+  if (refreshTimer || intervalMs <= 0) return;
+  refreshTimer = setInterval(() => {
+    reloadMethodologyConfig().catch(error => {
+      console.error('[METHODOLOGY] Refresh failed, keeping current configs:', error.message);
+    });
+  }, intervalMs);
+  refreshTimer.unref();
+}
@@ -3,6 +3,7 @@
 import { Storage, File } from "@google-cloud/storage";
 import { Response } from "express";
 import { randomUUID } from "crypto";
+import { AUDIO_CONTENT_TYPES, type AudioFormat } from "./audio-utils";
 
 const REPLIT_SIDECAR_ENDPOINT = "http://127.0.0.1:1106";
 
@@ -111,6 +112,44 @@ export class ObjectStorageService {
 
   // Uploads a buffer to object storage and returns the public URL
   async uploadDreamImage(imageBuffer: Buffer): Promise<string> {
+    return this.uploadPublicObject('dream-thumbnails', 'png', imageBuffer, 'image/png');
+  }
+
+  // Uploads narrated audio (MP3 by default) and returns the public URL
+  async uploadAudio(audioBuffer: Buffer, format: AudioFormat = 'mp3'): Promise<string> {
+    return this.uploadPublicObject('audio', format, audioBuffer, AUDIO_CONTENT_TYPES[format]);
+  }
+
+  // Reads a stored public object back by the URL uploadPublicObject returned; null if it is gone
+  async downloadPublicObject(url: string): Promise<Buffer | null> {
+    const filePath = url.replace(/^\/public-objects\//, "");
+    const file = await this.searchPublicObject(filePath);
+    if (!file) {
+      return null;
+    }
+    const [contents] = await file.download();
+    return contents;
+  }
+
+  // Removes a stored public object by its URL (no-op if it is already gone)
+  async deletePublicObject(url: string): Promise<void> {
+    const file = await this.searchPublicObject(url.replace(/^\/public-objects\//, ""));
+    if (file) {
+      await file.delete();
+    }
+  }
+
+  private async uploadPublicObject(
+    folder: string,
+    extension: string,
+    buffer: Buffer,
+    contentType: string
+  ): Promise<string> {
+    return this.savePublicObject(`${folder}/${randomUUID()}.${extension}`, buffer, contentType);
+  }
+
+  // Writes (or overwrites) a public object at a fixed path, e.g. content-addressed cache entries
+  async savePublicObject(filePath: string, buffer: Buffer, contentType: string): Promise<string> {
     const searchPaths = this.getPublicObjectSearchPaths();
     if (searchPaths.length === 0) {
       throw new Error("No public search paths configured");
@@ -118,23 +157,22 @@ export class ObjectStorageService {
 
     // Use the first public search path
     const publicPath = searchPaths[0];
-    const imageId = randomUUID();
-    const fullPath = `${publicPath}/dream-thumbnails/${imageId}.png`;
+    const fullPath = `${publicPath}/${filePath}`;
 
     const { bucketName, objectName } = parseObjectPath(fullPath);
     const bucket = objectStorageClient.bucket(bucketName);
     const file = bucket.file(objectName);
 
-    // Upload the image
-    await file.save(imageBuffer, {
+    // Upload the object
+    await file.save(buffer, {
       metadata: {
-        contentType: 'image/png',
+        contentType,
         cacheControl: 'public, max-age=31536000, immutable',
       },
     });
 
     // Return the public URL path
-    return `/public-objects/dream-thumbnails/${imageId}.png`;
+    return `/public-objects/${filePath}`;
   }
 }
 
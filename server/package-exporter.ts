@@ -0,0 +1,504 @@
+/**
+ * Package Exporter - turns a completed script package into a downloadable file
+ *
+ * - txt: plain-text dump (original export format)
+ * - docx / pdf: title page, table of contents, one chapter per script
+ * - epub: EPUB 3 book (with an NCX table of contents for older e-readers)
+ * - bundle: ZIP of per-script Markdown plus stored TTS audio and scene images
+ */
+
+import { randomUUID } from 'crypto';
+import JSZip from 'jszip';
+import PDFDocument from 'pdfkit';
+import {
+  AlignmentType,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  TableOfContents,
+  TextRun,
+} from 'docx';
+
+export const PACKAGE_EXPORT_FORMATS = ['txt', 'docx', 'pdf', 'epub', 'bundle'] as const;
+export type PackageExportFormat = typeof PACKAGE_EXPORT_FORMATS[number];
+
+export function isPackageExportFormat(format: string): format is PackageExportFormat {
+  return (PACKAGE_EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+export interface ExportScript {
+  title: string;
+  description?: string | null;
+  presentingIssue?: string | null;
+  desiredOutcome?: string | null;
+  script: string;
+  imageUrls: string[];
+  audioUrls: string[];
+}
+
+export interface PackageExportContent {
+  title: string;
+  theme: string;
+  description?: string | null;
+  scripts: ExportScript[];
+}
+
+export interface ExportedFile {
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+// Fetches a stored asset (e.g. /public-objects/audio/<id>.mp3); null when it no longer exists
+export type AssetLoader = (url: string) => Promise<Buffer | null>;
+
+const CONTENT_TYPES: Record<PackageExportFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pdf: 'application/pdf',
+  epub: 'application/epub+zip',
+  bundle: 'application/zip',
+};
+
+const EXTENSIONS: Record<PackageExportFormat, string> = {
+  txt: 'txt',
+  docx: 'docx',
+  pdf: 'pdf',
+  epub: 'epub',
+  bundle: 'zip',
+};
+
+/**
+ * Split a script into paragraphs on blank lines, keeping single line breaks inside a paragraph
+ */
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+/**
+ * File-name-safe slug, e.g. "Calm Shores: Part 1" -> "calm-shores-part-1"
+ */
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'untitled';
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function chapterLabel(index: number): string {
+  return String(index + 1).padStart(2, '0');
+}
+
+export class PackageExporter {
+  async export(
+    content: PackageExportContent,
+    format: PackageExportFormat,
+    loadAsset?: AssetLoader
+  ): Promise<ExportedFile> {
+    let buffer: Buffer;
+    switch (format) {
+      case 'txt':
+        buffer = Buffer.from(this.toText(content), 'utf-8');
+        break;
+      case 'docx':
+        buffer = await this.toDocx(content);
+        break;
+      case 'pdf':
+        buffer = await this.toPdf(content);
+        break;
+      case 'epub':
+        buffer = await this.toEpub(content);
+        break;
+      case 'bundle':
+        buffer = await this.toBundle(content, loadAsset);
+        break;
+    }
+
+    return { buffer, contentType: CONTENT_TYPES[format], extension: EXTENSIONS[format] };
+  }
+
+  toText(content: PackageExportContent): string {
+    let exportText = `${content.title}\n`;
+    exportText += `Theme: ${content.theme}\n`;
+    exportText += `\n${'='.repeat(80)}\n\n`;
+
+    content.scripts.forEach((script, index) => {
+      exportText += `SCRIPT ${index + 1}: ${script.title}\n`;
+      exportText += `${'='.repeat(80)}\n\n`;
+      exportText += `Presenting Issue: ${script.presentingIssue || ''}\n`;
+      exportText += `Desired Outcome: ${script.desiredOutcome || ''}\n\n`;
+      exportText += `${script.script}\n\n`;
+      exportText += `${'-'.repeat(80)}\n\n`;
+    });
+
+    return exportText;
+  }
+
+  /**
+   * One script as a standalone Markdown document
+   */
+  toMarkdown(script: ExportScript, index: number): string {
+    const lines = [`# ${index + 1}. ${script.title}`, ''];
+    if (script.description) {
+      lines.push(`_${script.description}_`, '');
+    }
+    lines.push('## Presenting Issue', '', script.presentingIssue || '', '');
+    lines.push('## Desired Outcome', '', script.desiredOutcome || '', '');
+    lines.push('## Script', '', ...splitParagraphs(script.script).flatMap(p => [p, '']));
+    return lines.join('\n');
+  }
+
+  // ============================================
+  // DOCX
+  // ============================================
+
+  async toDocx(content: PackageExportContent): Promise<Buffer> {
+    const titlePage = [
+      new Paragraph({ spacing: { before: 3000 }, children: [] }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: content.title, bold: true, size: 56 })],
+      }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 400 },
+        children: [new TextRun({ text: `Theme: ${content.theme}`, italics: true, size: 28 })],
+      }),
+      ...(content.description
+        ? [new Paragraph({ alignment: AlignmentType.CENTER, spacing: { before: 400 }, text: content.description })]
+        : []),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 400 },
+        text: `${content.scripts.length} hypnosis scripts`,
+      }),
+    ];
+
+    // Word fills in the TOC field (and its page numbers) when the document is opened
+    const contents = [
+      new Paragraph({ text: 'Contents', heading: HeadingLevel.TITLE }),
+      new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-1' }),
+    ];
+
+    const chapters = content.scripts.flatMap((script, index) => [
+      new Paragraph({
+        text: `${index + 1}. ${script.title}`,
+        heading: HeadingLevel.HEADING_1,
+        pageBreakBefore: index > 0,
+      }),
+      ...(script.description
+        ? [new Paragraph({ children: [new TextRun({ text: script.description, italics: true })] })]
+        : []),
+      new Paragraph({ text: 'Presenting Issue', heading: HeadingLevel.HEADING_2 }),
+      new Paragraph({ text: script.presentingIssue || '' }),
+      new Paragraph({ text: 'Desired Outcome', heading: HeadingLevel.HEADING_2 }),
+      new Paragraph({ text: script.desiredOutcome || '' }),
+      new Paragraph({ text: 'Script', heading: HeadingLevel.HEADING_2 }),
+      ...splitParagraphs(script.script).map(text => new Paragraph({
+        spacing: { after: 200 },
+        children: text.split('\n').map((line, i) => new TextRun({ text: line, break: i > 0 ? 1 : undefined })),
+      })),
+    ]);
+
+    const doc = new Document({
+      title: content.title,
+      description: content.description || `Hypnosis script package: ${content.theme}`,
+      features: { updateFields: true },
+      sections: [
+        { children: titlePage },
+        { children: contents },
+        { children: chapters },
+      ],
+    });
+
+    return Packer.toBuffer(doc);
+  }
+
+  // ============================================
+  // PDF
+  // ============================================
+
+  async toPdf(content: PackageExportContent): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      margin: 72,
+      bufferPages: true, // Lets us come back and fill in the contents page
+      info: { Title: content.title, Subject: `Hypnosis script package: ${content.theme}` },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    // Title page
+    doc.moveDown(10);
+    doc.font('Helvetica-Bold').fontSize(28).text(content.title, { align: 'center' });
+    doc.moveDown();
+    doc.font('Helvetica-Oblique').fontSize(14).text(`Theme: ${content.theme}`, { align: 'center' });
+    if (content.description) {
+      doc.moveDown();
+      doc.font('Helvetica').fontSize(12).text(content.description, { align: 'center' });
+    }
+    doc.moveDown();
+    doc.font('Helvetica').fontSize(12).text(`${content.scripts.length} hypnosis scripts`, { align: 'center' });
+
+    // Reserve contents pages, filled in once chapter page numbers are known
+    const entriesPerPage = 24;
+    const tocPageCount = Math.max(1, Math.ceil(content.scripts.length / entriesPerPage));
+    const tocStart = doc.bufferedPageRange().count;
+    for (let i = 0; i < tocPageCount; i++) {
+      doc.addPage();
+    }
+
+    // Chapters
+    const chapterPages: number[] = [];
+    content.scripts.forEach((script, index) => {
+      doc.addPage();
+      chapterPages.push(doc.bufferedPageRange().count);
+      doc.addNamedDestination(`chapter-${index + 1}`);
+      doc.outline.addItem(`${index + 1}. ${script.title}`);
+
+      doc.font('Helvetica-Bold').fontSize(20).text(`${index + 1}. ${script.title}`);
+      if (script.description) {
+        doc.moveDown(0.5);
+        doc.font('Helvetica-Oblique').fontSize(11).text(script.description);
+      }
+      doc.moveDown();
+      doc.font('Helvetica-Bold').fontSize(13).text('Presenting Issue');
+      doc.font('Helvetica').fontSize(11).text(script.presentingIssue || '');
+      doc.moveDown(0.5);
+      doc.font('Helvetica-Bold').fontSize(13).text('Desired Outcome');
+      doc.font('Helvetica').fontSize(11).text(script.desiredOutcome || '');
+      doc.moveDown();
+
+      doc.font('Helvetica').fontSize(12);
+      for (const paragraph of splitParagraphs(script.script)) {
+        doc.text(paragraph, { lineGap: 3 });
+        doc.moveDown(0.6);
+      }
+    });
+
+    // Contents
+    content.scripts.forEach((script, index) => {
+      const pageOffset = Math.floor(index / entriesPerPage);
+      if (index % entriesPerPage === 0) {
+        doc.switchToPage(tocStart + pageOffset);
+        doc.y = doc.page.margins.top;
+        doc.font('Helvetica-Bold').fontSize(20).text(pageOffset === 0 ? 'Contents' : 'Contents (continued)');
+        doc.moveDown();
+      }
+      const left = doc.page.margins.left;
+      const width = doc.page.width - left - doc.page.margins.right;
+      const top = doc.y;
+      const destination = `chapter-${index + 1}`;
+      doc.font('Helvetica').fontSize(12);
+      doc.text(`${index + 1}. ${script.title}`, left, top, { width: width - 40, goTo: destination });
+      const bottom = doc.y;
+      doc.text(String(chapterPages[index]), left, top, { width, align: 'right', goTo: destination });
+      doc.x = left;
+      doc.y = bottom;
+      doc.moveDown(0.4);
+    });
+
+    doc.end();
+    return finished;
+  }
+
+  // ============================================
+  // EPUB
+  // ============================================
+
+  async toEpub(content: PackageExportContent): Promise<Buffer> {
+    const zip = new JSZip();
+    const bookId = `urn:uuid:${randomUUID()}`;
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const chapters = content.scripts.map((script, index) => ({
+      id: `chapter-${chapterLabel(index)}`,
+      file: `chapter-${chapterLabel(index)}.xhtml`,
+      title: `${index + 1}. ${script.title}`,
+      script,
+    }));
+
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">',
+      '  <rootfiles>',
+      '    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>',
+      '  </rootfiles>',
+      '</container>',
+    ].join('\n'));
+
+    zip.file('OEBPS/content.opf', [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">',
+      '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      `    <dc:identifier id="book-id">${bookId}</dc:identifier>`,
+      `    <dc:title>${escapeXml(content.title)}</dc:title>`,
+      '    <dc:language>en</dc:language>',
+      `    <dc:subject>${escapeXml(content.theme)}</dc:subject>`,
+      ...(content.description ? [`    <dc:description>${escapeXml(content.description)}</dc:description>`] : []),
+      `    <meta property="dcterms:modified">${modified}</meta>`,
+      '  </metadata>',
+      '  <manifest>',
+      '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+      '    <item id="style" href="style.css" media-type="text/css"/>',
+      '    <item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>',
+      ...chapters.map(c => `    <item id="${c.id}" href="${c.file}" media-type="application/xhtml+xml"/>`),
+      '  </manifest>',
+      '  <spine toc="ncx">',
+      '    <itemref idref="title-page"/>',
+      '    <itemref idref="nav"/>',
+      ...chapters.map(c => `    <itemref idref="${c.id}"/>`),
+      '  </spine>',
+      '</package>',
+    ].join('\n'));
+
+    zip.file('OEBPS/style.css', [
+      'body { font-family: serif; line-height: 1.5; margin: 0 5%; }',
+      'h1 { font-size: 1.6em; margin-top: 2em; }',
+      'h2 { font-size: 1.1em; margin-top: 1.5em; }',
+      '.title-page { text-align: center; margin-top: 30%; }',
+      '.description { font-style: italic; }',
+      'nav ol { list-style: none; padding: 0; }',
+    ].join('\n'));
+
+    zip.file('OEBPS/title.xhtml', this.xhtmlPage(content.title, [
+      '<section class="title-page">',
+      `  <h1>${escapeXml(content.title)}</h1>`,
+      `  <p class="description">Theme: ${escapeXml(content.theme)}</p>`,
+      ...(content.description ? [`  <p>${escapeXml(content.description)}</p>`] : []),
+      `  <p>${content.scripts.length} hypnosis scripts</p>`,
+      '</section>',
+    ]));
+
+    zip.file('OEBPS/nav.xhtml', this.xhtmlPage('Contents', [
+      '<nav epub:type="toc" id="toc">',
+      '  <h1>Contents</h1>',
+      '  <ol>',
+      ...chapters.map(c => `    <li><a href="${c.file}">${escapeXml(c.title)}</a></li>`),
+      '  </ol>',
+      '</nav>',
+    ]));
+
+    zip.file('OEBPS/toc.ncx', [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">',
+      `  <head><meta name="dtb:uid" content="${bookId}"/></head>`,
+      `  <docTitle><text>${escapeXml(content.title)}</text></docTitle>`,
+      '  <navMap>',
+      ...chapters.map((c, i) => [
+        `    <navPoint id="nav-${c.id}" playOrder="${i + 1}">`,
+        `      <navLabel><text>${escapeXml(c.title)}</text></navLabel>`,
+        `      <content src="${c.file}"/>`,
+        '    </navPoint>',
+      ].join('\n')),
+      '  </navMap>',
+      '</ncx>',
+    ].join('\n'));
+
+    for (const chapter of chapters) {
+      const { script } = chapter;
+      zip.file(`OEBPS/${chapter.file}`, this.xhtmlPage(chapter.title, [
+        '<section>',
+        `  <h1>${escapeXml(chapter.title)}</h1>`,
+        ...(script.description ? [`  <p class="description">${escapeXml(script.description)}</p>`] : []),
+        '  <h2>Presenting Issue</h2>',
+        `  <p>${escapeXml(script.presentingIssue || '')}</p>`,
+        '  <h2>Desired Outcome</h2>',
+        `  <p>${escapeXml(script.desiredOutcome || '')}</p>`,
+        '  <h2>Script</h2>',
+        ...splitParagraphs(script.script).map(p => `  <p>${escapeXml(p).replace(/\n/g, '<br/>')}</p>`),
+        '</section>',
+      ]));
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+  }
+
+  private xhtmlPage(title: string, body: string[]): string {
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE html>',
+      '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">',
+      '<head>',
+      `  <title>${escapeXml(title)}</title>`,
+      '  <link rel="stylesheet" type="text/css" href="style.css"/>',
+      '</head>',
+      '<body>',
+      ...body,
+      '</body>',
+      '</html>',
+    ].join('\n');
+  }
+
+  // ============================================
+  // ZIP BUNDLE
+  // ============================================
+
+  async toBundle(content: PackageExportContent, loadAsset?: AssetLoader): Promise<Buffer> {
+    const zip = new JSZip();
+
+    const index = [`# ${content.title}`, '', `Theme: ${content.theme}`, ''];
+    if (content.description) {
+      index.push(content.description, '');
+    }
+    index.push('## Scripts', '');
+
+    for (let i = 0; i < content.scripts.length; i++) {
+      const script = content.scripts[i];
+      const base = `${chapterLabel(i)}-${slugify(script.title)}`;
+      zip.file(`scripts/${base}.md`, this.toMarkdown(script, i));
+      index.push(`${i + 1}. [${script.title}](scripts/${base}.md)`);
+
+      if (!loadAsset) continue;
+      await this.addAssets(zip, 'audio', base, script.audioUrls, loadAsset);
+      await this.addAssets(zip, 'images', base, script.imageUrls, loadAsset);
+    }
+
+    zip.file('README.md', index.join('\n') + '\n');
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  private async addAssets(
+    zip: JSZip,
+    folder: string,
+    base: string,
+    urls: string[],
+    loadAsset: AssetLoader
+  ): Promise<void> {
+    for (let i = 0; i < urls.length; i++) {
+      const url = urls[i];
+      try {
+        const data = await loadAsset(url);
+        if (!data) {
+          console.warn(`[EXPORT] Skipping missing asset ${url}`);
+          continue;
+        }
+        const extension = url.split('?')[0].split('.').pop() || 'bin';
+        const suffix = urls.length > 1 ? `-${i + 1}` : '';
+        zip.file(`${folder}/${base}${suffix}.${extension}`, data);
+      } catch (error: any) {
+        console.warn(`[EXPORT] Could not load asset ${url}:`, error.message);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const packageExporter = new PackageExporter();
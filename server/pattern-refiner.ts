@@ -3,11 +3,13 @@
  * 
  * Detects and fixes repetitive sentence patterns in DREAM scripts
  * to maintain variety and avoid AI-generated monotony.
+ *
+ * In 'spans' mode only the sentences carrying the occurrences past each threshold are rewritten.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+import { llmProvider } from './llm-provider';
+import { repairSpans, sentenceTargets, type RepairMode, type RepairTarget } from './span-repair';
+import type { ScriptRepair } from '@shared/script-repair';
 
 interface PatternAnalysis {
   overusedPatterns: {
@@ -24,6 +26,7 @@ interface RefinerResult {
   refinedScript: string;
   analysis: PatternAnalysis;
   changesMessage: string;
+  repairs?: ScriptRepair[]; // 'spans' mode: the edits that turned the input script into refinedScript
 }
 
 /**
@@ -119,12 +122,69 @@ export function analyzePatterns(script: string): PatternAnalysis {
   };
 }
 
+const SYSTEM_PROMPT = `You are a script refinement specialist. Your ONLY job is to rewrite repetitive sentence patterns while preserving:
+- ALL content and meaning
+- ALL specific details (names, dates, places)
+- The overall flow and structure
+- The peaceful, calming tone
+- NATURAL HYPNOTIC LANGUAGE with proper grammar and articles (the, a, your)
+
+CRITICAL HYPNOTIC LANGUAGE RULES:
+- ALWAYS KEEP "YOU" and "YOUR" - These are ESSENTIAL for personal connection, NOT repetition!
+- "You" and "your" keep the client engaged with themselves - this is hypnotic, not redundant
+- Use articles: "the breath" NOT "breath", "your body" NOT "body", "a gentle feeling" NOT "gentle feeling"  
+- Avoid robotic constructions: "you might notice" is fine, just vary it to "you may notice", "you can feel", "you discover"
+- NEVER use impersonal commands: "Take a breath" → "You take a breath", "Let eyes close" → "Your eyes close"
+- Maintain personal pronouns while varying the REST of the sentence
+
+DO NOT:
+- Remove "you" or "your" - these maintain personal connection
+- Use command forms ("Take", "Feel", "Notice") - always include "you" or "your"
+- Change the content or ideas
+- Add new information
+- Remove any details
+- Alter the script length significantly
+
+You will receive a script with repetitive sentence openers. Vary the sentence structures while KEEPING all "you" and "your" pronouns intact.`;
+
+const VARIETY_EXAMPLES = `Examples of GOOD variety (keeping personal pronouns):
+- "You might notice..." → "You may discover..." or "You can sense..." or "You begin to feel..."
+- "As you breathe..." → "With each breath you take..." or "You breathe and notice..." or "Your breathing deepens..."
+- "Perhaps you feel..." → "You may feel..." or "You might sense..." or "You discover a feeling..."
+- "Take a breath" → "You take a breath" or "Your breath deepens"
+- "Let your eyes close" → "Your eyes close" or "You let your eyes close"
+- "Feel the warmth" → "You feel the warmth" or "Your body feels the warmth"
+
+Examples of BAD variety (removing personal connection):
+❌ "A gentle awareness may arise..." (loses "you")
+❌ "With each breath..." (loses "you")  
+❌ "There's a quality of..." (loses "you")`;
+
+/**
+ * Sentences holding the occurrences of each overused pattern past its threshold
+ * (the first threshold - 1 occurrences stay as written)
+ */
+export function locateOverusedPatterns(script: string, analysis: PatternAnalysis): RepairTarget[] {
+  return analysis.overusedPatterns
+    .filter(p => p.needsRewrite)
+    .flatMap(p => {
+      const regex = new RegExp(`\\b${p.pattern}\\b`, 'gi');
+      let seen = 0;
+      return sentenceTargets(script, sentence => {
+        const before = seen;
+        seen += (sentence.match(regex) || []).length;
+        return seen > before && seen >= p.threshold;
+      }, `"${p.pattern}" used ${p.count} times (threshold: ${p.threshold}) - vary this sentence`);
+    });
+}
+
 /**
  * Refine script to reduce pattern repetition
  */
 export async function refinePatterns(
   script: string,
-  analysis: PatternAnalysis
+  analysis: PatternAnalysis,
+  options: { mode?: RepairMode } = {}
 ): Promise<RefinerResult> {
   // If diversity is already good, skip refinement
   if (analysis.diversityScore >= 85) {
@@ -145,30 +205,22 @@ export async function refinePatterns(
     };
   }
 
-  const systemPrompt = `You are a script refinement specialist. Your ONLY job is to rewrite repetitive sentence patterns while preserving:
-- ALL content and meaning
-- ALL specific details (names, dates, places)
-- The overall flow and structure
-- The peaceful, calming tone
-- NATURAL HYPNOTIC LANGUAGE with proper grammar and articles (the, a, your)
-
-CRITICAL HYPNOTIC LANGUAGE RULES:
-- ALWAYS KEEP "YOU" and "YOUR" - These are ESSENTIAL for personal connection, NOT repetition!
-- "You" and "your" keep the client engaged with themselves - this is hypnotic, not redundant
-- Use articles: "the breath" NOT "breath", "your body" NOT "body", "a gentle feeling" NOT "gentle feeling"  
-- Avoid robotic constructions: "you might notice" is fine, just vary it to "you may notice", "you can feel", "you discover"
-- NEVER use impersonal commands: "Take a breath" → "You take a breath", "Let eyes close" → "Your eyes close"
-- Maintain personal pronouns while varying the REST of the sentence
-
-DO NOT:
-- Remove "you" or "your" - these maintain personal connection
-- Use command forms ("Take", "Feel", "Notice") - always include "you" or "your"
-- Change the content or ideas
-- Add new information
-- Remove any details
-- Alter the script length significantly
+  if (options.mode === 'spans') {
+    const repaired = await repairSpans(script, locateOverusedPatterns(script, analysis), {
+      task: 'pattern-repair',
+      system: SYSTEM_PROMPT,
+      guidance: VARIETY_EXAMPLES,
+    });
+    const newAnalysis = analyzePatterns(repaired.script);
+    return {
+      refinedScript: repaired.script,
+      analysis: newAnalysis,
+      changesMessage: `Rewrote ${repaired.repairs.length} sentences for ${patternsToFix.length} patterns. Diversity improved: ${analysis.diversityScore}% → ${newAnalysis.diversityScore}%`,
+      repairs: repaired.repairs
+    };
+  }
 
-You will receive a script with repetitive sentence openers. Vary the sentence structures while KEEPING all "you" and "your" pronouns intact.`;
+  const systemPrompt = SYSTEM_PROMPT;
 
   const userPrompt = `Script to refine:
 ${script}
@@ -178,37 +230,21 @@ ${patternsToFix.map(p => `- "${p.pattern}" used ${p.count} times (threshold: ${p
 
 Task: Rewrite sentences that start with these patterns to create more variety. KEEP "you" and "your" - just vary the REST of the sentence structure.
 
-Examples of GOOD variety (keeping personal pronouns):
-- "You might notice..." → "You may discover..." or "You can sense..." or "You begin to feel..."
-- "As you breathe..." → "With each breath you take..." or "You breathe and notice..." or "Your breathing deepens..."
-- "Perhaps you feel..." → "You may feel..." or "You might sense..." or "You discover a feeling..."
-- "Take a breath" → "You take a breath" or "Your breath deepens"
-- "Let your eyes close" → "Your eyes close" or "You let your eyes close"
-- "Feel the warmth" → "You feel the warmth" or "Your body feels the warmth"
-
-Examples of BAD variety (removing personal connection):
-❌ "A gentle awareness may arise..." (loses "you")
-❌ "With each breath..." (loses "you")  
-❌ "There's a quality of..." (loses "you")
+${VARIETY_EXAMPLES}
 
 Return the refined script as JSON:
 {
   "refinedScript": "The complete refined script here..."
 }`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8000,
+  const responseText = await llmProvider.complete({
+    task: 'pattern-refine',
     system: systemPrompt,
-    messages: [{ role: 'user', content: userPrompt }],
+    prompt: userPrompt,
+    maxTokens: 8000,
   });
 
-  const textContent = response.content[0];
-  if (textContent.type !== 'text') {
-    throw new Error('Expected text response from Pattern Refiner');
-  }
-
-  let jsonText = textContent.text.trim();
+  let jsonText = responseText.trim();
   if (jsonText.startsWith('```json')) {
     jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
   } else if (jsonText.startsWith('```')) {
@@ -233,7 +269,7 @@ Return the refined script as JSON:
 /**
  * Main entry point for Pattern Refiner stage
  */
-export async function runPatternRefiner(script: string): Promise<RefinerResult> {
+export async function runPatternRefiner(script: string, options: { mode?: RepairMode } = {}): Promise<RefinerResult> {
   console.log('[PATTERN REFINER] Analyzing patterns...');
   const analysis = analyzePatterns(script);
   
@@ -249,7 +285,7 @@ export async function runPatternRefiner(script: string): Promise<RefinerResult>
   }
 
   console.log('[PATTERN REFINER] Refining patterns...');
-  const result = await refinePatterns(script, analysis);
+  const result = await refinePatterns(script, analysis, options);
   
   console.log(`[PATTERN REFINER] ✓ ${result.changesMessage}`);
   
@@ -3,18 +3,27 @@
  * 
  * Validates and polishes DREAM scripts to ensure quality standards
  * before delivery to the user.
+ *
+ * Failed checks are fixed either by a whole-script micro-polish ('rewrite') or by rewriting only
+ * the sentences each failed check points at ('spans'), which returns the repairs for review.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { analyzeGrammar } from './grammar-checker';
 import { EgoModule } from './script-engine/modules/ego-module';
+import { llmProvider } from './llm-provider';
+import { phaseSegmenter, phaseText, formatSegmentation, type ScriptPhase, type ScriptSegmentation } from './script-engine/phase-segmenter';
+import { qualityGateRunner, type GateResult } from './script-engine/quality-gate-runner';
+import { repairSpans, sentenceTargets, rangeTarget, type RepairMode, type RepairTarget } from './span-repair';
+import type { ScriptRepair } from '@shared/script-repair';
 
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
-
-interface QualityCheck {
+export interface QualityCheck {
   name: string;
   passed: boolean;
   details: string;
+  phase?: ScriptPhase; // Set when the check was scored against one phase of the script
+  principle?: string; // Set for principles.json quality gates
+  gate?: string; // principles.json gate id
+  fix?: string; // Principle-specific instruction for the micro-polish
 }
 
 interface QualityReport {
@@ -22,16 +31,41 @@ interface QualityReport {
   score: number; // 0-100
   checks: QualityCheck[];
   finalScript: string;
+  segmentation: ScriptSegmentation; // Phases of finalScript
+  gates: GateResult[]; // principles.json quality gates for finalScript (including skipped ones)
   polishMessage?: string;
+  repairs?: ScriptRepair[]; // 'spans' mode: the edits that turned the input script into finalScript
+  unrepaired?: string[]; // 'spans' mode: failed checks that couldn't be pinned to sentences
 }
 
+// Words of the induction that must carry the first body/breath anchor (Principle 1)
+const SOMATIC_ANCHOR_WORDS = 150;
+const SOMATIC_PATTERN = /\b(?:breath(?:e|es|ing)?|body|shoulders?|chest|belly|jaw|hands?|feet|arms?|legs?|heart(?:beat)?|muscles?|weight|heavy|warmth|sensations?|contact|support(?:ed|s)?)\b/gi;
+
+const AWAKEN_PATTERN = /awaken|alert|energized|refreshed|wide awake|open.*eyes|return.*feeling/i;
+const SLEEP_PATTERN = /drift.*sleep|fall.*asleep|let.*sleep|sleep.*natural|peaceful sleep|drift.*into.*peaceful sleep/i;
+
+// Phrasing the grammar checker counts as robotic
+const UNNATURAL_PATTERN = /\b(?:seems?\s+to\s+be|kind\s+of|sort\s+of|might\s+occur)\b|^(?:cat|dog|bird|mouse|breath|chest|weight|body|mind|heart)\s+(?:is|are|becomes?|settles?|begins?|flows?)\b/i;
+
+// Sentences of a repeated opener / overused metaphor word that may stay as they are
+const KEPT_METAPHOR_MENTIONS = 3;
+const SENTENCE_VARIETY_LIMIT = 0.12;
+
+// How many closing sentences a missing emergence is written into
+const EMERGENCE_REPAIR_SENTENCES = 3;
+
+const POLISH_SYSTEM_PROMPT = `You are a hypnosis script polisher. Make minimal, surgical edits to fix specific issues while preserving everything else.
+
+Your ONLY job: Fix the listed problems without changing anything else.`;
+
 /**
  * Check if emergence type is correct
  */
 function checkEmergence(script: string, emergenceType: 'sleep' | 'regular'): QualityCheck {
   const scriptLower = script.toLowerCase();
-  const hasAwaken = /awaken|alert|energized|refreshed|wide awake|open.*eyes|return.*feeling/i.test(script);
-  const hasSleep = /drift.*sleep|fall.*asleep|let.*sleep|sleep.*natural|peaceful sleep|drift.*into.*peaceful sleep/i.test(script);
+  const hasAwaken = AWAKEN_PATTERN.test(script);
+  const hasSleep = SLEEP_PATTERN.test(script);
   
   if (emergenceType === 'sleep') {
     if (hasAwaken) {
@@ -154,20 +188,6 @@ function checkNaturalGrammar(script: string): QualityCheck {
   };
 }
 
-/**
- * Check ego strengthening uses Benefit Cascade pattern (not flat lists)
- * Delegates to EgoModule - single source of truth
- */
-function checkEgoStrengtheningCascade(script: string): QualityCheck {
-  const result = EgoModule.validateCascadeStructure(script);
-  
-  return {
-    name: "Benefit Cascade Structure",
-    passed: result.passed,
-    details: result.details
-  };
-}
-
 /**
  * Check sentence variety (no excessive repetition of openers)
  */
@@ -342,6 +362,176 @@ function checkMetaphorConsistency(script: string): QualityCheck {
   };
 }
 
+/**
+ * Check body/breath awareness arrives within the first 150 words of the induction
+ */
+function checkSomaticAnchoring(inductionText: string): QualityCheck {
+  const opening = inductionText.split(/\s+/).filter(w => w.length > 0).slice(0, SOMATIC_ANCHOR_WORDS).join(' ');
+  const anchors = opening.match(SOMATIC_PATTERN) || [];
+  const passed = anchors.length >= 2;
+
+  return {
+    name: "Somatic Anchoring",
+    passed,
+    details: passed
+      ? `Body anchored early - ${anchors.length} body/breath references in the first ${SOMATIC_ANCHOR_WORDS} words`
+      : `Only ${anchors.length} body/breath references in the first ${SOMATIC_ANCHOR_WORDS} words of the induction (minimum: 2)`
+  };
+}
+
+/**
+ * Check ego strengthening uses Benefit Cascade pattern (not flat lists) and sits in the work phase
+ * Delegates to EgoModule - single source of truth
+ */
+function checkEgoCascadePosition(script: string, workText: string): QualityCheck {
+  const inWork = EgoModule.validateCascadeStructure(workText);
+  if (inWork.passed) {
+    return { name: "Benefit Cascade Structure", passed: true, details: `${inWork.details} (work phase)` };
+  }
+
+  const anywhere = EgoModule.validateCascadeStructure(script);
+  return {
+    name: "Benefit Cascade Structure",
+    passed: false,
+    details: anywhere.passed
+      ? 'Benefit Cascade found outside the work phase - move it after the metaphor, before emergence'
+      : inWork.details
+  };
+}
+
+/**
+ * Score a check against one phase; the whole script stands in when the phase wasn't found
+ */
+function scoreInPhase(
+  script: string,
+  segmentation: ScriptSegmentation,
+  phase: ScriptPhase,
+  check: (text: string) => QualityCheck
+): QualityCheck {
+  const text = phaseText(script, segmentation, phase);
+  if (!text) {
+    const result = check(script);
+    return { ...result, details: `${result.details} (whole script - no ${phase} phase found)` };
+  }
+  return { ...check(text), phase };
+}
+
+/**
+ * Checks scored against their phase: somatic anchoring (induction), emergence type (emergence),
+ * metaphor consistency and Benefit Cascade position (work)
+ */
+export function runPhaseChecks(
+  script: string,
+  segmentation: ScriptSegmentation,
+  emergenceType: 'sleep' | 'regular'
+): QualityCheck[] {
+  return [
+    scoreInPhase(script, segmentation, 'induction', checkSomaticAnchoring),
+    scoreInPhase(script, segmentation, 'emergence', text => checkEmergence(text, emergenceType)),
+    scoreInPhase(script, segmentation, 'work', checkMetaphorConsistency), // The metaphor journey lives in the work phase
+    scoreInPhase(script, segmentation, 'work', text => checkEgoCascadePosition(script, text))
+  ];
+}
+
+/**
+ * All Quality Guard checks
+ */
+function runChecks(
+  script: string,
+  segmentation: ScriptSegmentation,
+  options: { emergenceType: 'sleep' | 'regular'; targetWordCount: number }
+): QualityCheck[] {
+  const suggestionsCheck = checkFunctionalSuggestions(script, options.targetWordCount);
+  const functionalCount = parseInt(suggestionsCheck.details.match(/\d+/)?.[0] || '0');
+
+  return [
+    ...runPhaseChecks(script, segmentation, options.emergenceType),
+    checkNaturalGrammar(script), // CRITICAL: Check for natural, hypnotic language
+    suggestionsCheck,
+    checkWordCount(script, options.targetWordCount, functionalCount),
+    checkSentenceVariety(script),
+    checkMetaphorFrequency(script, options.targetWordCount) // Check metaphor isn't overused
+  ];
+}
+
+/**
+ * principles.json quality gates as checks (skipped gates don't count either way)
+ */
+function gateChecks(gates: GateResult[]): QualityCheck[] {
+  return gates
+    .filter(gate => gate.status !== 'skipped')
+    .map(gate => ({
+      name: gate.check,
+      passed: gate.status === 'passed',
+      details: gate.details,
+      principle: gate.principleName,
+      gate: gate.gate,
+      fix: gate.fix
+    }));
+}
+
+function describeIssue(check: QualityCheck): string {
+  return `${check.name}: ${check.details}${check.fix ? ` Fix (${check.principle}): ${check.fix}` : ''}`;
+}
+
+/**
+ * Sentences each failed check is about; checks over the whole script (word count, suggestion
+ * count, semantic gates...) can't be pinned down and come back as `unlocated`
+ */
+export function locateRepairTargets(
+  script: string,
+  failedChecks: QualityCheck[],
+  segmentation: ScriptSegmentation
+): { targets: RepairTarget[]; unlocated: QualityCheck[] } {
+  const targets: RepairTarget[] = [];
+  const unlocated: QualityCheck[] = [];
+
+  // Offsets of the check's phase (the whole script when it was scored against all of it)
+  const scope = (check: QualityCheck): [number, number] => {
+    const spans = segmentation.segments.filter(s => s.phase === check.phase && s.end > s.start);
+    return spans.length > 0 ? [spans[0].start, spans[spans.length - 1].end] : [0, script.length];
+  };
+  const within = ([from, to]: [number, number], predicate: (sentence: string) => boolean, reason: string) =>
+    sentenceTargets(script, predicate, reason).filter(t => t.start >= from && t.start < to);
+
+  for (const check of failedChecks) {
+    const reason = describeIssue(check);
+    let found: RepairTarget[] = [];
+
+    if (check.gate) {
+      found = (qualityGateRunner.locate(script, check.gate) || []).map(span => ({ start: span.start, end: span.end, reasons: [reason] }));
+    } else if (check.name === 'Somatic Anchoring') {
+      const [from, to] = scope(check);
+      const opening = rangeTarget(script, from, to, reason, 3);
+      found = opening ? [opening] : [];
+    } else if (check.name === 'Emergence Type') {
+      const [from, to] = scope(check);
+      if (/awakening language|sleep emergence/.test(check.details)) {
+        found = within([from, to], sentence => (/awakening language/.test(check.details) ? AWAKEN_PATTERN : SLEEP_PATTERN).test(sentence), reason);
+      } else {
+        const closing = within([from, to], () => true, reason).slice(-EMERGENCE_REPAIR_SENTENCES);
+        found = closing.length > 0 ? [{ start: closing[0].start, end: closing[closing.length - 1].end, reasons: [reason] }] : [];
+      }
+    } else if (check.name === 'Sentence Variety') {
+      const opener = check.details.match(/"(.+?)" used/)?.[1];
+      const opening = opener ? within([0, script.length], s => s.toLowerCase().split(/\s+/).slice(0, 3).join(' ') === opener, reason) : [];
+      const allowed = Math.floor(sentenceTargets(script, () => true, reason).length * SENTENCE_VARIETY_LIMIT);
+      found = opening.slice(Math.max(1, allowed));
+    } else if (check.name === 'Metaphor Frequency') {
+      const word = check.details.match(/"(\w+)" appears/)?.[1];
+      const pattern = word ? new RegExp(`\\b${word}\\w*\\b`, 'i') : null;
+      found = pattern ? within([0, script.length], s => pattern.test(s), reason).slice(KEPT_METAPHOR_MENTIONS) : [];
+    } else if (check.name === 'Natural Grammar') {
+      found = within([0, script.length], s => UNNATURAL_PATTERN.test(s), reason);
+    }
+
+    if (found.length > 0) targets.push(...found);
+    else unlocated.push(check);
+  }
+
+  return { targets, unlocated };
+}
+
 /**
  * Micro-polish script for final refinement
  */
@@ -350,15 +540,13 @@ async function microPolish(script: string, failedChecks: QualityCheck[]): Promis
     return script; // Already perfect
   }
 
-  const systemPrompt = `You are a hypnosis script polisher. Make minimal, surgical edits to fix specific issues while preserving everything else.
-
-Your ONLY job: Fix the listed problems without changing anything else.`;
+  const systemPrompt = POLISH_SYSTEM_PROMPT;
 
   const userPrompt = `Script to polish:
 ${script}
 
 Issues to fix:
-${failedChecks.map(c => `- ${c.name}: ${c.details}`).join('\n')}
+${failedChecks.map(c => `- ${c.name}: ${c.details}${c.fix ? `\n  Fix (${c.principle}): ${c.fix}` : ''}`).join('\n')}
 
 Make MINIMAL changes to fix only these issues. Preserve all content, structure, and flow.
 
@@ -367,19 +555,14 @@ Return as JSON:
   "polishedScript": "The script with minimal fixes..."
 }`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8000,
+  const responseText = await llmProvider.complete({
+    task: 'micro-polish',
     system: systemPrompt,
-    messages: [{ role: 'user', content: userPrompt }],
+    prompt: userPrompt,
+    maxTokens: 8000,
   });
 
-  const textContent = response.content[0];
-  if (textContent.type !== 'text') {
-    throw new Error('Expected text response from micro-polish');
-  }
-
-  let jsonText = textContent.text.trim();
+  let jsonText = responseText.trim();
   if (jsonText.startsWith('```json')) {
     jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
   } else if (jsonText.startsWith('```')) {
@@ -455,23 +638,18 @@ export async function runQualityGuard(
     emergenceType: 'sleep' | 'regular';
     targetWordCount: number;
     allowRetry?: boolean;
+    useLlmSegmentation?: boolean; // Ask the LLM for phase boundaries when the heuristics are unsure
+    useLlmJudge?: boolean; // Judge the semantic principles.json gates with the LLM (default: true)
+    repairMode?: RepairMode; // How failed checks are fixed (default: 'rewrite')
   }
 ): Promise<QualityReport> {
   console.log('[QUALITY GUARD] Running quality checks...');
   
-  const suggestionsCheck = checkFunctionalSuggestions(script, options.targetWordCount);
-  const functionalCount = parseInt(suggestionsCheck.details.match(/\d+/)?.[0] || '0');
+  const segmentation = await phaseSegmenter.segmentWithAssist(script, { useLlm: options.useLlmSegmentation });
+  console.log(`[QUALITY GUARD] Phases: ${formatSegmentation(segmentation)}`);
   
-  const checks: QualityCheck[] = [
-    checkEmergence(script, options.emergenceType),
-    checkNaturalGrammar(script), // CRITICAL: Check for natural, hypnotic language
-    suggestionsCheck,
-    checkWordCount(script, options.targetWordCount, functionalCount),
-    checkSentenceVariety(script),
-    checkMetaphorFrequency(script, options.targetWordCount), // Check metaphor isn't overused
-    checkMetaphorConsistency(script),
-    checkEgoStrengtheningCascade(script) // Check Benefit Cascade structure
-  ];
+  const gates = await qualityGateRunner.run(script, { useLlmJudge: options.useLlmJudge });
+  const checks = [...runChecks(script, segmentation, options), ...gateChecks(gates)];
   
   const failedChecks = checks.filter(c => !c.passed);
   const passedCount = checks.filter(c => c.passed).length;
@@ -481,7 +659,7 @@ export async function runQualityGuard(
   
   checks.forEach(check => {
     const icon = check.passed ? '✓' : '✗';
-    console.log(`[QUALITY GUARD]   ${icon} ${check.name}: ${check.details}`);
+    console.log(`[QUALITY GUARD]   ${icon} ${check.name}${check.phase ? ` [${check.phase}]` : ''}${check.principle ? ` [${check.principle}]` : ''}: ${check.details}`);
   });
   
   // If all checks pass, return as-is
@@ -491,47 +669,58 @@ export async function runQualityGuard(
       passed: true,
       score: 100,
       checks,
-      finalScript: script
+      finalScript: script,
+      segmentation,
+      gates
     };
   }
   
-  // Try micro-polish to fix issues
+  // Try micro-polish (or span repair) to fix issues
   if (options.allowRetry !== false) {
-    console.log(`[QUALITY GUARD] Attempting micro-polish to fix ${failedChecks.length} issues...`);
+    const spans = options.repairMode === 'spans';
+    console.log(`[QUALITY GUARD] Attempting ${spans ? 'span repair' : 'micro-polish'} to fix ${failedChecks.length} issues...`);
     try {
-      const polishedScript = await microPolish(script, failedChecks);
-      
-      // Re-check polished version
-      const polishedSuggestionsCheck = checkFunctionalSuggestions(polishedScript, options.targetWordCount);
-      const polishedFunctionalCount = parseInt(polishedSuggestionsCheck.details.match(/\d+/)?.[0] || '0');
+      let polishedScript: string;
+      let repairs: ScriptRepair[] | undefined;
+      let unrepaired: string[] | undefined;
+      if (spans) {
+        const { targets, unlocated } = locateRepairTargets(script, failedChecks, segmentation);
+        const repaired = await repairSpans(script, targets, { task: 'span-repair', system: POLISH_SYSTEM_PROMPT });
+        polishedScript = repaired.script;
+        repairs = repaired.repairs;
+        unrepaired = unlocated.map(c => c.name);
+        if (unrepaired.length > 0) {
+          console.log(`[QUALITY GUARD] No span to repair for: ${unrepaired.join(', ')}`);
+        }
+      } else {
+        polishedScript = await microPolish(script, failedChecks);
+      }
       
-      const recheck: QualityCheck[] = [
-        checkEmergence(polishedScript, options.emergenceType),
-        checkNaturalGrammar(polishedScript),
-        polishedSuggestionsCheck,
-        checkWordCount(polishedScript, options.targetWordCount, polishedFunctionalCount),
-        checkSentenceVariety(polishedScript),
-        checkMetaphorFrequency(polishedScript, options.targetWordCount), // Check metaphor isn't overused
-        checkMetaphorConsistency(polishedScript),
-        checkEgoStrengtheningCascade(polishedScript) // Check Benefit Cascade structure
-      ];
+      // Re-check polished version (the polish can move phase boundaries)
+      const polishedSegmentation = await phaseSegmenter.segmentWithAssist(polishedScript, { useLlm: options.useLlmSegmentation });
+      const polishedGates = await qualityGateRunner.run(polishedScript, { useLlmJudge: options.useLlmJudge });
+      const recheck = [...runChecks(polishedScript, polishedSegmentation, options), ...gateChecks(polishedGates)];
       
       const newFailedChecks = recheck.filter(c => !c.passed);
       const newPassedCount = recheck.filter(c => c.passed).length;
       const newScore = Math.round((newPassedCount / recheck.length) * 100);
       
       const improvement = newScore - score;
-      console.log(`[QUALITY GUARD] ✓ Micro-polish complete. Score: ${score}% → ${newScore}% (+${improvement}%)`);
+      console.log(`[QUALITY GUARD] ✓ ${spans ? `Span repair (${repairs!.length} repairs)` : 'Micro-polish'} complete. Score: ${score}% → ${newScore}% (+${improvement}%)`);
       
       return {
         passed: newFailedChecks.length === 0,
         score: newScore,
         checks: recheck,
         finalScript: polishedScript,
-        polishMessage: `Quality improved: ${score}% → ${newScore}%`
+        segmentation: polishedSegmentation,
+        gates: polishedGates,
+        polishMessage: `Quality improved: ${score}% → ${newScore}%`,
+        repairs,
+        unrepaired
       };
     } catch (error: any) {
-      console.error(`[QUALITY GUARD] ✗ Micro-polish failed: ${error.message}`);
+      console.error(`[QUALITY GUARD] ✗ ${spans ? 'Span repair' : 'Micro-polish'} failed: ${error.message}`);
     }
   }
   
@@ -540,6 +729,8 @@ export async function runQualityGuard(
     passed: false,
     score,
     checks,
-    finalScript: script
+    finalScript: script,
+    segmentation,
+    gates
   };
 }
@@ -5,6 +5,7 @@ import { aiService } from "./ai-service";
 import { paymentService } from "./payment-service";
 import { templateManager } from "./template-manager";
 import { templateSelector } from "./template-selector";
+import { selectionLog } from "./selection-log";
 import { dimensionAssembler } from "./dimension-assembler";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { isAdmin } from "./adminAuth";
@@ -13,10 +14,79 @@ import { analyzeScript } from "./script-analyzer";
 import { z } from "zod";
 import { validateContent, validateMultipleFields } from "./content-validator";
 import { ObjectStorageService } from "./objectStorage";
-import { ttsService } from "./tts-service";
+import { ttsService, hashScript } from "./tts-service";
+import { AUDIO_CONTENT_TYPES } from "./audio-utils";
+import { AMBIENT_BEDS, type AmbientBed } from "./audio-mixer";
+import { GenerationEventStream, wantsEventStream } from "./generation-stream";
+import { jobQueue } from "./job-queue";
+import { refreshPackageStatus, refreshTreatmentPlanStatus, toPlannedSessions } from "./job-handlers";
+import { packageExporter, isPackageExportFormat, PACKAGE_EXPORT_FORMATS, type ExportScript } from "./package-exporter";
+import { reloadMethodologyConfig, saveMethodologyConfig } from "./methodology-config-loader";
+import { methodologyConfig, isMethodologyConfigKey, validateMethodologyConfig, METHODOLOGY_CONFIG_KEYS } from "./script-engine/methodology-config";
+import {
+  narrativeArcInputSchema,
+  metaphorFamilyInputSchema,
+  upsertArc,
+  removeArc,
+  hasArc,
+  upsertMetaphorFamily,
+  removeMetaphorFamily,
+  getMappedIssues,
+  getRecommendedIssues,
+  MethodologyEditError,
+} from "./script-engine/methodology-editor";
+import { StrategyPlanner } from "./script-engine/strategy-planner";
+import { treatmentPlanner } from "./script-engine/treatment-planner";
+import { SafetyReferralError, type SafetyScreeningInput } from "./script-engine/safety-screener";
+import { screenClientContext, type SafetyScreeningContext } from "./safety-screening";
+import { languagePatternDetector } from "./script-engine/language-patterns";
+import { phaseSegmenter } from "./script-engine/phase-segmenter";
+import { runPhaseChecks } from "./quality-guard";
+import { parseReaderScript, renderPlainText, renderTeleprompterHtml, renderSsml } from "@shared/reader-script";
+import { arcJourneySchema, templateJSONSchema, type Template, type TemplateJSON, type TreatmentClientProfile } from "@shared/schema";
+import { formatTemplateChanges } from "@shared/template-diff";
+import { templateImporter, buildTemplateArchive, TEMPLATE_IMPORT_POLICIES, MAX_IMPORT_TEMPLATES } from "./template-transfer";
 import express from "express";
 import path from "path";
 
+// Refer-out screenings answer with the referral message instead of a script
+function sendSafetyReferral(res: any, error: SafetyReferralError) {
+  res.status(422).json({ message: error.message, referral: true, safety: error.result });
+}
+
+// Screen (and audit) the client context before any generation work starts
+async function screenForGeneration(input: SafetyScreeningInput, context: SafetyScreeningContext) {
+  const safety = await screenClientContext(input, context);
+  if (safety.decision === 'refer_out') {
+    throw new SafetyReferralError(safety);
+  }
+  return safety;
+}
+
+// Templates listed in the marketplace are visible to everyone, others only to their owner
+function canViewTemplate(template: Template, user: any) {
+  return templateManager.isListedPublicly(template) || (!!template.userId && template.userId === user?.claims?.sub);
+}
+
+const treatmentSessionSchema = z.object({
+  goal: z.string().min(1),
+  presentingIssue: z.string().optional(),
+  desiredOutcome: z.string().optional(),
+  arcId: z.string().optional(),
+  arcJourney: arcJourneySchema.optional(),
+  assignedTemplateId: z.string().optional(),
+});
+
+// Re-plan the sessions of a treatment plan that haven't been generated yet (after any change to the series)
+async function replanTreatmentSessions(planId: number, profile: TreatmentClientProfile) {
+  const sessions = await storage.getTreatmentPlanSessions(planId);
+  const plans = await treatmentPlanner.planSeries(profile, toPlannedSessions(sessions));
+  return await Promise.all(sessions.map(session => {
+    const plan = plans.get(session.sessionNumber);
+    return plan ? storage.updateTreatmentPlanSession(session.id, { plan }) : session;
+  }));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up Replit Auth
   await setupAuth(app);
@@ -294,6 +364,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Render a script for reading aloud (?format=plain|teleprompter|ssml)
+  app.get("/api/generations/:id/reader", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const format = (req.query.format as string) || 'teleprompter';
+      const generation = await storage.getGenerationById(id);
+      
+      if (!generation || !generation.fullScript) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      if (generation.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden: You don't have access to this generation" });
+      }
+      
+      const script = parseReaderScript(generation.fullScript);
+      switch (format) {
+        case 'plain':
+          res.type('text/plain').send(renderPlainText(script));
+          break;
+        case 'teleprompter':
+          res.type('html').send(renderTeleprompterHtml(script, { title: generation.title || undefined }));
+          break;
+        case 'ssml':
+          res.type('application/ssml+xml').send(renderSsml(script));
+          break;
+        default:
+          res.status(400).json({ message: `Unsupported format '${format}'. Use plain, teleprompter or ssml` });
+      }
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
   // Get ALL DREAM thumbnails for crowdsourced loading carousel (no auth required)
   app.get("/api/user/dream-thumbnails", async (req: any, res) => {
     try {
@@ -331,6 +435,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { isFavorite } = schema.parse(req.body);
       
       const updated = await storage.updateGenerationFavorite(id, isFavorite);
+      if (isFavorite) {
+        await selectionLog.logGenerationOutcome(id, 'favorited', (req.user as any)?.claims?.sub);
+      }
       res.json(updated);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
@@ -355,7 +462,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       await storage.updateGenerationScript(id, fullScript);
-      res.json({ success: true });
+      await selectionLog.logGenerationOutcome(id, 'edited', userId);
+      
+      // Stored narration of the old text no longer matches
+      const staleAudio = await storage.markGenerationAudioStale(id, hashScript(fullScript || ""));
+      res.json({ success: true, staleAudio });
     } catch (error: any) {
       console.error("Error updating script:", error);
       res.status(500).json({ error: error.message });
@@ -386,6 +497,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stored audio renditions of a generation (rendered via POST /api/tts/jobs with generationId)
+  app.get("/api/generations/:id/audio", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const generation = await storage.getGenerationById(id);
+      
+      if (!generation || generation.userId !== userId) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+      
+      const renditions = await storage.getGenerationAudio(id);
+      res.json(renditions);
+    } catch (error: any) {
+      console.error("Error fetching audio renditions:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/generations/:id/audio/:audioId", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const generation = await storage.getGenerationById(id);
+      
+      if (!generation || generation.userId !== userId) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+      
+      const rendition = await storage.getGenerationAudioById(parseInt(req.params.audioId));
+      if (!rendition || rendition.generationId !== id) {
+        return res.status(404).json({ error: "Audio not found" });
+      }
+      
+      res.json(rendition);
+    } catch (error: any) {
+      console.error("Error fetching audio rendition:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/generations/:id/audio/:audioId", isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const userId = req.user.claims.sub;
+      const generation = await storage.getGenerationById(id);
+      
+      if (!generation || generation.userId !== userId) {
+        return res.status(404).json({ error: "Generation not found" });
+      }
+      
+      const rendition = await storage.getGenerationAudioById(parseInt(req.params.audioId));
+      if (!rendition || rendition.generationId !== id) {
+        return res.status(404).json({ error: "Audio not found" });
+      }
+      
+      await storage.deleteGenerationAudio(rendition.id);
+      
+      // The file is only referenced by this rendition
+      try {
+        const objectStorage = new ObjectStorageService();
+        await objectStorage.deletePublicObject(rendition.storagePath);
+      } catch (error) {
+        console.warn(`[AUDIO] Could not delete ${rendition.storagePath}:`, error);
+      }
+      
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting audio rendition:", error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // ============================================================================
   // EXTERNAL API ENDPOINTS (B2B Integration)
   // ============================================================================
@@ -520,11 +704,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         archetypeId: parent.archetypeId,
         stylesJson: parent.stylesJson as any,
         templateUsed: parent.templateUsed,
+        templateVersion: parent.templateVersion,
         parentGenerationId: parentId,
         versionLabel: data.versionLabel || `v${versionNumber}`,
         paymentStatus: 'pending_payment',
       });
       
+      await selectionLog.logGenerationOutcome(parentId, 'regenerated', (req.user as any)?.claims?.sub);
+      
       res.json({ 
         remixId: remix.id,
         message: "Remix created. Complete generation to get the script.",
@@ -596,6 +783,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!validation.isValid) {
         return res.status(400).json({ message: validation.reason });
       }
+      const safety = await screenForGeneration({ presentingIssue: data.clientIssue }, { source: 'preview' });
       
       const archetype = await storage.getArchetypeById(data.archetypeId);
       if (!archetype) {
@@ -615,10 +803,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         styleDescription: style.description || '',
         dimensionValues: data.dimensionValues,
         existingScript: data.existingScript,
+        safety,
       } as any);
       
       res.json(preview);
     } catch (error: any) {
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
       res.status(400).json({ message: error.message });
     }
   });
@@ -638,6 +828,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!validation.isValid) {
         return res.status(400).json({ message: validation.reason });
       }
+      const safety = await screenForGeneration({ presentingIssue: clientIssue }, { source: 'free' });
       
       // Check eligibility
       const isEligible = await storage.checkFreeEligibility(email);
@@ -670,6 +861,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         styleName: defaultStyle.name,
         styleDescription: defaultStyle.description || '',
         dimensionValues: balancedDimensions,
+        safety,
       } as any);
       
       // Record usage
@@ -680,6 +872,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({ script: result.fullScript });
     } catch (error: any) {
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
       res.status(400).json({ message: error.message });
     }
   });
@@ -716,6 +909,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Archetype not found" });
       }
       
+      // Screen the user's own words before the LLM rewrites them into a story
+      await screenForGeneration({ presentingIssue: journeyIdea }, { source: 'dream', userId });
+      
       // Shape the story using AI
       const storyResult = await aiService.shapeDreamStory({
         journeyIdea,
@@ -730,20 +926,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         archetypeName: archetype.name,
       });
     } catch (error: any) {
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
       res.status(400).json({ message: error.message });
     }
   });
 
   // Step 2: Generate DREAM script from shaped story - requires authentication
   app.post("/api/generate-dream-script", isAuthenticated, async (req: any, res) => {
+    let stream: GenerationEventStream | null = null;
     try {
       const schema = z.object({
         journeyIdea: z.string(),
         expandedStory: z.string().optional(), // NEW: Accept pre-shaped story
         archetypeId: z.number().optional(),
+        targetDurationMinutes: z.number().min(5).max(90).optional(), // Default: ~3000 words (30 minutes)
+        readerMarkup: z.boolean().optional(), // Add reader cues (sections, pauses, breaths) to the final script
       });
       
-      const { journeyIdea, expandedStory, archetypeId } = schema.parse(req.body);
+      const { journeyIdea, expandedStory, archetypeId, targetDurationMinutes, readerMarkup } = schema.parse(req.body);
       const userId = req.user.claims.sub;
       
       // Backend content validation
@@ -756,136 +956,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Fetch selected archetype or use first blended archetype
-      let archetype;
-      if (archetypeId) {
-        archetype = await storage.getArchetypeById(archetypeId);
-      } else {
-        const blendedArchetypes = await storage.getBlendedArchetypes();
-        archetype = blendedArchetypes[0]; // Default to first blended archetype
-      }
-      
-      if (!archetype) {
+      if (archetypeId && !(await storage.getArchetypeById(archetypeId))) {
         return res.status(404).json({ message: "Archetype not found" });
       }
       
-      // Get a template suitable for DREAM (high somatic, high symbolic)
-      // For now, use template selector with journey idea
-      const recommendations = await templateSelector.recommendTemplates(
+      // Generation (script, title, save) runs as a background job; scene images follow as their own job
+      const job = await jobQueue.enqueue('script', userId, {
+        kind: 'dream',
         journeyIdea,
-        "deep rest and peaceful sleep"
-      );
-      
-      if (recommendations.length === 0) {
-        return res.status(404).json({ message: "No suitable template found for DREAM hypnosis" });
-      }
-      
-      const template = recommendations[0].template;
-      const templateJson = typeof template.jsonData === 'string' 
-        ? JSON.parse(template.jsonData) 
-        : template.jsonData;
-      
-      // Enhance template for DREAM: boost somatic and symbolic, set archetype
-      const dreamTemplate = {
-        ...templateJson,
-        dimensions: {
-          ...templateJson.dimensions,
-          somatic: { 
-            ...templateJson.dimensions.somatic, 
-            level: Math.max(70, templateJson.dimensions.somatic.level) 
-          },
-          symbolic: { 
-            ...templateJson.dimensions.symbolic, 
-            level: Math.max(70, templateJson.dimensions.symbolic.level),
-            archetype: `${archetype.name} - ${archetype.description || ''}` 
-          },
-        }
-      };
-      
-      // Generate DREAM script (30 minutes = ~3000 words)
-      // If expandedStory is provided (two-step flow), use it instead of the brief journey idea
-      const scriptInput = expandedStory || journeyIdea;
-      
-      const result = await aiService.generateFullScript({
-        template: dreamTemplate,
-        presentingIssue: scriptInput, // Use expanded story if available
-        desiredOutcome: "Experience a peaceful, restful journey into natural sleep",
-        emergenceType: 'sleep',  // Key difference: sleep emergence
-        targetWordCount: 3000,  // 30-minute script
+        expandedStory,
+        archetypeId,
+        targetDurationMinutes,
+        readerMarkup,
       });
       
-      // Generate beautiful AI title for the DREAM script
-      const dreamTitle = await aiService.generateDreamTitle({
-        journeyIdea,
-        archetypeName: archetype.name,
-      });
+      if (!wantsEventStream(req)) {
+        return res.status(202).json({ jobId: job.id, status: job.status });
+      }
       
-      // Content moderation check before image generation
-      let thumbnailUrl: string | undefined;
-      let imageUrls: string[] | undefined;
-      try {
-        console.log('[DREAM] Starting cinematic scene generation for journey:', journeyIdea.substring(0, 50));
-        const OpenAI = (await import('openai')).default;
-        const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-        
-        // Check if journey idea contains inappropriate content
-        console.log('[DREAM] Running content moderation check...');
-        const moderation = await openai.moderations.create({
-          input: journeyIdea,
-        });
-        
-        const isFlagged = moderation.results[0]?.flagged;
-        console.log('[DREAM] Moderation result - flagged:', isFlagged);
-        
-        if (isFlagged) {
-          console.log('[DREAM] Journey idea flagged by moderation, skipping image generation');
-          // Don't generate image for flagged content, but allow script to continue
-        } else {
-          // Content is safe - generate 3 cinematic scene images
-          console.log('[DREAM] Content safe, extracting 3 scenes from script...');
-          const scenes = await aiService.generateDreamScenes({
-            journeyIdea,
-            archetypeName: archetype.name,
-            fullScript: result.fullScript,
-          });
-          console.log('[DREAM] ✓ Scenes extracted:', { beginning: scenes.beginning.substring(0, 50), middle: scenes.middle.substring(0, 50), end: scenes.end.substring(0, 50) });
-          
-          console.log('[DREAM] Generating 3 DALL-E images (beginning, middle, end)...');
-          const { generateDreamSceneImages } = await import('./image-service');
-          imageUrls = await generateDreamSceneImages(scenes, archetype.name);
-          thumbnailUrl = imageUrls[0]; // First image for backwards compatibility
-          console.log('[DREAM] ✓ All 3 scene images generated successfully');
-        }
-      } catch (imageError: any) {
-        console.error('[DREAM] ✗ Scene image generation FAILED:', imageError.message);
-        console.error('[DREAM] Full error:', imageError);
-        // Continue without images - don't fail the entire request
+      // SSE clients follow the job through to its images
+      stream = new GenerationEventStream(res);
+      const scriptJob = await jobQueue.waitForJob(job.id, stream.progress);
+      if (scriptJob.status === 'failed') {
+        return stream.fail(scriptJob.errorMessage || 'DREAM generation failed');
       }
       
-      // Save to database
-      const generation = await storage.createGeneration({
-        userId,
-        title: dreamTitle,
-        imageUrl: thumbnailUrl,  // First image for backwards compatibility
-        imageUrls,  // NEW: All 3 scene images
-        generationMode: 'dream', // New mode for DREAM scripts
-        isFree: false,
-        presentingIssue: journeyIdea,
-        desiredOutcome: "Experience a peaceful, restful journey into natural sleep",
-        storyOutline: expandedStory, // Save the 800-1200 word story outline from Step 1
-        fullScript: result.fullScript,
-        archetypeId: archetype.id,
-      });
+      const { imageJobId, ...body } = scriptJob.result as any;
+      const imageJob = await jobQueue.waitForJob(imageJobId, stream.progress);
+      const thumbnailUrl = imageJob.status === 'completed' ? (imageJob.result as any)?.thumbnailUrl : undefined;
       
-      res.json({ 
-        fullScript: result.fullScript,
-        storyOutline: expandedStory, // Include story outline for transparency
-        generationId: generation.id,
-        title: dreamTitle,
-        thumbnailUrl
-      });
+      stream.progress({ type: 'stage', stage: 'finalize', status: 'complete', message: 'Saved to your library' });
+      stream.complete({ ...body, thumbnailUrl, jobId: job.id });
     } catch (error: any) {
       console.error("DREAM generation error:", error);
+      if (stream) return stream.fail(error.message);
       res.status(400).json({ message: error.message });
     }
   });
@@ -943,6 +1047,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Generate full script (paid tier) - REQUIRES PAYMENT CONFIRMATION
   app.post("/api/generate-paid-script", isAuthenticated, async (req, res) => {
+    let stream: GenerationEventStream | null = null;
     try {
       const schema = z.object({
         mode: z.enum(['create', 'remix']),
@@ -962,6 +1067,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }),
         existingScript: z.string().optional(),
         paymentIntentId: z.string(),
+        targetDurationMinutes: z.number().min(5).max(90).optional(), // Session length; converted to word budgets
       });
       
       const data = schema.parse(req.body);
@@ -1002,6 +1108,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Style not found" });
       }
       
+      const safety = await screenForGeneration({ presentingIssue: data.clientIssue }, { source: 'paid', userId: (req.user as any)?.claims?.sub });
+      
+      // Request is valid - switch to SSE progress if the client asked for it
+      if (wantsEventStream(req)) {
+        stream = new GenerationEventStream(res);
+      }
+      
       // Generate the full script
       const result = await aiService.generateFullScript({
         clientIssue: data.clientIssue,
@@ -1011,8 +1124,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         styleDescription: style.description || '',
         dimensionValues: data.dimensionValues,
         existingScript: data.existingScript,
+        targetDurationMinutes: data.targetDurationMinutes,
+        onProgress: stream?.progress,
+        safety,
       } as any);
       
+      stream?.progress({ type: 'stage', stage: 'finalize', status: 'started', message: 'Saving script' });
+      
       // Save to database with confirmed payment status
       const generation = await storage.createGeneration({
         userId,
@@ -1031,12 +1149,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         stripePaymentIntentId: data.paymentIntentId,
       });
       
-      res.json({ 
+      const body = { 
         generationId: generation.id,
         fullScript: result.fullScript,
         marketingAssets: result.marketingAssets,
-      });
+        repairs: result.repairs, // Span repairs the user can accept or reject
+        estimatedDuration: result.estimatedDuration,
+        wordBudget: result.wordBudget,
+      };
+      if (stream) {
+        stream.progress({ type: 'stage', stage: 'finalize', status: 'complete', message: 'Script saved' });
+        return stream.complete(body);
+      }
+      res.json(body);
     } catch (error: any) {
+      if (stream) return stream.fail(error.message);
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
       res.status(400).json({ message: error.message });
     }
   });
@@ -1052,7 +1180,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const analysis = await aiService.analyzeScriptDimensions(script);
       
-      res.json(analysis);
+      // Sentence-level hypnotic pattern tags and tonal balance per phase
+      const languagePatterns = languagePatternDetector.analyze(script);
+      
+      res.json({ ...analysis, languagePatterns });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Phase timeline: where induction, deepening, work and emergence begin, with the checks scored per phase
+  app.post("/api/scripts/segment", async (req, res) => {
+    try {
+      const schema = z.object({
+        script: z.string().min(1),
+        emergenceType: z.enum(['regular', 'sleep']).default('regular'),
+        useLlm: z.boolean().default(false),
+      });
+      
+      const { script, emergenceType, useLlm } = schema.parse(req.body);
+      
+      const segmentation = await phaseSegmenter.segmentWithAssist(script, { useLlm });
+      const checks = runPhaseChecks(script, segmentation, emergenceType);
+      
+      res.json({ segmentation, checks });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
@@ -1068,144 +1219,582 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // ========== V2 TEMPLATE-BASED ROUTES ==========
+  // Admin: Safety screening audit log (newest first)
+  app.get("/api/admin/safety-screenings", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const decision = typeof req.query.decision === 'string' ? req.query.decision : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string, 10) || 100, 500);
+      const screenings = await storage.getSafetyScreenings({ decision, limit });
+      res.json(screenings);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ========== TEMPLATE MODERATION (ADMIN) ==========
   
-  // Get all templates (with optional filters)
-  app.get("/api/templates", async (req, res) => {
+  // Template moderation queue: user templates made public, waiting for review
+  app.get("/api/admin/templates/moderation", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const { type, category } = req.query;
-      
-      let templates;
-      if (type === 'system') {
-        templates = await templateManager.getSystemTemplates();
-      } else if (type === 'public') {
-        templates = await templateManager.getPublicTemplates();
-      } else if (category) {
-        templates = await templateManager.getTemplatesByCategory(category as string);
-      } else {
-        templates = await templateManager.getAllTemplates();
-      }
-      
-      res.json(templates);
+      const queue = await templateManager.getModerationQueue();
+      res.json(queue);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
   
-  // Get single template by ID
-  app.get("/api/templates/:templateId", async (req, res) => {
+  app.post("/api/admin/templates/:templateId/moderate", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
-      const template = await templateManager.getTemplateById(req.params.templateId);
+      const schema = z.object({
+        decision: z.enum(['approved', 'rejected']),
+        notes: z.string().max(1000).optional(), // Shown to the author
+      });
+      
+      const data = schema.parse(req.body);
+      const template = await templateManager.moderateTemplate(req.params.templateId, data.decision, req.user.claims.sub, data.notes);
       if (!template) {
         return res.status(404).json({ message: "Template not found" });
       }
+      
+      console.log(`[TEMPLATES] ${template.templateId} ${data.decision} by moderator`);
       res.json(template);
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      res.status(400).json({ message: error.message });
     }
   });
+
+  // ========== METHODOLOGY CONFIG (ADMIN) ==========
   
-  // Get user's saved templates (custom mixes)
-  app.get("/api/user/templates", isAuthenticated, async (req: any, res) => {
+  // Each config with its live version and version history
+  app.get("/api/admin/methodology", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const userTemplates = await storage.getUserTemplates(userId);
-      res.json(userTemplates);
+      const liveVersions = methodologyConfig.getVersions();
+      const configs = await Promise.all(METHODOLOGY_CONFIG_KEYS.map(async (key) => {
+        const versions = await storage.getMethodologyConfigVersions(key);
+        return {
+          key,
+          liveVersion: liveVersions[key],
+          versions: versions.map(({ content, ...version }) => version),
+        };
+      }));
+      res.json(configs);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
-
-  // Get template recommendations
-  app.post("/api/templates/recommend", async (req, res) => {
+  
+  // Content of one version (0 = bundled default); defaults to the live version
+  app.get("/api/admin/methodology/:key", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const schema = z.object({
-        presentingIssue: z.string(),
-        desiredOutcome: z.string().optional(),
-        clientNotes: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.array(z.string()).optional(),
-      });
-      
-      const data = schema.parse(req.body);
+      const { key } = req.params;
+      if (!isMethodologyConfigKey(key)) {
+        return res.status(404).json({ message: 'Unknown config' });
+      }
       
-      const recommendations = await templateSelector.recommendTemplates(
-        data.presentingIssue,
-        data.desiredOutcome || '',
-        data.clientNotes || ''
-      );
+      const version = req.query.version !== undefined ? parseInt(req.query.version as string) : methodologyConfig.getVersions()[key];
+      if (version === 0) {
+        return res.json({ key, version: 0, content: methodologyConfig.getBundled(key) });
+      }
       
-      res.json(recommendations);
+      const record = await storage.getMethodologyConfigVersion(key, version);
+      if (!record) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
+      res.json({ key, version: record.version, content: record.content, notes: record.notes });
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
   
-  // Generate preview with template
-  app.post("/api/templates/:templateId/preview", async (req, res) => {
+  // Validation problems come back as a list of issues so the editors can show each one
+  const sendMethodologyError = (res: any, error: any) => {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: 'Config failed validation',
+        issues: error.errors.map(e => ({ path: e.path.join('.'), message: e.message })),
+      });
+    }
+    if (error instanceof MethodologyEditError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    res.status(400).json({ message: error.message });
+  };
+  
+  // Save a new version (validated) and make it live
+  app.post("/api/admin/methodology/:key", isAuthenticated, isAdmin, async (req, res) => {
     try {
+      const { key } = req.params;
+      if (!isMethodologyConfigKey(key)) {
+        return res.status(404).json({ message: 'Unknown config' });
+      }
+      
       const schema = z.object({
-        title: z.string().optional(),
-        presentingIssue: z.string(),
-        desiredOutcome: z.string(),
-        clientNotes: z.string().optional(),
+        content: z.record(z.string(), z.unknown()),
+        notes: z.string().max(1000).optional(),
       });
-      
       const data = schema.parse(req.body);
-      const template = await templateManager.getTemplateById(req.params.templateId);
       
-      if (!template) {
-        return res.status(404).json({ message: "Template not found" });
-      }
+      const userId = (req.user as any)?.claims?.sub;
+      const { record, reload } = await saveMethodologyConfig(key, data.content, data.notes, userId);
       
-      // Increment usage count
-      await templateManager.incrementUsageCount(req.params.templateId);
+      res.status(201).json({ key, version: record.version, liveVersions: reload.versions, errors: reload.errors });
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+  
+  // Roll back (or forward) to an existing version; 0 returns to the bundled default
+  app.post("/api/admin/methodology/:key/activate", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const { key } = req.params;
+      if (!isMethodologyConfigKey(key)) {
+        return res.status(404).json({ message: 'Unknown config' });
+      }
       
-      // Generate preview using template
-      const preview = await aiService.generatePreview({
-        template: template.jsonData as any, // JSONB returns unknown, safe to cast
-        presentingIssue: data.presentingIssue,
-        desiredOutcome: data.desiredOutcome,
-        clientNotes: data.clientNotes || '',
-      });
+      const { version } = z.object({ version: z.number().int().min(0) }).parse(req.body);
+      if (version > 0 && !(await storage.getMethodologyConfigVersion(key, version))) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
       
-      res.json(preview);
+      await storage.activateMethodologyConfigVersion(key, version);
+      const reload = await reloadMethodologyConfig();
+      res.json({ key, liveVersions: reload.versions, errors: reload.errors });
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
   
-  // Generate full script with template (protected - requires auth)
-  app.post("/api/templates/:templateId/generate", isAuthenticated, async (req: any, res) => {
+  // Re-read the active versions (e.g. after editing the table directly)
+  app.post("/api/admin/methodology-reload", isAuthenticated, isAdmin, async (req, res) => {
     try {
-      const schema = z.object({
-        title: z.string().optional(),
-        presentingIssue: z.string(),
-        desiredOutcome: z.string(),
-        clientNotes: z.string().optional(),
-        paymentIntentId: z.string().optional(),
+      const reload = await reloadMethodologyConfig();
+      res.json({ liveVersions: reload.versions, errors: reload.errors });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ========== ARC & METAPHOR EDITOR (ADMIN) ==========
+  // Structured edits on top of the live narrative-arcs / metaphor-library configs;
+  // every change is saved as a new methodology version
+  
+  // Arcs with the planner issue keys that select them
+  app.get("/api/admin/arcs", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const config = methodologyConfig.get('narrative-arcs');
+      res.json({
+        arcs: [
+          ...config.arcs.map(arc => ({ ...arc, mapped_issues: getMappedIssues(config, arc.id) })),
+          ...config.dream_arcs.map(arc => ({ ...arc, category: 'dream', mapped_issues: [] })),
+        ],
+        issueKeys: Object.keys(config.arc_selection_rules.issue_mappings),
+        foundationArcs: config.arc_selection_rules.always_include,
+        version: methodologyConfig.getVersions()['narrative-arcs'],
       });
-      
-      const data = schema.parse(req.body);
-      const template = await templateManager.getTemplateById(req.params.templateId);
-      
-      if (!template) {
-        return res.status(404).json({ message: "Template not found" });
-      }
-      
-      // Get authenticated user ID
-      const userId = req.user.claims.sub;
-      
-      // Increment usage count
-      await templateManager.incrementUsageCount(req.params.templateId);
-      
-      // Generate full script using template
-      const result = await aiService.generateFullScript({
-        template: template.jsonData as any, // JSONB returns unknown, safe to cast
-        presentingIssue: data.presentingIssue,
-        desiredOutcome: data.desiredOutcome,
-        clientNotes: data.clientNotes || '',
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/admin/arcs", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const arc = narrativeArcInputSchema.parse(req.body);
+      const content = upsertArc(methodologyConfig.get('narrative-arcs'), arc, 'create');
+      const userId = (req.user as any)?.claims?.sub;
+      const { record } = await saveMethodologyConfig('narrative-arcs', content, `Added arc "${arc.id}"`, userId);
+      res.status(201).json({ arc, version: record.version });
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+  
+  app.put("/api/admin/arcs/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const arc = narrativeArcInputSchema.parse({ ...req.body, id: req.params.id });
+      const content = upsertArc(methodologyConfig.get('narrative-arcs'), arc, 'update');
+      const userId = (req.user as any)?.claims?.sub;
+      const { record } = await saveMethodologyConfig('narrative-arcs', content, `Updated arc "${arc.id}"`, userId);
+      res.json({ arc, version: record.version });
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+  
+  app.delete("/api/admin/arcs/:id", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const content = removeArc(methodologyConfig.get('narrative-arcs'), req.params.id);
+      const userId = (req.user as any)?.claims?.sub;
+      const { record } = await saveMethodologyConfig('narrative-arcs', content, `Removed arc "${req.params.id}"`, userId);
+      res.json({ version: record.version });
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+  
+  // Metaphor families keyed by name, with the issues they're the first recommendation for
+  app.get("/api/admin/metaphor-families", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const library = methodologyConfig.get('metaphor-library');
+      res.json({
+        families: Object.entries(library.metaphor_families).map(([name, family]) => ({
+          name,
+          ...family,
+          recommended_for: getRecommendedIssues(library, name),
+        })),
+        issueKeys: Object.keys(library.issue_to_metaphor_mapping),
+        version: methodologyConfig.getVersions()['metaphor-library'],
       });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/admin/metaphor-families", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const family = metaphorFamilyInputSchema.parse(req.body);
+      const content = upsertMetaphorFamily(methodologyConfig.get('metaphor-library'), family, 'create');
+      const userId = (req.user as any)?.claims?.sub;
+      const { record } = await saveMethodologyConfig('metaphor-library', content, `Added metaphor family "${family.name}"`, userId);
+      res.status(201).json({ family, version: record.version });
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+  
+  app.put("/api/admin/metaphor-families/:name", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const family = metaphorFamilyInputSchema.parse({ ...req.body, name: req.params.name });
+      const content = upsertMetaphorFamily(methodologyConfig.get('metaphor-library'), family, 'update');
+      const userId = (req.user as any)?.claims?.sub;
+      const { record } = await saveMethodologyConfig('metaphor-library', content, `Updated metaphor family "${family.name}"`, userId);
+      res.json({ family, version: record.version });
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+  
+  app.delete("/api/admin/metaphor-families/:name", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const content = removeMetaphorFamily(methodologyConfig.get('metaphor-library'), req.params.name);
+      const userId = (req.user as any)?.claims?.sub;
+      const { record } = await saveMethodologyConfig('metaphor-library', content, `Removed metaphor family "${req.params.name}"`, userId);
+      res.json({ version: record.version });
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+  
+  // Plan a sample issue against the live config with an unsaved arc/family draft applied
+  app.post("/api/admin/strategy/dry-run", isAuthenticated, isAdmin, async (req, res) => {
+    try {
+      const schema = z.object({
+        presentingIssue: z.string().min(1).max(2000),
+        desiredOutcome: z.string().max(2000).default(''),
+        clientNotes: z.string().max(5000).optional(),
+        symbolicDimensionLevel: z.number().min(0).max(100).optional(),
+        arc: narrativeArcInputSchema.optional(),
+        metaphorFamily: metaphorFamilyInputSchema.optional(),
+      });
+      const { arc, metaphorFamily, ...input } = schema.parse(req.body);
+      
+      let narrativeArcs = methodologyConfig.get('narrative-arcs');
+      if (arc) {
+        const exists = hasArc(narrativeArcs, arc.id);
+        narrativeArcs = validateMethodologyConfig('narrative-arcs', upsertArc(narrativeArcs, arc, exists ? 'update' : 'create'));
+      }
+      let metaphorLibrary = methodologyConfig.get('metaphor-library');
+      if (metaphorFamily) {
+        const exists = metaphorFamily.name in metaphorLibrary.metaphor_families;
+        metaphorLibrary = validateMethodologyConfig('metaphor-library', upsertMetaphorFamily(metaphorLibrary, metaphorFamily, exists ? 'update' : 'create'));
+      }
+      
+      const contract = await new StrategyPlanner({ narrativeArcs, metaphorLibrary }).plan(input);
+      res.json(contract);
+    } catch (error: any) {
+      sendMethodologyError(res, error);
+    }
+  });
+
+  // ========== V2 TEMPLATE-BASED ROUTES ==========
+  
+  // Browse the template marketplace (?type=system|public&category=&author=&minRating=1-5&sort=rating|usage|recent)
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const schema = z.object({
+        type: z.enum(['system', 'public']).optional(),
+        category: z.string().optional(),
+        author: z.string().optional(),
+        minRating: z.coerce.number().min(1).max(5).optional(),
+        sort: z.enum(['rating', 'usage', 'recent']).optional(),
+      });
+      
+      const filters = schema.parse(req.query);
+      const templates = await templateManager.browseTemplates({ ...filters, authorId: filters.author });
+      
+      res.json(templates);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Export several templates as one portable archive (?ids=a,b,c) - registered before /:templateId
+  app.get("/api/templates/export", async (req, res) => {
+    try {
+      const ids = String(req.query.ids || '').split(',').map(id => id.trim()).filter(Boolean);
+      if (ids.length === 0 || ids.length > MAX_IMPORT_TEMPLATES) {
+        return res.status(400).json({ message: `ids must list 1-${MAX_IMPORT_TEMPLATES} template ids` });
+      }
+      
+      const found = await Promise.all(ids.map(id => templateManager.getTemplateById(id)));
+      const missing = ids.filter((id, i) => !found[i] || !canViewTemplate(found[i]!, req.user));
+      if (missing.length > 0) {
+        return res.status(404).json({ message: `Templates not found: ${missing.join(', ')}` });
+      }
+      
+      const archive = buildTemplateArchive(found.map(template => template!.jsonData as TemplateJSON));
+      res.setHeader('Content-Disposition', `attachment; filename="templates-${archive.exportedAt.slice(0, 10)}.json"`);
+      res.json(archive);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Import a template file (single TemplateJSON, archive or array) with a conflict policy; reports per template
+  app.post("/api/templates/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const schema = z.object({
+        document: z.unknown(),
+        policy: z.enum(TEMPLATE_IMPORT_POLICIES).default('skip'),
+        isPublic: z.boolean().optional(),
+        asSystem: z.boolean().optional(), // Admins only: bulk-seed system templates
+      });
+      
+      const data = schema.parse(req.body);
+      const userId = req.user.claims.sub;
+      
+      if (data.asSystem) {
+        const user = await storage.getUser(userId);
+        if (!user?.isAdmin) {
+          return res.status(403).json({ message: "Forbidden: Admin access required" });
+        }
+      }
+      
+      const report = await templateImporter.importTemplates(data.document, {
+        policy: data.policy,
+        userId,
+        asSystem: data.asSystem,
+        isPublic: data.isPublic,
+      });
+      res.json(report);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Export one template as a portable TemplateJSON file (?version=N for an earlier snapshot)
+  app.get("/api/templates/:templateId/export", async (req, res) => {
+    try {
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template || !canViewTemplate(template, req.user)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      let jsonData = template.jsonData as TemplateJSON;
+      if (req.query.version) {
+        const version = await templateManager.getTemplateVersion(template.templateId, parseInt(req.query.version as string));
+        if (!version) {
+          return res.status(404).json({ message: "Template version not found" });
+        }
+        jsonData = version.jsonData as TemplateJSON;
+      }
+      
+      res.setHeader('Content-Disposition', `attachment; filename="${template.templateId}-${jsonData.version}.json"`);
+      res.json(jsonData);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Get single template by ID
+  app.get("/api/templates/:templateId", async (req, res) => {
+    try {
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      res.json(template);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Get user's saved templates (custom mixes)
+  app.get("/api/user/templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const userTemplates = await storage.getUserTemplates(userId);
+      res.json(userTemplates);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Templates the user built (any visibility or moderation status) - for the dashboard and template builder
+  app.get("/api/user/authored-templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const templates = await templateManager.getUserTemplates(req.user.claims.sub);
+      res.json(templates);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Clinical safety screening at intake (audited); refer-out answers 200 with the referral so the UI can show it
+  app.post("/api/safety/screen", async (req: any, res) => {
+    try {
+      const schema = z.object({
+        presentingIssue: z.string().min(1),
+        desiredOutcome: z.string().optional(),
+        clientNotes: z.string().optional(),
+      });
+      
+      const data = schema.parse(req.body);
+      const result = await screenClientContext(data, { source: 'intake', userId: req.user?.claims?.sub });
+      res.json(result);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Get template recommendations
+  app.post("/api/templates/recommend", async (req, res) => {
+    try {
+      const schema = z.object({
+        presentingIssue: z.string(),
+        desiredOutcome: z.string().optional(),
+        clientNotes: z.string().optional(),
+        category: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+      });
+      
+      const data = schema.parse(req.body);
+      
+      const query = {
+        presentingIssue: data.presentingIssue,
+        desiredOutcome: data.desiredOutcome || '',
+        clientNotes: data.clientNotes || '',
+      };
+      const recommendations = await templateSelector.recommendTemplates(query.presentingIssue, query.desiredOutcome, query.clientNotes);
+      
+      // Log what was shown; the client sends recommendationId back with the template it picks
+      const recommendationId = await selectionLog.logRecommendation(
+        query,
+        recommendations.map(rec => ({ templateId: rec.template.templateId, heuristicScore: rec.matchScore, features: rec.features })),
+        (req.user as any)?.claims?.sub
+      );
+      
+      res.json(recommendations.map(({ features, ...rec }) => ({ ...rec, recommendationId })));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Generate preview with template
+  app.post("/api/templates/:templateId/preview", async (req, res) => {
+    try {
+      const schema = z.object({
+        title: z.string().optional(),
+        presentingIssue: z.string(),
+        desiredOutcome: z.string(),
+        clientNotes: z.string().optional(),
+        recommendationId: z.string().max(64).optional(), // From /api/templates/recommend, when the template was picked there
+      });
+      
+      const data = schema.parse(req.body);
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const userId = (req.user as any)?.claims?.sub;
+      const safety = await screenForGeneration(data, { source: 'template-preview', userId });
+      
+      if (data.recommendationId) {
+        await selectionLog.logSelection(data.recommendationId, template.templateId, { userId });
+      }
+      
+      // Increment usage count (authors previewing their own template don't count)
+      if (!userId || userId !== template.userId) {
+        await templateManager.incrementUsageCount(req.params.templateId);
+      }
+      
+      // Generate preview using template
+      const preview = await aiService.generatePreview({
+        template: template.jsonData as any, // JSONB returns unknown, safe to cast
+        presentingIssue: data.presentingIssue,
+        desiredOutcome: data.desiredOutcome,
+        clientNotes: data.clientNotes || '',
+        safety,
+      });
+      
+      res.json({ ...preview, safety });
+    } catch (error: any) {
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Generate full script with template (protected - requires auth)
+  app.post("/api/templates/:templateId/generate", isAuthenticated, async (req: any, res) => {
+    let stream: GenerationEventStream | null = null;
+    try {
+      const schema = z.object({
+        title: z.string().optional(),
+        presentingIssue: z.string(),
+        desiredOutcome: z.string(),
+        clientNotes: z.string().optional(),
+        paymentIntentId: z.string().optional(),
+        targetDurationMinutes: z.number().min(5).max(90).optional(), // Session length; converted to word budgets
+        ttsSpeed: z.number().min(0.25).max(4.0).optional(), // Narration speed the duration is planned for
+        recommendationId: z.string().max(64).optional(), // From /api/templates/recommend, when the template was picked there
+        readerMarkup: z.boolean().optional(), // Add reader cues (sections, pauses, breaths) to the final script
+      });
+      
+      const data = schema.parse(req.body);
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      // Get authenticated user ID
+      const userId = req.user.claims.sub;
+      
+      const safety = await screenForGeneration(data, { source: 'template', userId });
+      
+      // Request is valid - switch to SSE progress if the client asked for it
+      if (wantsEventStream(req)) {
+        stream = new GenerationEventStream(res);
+      }
+      
+      // Increment usage count
+      await templateManager.incrementUsageCount(req.params.templateId);
+      
+      // Generate full script using template
+      const result = await aiService.generateFullScript({
+        template: template.jsonData as any, // JSONB returns unknown, safe to cast
+        presentingIssue: data.presentingIssue,
+        desiredOutcome: data.desiredOutcome,
+        clientNotes: data.clientNotes || '',
+        targetDurationMinutes: data.targetDurationMinutes,
+        ttsSpeed: data.ttsSpeed,
+        readerMarkup: data.readerMarkup,
+        onProgress: stream?.progress,
+        safety,
+      });
+      
+      stream?.progress({ type: 'stage', stage: 'finalize', status: 'started', message: 'Saving script' });
       
       // Generate a memorable title from presenting issue and desired outcome
       const generateTitle = (issue: string, outcome: string): string => {
@@ -1250,16 +1839,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentStatus: 'pending_payment',
         stripePaymentIntentId: data.paymentIntentId,
         templateUsed: template.templateId,
+        templateVersion: await templateManager.pinVersion(template),
         systemPrompt: result.systemPrompt, // Track AI prompts for testing/debugging
         userPrompt: result.userPrompt,
       });
       
-      res.json({ 
+      if (data.recommendationId) {
+        await selectionLog.logSelection(data.recommendationId, template.templateId, { userId, generationId: generation.id });
+      }
+      
+      const body = { 
         generationId: generation.id,
         fullScript: result.fullScript,
         marketingAssets: result.marketingAssets,
-      });
+        repairs: result.repairs, // Span repairs the user can accept or reject
+        estimatedDuration: result.estimatedDuration,
+        wordBudget: result.wordBudget,
+      };
+      if (stream) {
+        stream.progress({ type: 'stage', stage: 'finalize', status: 'complete', message: 'Script saved' });
+        return stream.complete(body);
+      }
+      res.json(body);
     } catch (error: any) {
+      if (stream) return stream.fail(error.message);
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
       res.status(400).json({ message: error.message });
     }
   });
@@ -1282,6 +1886,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Template not found" });
       }
       
+      await screenForGeneration(data, { source: 'remix', userId: (req.user as any)?.claims?.sub });
+      
       // Increment usage count
       await templateManager.incrementUsageCount(req.params.templateId);
       
@@ -1309,74 +1915,355 @@ export async function registerRoutes(app: Express): Promise<Server> {
         paymentStatus: 'pending_payment',
         stripePaymentIntentId: data.paymentIntentId,
         templateUsed: template.templateId,
+        templateVersion: await templateManager.pinVersion(template),
         systemPrompt: result.systemPrompt, // Track AI prompts for testing/debugging
         userPrompt: result.userPrompt,
       });
       
-      res.json({ 
-        generationId: generation.id,
-        fullScript: result.fullScript,
-        marketingAssets: result.marketingAssets,
-      });
+      res.json({ 
+        generationId: generation.id,
+        fullScript: result.fullScript,
+        marketingAssets: result.marketingAssets,
+        estimatedDuration: result.estimatedDuration,
+      });
+    } catch (error: any) {
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Template builder live preview: the exact prompts DimensionAssembler produces for a draft template
+  app.post("/api/templates/prompt-preview", async (req, res) => {
+    try {
+      const schema = z.object({
+        template: z.unknown(),
+        presentingIssue: z.string().default(''),
+        desiredOutcome: z.string().default(''),
+        clientNotes: z.string().optional(),
+      });
+      
+      const data = schema.parse(req.body);
+      const result = templateJSONSchema.safeParse(data.template);
+      if (!result.success) {
+        return res.status(400).json({
+          message: "Invalid template JSON",
+          issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+        });
+      }
+      
+      const assembled = dimensionAssembler.assemblePrompt(
+        result.data as TemplateJSON,
+        data.presentingIssue,
+        data.desiredOutcome,
+        data.clientNotes
+      );
+      res.json(assembled);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Analyze script and get dimension analysis (for showing what dimensions are in a script)
+  app.post("/api/templates/analyze", async (req, res) => {
+    try {
+      const schema = z.object({
+        script: z.string(),
+      });
+      
+      const { script } = schema.parse(req.body);
+      const analysis = await aiService.analyzeScriptDimensions(script);
+      
+      // Sentence-level hypnotic pattern tags and tonal balance per phase
+      const languagePatterns = languagePatternDetector.analyze(script);
+      
+      res.json({ ...analysis, languagePatterns });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Create new user template (Save Mix) - requires auth
+  app.post("/api/templates", isAuthenticated, async (req: any, res) => {
+    try {
+      const schema = z.object({
+        templateId: z.string(),
+        jsonData: z.any(), // TemplateJSON object
+        name: z.string(),
+        description: z.string().optional(),
+        category: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+        isPublic: z.boolean().optional(),
+      });
+      
+      const data = schema.parse(req.body);
+      const userId = req.user.claims.sub; // Get authenticated user ID
+      
+      // Validate the JSON data structure
+      templateManager.validateTemplateJSON(data.jsonData);
+      
+      const template = await templateManager.createTemplate({
+        templateId: data.templateId,
+        jsonData: data.jsonData,
+        name: data.name,
+        description: data.description,
+        category: data.category,
+        tags: data.tags,
+        createdBy: "user",
+        userId: userId,
+        isPublic: data.isPublic || false,
+        isSystem: false,
+      });
+      
+      res.json(template);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Edit a user template - jsonData changes are snapshotted as a new version with a semantic diff
+  app.put("/api/templates/:templateId", isAuthenticated, async (req: any, res) => {
+    try {
+      const schema = z.object({
+        jsonData: z.any().optional(), // TemplateJSON object
+        isPublic: z.boolean().optional(),
+        notes: z.string().max(500).optional(), // What changed, stored with the version
+      });
+      
+      const data = schema.parse(req.body);
+      const userId = req.user.claims.sub;
+      
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (template.isSystem || template.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      
+      const jsonData = data.jsonData ? templateManager.validateTemplateJSON(data.jsonData) : undefined;
+      const updated = await templateManager.updateTemplate(
+        template.templateId,
+        {
+          ...(jsonData && {
+            jsonData,
+            name: jsonData.name,
+            description: jsonData.description,
+            category: jsonData.category,
+            tags: jsonData.tags,
+          }),
+          ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
+        },
+        { notes: data.notes, createdBy: userId }
+      );
+      
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
+  // Template version history, newest first (private templates only for their owner)
+  app.get("/api/templates/:templateId/versions", async (req, res) => {
+    try {
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template || !canViewTemplate(template, req.user)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const versions = await templateManager.getTemplateVersions(template.templateId);
+      res.json({ currentVersion: template.currentVersion, versions });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.get("/api/templates/:templateId/versions/:version", async (req, res) => {
+    try {
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template || !canViewTemplate(template, req.user)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const version = await templateManager.getTemplateVersion(template.templateId, parseInt(req.params.version));
+      if (!version) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+      res.json(version);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Dimension-aware diff between two versions (?from=1&to=3, `to` defaults to the current version)
+  app.get("/api/templates/:templateId/diff", async (req, res) => {
+    try {
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template || !canViewTemplate(template, req.user)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const from = parseInt(req.query.from as string);
+      const to = req.query.to ? parseInt(req.query.to as string) : template.currentVersion;
+      if (isNaN(from) || !to || isNaN(to)) {
+        return res.status(400).json({ message: "from and to must be version numbers" });
+      }
+      
+      const changes = await templateManager.diffTemplateVersions(template.templateId, from, to);
+      if (!changes) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+      res.json({ from, to, changes, summary: formatTemplateChanges(changes) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Roll back to an earlier version (recorded as a new version copying the old snapshot)
+  app.post("/api/templates/:templateId/rollback", isAuthenticated, async (req: any, res) => {
+    try {
+      const schema = z.object({
+        version: z.number().int().min(1),
+        notes: z.string().max(500).optional(),
+      });
+      
+      const data = schema.parse(req.body);
+      const userId = req.user.claims.sub;
+      
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (template.isSystem || template.userId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+      
+      const updated = await templateManager.rollbackTemplate(template.templateId, data.version, { notes: data.notes, createdBy: userId });
+      if (!updated) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+      
+      console.log(`[TEMPLATES] ${template.templateId} rolled back to version ${data.version} (now version ${updated.currentVersion})`);
+      res.json(updated);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
   
-  // Analyze script and get dimension analysis (for showing what dimensions are in a script)
-  app.post("/api/templates/analyze", async (req, res) => {
+  // The exact template version a generation was made with
+  app.get("/api/generations/:id/template", isAuthenticated, async (req: any, res) => {
     try {
-      const schema = z.object({
-        script: z.string(),
-      });
+      const userId = req.user.claims.sub;
+      const generation = await storage.getGenerationById(parseInt(req.params.id));
       
-      const { script } = schema.parse(req.body);
-      const analysis = await aiService.analyzeScriptDimensions(script);
+      if (!generation) {
+        return res.status(404).json({ message: "Generation not found" });
+      }
+      if (generation.userId !== userId) {
+        return res.status(403).json({ message: "Forbidden: You don't have access to this generation" });
+      }
+      if (!generation.templateUsed || !generation.templateVersion) {
+        return res.status(404).json({ message: "This generation has no pinned template version" });
+      }
       
-      res.json(analysis);
+      const version = await templateManager.getTemplateVersion(generation.templateUsed, generation.templateVersion);
+      if (!version) {
+        return res.status(404).json({ message: "Template version not found" });
+      }
+      res.json(version);
     } catch (error: any) {
-      res.status(400).json({ message: error.message });
+      res.status(500).json({ message: error.message });
     }
   });
   
-  // Create new user template (Save Mix) - requires auth
-  app.post("/api/templates", isAuthenticated, async (req: any, res) => {
+  // Reviews of a marketplace template, newest first
+  app.get("/api/templates/:templateId/reviews", async (req, res) => {
+    try {
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template || !canViewTemplate(template, req.user)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      
+      const reviews = await templateManager.getTemplateReviews(template.templateId);
+      res.json({ ratingAvg: template.ratingAvg, reviewCount: template.reviewCount, reviews });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Rate and review a marketplace template (one review per user; posting again replaces it)
+  app.post("/api/templates/:templateId/reviews", isAuthenticated, async (req: any, res) => {
     try {
       const schema = z.object({
-        templateId: z.string(),
-        jsonData: z.any(), // TemplateJSON object
-        name: z.string(),
-        description: z.string().optional(),
-        category: z.string().optional(),
-        tags: z.array(z.string()).optional(),
-        isPublic: z.boolean().optional(),
+        rating: z.number().int().min(1).max(5),
+        comment: z.string().max(2000).optional(),
       });
       
       const data = schema.parse(req.body);
-      const userId = req.user.claims.sub; // Get authenticated user ID
+      const userId = req.user.claims.sub;
       
-      // Validate the JSON data structure
-      templateManager.validateTemplateJSON(data.jsonData);
+      const template = await templateManager.getTemplateById(req.params.templateId);
+      if (!template || !templateManager.isListedPublicly(template)) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (template.userId === userId) {
+        return res.status(403).json({ message: "You can't review your own template" });
+      }
       
-      const template = await templateManager.createTemplate({
-        templateId: data.templateId,
-        jsonData: data.jsonData,
-        name: data.name,
-        description: data.description,
-        category: data.category,
-        tags: data.tags,
-        createdBy: "user",
-        userId: userId,
-        isPublic: data.isPublic || false,
-        isSystem: false,
+      const review = await templateManager.upsertTemplateReview({
+        templateId: template.templateId,
+        userId,
+        rating: data.rating,
+        comment: data.comment,
       });
-      
-      res.json(template);
+      res.json(review);
     } catch (error: any) {
       res.status(400).json({ message: error.message });
     }
   });
   
+  app.delete("/api/templates/:templateId/reviews", isAuthenticated, async (req: any, res) => {
+    try {
+      await templateManager.deleteTemplateReview(req.params.templateId, req.user.claims.sub);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Author profile: the author's marketplace templates and how they're rated
+  app.get("/api/authors/:userId", async (req, res) => {
+    try {
+      const author = await storage.getUser(req.params.userId);
+      if (!author) {
+        return res.status(404).json({ message: "Author not found" });
+      }
+      
+      const templates = await templateManager.browseTemplates({ authorId: author.id, sort: 'rating' });
+      const rated = templates.filter(t => t.ratingAvg !== null && t.reviewCount > 0);
+      const reviewCount = rated.reduce((sum, t) => sum + t.reviewCount, 0);
+      
+      res.json({
+        author: {
+          id: author.id,
+          firstName: author.firstName,
+          lastName: author.lastName,
+          profileImageUrl: author.profileImageUrl,
+          memberSince: author.createdAt,
+        },
+        templates,
+        stats: {
+          templateCount: templates.length,
+          totalUsage: templates.reduce((sum, t) => sum + t.usageCount, 0),
+          reviewCount,
+          // Review-weighted average across the author's templates (x100, like templates.ratingAvg)
+          ratingAvg: reviewCount > 0 ? Math.round(rated.reduce((sum, t) => sum + t.ratingAvg! * t.reviewCount, 0) / reviewCount) : null,
+        },
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
   // User template library: Add template to library
   app.post("/api/user-library/templates/:templateId", async (req, res) => {
     try {
@@ -1573,9 +2460,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Generate all scripts in a package
+  // Generate scripts in a package (queued - poll the package or GET /api/jobs/:id)
+  // mode 'all' regenerates every script; 'missing' only those not yet completed (failed, concept...)
   app.post("/api/packages/:id/generate", isAuthenticated, async (req, res) => {
     try {
+      const schema = z.object({
+        mode: z.enum(['all', 'missing']).default('all'),
+      });
+      
+      const { mode } = schema.parse(req.body || {});
       const packageId = parseInt(req.params.id);
       const pkg = await storage.getPackageById(packageId);
       
@@ -1584,109 +2477,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'Unauthorized' });
       }
       
+      if (pkg.status === 'generating') {
+        return res.status(409).json({ message: 'Package is already generating' });
+      }
+      
       await storage.updatePackageStatus(packageId, 'generating');
+      const job = await jobQueue.enqueue('package', currentUserId, { packageId, mode });
+      
+      res.status(202).json({ 
+        jobId: job.id,
+        mode,
+        package: { ...pkg, status: 'generating' },
+      });
+    } catch (error: any) {
+      console.error('Error queueing package generation:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Regenerate a single script in a package (e.g. after a failure)
+  app.post("/api/packages/:id/scripts/:scriptId/regenerate", isAuthenticated, async (req, res) => {
+    try {
+      const packageId = parseInt(req.params.id);
+      const scriptId = parseInt(req.params.scriptId);
+      const pkg = await storage.getPackageById(packageId);
+      
+      const currentUserId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      if (!pkg || pkg.userId !== currentUserId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
       
       const scripts = await storage.getPackageScripts(packageId);
-      const generatedScripts = [];
-      const failedScripts = [];
-      
-      // Generate each script
-      for (const script of scripts) {
-        try {
-          // Use modified values if available, otherwise use suggested values
-          const presentingIssue = script.userModifiedIssue || script.suggestedPresentingIssue || '';
-          const desiredOutcome = script.userModifiedOutcome || script.suggestedDesiredOutcome || '';
-          
-          // Get template if assigned (assignedTemplateId is the numeric database ID)
-          let template = null;
-          if (script.assignedTemplateId) {
-            template = await templateManager.getTemplateByDbId(Number(script.assignedTemplateId));
-          }
-          
-          // If no template assigned, use template selector to find one
-          if (!template) {
-            const recommendations = await templateSelector.recommendTemplates(
-              presentingIssue,
-              desiredOutcome
-            );
-            if (recommendations.length > 0) {
-              template = recommendations[0].template;
-            }
-          }
-          
-          if (!template) {
-            throw new Error(`No template available for script: ${script.conceptTitle}`);
-          }
-          
-          // jsonData is already parsed by Drizzle (jsonb type)
-          const templateJson = template.jsonData as any;
-          
-          // Defensive check
-          if (!templateJson || !templateJson.dimensions) {
-            throw new Error(`Invalid template data for template ID ${script.assignedTemplateId}`);
-          }
-          
-          // Generate full script
-          const result = await aiService.generateFullScript({
-            template: templateJson,
-            presentingIssue,
-            desiredOutcome,
-          });
-          
-          // Save generation
-          const generation = await storage.createGeneration({
-            userId: currentUserId,
-            title: script.userModifiedTitle || script.conceptTitle,
-            generationMode: 'create_new',
-            isFree: false,
-            presentingIssue,
-            desiredOutcome,
-            fullScript: result.fullScript,
-            assetsJson: result.marketingAssets,
-            templateUsed: template.templateId,
-            pricePaidCents: 0, // Part of package, no individual charge
-            paymentStatus: 'completed',
-            systemPrompt: result.systemPrompt,
-            userPrompt: result.userPrompt,
-          });
-          
-          // Link generation to package script and clear any previous error
-          await storage.updatePackageScript(script.id, {
-            generationId: generation.id,
-            status: 'completed',
-            errorMessage: null, // Clear any previous error on successful generation
-          });
-          
-          generatedScripts.push(generation);
-        } catch (error: any) {
-          console.error(`Error generating script ${script.id}:`, error);
-          await storage.updatePackageScript(script.id, { 
-            status: 'failed',
-            errorMessage: error.message || 'Unknown error during generation'
-          });
-          failedScripts.push({ scriptId: script.id, title: script.conceptTitle, error: error.message });
-        }
+      const script = scripts.find(s => s.id === scriptId);
+      if (!script) {
+        return res.status(404).json({ message: 'Script not found in this package' });
+      }
+      if (script.status === 'generating') {
+        return res.status(409).json({ message: 'Script is already generating' });
       }
       
-      // Set package status based on results
-      const finalStatus = failedScripts.length === 0 ? 'completed' : 
-                         failedScripts.length === scripts.length ? 'failed' : 'partial';
-      await storage.updatePackageStatus(packageId, finalStatus);
+      await storage.updatePackageScript(script.id, { status: 'generating', errorMessage: null });
+      const status = await refreshPackageStatus(packageId);
+      const job = await jobQueue.enqueue('script', currentUserId, {
+        kind: 'package-script',
+        packageId,
+        packageScriptId: script.id,
+      });
       
-      res.json({ 
-        package: { ...pkg, status: finalStatus }, 
-        generatedScripts,
-        failedScripts: failedScripts.length > 0 ? failedScripts : undefined
+      res.status(202).json({ 
+        jobId: job.id,
+        package: { ...pkg, status },
       });
     } catch (error: any) {
-      console.error('Error generating package scripts:', error);
+      console.error('Error queueing script regeneration:', error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Export package scripts
+  // Export package scripts (?format=txt|docx|pdf|epub|bundle, default txt)
   app.get("/api/packages/:id/export", isAuthenticated, async (req, res) => {
     try {
+      const format = (req.query.format as string) || 'txt';
+      if (!isPackageExportFormat(format)) {
+        return res.status(400).json({ 
+          message: `Unsupported export format '${format}'. Use one of: ${PACKAGE_EXPORT_FORMATS.join(', ')}` 
+        });
+      }
+      
       const packageId = parseInt(req.params.id);
       
       // Re-fetch package to ensure fresh status (not stale cached data)
@@ -1727,41 +2584,240 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Get all generated scripts
-      const generatedScripts = await Promise.all(
+      // Gather each script with the audio and images already stored for its generation
+      const exportScripts = await Promise.all(
         scripts
           .filter(s => s.generationId)
-          .map(async (script) => {
+          .map(async (script): Promise<ExportScript> => {
             const generation = await storage.getGenerationById(script.generationId!);
+            const audioUrls = await storage.getGenerationAudioUrls(script.generationId!);
             return {
               title: script.userModifiedTitle || script.conceptTitle,
               description: script.conceptDescription,
               presentingIssue: script.userModifiedIssue || script.suggestedPresentingIssue,
               desiredOutcome: script.userModifiedOutcome || script.suggestedDesiredOutcome,
               script: generation?.fullScript || '',
+              imageUrls: generation?.imageUrls?.length ? generation.imageUrls : (generation?.imageUrl ? [generation.imageUrl] : []),
+              audioUrls,
             };
           })
       );
       
-      // Format as text document
-      let exportText = `${pkg.title}\n`;
-      exportText += `Theme: ${pkg.theme}\n`;
-      exportText += `\n${'='.repeat(80)}\n\n`;
+      const objectStorage = new ObjectStorageService();
+      const file = await packageExporter.export(
+        { title: pkg.title, theme: pkg.theme, description: pkg.description, scripts: exportScripts },
+        format,
+        (url) => objectStorage.downloadPublicObject(url)
+      );
+      await storage.markPackageExported(packageId, format);
+      
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${pkg.title.replace(/[^a-z0-9]/gi, '_')}.${file.extension}"`);
+      res.send(file.buffer);
+    } catch (error: any) {
+      console.error('Error exporting package:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // ============================================
+  // TREATMENT PLANS - Multi-session protocols for one client
+  // ============================================
+  
+  // Create a plan with its ordered sessions; each session is planned by the StrategyPlanner
+  app.post("/api/treatment-plans", isAuthenticated, async (req, res) => {
+    try {
+      const schema = z.object({
+        title: z.string().min(1),
+        client: z.object({
+          name: z.string().min(1),
+          presentingIssue: z.string().min(1),
+          desiredOutcome: z.string().min(1),
+          clientNotes: z.string().optional(),
+          emergenceType: z.enum(['regular', 'sleep']).optional(),
+        }),
+        sessions: z.array(treatmentSessionSchema).min(1).max(12),
+      });
+      
+      const data = schema.parse(req.body);
+      const userId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
       
-      generatedScripts.forEach((script, index) => {
-        exportText += `SCRIPT ${index + 1}: ${script.title}\n`;
-        exportText += `${'='.repeat(80)}\n\n`;
-        exportText += `Presenting Issue: ${script.presentingIssue}\n`;
-        exportText += `Desired Outcome: ${script.desiredOutcome}\n\n`;
-        exportText += `${script.script}\n\n`;
-        exportText += `${'-'.repeat(80)}\n\n`;
+      await screenForGeneration(data.client, { source: 'plan', userId });
+      
+      const plan = await storage.createTreatmentPlan({
+        userId,
+        title: data.title,
+        clientProfile: data.client,
+        status: 'draft',
       });
+      for (let i = 0; i < data.sessions.length; i++) {
+        await storage.createTreatmentPlanSession({ planId: plan.id, sessionNumber: i + 1, status: 'planned', ...data.sessions[i] });
+      }
       
-      res.setHeader('Content-Type', 'text/plain');
-      res.setHeader('Content-Disposition', `attachment; filename="${pkg.title.replace(/[^a-z0-9]/gi, '_')}.txt"`);
-      res.send(exportText);
+      const sessions = await replanTreatmentSessions(plan.id, data.client);
+      res.json({ plan, sessions });
+    } catch (error: any) {
+      if (error instanceof SafetyReferralError) return sendSafetyReferral(res, error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid treatment plan", errors: error.errors });
+      }
+      console.error('Error creating treatment plan:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Get all treatment plans for the authenticated user
+  app.get("/api/treatment-plans", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      const plans = await storage.getTreatmentPlansByUserId(userId);
+      res.json(plans);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Get a plan with its sessions and what the next session will carry forward
+  app.get("/api/treatment-plans/:id", isAuthenticated, async (req, res) => {
+    try {
+      const plan = await storage.getTreatmentPlanById(parseInt(req.params.id));
+      if (!plan) {
+        return res.status(404).json({ message: 'Treatment plan not found' });
+      }
+      
+      const currentUserId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      if (plan.userId !== currentUserId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
+      
+      const sessions = await storage.getTreatmentPlanSessions(plan.id);
+      const next = sessions.find(s => s.status !== 'completed');
+      const continuity = next ? treatmentPlanner.buildContinuity(toPlannedSessions(sessions), next.sessionNumber) : null;
+      res.json({ plan, sessions, continuity });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Add a session to the end of a plan
+  app.post("/api/treatment-plans/:id/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const session = treatmentSessionSchema.parse(req.body);
+      const plan = await storage.getTreatmentPlanById(parseInt(req.params.id));
+      
+      const currentUserId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      if (!plan || plan.userId !== currentUserId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
+      
+      const existing = await storage.getTreatmentPlanSessions(plan.id);
+      if (existing.length >= 12) {
+        return res.status(400).json({ message: 'A treatment plan can have at most 12 sessions' });
+      }
+      
+      await storage.createTreatmentPlanSession({
+        planId: plan.id,
+        sessionNumber: existing.length + 1,
+        status: 'planned',
+        ...session,
+      });
+      const sessions = await replanTreatmentSessions(plan.id, plan.clientProfile as TreatmentClientProfile);
+      await refreshTreatmentPlanStatus(plan.id);
+      res.json({ sessions });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid session", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Change a session's goal, focus or arc choice (re-plans the sessions not yet generated)
+  app.patch("/api/treatment-plans/:id/sessions/:sessionId", isAuthenticated, async (req, res) => {
+    try {
+      const updates = treatmentSessionSchema.partial().parse(req.body);
+      const plan = await storage.getTreatmentPlanById(parseInt(req.params.id));
+      
+      const currentUserId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      if (!plan || plan.userId !== currentUserId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
+      
+      const session = (await storage.getTreatmentPlanSessions(plan.id)).find(s => s.id === parseInt(req.params.sessionId));
+      if (!session) {
+        return res.status(404).json({ message: 'Session not found in this plan' });
+      }
+      if (session.status === 'generating') {
+        return res.status(409).json({ message: 'Session is generating' });
+      }
+      
+      await storage.updateTreatmentPlanSession(session.id, updates);
+      const sessions = await replanTreatmentSessions(plan.id, plan.clientProfile as TreatmentClientProfile);
+      res.json({ sessions });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid session", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Generate one session (queued - poll the plan or GET /api/jobs/:id); earlier sessions go first
+  app.post("/api/treatment-plans/:id/sessions/:sessionId/generate", isAuthenticated, async (req, res) => {
+    try {
+      const plan = await storage.getTreatmentPlanById(parseInt(req.params.id));
+      
+      const currentUserId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      if (!plan || plan.userId !== currentUserId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
+      
+      const sessions = await storage.getTreatmentPlanSessions(plan.id);
+      const session = sessions.find(s => s.id === parseInt(req.params.sessionId));
+      if (!session) {
+        return res.status(404).json({ message: 'Session not found in this plan' });
+      }
+      if (session.status === 'generating') {
+        return res.status(409).json({ message: 'Session is already generating' });
+      }
+      
+      // Each session builds on the ones before it
+      const pending = sessions.find(s => s.sessionNumber < session.sessionNumber && s.status !== 'completed');
+      if (pending) {
+        return res.status(409).json({ message: `Generate session ${pending.sessionNumber} first - each session builds on the ones before it` });
+      }
+      
+      await storage.updateTreatmentPlanSession(session.id, { status: 'generating', errorMessage: null });
+      const status = await refreshTreatmentPlanStatus(plan.id);
+      const job = await jobQueue.enqueue('script', currentUserId, {
+        kind: 'treatment-session',
+        planId: plan.id,
+        sessionId: session.id,
+      });
+      
+      res.status(202).json({
+        jobId: job.id,
+        plan: { ...plan, status },
+      });
+    } catch (error: any) {
+      console.error('Error queueing treatment session:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Delete a plan and its sessions (generated scripts stay in the library)
+  app.delete("/api/treatment-plans/:id", isAuthenticated, async (req, res) => {
+    try {
+      const plan = await storage.getTreatmentPlanById(parseInt(req.params.id));
+      
+      const currentUserId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      if (!plan || plan.userId !== currentUserId) {
+        return res.status(403).json({ message: 'Unauthorized' });
+      }
+      
+      await storage.deleteTreatmentPlan(plan.id);
+      res.json({ message: 'Treatment plan deleted' });
     } catch (error: any) {
-      console.error('Error exporting package:', error);
       res.status(500).json({ message: error.message });
     }
   });
@@ -1769,7 +2825,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Text-to-Speech API endpoint (AUTHENTICATED - prevents OpenAI key abuse)
   app.post("/api/tts/generate", isAuthenticated, async (req, res) => {
     try {
-      const { text, voice, speed, model } = req.body;
+      const { text, voice, speed, model, format } = req.body;
 
       if (!text) {
         return res.status(400).json({ message: "Text is required" });
@@ -1785,18 +2841,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate model
       const selectedModel = model === 'tts-1' ? 'tts-1' : 'tts-1-hd';
 
-      const audioBuffer = await ttsService.generateSpeech(text, {
+      // Validate output format (mp3 default, wav for lossless editing)
+      const selectedFormat = format === 'wav' ? 'wav' : 'mp3';
+
+      // Long scripts are chunked, voiced in parallel and stitched into one file
+      const speech = await ttsService.synthesize(text, {
         voice: selectedVoice as any,
         speed: selectedSpeed,
         model: selectedModel,
+        format: selectedFormat,
       });
 
       // Set headers for audio streaming
-      res.setHeader('Content-Type', 'audio/mpeg');
-      res.setHeader('Content-Length', audioBuffer.length);
+      res.setHeader('Content-Type', AUDIO_CONTENT_TYPES[speech.format]);
+      res.setHeader('Content-Length', speech.audio.length);
       res.setHeader('Accept-Ranges', 'bytes');
+      res.setHeader('X-Audio-Duration', speech.durationSeconds.toFixed(1));
       
-      res.send(audioBuffer);
+      res.send(speech.audio);
     } catch (error: any) {
       console.error("TTS generation error:", error);
       res.status(500).json({ message: "Failed to generate speech", error: error.message });
@@ -1813,6 +2875,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ambient beds the narration can be mixed over (PUBLIC - just metadata)
+  app.get("/api/tts/beds", async (req, res) => {
+    res.json(Object.entries(AMBIENT_BEDS).map(([id, bed]) => ({ id, ...bed })));
+  });
+
+  // Queue narration of long text (optionally over an ambient bed); the audio URL lands in the job result
+  app.post("/api/tts/jobs", isAuthenticated, async (req, res) => {
+    try {
+      const schema = z.object({
+        text: z.string().min(1),
+        voice: z.enum(['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer']).default('nova'),
+        speed: z.number().min(0.25).max(4.0).default(0.6),
+        model: z.enum(['tts-1', 'tts-1-hd']).default('tts-1-hd'),
+        format: z.enum(['mp3', 'wav']).default('mp3'),
+        generationId: z.number().int().optional(), // Keep the audio with this script (included in bundle exports)
+        bed: z.object({
+          type: z.enum(Object.keys(AMBIENT_BEDS) as [AmbientBed, ...AmbientBed[]]),
+          level: z.number().min(0).max(1).optional(),
+          ducking: z.boolean().optional(),
+          tailSeconds: z.number().min(0).max(1800).optional(),
+        }).optional(),
+      });
+      
+      const data = schema.parse(req.body);
+      const userId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      
+      if (data.generationId) {
+        const generation = await storage.getGenerationById(data.generationId);
+        if (!generation || generation.userId !== userId) {
+          return res.status(404).json({ message: 'Generation not found' });
+        }
+      }
+      
+      const job = await jobQueue.enqueue('tts', userId, data);
+      res.status(202).json({ jobId: job.id, status: job.status });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // ============================================
+  // BACKGROUND JOBS
+  // ============================================
+  
+  // Job status (owner only)
+  app.get("/api/jobs/:id", isAuthenticated, async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.id);
+      const job = await storage.getJobById(jobId);
+      
+      const currentUserId = (req.user as any)?.id || (req.user as any)?.claims?.sub;
+      if (!job || job.userId !== currentUserId) {
+        return res.status(404).json({ message: 'Job not found' });
+      }
+      
+      res.json({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextRunAt: job.status === 'queued' ? job.runAt : null,
+        progress: job.progress || [],
+        result: job.result,
+        errorMessage: job.errorMessage,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,53 @@
+/**
+ * Safety Screening - runs the clinical safety screener and records every decision
+ *
+ * Each screening writes an audit row (decision, reasons, modifications and a hash of the
+ * screened text - never the text itself). An audit write failure is logged but doesn't block
+ * the screening result.
+ */
+
+import { createHash } from 'crypto';
+import { storage } from './storage';
+import {
+  safetyScreener,
+  formatSafetyScreening,
+  type SafetyScreeningInput,
+  type SafetyScreeningResult,
+} from './script-engine/safety-screener';
+
+export interface SafetyScreeningContext {
+  source: string; // Which flow screened: 'intake', 'preview', 'paid', 'template', 'job', ...
+  userId?: string | null;
+}
+
+export function hashScreeningInput(input: SafetyScreeningInput): string {
+  return createHash('sha256')
+    .update([input.presentingIssue, input.desiredOutcome || '', input.clientNotes || ''].join('\n'))
+    .digest('hex');
+}
+
+export async function screenClientContext(
+  input: SafetyScreeningInput,
+  context: SafetyScreeningContext,
+): Promise<SafetyScreeningResult> {
+  const result = safetyScreener.screen(input);
+
+  if (result.decision !== 'allowed') {
+    console.log(`[SAFETY] ${context.source}: ${formatSafetyScreening(result)}`);
+  }
+
+  try {
+    await storage.createSafetyScreening({
+      userId: context.userId ?? null,
+      source: context.source,
+      decision: result.decision,
+      reasons: result.reasons,
+      modifications: result.modifications,
+      inputHash: hashScreeningInput(input),
+    });
+  } catch (error: any) {
+    console.error('[SAFETY] Failed to record screening:', error.message);
+  }
+
+  return result;
+}
@@ -3,11 +3,7 @@
  * Analyzes hypnosis scripts to extract 8D dimensions, narrative patterns, and quality metrics
  */
 
-import Anthropic from "@anthropic-ai/sdk";
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import { llmProvider } from "./llm-provider";
 
 export interface ScriptAnalysisResult {
   dimensions: {
@@ -44,27 +40,19 @@ export async function analyzeScript(
     ? getClinicalAnalysisPrompt(scriptText)
     : getDreamAnalysisPrompt(scriptText);
 
-  const response = await anthropic.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 2000,
+  const responseText = await llmProvider.complete({
+    task: 'analyze-script',
+    prompt: analysisPrompt,
+    maxTokens: 2000,
     temperature: 0.3,
-    messages: [{
-      role: "user",
-      content: analysisPrompt
-    }]
   });
 
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response format from AI');
-  }
-
   try {
-    const cleanedText = stripMarkdownCodeFences(content.text);
+    const cleanedText = stripMarkdownCodeFences(responseText);
     const analysis = JSON.parse(cleanedText);
     return analysis;
   } catch (error) {
-    console.error('Failed to parse analysis response:', content.text);
+    console.error('Failed to parse analysis response:', responseText);
     throw new Error('Failed to parse analysis results');
   }
 }
@@ -5,6 +5,7 @@
  * - Selects narrative arcs based on client needs
  * - Enforces 6 core principles in every script
  * - Ensures metaphor consistency and quality
+ * - Screens the client context for contraindications before planning
  * 
  * This is the "brain and heart" of HypnoBrain - the IP that transforms
  * template-based generation into methodology-driven transformation.
@@ -13,6 +14,7 @@
 import { StrategyPlanner, type GenerationContract, type PlannerInput } from './strategy-planner';
 import { PrincipleEnforcer, type PrincipleDirectives, type EnforcerInput } from './principle-enforcer';
 import { EgoModule, type EgoModuleInput, type EgoModuleOutput } from './modules/ego-module';
+import { safetyScreener, SafetyReferralError, formatSafetyScreening, type SafetyScreeningResult } from './safety-screener';
 import type { ArcJourney } from '@shared/schema';
 
 export interface ScriptEngineInput {
@@ -42,6 +44,12 @@ export interface ScriptEngineInput {
   
   // Emergence type
   emergenceType?: 'regular' | 'sleep'; // regular = count to alert, sleep = drift to sleep
+  
+  // Safety screening already run (and audited) by the caller; screened here when omitted
+  safety?: SafetyScreeningResult;
+  
+  // Treatment plans: keep the metaphor family earlier sessions used
+  preferredMetaphorFamily?: string;
 }
 
 export interface ScriptEngineOutput {
@@ -54,6 +62,9 @@ export interface ScriptEngineOutput {
   // Ego Strengthening (NEW)
   egoDirectives: string[];
   
+  // Safety screening
+  safety: SafetyScreeningResult;
+  
   // For AI prompting
   enhancedSystemPrompt: string;
   structuredInstructions: string[];
@@ -86,6 +97,15 @@ export class ScriptEngine {
     reasoningLog.push(`Desired Outcome: ${input.desiredOutcome}`);
     reasoningLog.push('');
 
+    // Step 0: Safety Screening - refer out before anything is planned
+    reasoningLog.push('STEP 0: SAFETY SCREENING');
+    const safety = input.safety ?? safetyScreener.screen(input);
+    reasoningLog.push(formatSafetyScreening(safety));
+    if (safety.decision === 'refer_out') {
+      throw new SafetyReferralError(safety);
+    }
+    reasoningLog.push('');
+
     // Step 1: Strategy Planning - select narrative arcs
     reasoningLog.push('STEP 1: STRATEGY PLANNING');
     const plannerInput: PlannerInput = {
@@ -98,7 +118,9 @@ export class ScriptEngine {
       symbolicDimensionLevel: input.symbolicDimensionLevel || 30,
       // Journey parameters
       arcJourney: input.arcJourney,
-      targetWordCount: input.targetWordCount
+      targetWordCount: input.targetWordCount,
+      avoidMetaphorFamilies: safety.modifications.avoidMetaphorFamilies,
+      preferredMetaphorFamily: input.preferredMetaphorFamily
     };
 
     const generationContract = await this.planner.plan(plannerInput);
@@ -141,13 +163,15 @@ export class ScriptEngine {
     reasoningLog.push('STEP 3: PROMPT ASSEMBLY');
     const enhancedSystemPrompt = this.buildEnhancedSystemPrompt(
       principleDirectives,
-      generationContract
+      generationContract,
+      safety
     );
 
     const structuredInstructions = this.buildStructuredInstructions(
       principleDirectives,
       generationContract,
-      egoResult.directives
+      egoResult.directives,
+      safety
     );
 
     reasoningLog.push(`System prompt: ${enhancedSystemPrompt.length} characters`);
@@ -159,6 +183,7 @@ export class ScriptEngine {
       generationContract,
       principleDirectives,
       egoDirectives: egoResult.directives,
+      safety,
       enhancedSystemPrompt,
       structuredInstructions,
       reasoningLog,
@@ -171,7 +196,8 @@ export class ScriptEngine {
    */
   private buildEnhancedSystemPrompt(
     principles: PrincipleDirectives,
-    contract: GenerationContract
+    contract: GenerationContract,
+    safety: SafetyScreeningResult
   ): string {
     let prompt = principles.systemPrompt + '\n\n';
 
@@ -227,6 +253,18 @@ export class ScriptEngine {
       prompt += `- Consistency means fitting within one metaphor world, NOT repeating it constantly\n\n`;
     }
 
+    if (safety.modifications.directives.length > 0 || safety.modifications.avoidMetaphorFamilies.length > 0) {
+      prompt += `\n## CLIENT SAFETY MODIFICATIONS\n\n`;
+      prompt += `The client's intake flagged considerations that override any conflicting guidance above:\n`;
+      for (const directive of safety.modifications.directives) {
+        prompt += `- ${directive}\n`;
+      }
+      if (safety.modifications.avoidMetaphorFamilies.length > 0) {
+        prompt += `- Do not use imagery from these metaphor families: ${safety.modifications.avoidMetaphorFamilies.join(', ')}\n`;
+      }
+      prompt += '\n';
+    }
+
     return prompt;
   }
 
@@ -236,7 +274,8 @@ export class ScriptEngine {
   private buildStructuredInstructions(
     principles: PrincipleDirectives,
     contract: GenerationContract,
-    egoDirectives: string[]
+    egoDirectives: string[],
+    safety: SafetyScreeningResult
   ): string[] {
     const instructions: string[] = [];
 
@@ -256,6 +295,16 @@ export class ScriptEngine {
     }
     instructions.push('');
 
+    // Add safety modifications from the screening
+    if (safety.modifications.directives.length > 0 || safety.modifications.avoidMetaphorFamilies.length > 0) {
+      instructions.push('=== SAFETY MODIFICATIONS ===');
+      instructions.push(...safety.modifications.directives);
+      if (safety.modifications.avoidMetaphorFamilies.length > 0) {
+        instructions.push(`Avoid metaphor families: ${safety.modifications.avoidMetaphorFamilies.join(', ')}`);
+      }
+      instructions.push('');
+    }
+
     // Add quality reminders
     instructions.push('=== QUALITY CHECKLIST ===');
     instructions.push(...principles.qualityReminders);
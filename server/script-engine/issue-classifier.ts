@@ -0,0 +1,272 @@
+/**
+ * ISSUE CLASSIFIER
+ * Maps free-text presenting issues onto the methodology vocabularies with confidence scores
+ *
+ * - A local synonym graph (`config/issue-lexicon.json`) turns text into weighted concepts:
+ *   "can't switch off at night" -> insomnia, rumination; "public speaking dread" -> performance-anxiety
+ * - Concepts spread one hop along the graph's weighted links (performance-anxiety implies anxiety)
+ * - Labels (arc `presenting_issues`, metaphor `good_for_issues`, template issues) are profiled the
+ *   same way and scored by cosine similarity over concepts plus leftover content words
+ * - No external service or model download; profiles of labels are cached
+ */
+
+import issueLexicon from './config/issue-lexicon.json';
+import type { MethodologyConfigs } from './methodology-config';
+
+export interface IssueLexicon {
+  concepts: Record<string, { phrases: string[]; related: Record<string, number> }>;
+}
+
+export interface IssueMatch {
+  label: string;
+  confidence: number; // 0-1
+  concepts: string[]; // Shared concepts that explain the match
+}
+
+export interface ArcIssueMatch extends IssueMatch {
+  arcIds: string[];
+}
+
+export interface MetaphorIssueMatch extends IssueMatch {
+  families: string[];
+}
+
+export interface IssueClassification {
+  plannerIssues: IssueMatch[]; // Keys of arc_selection_rules.issue_mappings
+  arcIssues: ArcIssueMatch[]; // Arc presenting_issues
+  metaphorIssues: MetaphorIssueMatch[]; // Metaphor good_for_issues
+}
+
+export interface ClassifierVocabularies {
+  narrativeArcs: MethodologyConfigs['narrative-arcs'];
+  metaphorLibrary: MethodologyConfigs['metaphor-library'];
+}
+
+// Thresholds tuned against the bundled vocabularies
+export const PLANNER_ISSUE_THRESHOLD = 0.5;
+export const LABEL_MATCH_THRESHOLD = 0.55;
+
+const DIRECT_PHRASE_WEIGHT = 1;
+const DIRECT_WORD_WEIGHT = 0.9; // Single words are a little more ambiguous than phrases
+const TOKEN_WEIGHT = 0.5; // Content words outside the lexicon still count, less than concepts
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'or', 'but', 'the', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'from', 'by',
+  'about', 'into', 'over', 'after', 'before', 'as', 'is', 'am', 'are', 'was', 'were', 'be', 'been',
+  'it', 'its', 'this', 'that', 'my', 'me', 'i', 'im', 'ive', 'you', 'your', 'we', 'our', 'they',
+  'their', 'he', 'she', 'his', 'her', 'them', 'so', 'very', 'really', 'just', 'feel', 'feeling',
+  'get', 'getting', 'have', 'has', 'had', 'do', 'does', 'when', 'what', 'how', 'all', 'too', 'some',
+  'issue', 'issues', 'problem', 'problems', 'want', 'need', 'help', 'more', 'less', 'time',
+].map(stem));
+
+type Profile = Map<string, number>;
+
+/**
+ * Lowercase, unify apostrophes and contractions, split on anything that isn't a letter or digit
+ * (so snake_case labels like "nurturing_self" read as words)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’`]/g, "'")
+    .replace(/\bcannot\b|\bcan not\b/g, "can't")
+    .replace(/\bwill not\b/g, "won't")
+    .replace(/'/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem);
+}
+
+/**
+ * Light suffix stripping so "worrying"/"worried" and "thoughts"/"thought" meet
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  if (word.endsWith('ies') || word.endsWith('ied')) return word.slice(0, -3) + 'y';
+  for (const suffix of ['ing', 'ed', 'ness', 'es', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4 && !word.endsWith('ss')) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * Index of the first occurrence of `sequence` in `tokens`, or -1
+ */
+export function findSequence(tokens: string[], sequence: string[], from: number = 0): number {
+  outer: for (let i = from; i <= tokens.length - sequence.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (tokens[i + j] !== sequence[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  return findSequence(tokens, sequence) !== -1;
+}
+
+export class IssueClassifier {
+  private phrases: Array<{ concept: string; tokens: string[]; weight: number }> = [];
+  private lexiconTokens = new Set<string>();
+  private profileCache = new Map<string, Profile>();
+
+  constructor(private lexicon: IssueLexicon = issueLexicon as IssueLexicon) {
+    for (const [concept, entry] of Object.entries(lexicon.concepts)) {
+      for (const phrase of entry.phrases) {
+        const tokens = tokenize(phrase);
+        if (tokens.length === 0) continue;
+        this.phrases.push({ concept, tokens, weight: tokens.length > 1 ? DIRECT_PHRASE_WEIGHT : DIRECT_WORD_WEIGHT });
+        tokens.forEach(token => this.lexiconTokens.add(token));
+      }
+    }
+  }
+
+  hasConcept(concept: string): boolean {
+    return concept in this.lexicon.concepts;
+  }
+
+  /**
+   * Concept activations for a text: direct phrase hits, then one hop along the graph
+   */
+  concepts(text: string): Map<string, number> {
+    const tokens = tokenize(text);
+    const direct = new Map<string, number>();
+    for (const phrase of this.phrases) {
+      if (phrase.weight > (direct.get(phrase.concept) || 0) && containsSequence(tokens, phrase.tokens)) {
+        direct.set(phrase.concept, phrase.weight);
+      }
+    }
+
+    const activations = new Map(direct);
+    for (const [concept, weight] of Array.from(direct.entries())) {
+      for (const [related, strength] of Object.entries(this.lexicon.concepts[concept].related)) {
+        const spread = weight * strength;
+        if (spread > (activations.get(related) || 0)) {
+          activations.set(related, spread);
+        }
+      }
+    }
+    return activations;
+  }
+
+  /**
+   * Similarity between a free-text issue and a vocabulary label (1 when the label appears verbatim)
+   */
+  similarity(text: string, label: string): IssueMatch {
+    return this.score(tokenize(text), this.profile(text), label);
+  }
+
+  /**
+   * Score every label against the text; only matches at or above `threshold`, best first
+   */
+  match(text: string, labels: string[], threshold: number = LABEL_MATCH_THRESHOLD): IssueMatch[] {
+    if (!text.trim()) return [];
+    const textTokens = tokenize(text);
+    const textProfile = this.profile(text);
+
+    return Array.from(new Set(labels))
+      .map(label => this.score(textTokens, textProfile, label))
+      .filter(match => match.confidence >= threshold)
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Classify a presenting issue against the planner keys, arc presenting issues and metaphor
+   * good_for issues of the given configs
+   */
+  classify(text: string, vocabularies: ClassifierVocabularies): IssueClassification {
+    const activations = this.concepts(text);
+    const issueKeys = Object.keys(vocabularies.narrativeArcs.arc_selection_rules.issue_mappings);
+
+    // Planner keys that are lexicon concepts read their activation directly; others fall back to similarity
+    const plannerIssues: IssueMatch[] = [];
+    for (const key of issueKeys) {
+      const match = this.hasConcept(key)
+        ? { label: key, confidence: activations.get(key) || 0, concepts: [key] }
+        : this.similarity(text, key.replace(/[-_]/g, ' '));
+      if (match.confidence >= PLANNER_ISSUE_THRESHOLD) {
+        plannerIssues.push({ ...match, label: key });
+      }
+    }
+    plannerIssues.sort((a, b) => b.confidence - a.confidence);
+
+    const arcsByIssue = new Map<string, string[]>();
+    for (const arc of vocabularies.narrativeArcs.arcs) {
+      for (const issue of arc.presenting_issues) {
+        arcsByIssue.set(issue, [...(arcsByIssue.get(issue) || []), arc.id]);
+      }
+    }
+    const arcIssues = this.match(text, Array.from(arcsByIssue.keys()))
+      .map(match => ({ ...match, arcIds: arcsByIssue.get(match.label)! }));
+
+    const familiesByIssue = new Map<string, string[]>();
+    for (const [family, entry] of Object.entries(vocabularies.metaphorLibrary.metaphor_families)) {
+      for (const issue of entry.good_for_issues) {
+        familiesByIssue.set(issue, [...(familiesByIssue.get(issue) || []), family]);
+      }
+    }
+    const metaphorIssues = this.match(text, Array.from(familiesByIssue.keys()))
+      .map(match => ({ ...match, families: familiesByIssue.get(match.label)! }));
+
+    return { plannerIssues, arcIssues, metaphorIssues };
+  }
+
+  private score(textTokens: string[], textProfile: Profile, label: string): IssueMatch {
+    const labelTokens = tokenize(label);
+    if (labelTokens.length > 0 && containsSequence(textTokens, labelTokens)) {
+      return { label, confidence: 1, concepts: Array.from(this.concepts(label).keys()) };
+    }
+    return this.compare(textProfile, this.profileOf(label), label);
+  }
+
+  private profileOf(label: string): Profile {
+    let profile = this.profileCache.get(label);
+    if (!profile) {
+      profile = this.profile(label);
+      this.profileCache.set(label, profile);
+    }
+    return profile;
+  }
+
+  // Concept dimensions plus content words the lexicon doesn't cover
+  private profile(text: string): Profile {
+    const profile: Profile = new Map();
+    for (const [concept, weight] of Array.from(this.concepts(text).entries())) {
+      profile.set(`c:${concept}`, weight);
+    }
+    for (const token of tokenize(text)) {
+      if (!STOPWORDS.has(token) && !this.lexiconTokens.has(token)) {
+        profile.set(`t:${token}`, TOKEN_WEIGHT);
+      }
+    }
+    return profile;
+  }
+
+  private compare(a: Profile, b: Profile, label: string): IssueMatch {
+    let dot = 0;
+    const shared: string[] = [];
+    for (const [dimension, weight] of Array.from(a.entries())) {
+      const other = b.get(dimension);
+      if (other) {
+        dot += weight * other;
+        if (dimension.startsWith('c:')) shared.push(dimension.slice(2));
+      }
+    }
+    const norm = (profile: Profile) => Math.sqrt(Array.from(profile.values()).reduce((sum, w) => sum + w * w, 0));
+    const denominator = norm(a) * norm(b);
+    const confidence = denominator === 0 ? 0 : Math.round((dot / denominator) * 100) / 100;
+    return { label, confidence, concepts: shared };
+  }
+}
+
+/**
+ * "anxiety (0.92), insomnia (0.81)"
+ */
+export function formatIssueMatches(matches: IssueMatch[]): string {
+  return matches.map(match => `${match.label} (${match.confidence.toFixed(2)})`).join(', ');
+}
+
+export const issueClassifier = new IssueClassifier();
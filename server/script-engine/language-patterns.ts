@@ -0,0 +1,304 @@
+/**
+ * LANGUAGE PATTERNS
+ * Tags every sentence of a script with the hypnotic language patterns it uses and measures the
+ * tonal balance (soft invitations per direct command) against `language-mastery.json`
+ *
+ * - One detector per pattern: embedded commands, presuppositions, double binds, truisms,
+ *   yes-sets, direct commands and soft invitations; a sentence can carry several tags
+ * - Direct commands and soft invitations are exclusive (an imperative opening wins), so the
+ *   two counts give the ratio the methodology describes ("1 direct command -> 2-3 soft invitations")
+ * - Ratios are computed per phase (induction, deepening, work, emergence) and overall, and each
+ *   is checked against `tonal_balance.targets`
+ * - Phases come from the caller when known, otherwise from the phase segmenter
+ */
+
+import languageMasteryConfig from './config/language-mastery.json';
+import { methodologyConfig } from './methodology-config';
+import { phaseSegmenter, splitSentences, SCRIPT_PHASES, type ScriptPhase, type PhaseSpan, type PhaseSegmentationSource } from './phase-segmenter';
+
+export { SCRIPT_PHASES, splitSentences } from './phase-segmenter';
+export type { ScriptPhase, PhaseSpan } from './phase-segmenter';
+
+export const LANGUAGE_PATTERNS = [
+  'embedded_command',
+  'presupposition',
+  'double_bind',
+  'truism',
+  'yes_set',
+  'direct_command',
+  'soft_invitation',
+] as const;
+export type LanguagePattern = typeof LANGUAGE_PATTERNS[number];
+
+export interface PatternTag {
+  pattern: LanguagePattern;
+  evidence: string; // The words that triggered the detector
+}
+
+export interface TaggedSentence {
+  index: number;
+  start: number; // Character offsets into the script
+  end: number;
+  text: string;
+  phase: ScriptPhase;
+  tags: PatternTag[];
+}
+
+export interface BalanceTarget {
+  min_invitations_per_command: number;
+  max_invitations_per_command: number;
+  expects_commands?: boolean;
+}
+
+export type BalanceStatus = 'within' | 'too_directive' | 'too_soft' | 'no_commands' | 'no_data';
+
+export interface TonalBalance {
+  sentenceCount: number;
+  counts: Record<LanguagePattern, number>;
+  directCommands: number;
+  softInvitations: number;
+  invitationsPerCommand: number | null; // null when there are no direct commands
+  target: BalanceTarget;
+  status: BalanceStatus;
+}
+
+export interface PhaseBalance extends TonalBalance {
+  phase: ScriptPhase;
+}
+
+export interface LanguagePatternReport {
+  sentences: TaggedSentence[];
+  phases: PhaseBalance[];
+  overall: TonalBalance;
+  phaseSource: 'provided' | PhaseSegmentationSource;
+  commandRuns: Array<{ start: number; length: number }>; // Direct commands stacked beyond the configured max
+  maxConsecutiveCommands: number; // The configured max commandRuns were checked against
+}
+
+type TonalTargets = typeof languageMasteryConfig.tonal_balance.targets;
+
+const YES_SET_MIN_RUN = 3;
+
+// Verbs a script opens an imperative sentence with
+const IMPERATIVE_VERBS = [
+  'take', 'feel', 'notice', 'let', 'allow', 'breathe', 'close', 'open', 'relax', 'find', 'bring',
+  'imagine', 'picture', 'sense', 'listen', 'rest', 'drift', 'sink', 'go', 'count', 'wake', 'come',
+  'return', 'become', 'release', 'settle', 'keep', 'stay', 'focus', 'begin', 'start', 'move',
+  'give', 'place', 'hold', 'turn', 'follow', 'enjoy', 'stretch', 'soften', 'float', 'know',
+];
+const SENTENCE_LEAD = String.raw`^(?:(?:and|now|so|just|simply|gently|slowly|then|good|okay|right now),?\s+)*`;
+const DIRECT_COMMAND = new RegExp(`${SENTENCE_LEAD}(${IMPERATIVE_VERBS.join('|')})\\b`, 'i');
+
+// Verbs a command is hidden behind ("you can <relax>", "allow yourself to <let go>")
+const EMBEDDED_VERBS = String.raw`(relax|let go|drift|sink|settle|rest|release|feel|notice|go deeper|breathe|soften|float|allow|enjoy|trust|sleep|become|change|heal|let)`;
+const EMBEDDED_COMMAND = new RegExp(
+  String.raw`\b(?:you (?:can|could|may|might|will)(?: now)?(?: begin to| start to| continue to)?|allow yourself to|let yourself|i wonder (?:if|whether|how soon|when) you(?:'ll| will| can| might)?|perhaps you(?:'ll| will| can)?|it'?s (?:possible|okay|easy) to)\s+${EMBEDDED_VERBS}\b`,
+  'i'
+);
+
+const PRESUPPOSITIONS = [
+  /\bas you (?:continue|begin|keep)\b/i,
+  /\bwhen you (?:notice|find|feel|realize|discover)\b/i,
+  /\b(?:after|before) you\b/i,
+  /\bhow (?:easily|deeply|quickly|comfortably|naturally|much)\b/i,
+  /\b(?:even|ever) (?:more|deeper)\b/i,
+  /\balready\b/i,
+  /\bcontinue to\b/i,
+  /\b(?:notice|realize|discover|sense) (?:how|that)\b/i,
+  /\bagain\b/i,
+];
+
+const DOUBLE_BINDS = [
+  /\bwhether (?:or not )?(?:you|your)\b.+\bor\b/i,
+  /\b(?:you can|you may|you might)\b.+\bor (?:you can|you may|you might|perhaps|maybe)\b/i,
+  /\beither\b.+\bor\b/i,
+  /\b(?:now|right away) or (?:in a (?:moment|little while)|later|soon)\b/i,
+  /\b(?:don'?t|do not) know (?:if|whether) .+\bor\b/i,
+  /\b(?:quickly|fast|slowly) or (?:slowly|gradually|quickly)\b/i,
+];
+
+const TRUISMS = [
+  /\b(?:everyone|everybody|we all|all of us|most people|each of us|anyone)\b.*\b(?:can|has|have|knows?|experiences?|experienced|remembers?|sometimes|often|once)\b/i,
+  /\bit'?s (?:natural|normal|easy|possible|okay) (?:to|for)\b/i,
+  /\b(?:the|your) (?:body|mind|breath|unconscious(?: mind)?|subconscious(?: mind)?|inner mind) (?:knows|can|has|always|naturally)\b/i,
+  /\b(?:sooner or later|over time|every night|each night|every day|each day)\b/i,
+];
+
+// Undeniable statements about the present moment; three in a row make a yes-set
+const PACING = [
+  /\byou(?:'re| are) (?:sitting|lying|resting|here|listening|breathing|hearing|settled)\b/i,
+  /\byou can (?:hear|feel) (?:my voice|the sounds?|the (?:chair|bed|floor|cushion|pillow)|your breath)\b/i,
+  /\byour (?:eyes|hands|feet|head|body|back|arms|legs) (?:are|is|rest|resting)\b/i,
+  /\b(?:and )?(?:each|every) breath (?:in|out)\b/i,
+  /\byou(?:'ve| have) (?:taken|found|made|come)\b/i,
+];
+
+const SOFTENERS = /\b(might|may|perhaps|maybe|could|possibly|wonder(?:ing)?|if you (?:like|wish|want)|when you'?re ready|in your own (?:time|way))\b/i;
+const AS_CLAUSE = new RegExp(`${SENTENCE_LEAD}as (?:you|your)\\b`, 'i');
+const BODY_SUBJECT = new RegExp(
+  `${SENTENCE_LEAD}your (breath|breathing|shoulders|jaw|chest|body|heart|heartbeat|hands|arms|legs|feet|eyelids|eyes|face|forehead|muscles|mind|awareness|thoughts|belly|back|neck|whole body)\\b`,
+  'i'
+);
+const STATE_SUBJECT = /\b(?:surfaces?|arrives?|spreads?|unfolds?|settles?|flows?|washes?|melts?) (?:in|through|into|within|over|across)\b/i;
+const AWARENESS = /\b(?:becom(?:e|es|ing) aware|in(?:to)? your awareness)\b/i;
+
+function firstMatch(sentence: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = pattern.exec(sentence);
+    if (match) return match[0];
+  }
+  return null;
+}
+
+function emptyCounts(): Record<LanguagePattern, number> {
+  return Object.fromEntries(LANGUAGE_PATTERNS.map(pattern => [pattern, 0])) as Record<LanguagePattern, number>;
+}
+
+export class LanguagePatternDetector {
+  // Read from the live methodology config on every analysis (hot-reloadable); versions saved
+  // before targets existed fall back to the bundled ones
+  private get targets(): TonalTargets {
+    return methodologyConfig.get('language-mastery').tonal_balance.targets ?? languageMasteryConfig.tonal_balance.targets;
+  }
+
+  /**
+   * Patterns in a single sentence (yes-sets need their neighbours, see `analyze`)
+   */
+  tagSentence(sentence: string): PatternTag[] {
+    const tags: PatternTag[] = [];
+    const add = (pattern: LanguagePattern, evidence: string | null) => {
+      if (evidence) tags.push({ pattern, evidence: evidence.trim() });
+    };
+
+    add('embedded_command', EMBEDDED_COMMAND.exec(sentence)?.[0] ?? null);
+    add('presupposition', firstMatch(sentence, PRESUPPOSITIONS));
+    add('double_bind', firstMatch(sentence, DOUBLE_BINDS));
+    add('truism', firstMatch(sentence, TRUISMS));
+
+    const command = DIRECT_COMMAND.exec(sentence);
+    if (command) {
+      add('direct_command', command[1]);
+    } else {
+      add('soft_invitation', firstMatch(sentence, [SOFTENERS, AS_CLAUSE, BODY_SUBJECT, STATE_SUBJECT, AWARENESS]));
+    }
+    return tags;
+  }
+
+  /**
+   * Tag every sentence, then measure tonal balance per phase and overall
+   */
+  analyze(script: string, phases?: PhaseSpan[]): LanguagePatternReport {
+    const split = splitSentences(script);
+    let located: { spans: PhaseSpan[]; source: LanguagePatternReport['phaseSource'] };
+    if (phases && phases.length > 0) {
+      located = { spans: phases, source: 'provided' };
+    } else {
+      const segmentation = phaseSegmenter.segment(script);
+      located = { spans: segmentation.segments, source: segmentation.source };
+    }
+
+    const sentences: TaggedSentence[] = split.map((sentence, index) => ({
+      index,
+      ...sentence,
+      phase: this.phaseAt(located.spans, sentence.start),
+      tags: this.tagSentence(sentence.text),
+    }));
+
+    // Yes-sets: runs of pacing statements
+    let run: TaggedSentence[] = [];
+    const closeRun = () => {
+      if (run.length >= YES_SET_MIN_RUN) {
+        for (const sentence of run) {
+          sentence.tags.push({ pattern: 'yes_set', evidence: firstMatch(sentence.text, PACING)! });
+        }
+      }
+      run = [];
+    };
+    for (const sentence of sentences) {
+      if (firstMatch(sentence.text, PACING)) {
+        run.push(sentence);
+      } else {
+        closeRun();
+      }
+    }
+    closeRun();
+
+    // Direct commands stacked past the configured maximum
+    const targets = this.targets;
+    const commandRuns: LanguagePatternReport['commandRuns'] = [];
+    let runStart = -1;
+    sentences.forEach((sentence, index) => {
+      const isCommand = sentence.tags.some(tag => tag.pattern === 'direct_command');
+      if (isCommand && runStart === -1) runStart = index;
+      if ((!isCommand || index === sentences.length - 1) && runStart !== -1) {
+        const length = (isCommand ? index + 1 : index) - runStart;
+        if (length > targets.max_consecutive_commands) commandRuns.push({ start: runStart, length });
+        runStart = -1;
+      }
+    });
+
+    return {
+      sentences,
+      phases: SCRIPT_PHASES.map(phase => ({
+        phase,
+        ...this.balance(sentences.filter(sentence => sentence.phase === phase), targets.phases[phase]),
+      })),
+      overall: this.balance(sentences, targets.overall),
+      phaseSource: located.source,
+      commandRuns,
+      maxConsecutiveCommands: targets.max_consecutive_commands,
+    };
+  }
+
+  private balance(sentences: TaggedSentence[], target: BalanceTarget): TonalBalance {
+    const counts = emptyCounts();
+    for (const sentence of sentences) {
+      for (const pattern of Array.from(new Set(sentence.tags.map(tag => tag.pattern)))) {
+        counts[pattern]++;
+      }
+    }
+
+    const directCommands = counts.direct_command;
+    const softInvitations = counts.soft_invitation;
+    const invitationsPerCommand = directCommands === 0 ? null : Math.round((softInvitations / directCommands) * 100) / 100;
+
+    let status: BalanceStatus;
+    if (directCommands + softInvitations === 0) {
+      status = 'no_data';
+    } else if (invitationsPerCommand === null) {
+      status = target.expects_commands ? 'no_commands' : 'within';
+    } else if (invitationsPerCommand < target.min_invitations_per_command) {
+      status = 'too_directive';
+    } else if (invitationsPerCommand > target.max_invitations_per_command) {
+      status = 'too_soft';
+    } else {
+      status = 'within';
+    }
+
+    return {
+      sentenceCount: sentences.length,
+      counts,
+      directCommands,
+      softInvitations,
+      invitationsPerCommand,
+      target,
+      status,
+    };
+  }
+
+  private phaseAt(spans: PhaseSpan[], offset: number): ScriptPhase {
+    const span = spans.find(s => offset >= s.start && offset < s.end);
+    return span?.phase ?? spans[spans.length - 1]?.phase ?? 'work';
+  }
+}
+
+/**
+ * "induction 1.50 (within), deepening 3.00 (within), work 0.80 (too_directive), emergence - (no_commands)"
+ */
+export function formatTonalBalance(report: LanguagePatternReport): string {
+  return report.phases
+    .map(p => `${p.phase} ${p.invitationsPerCommand === null ? '-' : p.invitationsPerCommand.toFixed(2)} (${p.status})`)
+    .join(', ');
+}
+
+export const languagePatternDetector = new LanguagePatternDetector();
@@ -0,0 +1,276 @@
+/**
+ * METHODOLOGY CONFIG
+ * Holds the live methodology configs (arcs, metaphors, principles, language rules, ego strengthening)
+ *
+ * - Starts from the bundled JSON files, which stay the defaults and version 0
+ * - Versioned records from the database replace them at startup and whenever an admin saves,
+ *   so methodology tweaks don't need a redeploy
+ * - Every record is validated with Zod before it is swapped in; an invalid record is skipped
+ *   and the previous config stays live
+ * - Engine classes read through `methodologyConfig.get()` on every call, so a reload applies
+ *   to the next generation without a restart
+ */
+
+import { z } from 'zod';
+import narrativeArcsConfig from './config/narrative-arcs.json';
+import metaphorLibraryConfig from './config/metaphor-library.json';
+import principlesConfig from './config/principles.json';
+import languageMasteryConfig from './config/language-mastery.json';
+import egoConfig from './modules/ego-config.json';
+
+export const METHODOLOGY_CONFIG_KEYS = [
+  'narrative-arcs',
+  'metaphor-library',
+  'principles',
+  'language-mastery',
+  'ego-config',
+] as const;
+
+export type MethodologyConfigKey = typeof METHODOLOGY_CONFIG_KEYS[number];
+
+// Configs keep the shape of the bundled files; the schemas below guard what the engine relies on
+export interface MethodologyConfigs {
+  'narrative-arcs': typeof narrativeArcsConfig;
+  'metaphor-library': typeof metaphorLibraryConfig;
+  'principles': typeof principlesConfig;
+  'language-mastery': typeof languageMasteryConfig;
+  'ego-config': typeof egoConfig;
+}
+
+// Version per config; 0 means the bundled default
+export type MethodologyVersions = Record<MethodologyConfigKey, number>;
+
+const BUNDLED_CONFIGS: MethodologyConfigs = {
+  'narrative-arcs': narrativeArcsConfig,
+  'metaphor-library': metaphorLibraryConfig,
+  'principles': principlesConfig,
+  'language-mastery': languageMasteryConfig,
+  'ego-config': egoConfig,
+};
+
+const stringList = z.array(z.string());
+
+const narrativeArcSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  description: z.string(),
+  when_to_use: stringList,
+  presenting_issues: stringList,
+  key_language: stringList,
+  prompt_integration: z.string(),
+}).passthrough();
+
+const narrativeArcsSchema = z.object({
+  version: z.string(),
+  arcs: z.array(narrativeArcSchema).min(1),
+  dream_arcs: z.array(z.object({ id: z.string().min(1), name: z.string().min(1) }).passthrough()),
+  dream_arc_selection_rules: z.object({}).passthrough(),
+  arc_selection_rules: z.object({
+    always_include: stringList,
+    issue_mappings: z.record(z.string(), stringList),
+    max_arcs_per_script: z.number().int().positive(),
+    priority_order: stringList,
+  }).passthrough(),
+}).passthrough().superRefine((config, ctx) => {
+  const ids = new Set<string>();
+  for (const arc of config.arcs) {
+    if (ids.has(arc.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate arc id "${arc.id}"`, path: ['arcs'] });
+    }
+    ids.add(arc.id);
+  }
+  for (const arcId of config.arc_selection_rules.always_include) {
+    if (!ids.has(arcId)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Foundation arc "${arcId}" is not defined`, path: ['arc_selection_rules', 'always_include'] });
+    }
+  }
+});
+
+const metaphorFamilySchema = z.object({
+  primary_images: stringList,
+  related_imagery: stringList,
+  good_for_issues: stringList,
+  avoid_for: stringList,
+}).passthrough();
+
+const metaphorLibrarySchema = z.object({
+  version: z.string(),
+  metaphor_families: z.record(z.string(), metaphorFamilySchema),
+  issue_to_metaphor_mapping: z.record(z.string(), z.object({
+    recommended: stringList,
+    avoid: stringList,
+    specific_images: z.array(z.object({}).passthrough()),
+  }).passthrough()),
+  consistency_rules: z.object({}).passthrough(),
+}).passthrough().superRefine((config, ctx) => {
+  if (!config.metaphor_families['nature_gentle']) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'The default "nature_gentle" family is required', path: ['metaphor_families'] });
+  }
+  for (const [issue, mapping] of Object.entries(config.issue_to_metaphor_mapping)) {
+    for (const family of mapping.recommended) {
+      if (!config.metaphor_families[family]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown metaphor family "${family}"`, path: ['issue_to_metaphor_mapping', issue] });
+      }
+    }
+  }
+});
+
+const qualityGateSchema = z.object({
+  gate: z.string().min(1),
+  check: z.string(),
+  method: z.string(),
+  fix: z.string().optional(), // Instruction for the micro-polish when the gate fails
+}).passthrough();
+
+const principlesSchema = z.object({
+  version: z.string(),
+  principles: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string(),
+    rule: z.string(),
+    why: z.string(),
+    prompt_directives: stringList,
+    quality_gates: z.array(qualityGateSchema),
+  }).passthrough()).min(1),
+}).passthrough();
+
+const balanceTargetSchema = z.object({
+  min_invitations_per_command: z.number().nonnegative(),
+  max_invitations_per_command: z.number().nonnegative(),
+  expects_commands: z.boolean().optional(),
+});
+
+const languageMasterySchema = z.object({
+  version: z.string(),
+  tonal_balance: z.object({
+    ratio: z.string(),
+    // Optional so versions saved before the pattern detectors existed still load
+    targets: z.object({
+      overall: balanceTargetSchema,
+      phases: z.object({
+        induction: balanceTargetSchema,
+        deepening: balanceTargetSchema,
+        work: balanceTargetSchema,
+        emergence: balanceTargetSchema,
+      }),
+      max_consecutive_commands: z.number().int().positive(),
+    }).passthrough().optional(),
+  }).passthrough(),
+  critical_anti_patterns: z.object({
+    forbidden_phrases: stringList,
+    replacement_patterns: stringList.min(1),
+  }).passthrough(),
+  language_craft: z.object({ forbidden_cliches: stringList }).passthrough(),
+  inclusive_sensory_language: z.object({ forbidden_visual_commands: stringList }).passthrough(),
+}).passthrough();
+
+const egoConfigSchema = z.object({
+  version: z.string(),
+  modes: z.object({
+    cascade: z.object({}).passthrough(),
+    chunk: z.object({}).passthrough(),
+    standalone: z.object({}).passthrough(),
+  }).passthrough(),
+  emergence_styles: z.object({
+    wake: z.object({}).passthrough(),
+    sleep: z.object({}).passthrough(),
+  }).passthrough(),
+  functional_categories: z.object({}).passthrough(),
+  experiential_cascades: z.object({}).passthrough(),
+  quality_rules: z.object({
+    distribution: z.object({
+      max_keywords_per_paragraph: z.number().int().positive(),
+      max_total_keywords: z.number().int().positive(),
+      keywords: stringList,
+    }).passthrough(),
+  }).passthrough(),
+}).passthrough();
+
+export const METHODOLOGY_CONFIG_SCHEMAS: Record<MethodologyConfigKey, z.ZodTypeAny> = {
+  'narrative-arcs': narrativeArcsSchema,
+  'metaphor-library': metaphorLibrarySchema,
+  'principles': principlesSchema,
+  'language-mastery': languageMasterySchema,
+  'ego-config': egoConfigSchema,
+};
+
+export function isMethodologyConfigKey(value: unknown): value is MethodologyConfigKey {
+  return typeof value === 'string' && (METHODOLOGY_CONFIG_KEYS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a config document (throws a ZodError describing every problem)
+ */
+export function validateMethodologyConfig<K extends MethodologyConfigKey>(key: K, content: unknown): MethodologyConfigs[K] {
+  return METHODOLOGY_CONFIG_SCHEMAS[key].parse(content) as MethodologyConfigs[K];
+}
+
+export interface MethodologyConfigRecord {
+  key: string;
+  version: number;
+  content: unknown;
+}
+
+export interface MethodologyLoadResult {
+  versions: MethodologyVersions;
+  errors: Array<{ key: string; version: number; message: string }>;
+}
+
+export class MethodologyConfigStore {
+  private configs: MethodologyConfigs = { ...BUNDLED_CONFIGS };
+  private versions: MethodologyVersions = bundledVersions();
+
+  get<K extends MethodologyConfigKey>(key: K): MethodologyConfigs[K] {
+    return this.configs[key];
+  }
+
+  getBundled<K extends MethodologyConfigKey>(key: K): MethodologyConfigs[K] {
+    return BUNDLED_CONFIGS[key];
+  }
+
+  /**
+   * Versions currently live (recorded on every generation)
+   */
+  getVersions(): MethodologyVersions {
+    return { ...this.versions };
+  }
+
+  /**
+   * Swap in the active record for each key. Keys without a record fall back to the bundled
+   * default; a record that fails validation leaves that key as it was.
+   */
+  load(records: MethodologyConfigRecord[]): MethodologyLoadResult {
+    const configs: MethodologyConfigs = { ...BUNDLED_CONFIGS };
+    const versions = bundledVersions();
+    const errors: MethodologyLoadResult['errors'] = [];
+
+    for (const key of METHODOLOGY_CONFIG_KEYS) {
+      const record = records.find(r => r.key === key);
+      if (!record) continue;
+
+      try {
+        (configs as Record<MethodologyConfigKey, unknown>)[key] = validateMethodologyConfig(key, record.content);
+        versions[key] = record.version;
+      } catch (error: any) {
+        const message = error instanceof z.ZodError
+          ? error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`).join('; ')
+          : error.message;
+        errors.push({ key, version: record.version, message });
+        console.error(`[METHODOLOGY] ${key} v${record.version} is invalid, keeping v${this.versions[key]}: ${message}`);
+        (configs as Record<MethodologyConfigKey, unknown>)[key] = this.configs[key];
+        versions[key] = this.versions[key];
+      }
+    }
+
+    this.configs = configs;
+    this.versions = versions;
+    return { versions: this.getVersions(), errors };
+  }
+}
+
+function bundledVersions(): MethodologyVersions {
+  return Object.fromEntries(METHODOLOGY_CONFIG_KEYS.map(key => [key, 0])) as MethodologyVersions;
+}
+
+export const methodologyConfig = new MethodologyConfigStore();
@@ -0,0 +1,242 @@
+/**
+ * METHODOLOGY EDITOR
+ * Structured edits to the narrative arcs and metaphor families in the live methodology config
+ *
+ * - Every edit returns a new config document; the live config is never mutated, so the same
+ *   functions build both the version an admin saves and the draft used for a dry-run plan
+ * - An arc's `mapped_issues` (the planner's detected-issue keys, e.g. "anxiety") are written into
+ *   `arc_selection_rules.issue_mappings`, which is how the planner picks arcs; `presenting_issues`
+ *   stays descriptive copy for the prompt and UI
+ * - Likewise a family's `recommended_for` issue keys put it first in
+ *   `issue_to_metaphor_mapping[issue].recommended`, the family the planner picks for that issue
+ * - The result still goes through `validateMethodologyConfig` before it is saved
+ */
+
+import { z } from 'zod';
+import type { MethodologyConfigs } from './methodology-config';
+
+type NarrativeArcsConfig = MethodologyConfigs['narrative-arcs'];
+type MetaphorLibraryConfig = MethodologyConfigs['metaphor-library'];
+
+export const ARC_CATEGORIES = ['clinical', 'dream'] as const;
+
+const slug = z.string().trim().min(1).max(64).regex(/^[a-z0-9][a-z0-9_-]*$/, 'Use lowercase letters, numbers, "-" and "_"');
+const textList = z.array(z.string().trim().min(1)).default([]);
+
+export const narrativeArcInputSchema = z.object({
+  id: slug,
+  name: z.string().trim().min(1).max(120),
+  description: z.string().trim().default(''),
+  core_message: z.string().trim().optional(),
+  category: z.enum(ARC_CATEGORIES),
+  when_to_use: textList,
+  presenting_issues: textList,
+  key_language: z.array(z.string().trim().min(1)).min(1, 'Add at least one key language line'),
+  prompt_integration: z.string().trim().min(1),
+  // Planner issue keys that should select this arc; omitted on update = leave mappings alone
+  mapped_issues: z.array(slug).optional(),
+});
+
+export const metaphorFamilyInputSchema = z.object({
+  name: slug,
+  primary_images: z.array(z.string().trim().min(1)).min(1, 'Add at least one primary image'),
+  related_imagery: textList,
+  good_for_issues: textList,
+  avoid_for: textList,
+  // Planner issue keys this family should be the first recommendation for; omitted = unchanged
+  recommended_for: z.array(slug).optional(),
+});
+
+export type NarrativeArcInput = z.infer<typeof narrativeArcInputSchema>;
+export type MetaphorFamilyInput = z.infer<typeof metaphorFamilyInputSchema>;
+export type EditMode = 'create' | 'update';
+
+export class MethodologyEditError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MethodologyEditError';
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * The list an arc lives in: clinical arcs in `arcs`, DREAM arcs in `dream_arcs`
+ */
+function findArc(config: NarrativeArcsConfig, arcId: string): { list: 'arcs' | 'dream_arcs'; index: number } | null {
+  for (const list of ['arcs', 'dream_arcs'] as const) {
+    const index = (config[list] as any[]).findIndex(arc => arc.id === arcId);
+    if (index !== -1) return { list, index };
+  }
+  return null;
+}
+
+/**
+ * Whether an arc id is taken in either list
+ */
+export function hasArc(config: NarrativeArcsConfig, arcId: string): boolean {
+  return findArc(config, arcId) !== null;
+}
+
+/**
+ * Remove an arc id from every issue mapping
+ */
+function unmapArc(config: NarrativeArcsConfig, arcId: string): void {
+  const mappings = config.arc_selection_rules.issue_mappings as Record<string, string[]>;
+  for (const issue of Object.keys(mappings)) {
+    mappings[issue] = mappings[issue].filter(id => id !== arcId);
+  }
+}
+
+/**
+ * Add a new arc or replace an existing one (matched by id)
+ *
+ * Clinical arcs go into `arcs` and are selected through issue mappings; DREAM arcs go into
+ * `dream_arcs`, which the planner never reads, so they carry no issue mappings. Changing an
+ * arc's category moves it between the two lists.
+ */
+export function upsertArc(config: NarrativeArcsConfig, input: NarrativeArcInput, mode: EditMode): NarrativeArcsConfig {
+  const next = clone(config);
+  const found = findArc(next, input.id);
+
+  if (mode === 'create' && found) {
+    throw new MethodologyEditError(`Arc "${input.id}" already exists`, 409);
+  }
+  if (mode === 'update' && !found) {
+    throw new MethodologyEditError(`Arc "${input.id}" not found`, 404);
+  }
+
+  const isDream = input.category === 'dream';
+  if (isDream && next.arc_selection_rules.always_include.includes(input.id)) {
+    throw new MethodologyEditError(`Arc "${input.id}" is a foundation arc (always_include) and can't be a DREAM arc`);
+  }
+
+  const { mapped_issues, ...fields } = input;
+  const target = isDream ? 'dream_arcs' : 'arcs';
+  const existing = found ? (next[found.list] as any[])[found.index] : {};
+  if (found && found.list !== target) {
+    (next[found.list] as any[]).splice(found.index, 1);
+  }
+
+  // Keep fields the editor doesn't know about (e.g. hand-added notes in the JSON)
+  const arc = { ...existing, ...fields };
+  if (isDream) delete (arc as any).category;
+  const arcs = next[target] as any[];
+  if (found && found.list === target) {
+    arcs[found.index] = arc;
+  } else {
+    arcs.push(arc);
+  }
+
+  if (isDream) {
+    unmapArc(next, input.id);
+  } else if (mapped_issues) {
+    const mappings = next.arc_selection_rules.issue_mappings as Record<string, string[]>;
+    const wanted = new Set(mapped_issues);
+    for (const issue of Object.keys(mappings)) {
+      if (!wanted.has(issue)) {
+        mappings[issue] = mappings[issue].filter(id => id !== input.id);
+      }
+    }
+    for (const issue of Array.from(wanted)) {
+      const mapped = mappings[issue] || (mappings[issue] = []);
+      if (!mapped.includes(input.id)) mapped.push(input.id);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Remove an arc (clinical or DREAM) and every issue mapping that points at it
+ */
+export function removeArc(config: NarrativeArcsConfig, arcId: string): NarrativeArcsConfig {
+  const found = findArc(config, arcId);
+  if (!found) {
+    throw new MethodologyEditError(`Arc "${arcId}" not found`, 404);
+  }
+  if (config.arc_selection_rules.always_include.includes(arcId)) {
+    throw new MethodologyEditError(`Arc "${arcId}" is a foundation arc (always_include) and can't be removed`);
+  }
+
+  const next = clone(config);
+  (next[found.list] as any[]).splice(found.index, 1);
+  unmapArc(next, arcId);
+
+  return next;
+}
+
+/**
+ * Issue keys that currently select an arc
+ */
+export function getMappedIssues(config: NarrativeArcsConfig, arcId: string): string[] {
+  return Object.entries(config.arc_selection_rules.issue_mappings as Record<string, string[]>)
+    .filter(([, arcIds]) => arcIds.includes(arcId))
+    .map(([issue]) => issue);
+}
+
+/**
+ * Issue keys a family is currently the first recommendation for
+ */
+export function getRecommendedIssues(library: MetaphorLibraryConfig, name: string): string[] {
+  return Object.entries(library.issue_to_metaphor_mapping as Record<string, { recommended: string[] }>)
+    .filter(([, mapping]) => mapping.recommended[0] === name)
+    .map(([issue]) => issue);
+}
+
+/**
+ * Add a new metaphor family or replace an existing one (matched by name)
+ */
+export function upsertMetaphorFamily(library: MetaphorLibraryConfig, input: MetaphorFamilyInput, mode: EditMode): MetaphorLibraryConfig {
+  const next = clone(library);
+  const families = next.metaphor_families as Record<string, any>;
+  const existing = families[input.name];
+
+  if (mode === 'create' && existing) {
+    throw new MethodologyEditError(`Metaphor family "${input.name}" already exists`, 409);
+  }
+  if (mode === 'update' && !existing) {
+    throw new MethodologyEditError(`Metaphor family "${input.name}" not found`, 404);
+  }
+
+  const { name, recommended_for, ...family } = input;
+  families[name] = { ...(existing || {}), ...family };
+
+  if (recommended_for) {
+    const mappings = next.issue_to_metaphor_mapping as Record<string, { recommended: string[]; avoid: string[]; specific_images: unknown[] }>;
+    const wanted = new Set(recommended_for);
+    for (const [issue, mapping] of Object.entries(mappings)) {
+      // Lower-ranked recommendations are left as they are
+      if (!wanted.has(issue) && mapping.recommended[0] === name) {
+        mapping.recommended = mapping.recommended.slice(1);
+      }
+    }
+    for (const issue of Array.from(wanted)) {
+      const mapping = mappings[issue] || (mappings[issue] = { recommended: [], avoid: [], specific_images: [] });
+      mapping.recommended = [name, ...mapping.recommended.filter(family => family !== name)];
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Remove a metaphor family and drop it from the issue recommendations
+ */
+export function removeMetaphorFamily(library: MetaphorLibraryConfig, name: string): MetaphorLibraryConfig {
+  if (!(library.metaphor_families as Record<string, unknown>)[name]) {
+    throw new MethodologyEditError(`Metaphor family "${name}" not found`, 404);
+  }
+  if (name === 'nature_gentle') {
+    throw new MethodologyEditError('"nature_gentle" is the default family and can\'t be removed');
+  }
+
+  const next = clone(library);
+  delete (next.metaphor_families as Record<string, unknown>)[name];
+  for (const mapping of Object.values(next.issue_to_metaphor_mapping as Record<string, { recommended: string[] }>)) {
+    mapping.recommended = mapping.recommended.filter(family => family !== name);
+  }
+  return next;
+}
@@ -13,7 +13,7 @@
  * Used by: ScriptEngine (clinical), DREAM pipeline, and standalone generation
  */
 
-import egoConfig from './ego-config.json';
+import { methodologyConfig, type MethodologyConfigs } from '../methodology-config';
 
 export interface EgoModuleInput {
   // Context
@@ -62,10 +62,10 @@ export interface EgoQualityCheck {
 
 export class EgoModule {
   private version = '1.0.0';
-  private config: typeof egoConfig;
   
-  constructor() {
-    this.config = egoConfig;
+  // Read from the live methodology config on every call (hot-reloadable)
+  private get config(): MethodologyConfigs['ego-config'] {
+    return methodologyConfig.get('ego-config');
   }
   
   /**
@@ -560,9 +560,10 @@ export class EgoModule {
    * This is the single source of truth for ego strengthening validation
    */
   static validateDistribution(script: string): { passed: boolean; details: string } {
-    const keywords = egoConfig.quality_rules.distribution.keywords;
-    const maxPerParagraph = egoConfig.quality_rules.distribution.max_keywords_per_paragraph;
-    const maxTotal = egoConfig.quality_rules.distribution.max_total_keywords;
+    const { distribution } = methodologyConfig.get('ego-config').quality_rules;
+    const keywords = distribution.keywords;
+    const maxPerParagraph = distribution.max_keywords_per_paragraph;
+    const maxTotal = distribution.max_total_keywords;
     
     // Split into paragraphs
     const paragraphs = script
@@ -1,9 +1,9 @@
 /**
  * Narrative Arc Loader
- * Loads and exposes narrative arcs from JSON config for API and UI use
+ * Exposes narrative arcs from the live methodology config for API and UI use
  */
 
-import narrativeArcsConfig from './config/narrative-arcs.json';
+import { methodologyConfig } from './methodology-config';
 
 export interface NarrativeArc {
   id: string;
@@ -24,14 +24,14 @@ export interface ArcCategory {
  * Get all narrative arcs
  */
 export function getAllNarrativeArcs(): NarrativeArc[] {
-  return narrativeArcsConfig.arcs as NarrativeArc[];
+  return methodologyConfig.get('narrative-arcs').arcs as NarrativeArc[];
 }
 
 /**
  * Get narrative arc by ID
  */
 export function getNarrativeArcById(arcId: string): NarrativeArc | null {
-  const arcs = narrativeArcsConfig.arcs as NarrativeArc[];
+  const arcs = methodologyConfig.get('narrative-arcs').arcs as NarrativeArc[];
   return arcs.find(arc => arc.id === arcId) || null;
 }
 
@@ -39,7 +39,7 @@ export function getNarrativeArcById(arcId: string): NarrativeArc | null {
  * Get narrative arcs grouped by category for UI display
  */
 export function getNarrativeArcsByCategory(): ArcCategory[] {
-  const arcs = narrativeArcsConfig.arcs as NarrativeArc[];
+  const arcs = methodologyConfig.get('narrative-arcs').arcs as NarrativeArc[];
   
   // Group arcs by category
   const categoryMap = new Map<string, NarrativeArc[]>();
@@ -70,14 +70,15 @@ export function getNarrativeArcsByCategory(): ArcCategory[] {
  * Get clinical arcs only (excludes DREAM-specific arcs)
  */
 export function getClinicalArcs(): NarrativeArc[] {
-  const arcs = narrativeArcsConfig.arcs as NarrativeArc[];
+  const arcs = methodologyConfig.get('narrative-arcs').arcs as NarrativeArc[];
   return arcs.filter(arc => arc.category !== 'dream');
 }
 
 /**
- * Get DREAM arcs only
+ * Get DREAM arcs only (kept in `dream_arcs`, plus any older entries tagged dream in `arcs`)
  */
 export function getDreamArcs(): NarrativeArc[] {
-  const arcs = narrativeArcsConfig.arcs as NarrativeArc[];
-  return arcs.filter(arc => arc.category === 'dream');
+  const config = methodologyConfig.get('narrative-arcs');
+  const dreamArcs = (config.dream_arcs as unknown as NarrativeArc[]).map(arc => ({ ...arc, category: 'dream' }));
+  return [...dreamArcs, ...(config.arcs as NarrativeArc[]).filter(arc => arc.category === 'dream')];
 }
@@ -0,0 +1,180 @@
+/**
+ * PACING MODEL
+ * Estimates how long a script takes to read aloud, and turns a target duration
+ * ("a 20-minute session") into word budgets per phase and journey stage
+ *
+ * Spoken time per word depends on:
+ * - TTS speed (narration defaults to 0.6 for hypnosis)
+ * - Phase: the induction and deepening are read slower than the work phase
+ * - [slow] regions (voiced at the TTS chunker's slow factor)
+ * Pauses are added at sentence ends, ellipses and paragraph breaks (longer at slower speeds),
+ * plus the explicit [pause] and breathing cues of reader-script markup.
+ */
+
+import { parseReaderScript, DEFAULT_BREATH_SECONDS } from '@shared/reader-script';
+import type { ArcJourney, DurationEstimate, PhaseDuration, ScriptPhase, ScriptSegmentation, WordBudget } from '@shared/schema';
+import { phaseSegmenter, SCRIPT_PHASES, PHASE_SHARES } from './phase-segmenter';
+import { SLOW_SPEED_FACTOR } from '../tts-chunker';
+
+export type { DurationEstimate, PhaseDuration, WordBudget } from '@shared/schema';
+
+export interface PacingOptions {
+  speed?: number; // TTS speed (default: DEFAULT_TTS_SPEED)
+  emergenceType?: 'regular' | 'sleep';
+}
+
+export const DEFAULT_TTS_SPEED = 0.6;
+
+// Words per minute at TTS speed 1.0; with the phase paces and pauses, a 3000-word DREAM script reads in ~30 minutes at 0.6
+const BASE_WORDS_PER_MINUTE = 200;
+
+// Reading pace per phase (multiplies the words per minute)
+const PHASE_PACE: Record<ScriptPhase, number> = {
+  induction: 0.85,
+  deepening: 0.8,
+  work: 1,
+  emergence: 0.9,
+};
+const SLEEP_EMERGENCE_PACE = 0.75; // Drifting off is read slowest of all
+
+// Natural pauses at speed 1.0 (scaled up at slower speeds)
+const SENTENCE_PAUSE_SECONDS = 0.3;
+const ELLIPSIS_PAUSE_SECONDS = 1;
+const PARAGRAPH_PAUSE_SECONDS = 0.8;
+
+// Used to plan budgets: sentences average this many words
+const AVERAGE_SENTENCE_WORDS = 14;
+
+// Heading lines ("## Induction", "**Emergence**") aren't read aloud
+const HEADING_LINE = /^\s*(?:#+\s|\*\*[^*]+\*\*\s*:?\s*$)/;
+
+export class PacingModel {
+  /**
+   * Spoken duration of a script (plain prose or reader-script markup)
+   */
+  estimate(script: string, options: PacingOptions = {}): DurationEstimate {
+    const speed = options.speed ?? DEFAULT_TTS_SPEED;
+    const reader = parseReaderScript(script);
+    const hasSections = reader.blocks.some(block => block.section !== null);
+
+    // Without section markers, phases come from the segmenter, by word position
+    const segmentation = hasSections ? null : phaseSegmenter.segment(
+      reader.blocks
+        .flatMap(block => block.paragraphs.map(p => p.map(node => node.type === 'text' ? node.text : ' ').join('')))
+        .join('\n\n')
+    );
+
+    const phases = new Map<ScriptPhase, PhaseDuration>(SCRIPT_PHASES.map(phase => [phase, { phase, words: 0, seconds: 0 }]));
+    let wordIndex = 0;
+    let speechSeconds = 0;
+    let pauseSeconds = 0;
+    let currentPhase: ScriptPhase = 'induction';
+
+    const add = (phase: ScriptPhase, seconds: number, speech: boolean) => {
+      phases.get(phase)!.seconds += seconds;
+      if (speech) speechSeconds += seconds;
+      else pauseSeconds += seconds;
+    };
+
+    for (const block of reader.blocks) {
+      if (block.section) currentPhase = block.section === 'ego-cascade' ? 'work' : block.section;
+
+      for (const paragraph of block.paragraphs) {
+        for (const node of paragraph) {
+          if (node.type === 'pause') {
+            add(currentPhase, node.seconds, false);
+            continue;
+          }
+          if (node.type === 'breath') {
+            add(currentPhase, node.seconds ?? DEFAULT_BREATH_SECONDS, false);
+            continue;
+          }
+
+          for (const line of node.text.split('\n')) {
+            const words = line.split(/\s+/).filter(w => w.length > 0);
+            if (HEADING_LINE.test(line)) {
+              wordIndex += segmentation ? words.length : 0; // The segmenter counted them
+              continue;
+            }
+
+            for (const word of words) {
+              const phase = segmentation ? this.phaseAt(segmentation, wordIndex) : currentPhase;
+              currentPhase = phase;
+              const pace = this.pace(phase, options.emergenceType) * (node.style.slow ? SLOW_SPEED_FACTOR : 1);
+              add(phase, 60 / (BASE_WORDS_PER_MINUTE * speed * pace), true);
+              phases.get(phase)!.words++;
+              wordIndex++;
+
+              if (/(?:\.\.\.|…)["'”’)]*$/.test(word)) add(phase, ELLIPSIS_PAUSE_SECONDS / speed, false);
+              else if (/[.!?]["'”’)]*$/.test(word)) add(phase, SENTENCE_PAUSE_SECONDS / speed, false);
+            }
+          }
+        }
+        add(currentPhase, PARAGRAPH_PAUSE_SECONDS / speed, false);
+      }
+    }
+
+    const seconds = Math.round(speechSeconds) + Math.round(pauseSeconds);
+    return {
+      words: Array.from(phases.values()).reduce((sum, phase) => sum + phase.words, 0),
+      seconds,
+      minutes: Math.round(seconds / 6) / 10,
+      speechSeconds: Math.round(speechSeconds),
+      pauseSeconds: Math.round(pauseSeconds),
+      speed,
+      phases: Array.from(phases.values())
+        .filter(phase => phase.words > 0 || phase.seconds > 0)
+        .map(phase => ({ ...phase, seconds: Math.round(phase.seconds) })),
+    };
+  }
+
+  /**
+   * Words per phase (and per journey stage) that fill `targetMinutes` when read aloud
+   */
+  wordBudget(targetMinutes: number, options: PacingOptions & { journey?: ArcJourney } = {}): WordBudget {
+    const speed = options.speed ?? DEFAULT_TTS_SPEED;
+
+    // Expected seconds per word in each phase, including its share of sentence pauses
+    const secondsPerWord = (phase: ScriptPhase) =>
+      60 / (BASE_WORDS_PER_MINUTE * speed * this.pace(phase, options.emergenceType))
+      + SENTENCE_PAUSE_SECONDS / speed / AVERAGE_SENTENCE_WORDS;
+
+    const secondsPerScriptWord = SCRIPT_PHASES.reduce((sum, phase) => sum + PHASE_SHARES[phase] * secondsPerWord(phase), 0);
+    const totalWords = Math.round((targetMinutes * 60) / secondsPerScriptWord);
+
+    const phases = Object.fromEntries(
+      SCRIPT_PHASES.map(phase => [phase, Math.round(totalWords * PHASE_SHARES[phase])])
+    ) as Record<ScriptPhase, number>;
+
+    return {
+      targetMinutes,
+      speed,
+      totalWords,
+      phases,
+      stages: options.journey?.stages.map(stage => ({
+        arcId: stage.arcId,
+        weight: stage.weight,
+        words: Math.round((stage.weight / 100) * totalWords),
+      })),
+    };
+  }
+
+  private pace(phase: ScriptPhase, emergenceType?: 'regular' | 'sleep'): number {
+    return phase === 'emergence' && emergenceType === 'sleep' ? SLEEP_EMERGENCE_PACE : PHASE_PACE[phase];
+  }
+
+  private phaseAt(segmentation: ScriptSegmentation, wordIndex: number): ScriptPhase {
+    const segment = segmentation.segments.find(s => wordIndex >= s.wordStart && wordIndex < s.wordStart + s.wordCount);
+    return segment?.phase ?? segmentation.segments[segmentation.segments.length - 1]?.phase ?? 'induction';
+  }
+}
+
+/**
+ * "20.4 min at 0.6x (induction 4.1, deepening 3.2, work 9.6, emergence 3.5)"
+ */
+export function formatDuration(estimate: DurationEstimate): string {
+  return `${estimate.minutes} min at ${estimate.speed}x (`
+    + estimate.phases.map(p => `${p.phase} ${(p.seconds / 60).toFixed(1)}`).join(', ') + ')';
+}
+
+export const pacingModel = new PacingModel();
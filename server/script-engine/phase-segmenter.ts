@@ -0,0 +1,266 @@
+/**
+ * PHASE SEGMENTER
+ * Finds where each phase of a generated script (induction, deepening, work, emergence) begins,
+ * so quality checks can be scored against the part of the script they are about
+ *
+ * Heuristics first, in order of confidence:
+ * 1. Phase headings in the script ("## Induction", "**Emergence**")
+ * 2. Transition cues: deepening language ("deeper", "with each step down"), the start of the
+ *    metaphor/suggestion work ("imagine", "a part of you"), and the return ("in a moment",
+ *    "open your eyes", "drift into sleep") near the end
+ * 3. Position (typical share of the script per phase) for any boundary the cues don't find
+ *
+ * `segmentWithAssist` asks the LLM for the boundaries when the heuristics are unsure, and
+ * keeps the heuristic result if the call fails or the answer doesn't make sense.
+ */
+
+import { llmProvider } from '../llm-provider';
+import type { ScriptPhase, PhaseSpan, ScriptPhaseSegment, ScriptSegmentation, PhaseSegmentationSource } from '@shared/schema';
+
+export type { ScriptPhase, PhaseSpan, ScriptPhaseSegment, ScriptSegmentation, PhaseSegmentationSource } from '@shared/schema';
+
+export const SCRIPT_PHASES: readonly ScriptPhase[] = ['induction', 'deepening', 'work', 'emergence'];
+
+// Share of the script (in words) each phase typically takes
+export const PHASE_SHARES: Record<ScriptPhase, number> = {
+  induction: 0.2,
+  deepening: 0.15,
+  work: 0.5,
+  emergence: 0.15,
+};
+
+// Confidence per boundary source; below LLM_ASSIST_THRESHOLD the LLM is asked (when enabled)
+const CONFIDENCE = { headings: 0.95, llm: 0.8, cues: 0.7, estimated: 0.3 };
+const LLM_ASSIST_THRESHOLD = 0.5;
+
+const PHASE_HEADINGS: Array<[RegExp, ScriptPhase]> = [
+  [/\binduction\b/i, 'induction'],
+  [/\bdeepen(?:ing|er)?\b/i, 'deepening'],
+  [/\b(?:work|therapeutic|suggestions?|transformation|core|metaphor journey)\b/i, 'work'],
+  [/\b(?:emergence|awakening|re-?alerting|return(?:ing)?|sleep (?:transition|close))\b/i, 'emergence'],
+];
+
+// Where each later phase tends to begin, and the window (share of sentences) it is searched in
+const PHASE_CUES: Record<Exclude<ScriptPhase, 'induction'>, { pattern: RegExp; from: number; to: number }> = {
+  deepening: {
+    pattern: /\b(?:deeper|deepening|deepen|twice as|down(?:ward)?|descend(?:ing)?|staircase|steps? down|sinking|count(?:ing)? down|with each (?:breath|step|number))\b/i,
+    from: 0.05,
+    to: 0.5,
+  },
+  work: {
+    pattern: /\b(?:imagine|picture|there'?s a (?:place|part|path|garden)|a part of you|your (?:subconscious|unconscious|inner) mind|from this moment|each day|every day|going forward|you are becoming|new (?:way|pattern|habit|story)|you find yourself (?:in|on|at|near|beside))\b/i,
+    from: 0.15,
+    to: 0.8,
+  },
+  emergence: {
+    pattern: /\b(?:in a (?:moment|few moments)|coming back|come back|return(?:ing)? (?:to|now|here)|bring(?:ing)? (?:yourself|your awareness) back|awaken(?:ing)?|wide awake|fully alert|open your eyes|count(?:ing)? (?:up|from one)|drift(?:ing)? (?:off )?(?:into|to(?:ward)?) (?:a )?(?:deep |peaceful |restful )?sleep|let sleep)\b/i,
+    from: 0.6,
+    to: 1,
+  },
+};
+
+// Heading lines ("## Induction", "**Emergence**", "[PAUSE]") aren't sentences
+const HEADING_LINES = /^(?:[ \t]*(?:#+[^\n]*|\*\*[^\n]*\*\*|\[[^\n]*\])[ \t:]*(?:\n|$))+/;
+
+/**
+ * Split a script into sentences with their offsets. Paragraph breaks end a sentence;
+ * an ellipsis only does when a capital follows (scripts use "..." for pauses mid-sentence).
+ */
+export function splitSentences(script: string): Array<{ start: number; end: number; text: string }> {
+  const sentences: Array<{ start: number; end: number; text: string }> = [];
+  const boundary = /(?:[.!?]+["'”’)]*(?=\s+["'“‘(]?[A-Z0-9])|\n\s*\n|\n(?=\s*[#*\[]))/g;
+  let start = 0;
+  const push = (end: number) => {
+    const raw = script.slice(start, end).replace(HEADING_LINES, match => ' '.repeat(match.length));
+    const text = raw.trim();
+    if (text && /[a-z]/i.test(text)) {
+      const offset = start + raw.indexOf(text);
+      sentences.push({ start: offset, end: offset + text.length, text });
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(script)) !== null) {
+    const end = match.index + match[0].length;
+    push(end);
+    start = end;
+  }
+  push(script.length);
+  return sentences;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => w.length > 0).length;
+}
+
+/**
+ * Text of every span of `phase`, joined (empty when the phase wasn't found)
+ */
+export function phaseText(script: string, segmentation: ScriptSegmentation, phase: ScriptPhase): string {
+  return segmentation.segments
+    .filter(segment => segment.phase === phase && segment.end > segment.start)
+    .map(segment => script.slice(segment.start, segment.end).trim())
+    .join('\n\n');
+}
+
+export class PhaseSegmenter {
+  /**
+   * Heuristic segmentation: headings, then cues, then position
+   */
+  segment(script: string): ScriptSegmentation {
+    return this.fromHeadings(script) ?? this.fromCues(script);
+  }
+
+  /**
+   * Heuristic segmentation, with the LLM asked for the boundaries when any of them is a guess
+   */
+  async segmentWithAssist(script: string, options: { useLlm?: boolean } = {}): Promise<ScriptSegmentation> {
+    const heuristic = this.segment(script);
+    const unsure = heuristic.segments.some(segment => segment.confidence < LLM_ASSIST_THRESHOLD);
+    if (!options.useLlm || !unsure) return heuristic;
+
+    try {
+      const assisted = await this.fromLlm(script);
+      if (assisted) {
+        console.log('[PHASE SEGMENTER] Boundaries from LLM assist');
+        return assisted;
+      }
+      console.warn('[PHASE SEGMENTER] LLM boundaries were unusable, keeping heuristic segmentation');
+    } catch (error: any) {
+      console.error('[PHASE SEGMENTER] LLM assist failed:', error.message);
+    }
+    return heuristic;
+  }
+
+  private fromHeadings(script: string): ScriptSegmentation | null {
+    const headings: Array<{ phase: ScriptPhase; start: number }> = [];
+    const line = /^[ \t]*(?:#+[ \t]*|\*\*|\[)?([^\n]{1,60}?)(?:\*\*|\])?[ \t:]*$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = line.exec(script)) !== null) {
+      const text = match[1];
+      // Headings are short and don't read as sentences
+      if (/[.!?,]/.test(text) || text.split(/\s+/).length > 6) continue;
+      const heading = PHASE_HEADINGS.find(([pattern]) => pattern.test(text));
+      if (heading && headings[headings.length - 1]?.phase !== heading[1]) {
+        headings.push({ phase: heading[1], start: match.index });
+      }
+    }
+    if (headings.length < 2) return null;
+
+    headings[0].start = 0;
+    const boundaries = headings.map((heading, i) => ({
+      phase: heading.phase,
+      start: heading.start,
+      end: headings[i + 1]?.start ?? script.length,
+      confidence: CONFIDENCE.headings,
+    }));
+    return this.build(script, 'headings', boundaries);
+  }
+
+  // Cue-based boundaries, with positional estimates for whatever the cues don't find
+  private fromCues(script: string): ScriptSegmentation {
+    const sentences = splitSentences(script);
+    const starts: Array<{ phase: ScriptPhase; sentence: number; confidence: number }> = [
+      { phase: 'induction', sentence: 0, confidence: CONFIDENCE.cues },
+    ];
+
+    let cumulative = 0;
+    let previous = 0;
+    for (const phase of SCRIPT_PHASES.slice(1) as Array<keyof typeof PHASE_CUES>) {
+      cumulative += PHASE_SHARES[SCRIPT_PHASES[SCRIPT_PHASES.indexOf(phase) - 1]];
+      const cue = PHASE_CUES[phase];
+      const from = Math.max(previous + 1, Math.floor(sentences.length * cue.from));
+      const to = Math.ceil(sentences.length * cue.to);
+
+      let found = -1;
+      for (let i = from; i < Math.min(to, sentences.length); i++) {
+        if (cue.pattern.test(sentences[i].text)) {
+          found = i;
+          break;
+        }
+      }
+
+      const sentence = found !== -1 ? found : Math.max(previous + 1, Math.round(sentences.length * cumulative));
+      starts.push({ phase, sentence, confidence: found !== -1 ? CONFIDENCE.cues : CONFIDENCE.estimated });
+      previous = sentence;
+    }
+
+    // The induction always starts at the top; how sure we are about it is how sure we are about its end
+    starts[0].confidence = starts[1].confidence;
+
+    // A script too short for four phases leaves the later phases empty
+    const offsetOf = (sentence: number) => sentence >= sentences.length ? script.length : sentences[sentence].start;
+    const boundaries = starts.map((start, i) => ({
+      phase: start.phase,
+      start: i === 0 ? 0 : offsetOf(start.sentence),
+      end: i === starts.length - 1 ? script.length : offsetOf(starts[i + 1].sentence),
+      confidence: start.confidence,
+    }));
+
+    const source: PhaseSegmentationSource = starts.slice(1).some(start => start.confidence === CONFIDENCE.cues) ? 'cues' : 'estimated';
+    return this.build(script, source, boundaries);
+  }
+
+  // Ask for the first sentence of each phase; null when the answer isn't four increasing indexes
+  private async fromLlm(script: string): Promise<ScriptSegmentation | null> {
+    const sentences = splitSentences(script);
+    if (sentences.length < SCRIPT_PHASES.length) return null;
+
+    const numbered = sentences.map((sentence, i) => `[${i}] ${sentence.text.substring(0, 120)}`).join('\n');
+    const responseText = await llmProvider.complete({
+      task: 'phase-segmentation',
+      system: 'You segment hypnosis scripts into their phases: induction, deepening, work (metaphor and suggestions), emergence.',
+      prompt: `Here is a hypnosis script, one numbered sentence per line:
+${numbered}
+
+Return the number of the sentence where each phase begins, as JSON:
+{ "induction": 0, "deepening": <n>, "work": <n>, "emergence": <n> }`,
+      maxTokens: 200,
+      temperature: 0,
+    });
+
+    const json = responseText.match(/\{[\s\S]*\}/)?.[0];
+    if (!json) return null;
+    const answer = JSON.parse(json) as Partial<Record<ScriptPhase, number>>;
+    const starts = SCRIPT_PHASES.map(phase => answer[phase]);
+    const valid = starts.every((start, i) =>
+      Number.isInteger(start) && start! >= 0 && start! < sentences.length && (i === 0 || start! > starts[i - 1]!)
+    );
+    if (!valid) return null;
+
+    const boundaries = SCRIPT_PHASES.map((phase, i) => ({
+      phase,
+      start: i === 0 ? 0 : sentences[starts[i]!].start,
+      end: i === SCRIPT_PHASES.length - 1 ? script.length : sentences[starts[i + 1]!].start,
+      confidence: CONFIDENCE.llm,
+    }));
+    return this.build(script, 'llm', boundaries);
+  }
+
+  private build(
+    script: string,
+    source: PhaseSegmentationSource,
+    boundaries: Array<PhaseSpan & { confidence: number }>
+  ): ScriptSegmentation {
+    return {
+      source,
+      wordCount: countWords(script),
+      segments: boundaries.map(boundary => ({
+        ...boundary,
+        wordStart: countWords(script.slice(0, boundary.start)),
+        wordCount: countWords(script.slice(boundary.start, boundary.end)),
+      })),
+    };
+  }
+}
+
+/**
+ * "induction 0-212w, deepening 212-380w, work 380-1140w, emergence 1140-1400w (cues)"
+ */
+export function formatSegmentation(segmentation: ScriptSegmentation): string {
+  return segmentation.segments
+    .map(s => `${s.phase} ${s.wordStart}-${s.wordStart + s.wordCount}w`)
+    .join(', ') + ` (${segmentation.source})`;
+}
+
+export const phaseSegmenter = new PhaseSegmenter();
@@ -4,8 +4,7 @@
  * Ensures every generated script follows the methodology
  */
 
-import principlesConfig from './config/principles.json';
-import languageMastery from './config/language-mastery.json';
+import { methodologyConfig } from './methodology-config';
 
 export interface PrincipleDirectives {
   systemPrompt: string;
@@ -22,11 +21,9 @@ export interface EnforcerInput {
 }
 
 export class PrincipleEnforcer {
-  private principles: any[];
-
-  constructor() {
+  private get principles(): any[] {
     // Filter out inherent-wholeness principle (now handled by EgoModule)
-    this.principles = principlesConfig.principles.filter(
+    return methodologyConfig.get('principles').principles.filter(
       p => p.id !== 'inherent-wholeness'
     );
   }
@@ -94,6 +91,7 @@ Remember: The client is whole, not broken. Your role is to remind them of what t
    * Build language mastery rules from secret sauce
    */
   private buildLanguageMasteryRules(): string {
+    const languageMastery = methodologyConfig.get('language-mastery');
     const tonalBalance = `## LANGUAGE MASTERY RULES (Critical for Medicinal Quality)
 
 ### Tonal Balance: Direct Commands vs. Soft Invitations
@@ -7,16 +7,13 @@
  * Stage 3: Polish (refine language and principles)
  * 
  * Each stage enforces IP principles and builds on previous stage.
+ * With readerMarkup, polish also emits reader cues (pauses, breaths, sections) -
+ * see shared/reader-script.ts.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { llmProvider } from '../llm-provider';
 import type { ScriptEngineOutput } from './index';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-const DEFAULT_MODEL = "claude-sonnet-4-20250514";
+import { READER_MARKUP_GUIDE, parseReaderScript, renderPlainText } from '@shared/reader-script';
 
 export interface OrchestrationInput {
   engineOutput: ScriptEngineOutput;
@@ -25,12 +22,14 @@ export interface OrchestrationInput {
   dimensionPrompt: string; // From DimensionAssembler
   targetWordCount?: number;
   emergenceType?: 'regular' | 'sleep'; // How to bring them out
+  readerMarkup?: boolean; // Polish emits reader-script cues
 }
 
 export interface OrchestrationResult {
   outline: string;
   draft: string;
-  final: string;
+  final: string; // Plain prose (cues stripped)
+  readerScript?: string; // Polished script with reader cues, when readerMarkup was requested
   stageReasoningLogs: {
     outline: string[];
     draft: string[];
@@ -62,13 +61,24 @@ export class PromptOrchestrator {
 
     // Stage 3: Polish Draft
     stageReasoningLogs.polish.push('=== STAGE 3: POLISH ===');
-    const final = await this.polishDraft(input, draft);
+    const polished = await this.polishDraft(input, draft);
     stageReasoningLogs.polish.push('Final script polished for principles and flow');
 
+    if (input.readerMarkup) {
+      stageReasoningLogs.polish.push('Reader cues added (pauses, breathing, sections)');
+      return {
+        outline,
+        draft,
+        final: renderPlainText(parseReaderScript(polished)),
+        readerScript: polished,
+        stageReasoningLogs
+      };
+    }
+
     return {
       outline,
       draft,
-      final,
+      final: polished,
       stageReasoningLogs
     };
   }
@@ -115,19 +125,12 @@ TASK: Create a STRUCTURAL OUTLINE (not full script) with 4 phases:
 
 Output the outline as clear, structured bullet points. This is architectural planning, not script writing.`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL,
-      max_tokens: 1500,
+    return llmProvider.complete({
+      task: 'outline',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
+      prompt: userPrompt,
+      maxTokens: 1500
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response');
-    }
-
-    return textContent.text;
   }
 
   /**
@@ -167,19 +170,12 @@ Requirements:
 
 Write the full script now. No JSON, just the script text.`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL,
-      max_tokens: 4000,
+    return llmProvider.complete({
+      task: 'draft',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
+      prompt: userPrompt,
+      maxTokens: 4000
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response');
-    }
-
-    return textContent.text;
   }
 
   /**
@@ -219,21 +215,14 @@ CRITICAL TONAL BALANCE CHECK:
 - Eliminate clichés and em dashes
 - Ensure varied sentence length for trance modulation
 
-Output the POLISHED FINAL SCRIPT. Preserve the draft's flow but refine for principles AND language mastery.`;
+${input.readerMarkup ? `\n${READER_MARKUP_GUIDE}\n\n` : ''}Output the POLISHED FINAL SCRIPT. Preserve the draft's flow but refine for principles AND language mastery.`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL,
-      max_tokens: 4000,
+    return llmProvider.complete({
+      task: 'polish',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
+      prompt: userPrompt,
+      maxTokens: 4000
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response');
-    }
-
-    return textContent.text;
   }
 
   /**
@@ -271,19 +260,12 @@ Requirements:
 
 Write the script now. No JSON, just the script text.`;
 
-    const response = await anthropic.messages.create({
-      model: DEFAULT_MODEL,
-      max_tokens: 4000,
+    return llmProvider.complete({
+      task: 'single-stage',
       system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }]
+      prompt: userPrompt,
+      maxTokens: 4000
     });
-
-    const textContent = response.content[0];
-    if (textContent.type !== 'text') {
-      throw new Error('Expected text response');
-    }
-
-    return textContent.text;
   }
 }
 
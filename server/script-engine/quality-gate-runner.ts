@@ -0,0 +1,347 @@
+/**
+ * QUALITY GATE RUNNER
+ * Evaluates every `quality_gates` entry declared in principles.json against a finished script
+ *
+ * Each gate's `method` picks the evaluator:
+ * - regex: `pattern` matches (optionally within the first `max_word_position` words) >= `min_matches`
+ * - keyword / pattern_check / keyword_exclusion: counts of `keywords`, `require_patterns`
+ *   or `forbidden_phrases` against their minimum / maximum
+ * - linguistic_analysis: permissive sentences / (permissive + direct command sentences) >= `min_ratio`
+ * - sentence_analysis / statistical: average sentence length in a section of the script, and
+ *   sentence length variance
+ * - distribution_check: `pattern` occurs in each of the `require_in_sections` thirds
+ * - semantic_analysis / semantic_check: LLM judge (one call for all of them); skipped when the
+ *   judge is off or its answer is unusable
+ *
+ * Gates are read from the live methodology config, so edits in the admin apply on the next run.
+ * A failed gate carries its principle's `fix` instruction for the micro-polish, and `locate`
+ * points span repairs at the sentences a failed deterministic gate is about.
+ */
+
+import { methodologyConfig } from './methodology-config';
+import { splitSentences } from './phase-segmenter';
+import { languagePatternDetector } from './language-patterns';
+import { llmProvider, cleanJsonResponse } from '../llm-provider';
+
+export interface QualityGate {
+  gate: string;
+  check: string;
+  method: string;
+  fix?: string;
+  pattern?: string;
+  min_matches?: number;
+  max_matches?: number;
+  max_word_position?: number;
+  keywords?: string[];
+  forbidden_phrases?: string[];
+  require_patterns?: string[];
+  min_occurrences?: number;
+  count_permission_words?: string[];
+  min_ratio?: number;
+  section?: string;
+  target_avg_length?: number[]; // [min, max]
+  require_variance?: boolean;
+  require_in_sections?: string[];
+  min_occurrences_per_section?: number;
+  [key: string]: unknown;
+}
+
+export type GateStatus = 'passed' | 'failed' | 'skipped';
+
+export interface GateResult {
+  gate: string;
+  principleId: string;
+  principleName: string;
+  check: string;
+  method: string;
+  status: GateStatus;
+  details: string;
+  fix: string; // What the micro-polish should do when the gate fails
+}
+
+export interface GateRunOptions {
+  useLlmJudge?: boolean; // Evaluate semantic gates with the LLM (default: true)
+}
+
+const LLM_JUDGE_METHODS = ['semantic_analysis', 'semantic_check'];
+
+// Share of the script (by words) each named section covers
+const SECTION_RANGES: Record<string, [number, number]> = {
+  beginning_third: [0, 1 / 3],
+  middle_third: [1 / 3, 2 / 3],
+  final_third: [2 / 3, 1],
+  middle_section: [0.2, 0.85], // Where the core work usually sits
+};
+const FIRST_WORDS_SECTION = /^first_(\d+)_words$/;
+
+// Sentence lengths must spread at least this much (standard deviation, in words)
+const MIN_SENTENCE_LENGTH_STDEV = 3;
+
+type Evaluation = { passed: boolean; details: string } | { skipped: string };
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countPhrase(text: string, phrase: string): number {
+  return (text.match(new RegExp(`\\b${escapeRegex(phrase)}\\b`, 'gi')) || []).length;
+}
+
+function words(text: string): string[] {
+  return text.split(/\s+/).filter(w => w.length > 0);
+}
+
+export class QualityGateRunner {
+  private get principles(): Array<{ id: string; name: string; rule: string; quality_gates: QualityGate[] }> {
+    return methodologyConfig.get('principles').principles;
+  }
+
+  /**
+   * Evaluate every declared gate of every principle
+   */
+  async run(script: string, options: GateRunOptions = {}): Promise<GateResult[]> {
+    const results: GateResult[] = [];
+    const judged: Array<{ result: GateResult; gate: QualityGate }> = [];
+
+    for (const principle of this.principles) {
+      for (const gate of principle.quality_gates || []) {
+        const result: GateResult = {
+          gate: gate.gate,
+          principleId: principle.id,
+          principleName: principle.name,
+          check: gate.check,
+          method: gate.method,
+          status: 'skipped',
+          details: '',
+          fix: gate.fix || `${principle.name}: ${principle.rule}`,
+        };
+        results.push(result);
+
+        if (LLM_JUDGE_METHODS.includes(gate.method)) {
+          judged.push({ result, gate });
+          continue;
+        }
+
+        const evaluation = this.evaluate(script, gate);
+        if ('skipped' in evaluation) {
+          result.details = evaluation.skipped;
+        } else {
+          result.status = evaluation.passed ? 'passed' : 'failed';
+          result.details = evaluation.details;
+        }
+      }
+    }
+
+    if (judged.length > 0) {
+      if (options.useLlmJudge === false) {
+        judged.forEach(({ result }) => { result.details = 'LLM judge disabled'; });
+      } else {
+        await this.judge(script, judged);
+      }
+    }
+
+    const passed = results.filter(r => r.status === 'passed').length;
+    const failed = results.filter(r => r.status === 'failed').map(r => r.gate);
+    console.log(`[QUALITY GATES] ${passed}/${results.length} gates passed${failed.length ? `, failed: ${failed.join(', ')}` : ''}`);
+    return results;
+  }
+
+  /**
+   * Deterministic evaluators, by gate method
+   */
+  evaluate(script: string, gate: QualityGate): Evaluation {
+    switch (gate.method) {
+      case 'regex': {
+        if (!gate.pattern) return { skipped: 'No pattern declared' };
+        const text = gate.max_word_position ? words(script).slice(0, gate.max_word_position).join(' ') : script;
+        const count = (text.match(new RegExp(gate.pattern, 'gi')) || []).length;
+        const min = gate.min_matches ?? 1;
+        const where = gate.max_word_position ? ` in the first ${gate.max_word_position} words` : '';
+        return { passed: count >= min, details: `${count} matches${where} (minimum: ${min})` };
+      }
+
+      case 'keyword':
+      case 'pattern_check': {
+        const phrases = gate.keywords || gate.require_patterns || [];
+        const min = gate.min_matches ?? gate.min_occurrences ?? 1;
+        const found = phrases.filter(phrase => countPhrase(script, phrase) > 0);
+        const count = phrases.reduce((sum, phrase) => sum + countPhrase(script, phrase), 0);
+        return {
+          passed: count >= min,
+          details: `${count} occurrences (minimum: ${min})${found.length ? `: ${found.join(', ')}` : ''}`,
+        };
+      }
+
+      case 'keyword_exclusion': {
+        const max = gate.max_matches ?? 0;
+        const found = (gate.forbidden_phrases || []).filter(phrase => countPhrase(script, phrase) > 0);
+        const count = (gate.forbidden_phrases || []).reduce((sum, phrase) => sum + countPhrase(script, phrase), 0);
+        return {
+          passed: count <= max,
+          details: count === 0 ? 'None found' : `${count} found (maximum: ${max}): ${found.join(', ')}`,
+        };
+      }
+
+      case 'linguistic_analysis': {
+        const permissionWords = gate.count_permission_words || [];
+        let permissive = 0;
+        let commands = 0;
+        for (const sentence of splitSentences(script)) {
+          if (permissionWords.some(word => countPhrase(sentence.text, word) > 0)) {
+            permissive++;
+          } else if (languagePatternDetector.tagSentence(sentence.text).some(tag => tag.pattern === 'direct_command')) {
+            commands++;
+          }
+        }
+        if (permissive + commands === 0) return { skipped: 'No permissive or directive sentences to compare' };
+        const ratio = permissive / (permissive + commands);
+        const min = gate.min_ratio ?? 0.5;
+        return {
+          passed: ratio >= min,
+          details: `${Math.round(ratio * 100)}% permissive (${permissive} permissive, ${commands} directive; minimum: ${Math.round(min * 100)}%)`,
+        };
+      }
+
+      case 'sentence_analysis': {
+        if (!gate.section || !gate.target_avg_length) return { skipped: 'No section or target length declared' };
+        const lengths = this.sentenceLengthsIn(script, gate.section);
+        if (lengths === null) return { skipped: `Unknown section "${gate.section}"` };
+        if (lengths.length === 0) return { skipped: `No sentences in ${gate.section}` };
+        const average = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+        const [min, max] = gate.target_avg_length;
+        return {
+          passed: average >= min && average <= max,
+          details: `Average ${average.toFixed(1)} words per sentence in ${gate.section} (target: ${min}-${max})`,
+        };
+      }
+
+      case 'statistical': {
+        if (!gate.require_variance) return { skipped: 'Nothing to measure' };
+        const lengths = splitSentences(script).map(sentence => words(sentence.text).length);
+        if (lengths.length < 2) return { skipped: 'Not enough sentences' };
+        const mean = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+        const stdev = Math.sqrt(lengths.reduce((sum, length) => sum + (length - mean) ** 2, 0) / lengths.length);
+        return {
+          passed: stdev >= MIN_SENTENCE_LENGTH_STDEV,
+          details: `Sentence length varies by ${stdev.toFixed(1)} words (minimum: ${MIN_SENTENCE_LENGTH_STDEV})`,
+        };
+      }
+
+      case 'distribution_check': {
+        if (!gate.pattern || !gate.require_in_sections) return { skipped: 'No pattern or sections declared' };
+        const min = gate.min_occurrences_per_section ?? 1;
+        const all = words(script);
+        const missing: string[] = [];
+        const counts = gate.require_in_sections.map(section => {
+          const range = SECTION_RANGES[section];
+          if (!range) return `${section} ?`;
+          const text = all.slice(Math.floor(all.length * range[0]), Math.ceil(all.length * range[1])).join(' ');
+          const count = (text.match(new RegExp(gate.pattern!, 'gi')) || []).length;
+          if (count < min) missing.push(section);
+          return `${section} ${count}`;
+        });
+        return {
+          passed: missing.length === 0,
+          details: missing.length === 0 ? `Found in every section (${counts.join(', ')})` : `Missing from ${missing.join(', ')} (${counts.join(', ')})`,
+        };
+      }
+
+      default:
+        return { skipped: `Unknown gate method "${gate.method}"` };
+    }
+  }
+
+  /**
+   * Sentences a failed gate is about, for span repair; null when the gate can't be pinned to
+   * sentences (counts over the whole script, semantic gates)
+   */
+  locate(script: string, gateId: string): Array<{ start: number; end: number }> | null {
+    const gate = this.principles.flatMap(principle => principle.quality_gates || []).find(g => g.gate === gateId);
+    if (!gate) return null;
+
+    switch (gate.method) {
+      case 'regex':
+        // Only an early-position gate points at a place in the script
+        return gate.max_word_position ? this.sentencesIn(script, `first_${gate.max_word_position}_words`) : null;
+
+      case 'keyword_exclusion':
+        return splitSentences(script).filter(sentence =>
+          (gate.forbidden_phrases || []).some(phrase => countPhrase(sentence.text, phrase) > 0)
+        );
+
+      case 'linguistic_analysis':
+        return splitSentences(script).filter(sentence =>
+          !(gate.count_permission_words || []).some(word => countPhrase(sentence.text, word) > 0) &&
+          languagePatternDetector.tagSentence(sentence.text).some(tag => tag.pattern === 'direct_command')
+        );
+
+      case 'sentence_analysis':
+        return gate.section ? this.sentencesIn(script, gate.section) : null;
+
+      default:
+        return null;
+    }
+  }
+
+  // Word lengths of the sentences that start inside a named section; null for an unknown section
+  private sentenceLengthsIn(script: string, section: string): number[] | null {
+    return this.sentencesIn(script, section)?.map(sentence => words(sentence.text).length) ?? null;
+  }
+
+  private sentencesIn(script: string, section: string): Array<{ start: number; end: number; text: string }> | null {
+    const totalWords = words(script).length;
+    const firstWords = FIRST_WORDS_SECTION.exec(section);
+    const range: [number, number] | undefined = firstWords
+      ? [0, Number(firstWords[1])]
+      : SECTION_RANGES[section] && [SECTION_RANGES[section][0] * totalWords, SECTION_RANGES[section][1] * totalWords];
+    if (!range) return null;
+
+    return splitSentences(script).filter(sentence => {
+      const wordStart = words(script.slice(0, sentence.start)).length;
+      return wordStart >= range[0] && wordStart < range[1];
+    });
+  }
+
+  // One LLM call for every semantic gate; unanswered gates stay skipped
+  private async judge(script: string, judged: Array<{ result: GateResult; gate: QualityGate }>): Promise<void> {
+    const criteria = judged.map(({ gate }) => {
+      const { gate: id, check, method, fix, ...rest } = gate;
+      return `- ${id}: ${check}\n  Criteria: ${JSON.stringify(rest)}`;
+    }).join('\n');
+
+    try {
+      const responseText = await llmProvider.complete({
+        task: 'quality-gate-judge',
+        system: 'You review hypnosis scripts against methodology quality gates. Judge strictly and briefly.',
+        prompt: `Script:
+${script}
+
+Evaluate the script against each gate:
+${criteria}
+
+Return as JSON:
+{
+  "results": [{ "gate": "<gate id>", "passed": true, "details": "One sentence explaining the verdict" }]
+}`,
+        maxTokens: 1000,
+        temperature: 0,
+      });
+
+      const answer = JSON.parse(cleanJsonResponse(responseText)) as { results?: Array<{ gate: string; passed: boolean; details?: string }> };
+      for (const { result } of judged) {
+        const verdict = answer.results?.find(r => r.gate === result.gate);
+        if (verdict && typeof verdict.passed === 'boolean') {
+          result.status = verdict.passed ? 'passed' : 'failed';
+          result.details = verdict.details || (verdict.passed ? 'Passed (LLM judge)' : 'Failed (LLM judge)');
+        } else {
+          result.details = 'No verdict from LLM judge';
+        }
+      }
+    } catch (error: any) {
+      console.error('[QUALITY GATES] LLM judge failed:', error.message);
+      judged.forEach(({ result }) => { result.details = `LLM judge failed: ${error.message}`; });
+    }
+  }
+}
+
+export const qualityGateRunner = new QualityGateRunner();
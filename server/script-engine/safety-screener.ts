@@ -0,0 +1,185 @@
+/**
+ * SAFETY SCREENER
+ * Clinical contraindication screening of the client context before a script is planned
+ *
+ * - allowed: nothing in the presenting issue, outcome or notes needs special handling
+ * - allowed_with_modifications: the script can be written but must follow extra directives
+ *   (e.g. no breath work for asthma) and/or avoid metaphor families whose `avoid_for` issues
+ *   match the client (water imagery for drowning fears)
+ * - refer_out: active suicidality, self-harm or psychosis; no script is generated and the
+ *   referral message is shown instead
+ *
+ * Rules live in `config/safety-rules.json` and match whole phrases, so clinical language such as
+ * "blood pressure" or "kill the craving" isn't caught the way a fixed regex list would.
+ * A modification phrase right after a negation cue in the same clause ("no asthma", "denies
+ * epilepsy") doesn't count. Refer-out phrases always count, negated or not: when in doubt, refer.
+ */
+
+import safetyRules from './config/safety-rules.json';
+import { issueClassifier, tokenize, findSequence } from './issue-classifier';
+import { methodologyConfig, type MethodologyConfigs } from './methodology-config';
+import type { SafetyDecision, SafetyReason, SafetyScreeningResult } from '@shared/schema';
+
+export type { SafetyDecision, SafetyReason, SafetyModifications, SafetyScreeningResult } from '@shared/schema';
+
+export interface SafetyRules {
+  referral_message: string;
+  negation_cues: string[];
+  negation_window: number;
+  metaphor_avoid_threshold: number;
+  refer_out: Array<{ code: string; message: string; phrases: string[] }>;
+  modifications: Array<{
+    code: string;
+    message: string;
+    phrases: string[];
+    directives: string[];
+    avoid_metaphor_families: string[];
+  }>;
+}
+
+export interface SafetyScreeningInput {
+  presentingIssue: string;
+  desiredOutcome?: string;
+  clientNotes?: string;
+}
+
+/**
+ * Thrown when generation is attempted for a refer-out screening
+ */
+export class SafetyReferralError extends Error {
+  constructor(public result: SafetyScreeningResult) {
+    super(result.referralMessage || 'This request needs a referral to a licensed professional');
+    this.name = 'SafetyReferralError';
+  }
+}
+
+const SCREENED_FIELDS: Array<keyof SafetyScreeningInput> = ['presentingIssue', 'desiredOutcome', 'clientNotes'];
+
+// A negation cue only governs phrases in its own clause ("I don't care, I want to die")
+const CLAUSE_BREAK = /[,.;:!?]+/;
+
+interface CompiledRule {
+  code: string;
+  message: string;
+  phrases: Array<{ text: string; tokens: string[] }>;
+}
+
+function compile(rule: { code: string; message: string; phrases: string[] }): CompiledRule {
+  return {
+    code: rule.code,
+    message: rule.message,
+    phrases: rule.phrases
+      .map(text => ({ text, tokens: tokenize(text) }))
+      .filter(phrase => phrase.tokens.length > 0),
+  };
+}
+
+// First phrase of the rule that occurs anywhere in the text
+function findPhrase(tokens: string[], rule: CompiledRule): string | null {
+  return rule.phrases.find(phrase => findSequence(tokens, phrase.tokens) !== -1)?.text ?? null;
+}
+
+export class SafetyScreener {
+  private referOut: CompiledRule[];
+  private modificationRules: Array<CompiledRule & Pick<SafetyRules['modifications'][number], 'directives' | 'avoid_metaphor_families'>>;
+  private negationCues: string[][];
+
+  constructor(private rules: SafetyRules = safetyRules as SafetyRules) {
+    this.referOut = rules.refer_out.map(compile);
+    this.modificationRules = rules.modifications.map(rule => ({ ...rule, ...compile(rule) }));
+    this.negationCues = rules.negation_cues.map(tokenize).filter(cue => cue.length > 0);
+  }
+
+  /**
+   * Screen the client context; `metaphorLibrary` supplies the families' avoid_for issues
+   */
+  screen(
+    input: SafetyScreeningInput,
+    metaphorLibrary: MethodologyConfigs['metaphor-library'] = methodologyConfig.get('metaphor-library')
+  ): SafetyScreeningResult {
+    const reasons: SafetyReason[] = [];
+    const directives: string[] = [];
+    const avoidMetaphorFamilies: string[] = [];
+
+    for (const field of SCREENED_FIELDS) {
+      const text = input[field];
+      if (!text?.trim()) continue;
+      const tokens = tokenize(text);
+      const clauses = text.split(CLAUSE_BREAK).map(tokenize);
+
+      for (const rule of this.referOut) {
+        const matched = findPhrase(tokens, rule);
+        if (matched) {
+          reasons.push({ code: rule.code, decision: 'refer_out', field, matched, message: rule.message });
+        }
+      }
+
+      for (const rule of this.modificationRules) {
+        const matched = this.findUnnegatedPhrase(clauses, rule);
+        if (!matched) continue;
+        reasons.push({ code: rule.code, decision: 'allowed_with_modifications', field, matched, message: rule.message });
+        directives.push(...rule.directives);
+        avoidMetaphorFamilies.push(...rule.avoid_metaphor_families);
+      }
+
+      // Metaphor families whose own avoid_for issues describe this client
+      const families = metaphorLibrary.metaphor_families as Record<string, { avoid_for?: string[] }>;
+      for (const [family, entry] of Object.entries(families)) {
+        const labels = (entry.avoid_for || []).map(issue => issue.replace(/_/g, ' '));
+        const [match] = issueClassifier.match(text, labels, this.rules.metaphor_avoid_threshold);
+        if (match) {
+          reasons.push({
+            code: 'metaphor_avoid_for',
+            decision: 'allowed_with_modifications',
+            field,
+            matched: match.label,
+            message: `Avoid ${family} metaphors (not for ${match.label}, confidence ${match.confidence.toFixed(2)})`,
+          });
+          avoidMetaphorFamilies.push(family);
+        }
+      }
+    }
+
+    const decision: SafetyDecision = reasons.some(reason => reason.decision === 'refer_out')
+      ? 'refer_out'
+      : reasons.length > 0 ? 'allowed_with_modifications' : 'allowed';
+
+    return {
+      decision,
+      reasons,
+      modifications: {
+        avoidMetaphorFamilies: Array.from(new Set(avoidMetaphorFamilies)),
+        directives: Array.from(new Set(directives)),
+      },
+      referralMessage: decision === 'refer_out' ? this.rules.referral_message : null,
+    };
+  }
+
+  // First phrase of the rule that occurs without a negation cue before it in the same clause
+  private findUnnegatedPhrase(clauses: string[][], rule: CompiledRule): string | null {
+    for (const tokens of clauses) {
+      for (const phrase of rule.phrases) {
+        for (let index = findSequence(tokens, phrase.tokens); index !== -1; index = findSequence(tokens, phrase.tokens, index + 1)) {
+          if (!this.isNegated(tokens, index)) return phrase.text;
+        }
+      }
+    }
+    return null;
+  }
+
+  private isNegated(clause: string[], index: number): boolean {
+    const window = clause.slice(Math.max(0, index - this.rules.negation_window), index);
+    return this.negationCues.some(cue => findSequence(window, cue) !== -1);
+  }
+}
+
+/**
+ * "Refer out: psychosis ("hearing voices")"
+ */
+export function formatSafetyScreening(result: SafetyScreeningResult): string {
+  const label = result.decision === 'refer_out' ? 'Refer out' : result.decision === 'allowed' ? 'Allowed' : 'Allowed with modifications';
+  if (result.reasons.length === 0) return label;
+  return `${label}: ${result.reasons.map(reason => `${reason.code} ("${reason.matched}")`).join(', ')}`;
+}
+
+export const safetyScreener = new SafetyScreener();
@@ -1,14 +1,14 @@
 /**
  * STRATEGY PLANNER
  * The brain of the ScriptEngine - selects narrative arcs based on:
- * - Client presenting issue
+ * - Client presenting issue (classified semantically, see issue-classifier.ts)
  * - Desired outcome
  * - Template preferences
  * - Arc selection rules
  */
 
-import narrativeArcsConfig from './config/narrative-arcs.json';
-import metaphorLibraryConfig from './config/metaphor-library.json';
+import { methodologyConfig, type MethodologyConfigs } from './methodology-config';
+import { issueClassifier, formatIssueMatches, LABEL_MATCH_THRESHOLD, type IssueClassification } from './issue-classifier';
 import type { ArcJourney } from '@shared/schema';
 
 export interface GenerationContract {
@@ -58,17 +58,36 @@ export interface PlannerInput {
   // Journey system
   arcJourney?: ArcJourney; // Arc Journey for multi-stage scripts
   targetWordCount?: number; // For journey word distribution
+  // Safety screening
+  avoidMetaphorFamilies?: string[]; // Families contraindicated for this client (e.g. water for drowning fears)
+  // Treatment plans: the family earlier sessions of the series used (kept unless contraindicated)
+  preferredMetaphorFamily?: string;
+}
+
+// Arcs picked from their own presenting issues need a closer match than the curated mappings
+const ARC_MATCH_SELECTION_THRESHOLD = 0.7;
+const MAX_LOGGED_MATCHES = 5;
+
+// Draft configs to plan against instead of the live ones (admin dry-runs)
+export interface PlannerConfigOverrides {
+  narrativeArcs?: MethodologyConfigs['narrative-arcs'];
+  metaphorLibrary?: MethodologyConfigs['metaphor-library'];
 }
 
 export class StrategyPlanner {
-  private narrativeArcs: any;
-  private metaphorLibrary: any;
-  private arcSelectionRules: any;
+  constructor(private overrides: PlannerConfigOverrides = {}) {}
+
+  // Read from the live methodology config on every plan (hot-reloadable)
+  private get narrativeArcs(): any[] {
+    return (this.overrides.narrativeArcs ?? methodologyConfig.get('narrative-arcs')).arcs;
+  }
 
-  constructor() {
-    this.narrativeArcs = narrativeArcsConfig.arcs;
-    this.metaphorLibrary = metaphorLibraryConfig;
-    this.arcSelectionRules = narrativeArcsConfig.arc_selection_rules;
+  private get metaphorLibrary(): any {
+    return this.overrides.metaphorLibrary ?? methodologyConfig.get('metaphor-library');
+  }
+
+  private get arcSelectionRules(): any {
+    return (this.overrides.narrativeArcs ?? methodologyConfig.get('narrative-arcs')).arc_selection_rules;
   }
 
   /**
@@ -92,14 +111,18 @@ export class StrategyPlanner {
         // Include foundation arcs + manual arc only
         const alwaysIncludeArcs = this.arcSelectionRules.always_include;
         const finalArcs = [...alwaysIncludeArcs, input.manualArcId];
-        const detectedIssues = this.detectIssues(input.presentingIssue, input.clientNotes);
+        const issues = this.classifyIssues(input.presentingIssue, input.clientNotes);
         
         reasoningLog.push(`Using manual arc with foundation arcs: ${finalArcs.join(', ')}`);
+        this.logIssueMatches(issues, reasoningLog);
         
-        const selectedArcs = finalArcs.map(arcId => this.buildArcDetails(arcId, detectedIssues));
+        const selectedArcs = finalArcs.map(arcId => this.buildArcDetails(arcId, issues));
         const primaryMetaphor = this.selectMetaphor(
-          detectedIssues,
-          input.symbolicDimensionLevel || 0
+          issues,
+          input.symbolicDimensionLevel || 0,
+          input.avoidMetaphorFamilies,
+          reasoningLog,
+          input.preferredMetaphorFamily
         );
         
         if (primaryMetaphor) {
@@ -120,12 +143,12 @@ export class StrategyPlanner {
     const alwaysIncludeArcs = this.arcSelectionRules.always_include;
     reasoningLog.push(`Including foundation arcs: ${alwaysIncludeArcs.join(', ')}`);
     
-    // Step 2: Detect presenting issue keywords
-    const detectedIssues = this.detectIssues(input.presentingIssue, input.clientNotes);
-    reasoningLog.push(`Detected issues: ${detectedIssues.join(', ') || 'none specific'}`);
+    // Step 2: Classify the presenting issue (with confidence scores)
+    const issues = this.classifyIssues(input.presentingIssue, input.clientNotes);
+    this.logIssueMatches(issues, reasoningLog);
     
     // Step 3: Select issue-specific arcs
-    const issueSpecificArcs = this.selectIssueSpecificArcs(detectedIssues);
+    const issueSpecificArcs = this.selectIssueSpecificArcs(issues);
     reasoningLog.push(`Issue-specific arcs: ${issueSpecificArcs.join(', ') || 'none'}`);
     
     // Step 4: Consider template preferences
@@ -145,12 +168,15 @@ export class StrategyPlanner {
     reasoningLog.push(`Final arc selection: ${prioritizedArcs.join(', ')}`);
     
     // Step 6: Build detailed arc selections
-    const selectedArcs = prioritizedArcs.map(arcId => this.buildArcDetails(arcId, detectedIssues));
+    const selectedArcs = prioritizedArcs.map(arcId => this.buildArcDetails(arcId, issues));
     
     // Step 7: Select primary metaphor if symbolic dimension is high
     const primaryMetaphor = this.selectMetaphor(
-      detectedIssues,
-      input.symbolicDimensionLevel || 0
+      issues,
+      input.symbolicDimensionLevel || 0,
+      input.avoidMetaphorFamilies,
+      reasoningLog,
+      input.preferredMetaphorFamily
     );
     
     if (primaryMetaphor) {
@@ -166,57 +192,55 @@ export class StrategyPlanner {
   }
 
   /**
-   * Detect issue keywords from presenting issue and notes
+   * Classify the presenting issue and notes against the planner issue keys and the
+   * arc / metaphor vocabularies of the config in use
    */
-  private detectIssues(presentingIssue: string, clientNotes?: string): string[] {
-    const text = `${presentingIssue} ${clientNotes || ''}`.toLowerCase();
-    const detectedIssues: string[] = [];
-    
-    // Issue keyword mappings
-    const issuePatterns = {
-      'anxiety': ['anxiety', 'anxious', 'worry', 'worried', 'nervous', 'stress', 'stressed'],
-      'confidence': ['confidence', 'self-esteem', 'self-worth', 'imposter', 'doubt', 'insecure'],
-      'stuck': ['stuck', 'trapped', 'stagnant', 'can\'t move forward', 'blocked', 'know what to do but can\'t'],
-      'habits': ['habit', 'pattern', 'automatic', 'addiction', 'compulsion', 'routine'],
-      'trauma': ['trauma', 'ptsd', 'past hurt', 'abuse', 'painful memory', 'post-divorce', 'death', 'grief'],
-      'self-worth': ['worth', 'value', 'deserve', 'self-love', 'self-acceptance'],
-      'life-change': ['transition', 'change', 'new chapter', 'life change', 'transformation'],
-      'chronic-pain': ['chronic pain', 'pain', 'headache', 'body pain', 'physical discomfort'],
-      'internal-conflict': ['conflict', 'torn', 'ambivalent', 'part of me wants', 'self-sabotage'],
-      'confusion': ['confused', 'unclear', 'don\'t know', 'uncertain', 'lost', 'indecision', 'overwhelmed by options', 'analysis paralysis', 'can\'t see the path'],
-      'overwhelm': ['overwhelmed', 'too much', 'can\'t cope', 'drowning', 'exhausted', 'information overload', 'chaos'],
-      'disconnection': ['disconnected', 'numb', 'detached', 'can\'t feel', 'out of touch'],
-      'perfectionism': ['perfectionism', 'perfectionist', 'fear of failure', 'not good enough', 'have to be perfect', 'afraid to fail', 'rigid'],
-      'learning-blocks': ['learning', 'can\'t learn', 'struggling to learn', 'difficulty learning', 'learning block'],
-      'weight-loss': ['weight loss', 'lose weight', 'losing weight', 'diet', 'eating', 'food cravings', 'overeating'],
-      'exhaustion': ['exhausted', 'drained', 'depleted', 'worn out', 'tired', 'no energy', 'can\'t go on'],
-      'burnout': ['burnout', 'burned out', 'burnt out', 'done', 'can\'t keep going'],
-      'crisis': ['crisis', 'emergency', 'breakdown', 'serious illness', 'major disruption', 'life fell apart']
-    };
-    
-    for (const [issue, keywords] of Object.entries(issuePatterns)) {
-      if (keywords.some(keyword => text.includes(keyword))) {
-        detectedIssues.push(issue);
-      }
+  private classifyIssues(presentingIssue: string, clientNotes?: string): IssueClassification {
+    const text = `${presentingIssue} ${clientNotes || ''}`.trim();
+    return issueClassifier.classify(text, {
+      narrativeArcs: this.overrides.narrativeArcs ?? methodologyConfig.get('narrative-arcs'),
+      metaphorLibrary: this.metaphorLibrary,
+    });
+  }
+
+  private logIssueMatches(issues: IssueClassification, reasoningLog: string[]): void {
+    reasoningLog.push(`Detected issues: ${formatIssueMatches(issues.plannerIssues) || 'none specific'}`);
+    if (issues.arcIssues.length > 0) {
+      reasoningLog.push(`Arc issue matches: ${formatIssueMatches(issues.arcIssues.slice(0, MAX_LOGGED_MATCHES))}`);
+    }
+    if (issues.metaphorIssues.length > 0) {
+      reasoningLog.push(`Metaphor issue matches: ${formatIssueMatches(issues.metaphorIssues.slice(0, MAX_LOGGED_MATCHES))}`);
     }
-    
-    return detectedIssues;
   }
 
   /**
-   * Select arcs based on detected issues
+   * Select arcs based on classified issues (curated issue mappings plus arcs whose own
+   * presenting issues match closely), strongest match first
    */
-  private selectIssueSpecificArcs(detectedIssues: string[]): string[] {
-    const arcs = new Set<string>();
+  private selectIssueSpecificArcs(issues: IssueClassification): string[] {
+    // Best confidence per arc; curated mappings win ties
+    const scores = new Map<string, number>();
+    const consider = (arcId: string, confidence: number) => {
+      if (confidence > (scores.get(arcId) ?? -1)) scores.set(arcId, confidence);
+    };
     
-    for (const issue of detectedIssues) {
-      const mappedArcs = this.arcSelectionRules.issue_mappings[issue];
+    for (const { label, confidence } of issues.plannerIssues) {
+      const mappedArcs = this.arcSelectionRules.issue_mappings[label];
       if (mappedArcs) {
-        mappedArcs.forEach((arc: string) => arcs.add(arc));
+        mappedArcs.forEach((arc: string) => consider(arc, confidence));
       }
     }
     
-    return Array.from(arcs);
+    for (const match of issues.arcIssues) {
+      if (match.confidence >= ARC_MATCH_SELECTION_THRESHOLD) {
+        match.arcIds.forEach(arc => consider(arc, match.confidence));
+      }
+    }
+    
+    // Map keeps insertion order, so the sort is stable for equal scores
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([arcId]) => arcId);
   }
 
   /**
@@ -262,7 +286,7 @@ export class StrategyPlanner {
   /**
    * Build detailed arc selection with language and integration
    */
-  private buildArcDetails(arcId: string, detectedIssues: string[]): SelectedArc {
+  private buildArcDetails(arcId: string, issues: IssueClassification): SelectedArc {
     const arc = this.narrativeArcs.find((a: any) => a.id === arcId);
     
     if (!arc) {
@@ -279,9 +303,14 @@ export class StrategyPlanner {
     let reason = 'Foundation arc';
     if (this.arcSelectionRules.always_include.includes(arcId)) {
       reason = 'Foundation arc (always included)';
-    } else if (detectedIssues.some(issue => arc.presenting_issues?.includes(issue))) {
-      const matchedIssues = detectedIssues.filter(issue => arc.presenting_issues?.includes(issue));
-      reason = `Matches presenting issue: ${matchedIssues.join(', ')}`;
+    } else {
+      const arcMatches = issues.arcIssues.filter(match => match.arcIds.includes(arcId));
+      const mappedFrom = issues.plannerIssues.filter(match => this.arcSelectionRules.issue_mappings[match.label]?.includes(arcId));
+      if (arcMatches.length > 0) {
+        reason = `Matches presenting issue: ${formatIssueMatches(arcMatches)}`;
+      } else if (mappedFrom.length > 0) {
+        reason = `Mapped from detected issue: ${formatIssueMatches(mappedFrom)}`;
+      }
     }
     
     return {
@@ -294,34 +323,73 @@ export class StrategyPlanner {
   }
 
   /**
-   * Select primary metaphor based on issues and symbolic dimension level
+   * Select primary metaphor based on issues and symbolic dimension level,
+   * skipping families the safety screening ruled out; a series' established family comes first
    */
   private selectMetaphor(
-    detectedIssues: string[],
-    symbolicLevel: number
+    issues: IssueClassification,
+    symbolicLevel: number,
+    avoidFamilies: string[] = [],
+    reasoningLog?: string[],
+    preferredFamily?: string
   ): MetaphorSelection | null {
     // Only select metaphor if symbolic dimension is above threshold
     if (symbolicLevel < 40) {
       return null;
     }
     
-    // Find best metaphor family for detected issues
-    for (const issue of detectedIssues) {
+    const avoided = new Set(avoidFamilies);
+    if (avoided.size > 0) {
+      reasoningLog?.push(`Avoiding metaphor families (safety): ${Array.from(avoided).join(', ')}`);
+    }
+    
+    if (preferredFamily) {
+      const family = this.metaphorLibrary.metaphor_families[preferredFamily];
+      if (family && !avoided.has(preferredFamily)) {
+        return {
+          family: preferredFamily,
+          primaryImages: family.primary_images || [],
+          reason: `Series continuity - earlier sessions used ${preferredFamily} (symbolic level: ${symbolicLevel}%)`
+        };
+      }
+      reasoningLog?.push(`Series metaphor family "${preferredFamily}" ${family ? 'is contraindicated' : 'not found'}, selecting another`);
+    }
+    
+    // Curated recommendation for the strongest detected issue
+    let recommended: MetaphorSelection | null = null;
+    let recommendedConfidence = 0;
+    for (const { label: issue, confidence } of issues.plannerIssues) {
       const mapping = this.metaphorLibrary.issue_to_metaphor_mapping[issue];
-      if (mapping?.recommended && mapping.recommended.length > 0) {
-        const familyName = mapping.recommended[0];
+      const familyName = mapping?.recommended?.find((name: string) => !avoided.has(name));
+      if (familyName) {
         const family = this.metaphorLibrary.metaphor_families[familyName];
         
         if (family) {
-          return {
+          recommended = {
             family: familyName,
             primaryImages: family.primary_images || [],
-            reason: `Best match for ${issue} (symbolic level: ${symbolicLevel}%)`
+            reason: `Best match for ${issue} (confidence ${confidence.toFixed(2)}, symbolic level: ${symbolicLevel}%)`
           };
+          recommendedConfidence = confidence;
+          break;
         }
       }
     }
     
+    // A weak (inferred) issue gives way to a family whose good_for issues match clearly
+    const bestMatch = issues.metaphorIssues.find(match => match.families.some(name => !avoided.has(name)));
+    if (bestMatch && recommendedConfidence < LABEL_MATCH_THRESHOLD && bestMatch.confidence > recommendedConfidence) {
+      const familyName = bestMatch.families.find(name => !avoided.has(name))!;
+      return {
+        family: familyName,
+        primaryImages: this.metaphorLibrary.metaphor_families[familyName]?.primary_images || [],
+        reason: `Good for ${bestMatch.label} (confidence ${bestMatch.confidence.toFixed(2)}, symbolic level: ${symbolicLevel}%)`
+      };
+    }
+    if (recommended) {
+      return recommended;
+    }
+    
     // Default to gentle nature if no specific match
     const defaultFamily = this.metaphorLibrary.metaphor_families['nature_gentle'];
     return {
@@ -349,9 +417,9 @@ export class StrategyPlanner {
     reasoningLog.push(`ARC JOURNEY MODE: ${journey.stages.length} stages`);
     reasoningLog.push(`Target word count: ${targetWordCount} words`);
     
-    // Detect issues for context
-    const detectedIssues = this.detectIssues(input.presentingIssue, input.clientNotes);
-    reasoningLog.push(`Detected issues: ${detectedIssues.join(', ') || 'none specific'}`);
+    // Classify issues for context
+    const issues = this.classifyIssues(input.presentingIssue, input.clientNotes);
+    this.logIssueMatches(issues, reasoningLog);
     
     // Build journey stages with word distribution
     let cumulativeWords = 0;
@@ -394,8 +462,11 @@ export class StrategyPlanner {
     
     // Select primary metaphor if symbolic dimension is high
     const primaryMetaphor = this.selectMetaphor(
-      detectedIssues,
-      input.symbolicDimensionLevel || 0
+      issues,
+      input.symbolicDimensionLevel || 0,
+      input.avoidMetaphorFamilies,
+      reasoningLog,
+      input.preferredMetaphorFamily
     );
     
     if (primaryMetaphor) {
@@ -4,7 +4,8 @@
  * Based on the "secret sauce" language mastery rules
  */
 
-import languageMastery from './config/language-mastery.json';
+import { methodologyConfig } from './methodology-config';
+import { languagePatternDetector, type LanguagePatternReport, type PhaseSpan } from './language-patterns';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -12,6 +13,7 @@ export interface ValidationResult {
   violations: Violation[];
   warnings: string[];
   suggestions: string[];
+  languagePatterns: LanguagePatternReport; // Sentence tags and tonal balance per phase
 }
 
 export interface Violation {
@@ -24,20 +26,24 @@ export interface Violation {
 }
 
 export class TranceDepthValidator {
-  private forbiddenPhrases: string[];
-  private forbiddenCliches: string[];
-  private forbiddenVisualCommands: string[];
-
-  constructor() {
-    this.forbiddenPhrases = languageMastery.critical_anti_patterns.forbidden_phrases;
-    this.forbiddenCliches = languageMastery.language_craft.forbidden_cliches;
-    this.forbiddenVisualCommands = languageMastery.inclusive_sensory_language.forbidden_visual_commands;
+  // Read from the live methodology config on every validation (hot-reloadable)
+  private get forbiddenPhrases(): string[] {
+    return methodologyConfig.get('language-mastery').critical_anti_patterns.forbidden_phrases;
+  }
+
+  private get forbiddenCliches(): string[] {
+    return methodologyConfig.get('language-mastery').language_craft.forbidden_cliches;
+  }
+
+  private get forbiddenVisualCommands(): string[] {
+    return methodologyConfig.get('language-mastery').inclusive_sensory_language.forbidden_visual_commands;
   }
 
   /**
    * Validate a complete script for trance depth issues
+   * (`phases` places the tonal balance check when the phase boundaries are already known)
    */
-  public validate(script: string): ValidationResult {
+  public validate(script: string, phases?: PhaseSpan[]): ValidationResult {
     const violations: Violation[] = [];
     const warnings: string[] = [];
     const suggestions: string[] = [];
@@ -83,6 +89,11 @@ export class TranceDepthValidator {
       }
     }
 
+    // Check tonal balance (soft invitations per direct command) per phase
+    const languagePatterns = languagePatternDetector.analyze(script, phases);
+    const balanceViolations = this.detectTonalImbalance(languagePatterns);
+    violations.push(...balanceViolations);
+
     // Generate warnings and suggestions
     if (cognitiveViolations.length > 0) {
       warnings.push('CRITICAL: Script contains cognitive/reflective instructions that pull client out of trance!');
@@ -97,6 +108,10 @@ export class TranceDepthValidator {
       suggestions.push('Replace visual commands with inclusive language: "Notice..." instead of "See..."');
     }
 
+    if (balanceViolations.some(v => v.issue.includes('directive'))) {
+      suggestions.push('Soften commands outside anchors and transitions: "You might notice...", "And as you breathe...", "Your shoulders soften..."');
+    }
+
     // Calculate score
     const score = this.calculateScore(violations);
 
@@ -105,10 +120,49 @@ export class TranceDepthValidator {
       score,
       violations,
       warnings,
-      suggestions
+      suggestions,
+      languagePatterns
     };
   }
 
+  /**
+   * Phases whose invitation/command ratio misses the language-mastery targets, and stacked commands
+   */
+  private detectTonalImbalance(report: LanguagePatternReport): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const phase of report.phases) {
+      const { min_invitations_per_command: min, max_invitations_per_command: max } = phase.target;
+      const ratio = phase.invitationsPerCommand === null ? 'no direct commands' : `${phase.invitationsPerCommand} invitations per command`;
+      const issue = phase.status === 'too_directive' ? `Too directive in ${phase.phase} (${ratio}, target ${min}-${max})`
+        : phase.status === 'too_soft' ? `Too few direct commands in ${phase.phase} (${ratio}, target ${min}-${max})`
+        : phase.status === 'no_commands' ? `No direct commands in ${phase.phase} (anchors and transitions need some)`
+        : null;
+      if (issue) {
+        violations.push({
+          type: 'minor',
+          category: 'tonal_balance',
+          issue,
+          location: `${phase.phase} (${phase.sentenceCount} sentences)`,
+          suggested_fix: methodologyConfig.get('language-mastery').tonal_balance.ratio
+        });
+      }
+    }
+
+    for (const run of report.commandRuns) {
+      const first = report.sentences[run.start];
+      violations.push({
+        type: 'minor',
+        category: 'tonal_balance',
+        issue: `${run.length} direct commands in a row`,
+        location: first.text.substring(0, 100),
+        suggested_fix: `Never stack more than ${report.maxConsecutiveCommands} direct commands in a row unless transitioning sections`
+      });
+    }
+
+    return violations;
+  }
+
   /**
    * Detect cognitive/reflective instructions (CRITICAL violations)
    */
@@ -129,7 +183,7 @@ export class TranceDepthValidator {
           issue: 'Cognitive/reflective instruction that pulls client out of trance',
           location: matchingSentence?.trim().substring(0, 100) + '...' || 'Unknown',
           forbidden_phrase: phrase,
-          suggested_fix: languageMastery.critical_anti_patterns.replacement_patterns[0]
+          suggested_fix: methodologyConfig.get('language-mastery').critical_anti_patterns.replacement_patterns[0]
         });
       }
     }
@@ -272,6 +326,15 @@ export class TranceDepthValidator {
       lines.push('');
     }
 
+    lines.push('TONAL BALANCE (soft invitations per direct command):');
+    for (const phase of result.languagePatterns.phases) {
+      const ratio = phase.invitationsPerCommand === null ? '-' : phase.invitationsPerCommand.toFixed(2);
+      lines.push(`  ${phase.phase}: ${ratio} (target ${phase.target.min_invitations_per_command}-${phase.target.max_invitations_per_command}, ${phase.status})`);
+    }
+    const counts = result.languagePatterns.overall.counts;
+    lines.push(`  Patterns: ${Object.entries(counts).map(([pattern, count]) => `${pattern} ${count}`).join(', ')}`);
+    lines.push('');
+
     if (result.suggestions.length > 0) {
       lines.push('SUGGESTIONS:');
       result.suggestions.forEach(s => lines.push(`  💡 ${s}`));
@@ -0,0 +1,215 @@
+/**
+ * TREATMENT PLANNER
+ * Multi-session protocols for one client: each session is planned by the StrategyPlanner and
+ * carries forward the anchors of the sessions before it
+ *
+ * - Planning: the session goal joins the client notes, the session's manual arc or arc journey
+ *   is honoured, and the series' established metaphor family is kept unless contraindicated
+ * - Anchors: once a session is generated, the metaphor images its script actually used and its
+ *   suggestions (embedded commands / presuppositions in the work and emergence phases) are stored
+ * - Continuity: a new session inherits the series family, the images and the latest suggestions,
+ *   and its prompt asks the script to return to them so the series builds on itself
+ */
+
+import { StrategyPlanner } from './strategy-planner';
+import { safetyScreener } from './safety-screener';
+import { languagePatternDetector } from './language-patterns';
+import { methodologyConfig } from './methodology-config';
+import type {
+  ArcJourney,
+  SeriesContinuity,
+  SessionAnchors,
+  SessionPlan,
+  TreatmentClientProfile,
+} from '@shared/schema';
+
+export type { SeriesContinuity, SessionAnchors, SessionPlan, TreatmentClientProfile } from '@shared/schema';
+
+export interface TreatmentSessionInput {
+  sessionNumber: number;
+  goal: string;
+  presentingIssue?: string | null; // Falls back to the client profile's
+  desiredOutcome?: string | null;
+  arcId?: string | null;
+  arcJourney?: ArcJourney | null;
+}
+
+export interface PlannedSession extends TreatmentSessionInput {
+  status: string;
+  anchors?: SessionAnchors | null;
+}
+
+// Plans are previewed before a template is chosen; a mid symbolic level keeps a metaphor in the plan
+const PLANNING_SYMBOLIC_LEVEL = 50;
+
+// How much of each session is carried forward
+const MAX_SUGGESTIONS_PER_SESSION = 3;
+const MAX_CONTINUITY_SUGGESTIONS = 6;
+const MAX_CONTINUITY_IMAGES = 8;
+const MAX_SUGGESTION_LENGTH = 200;
+
+const SUGGESTION_PATTERNS = new Set(['embedded_command', 'presupposition']);
+const SUGGESTION_PHASES = new Set(['work', 'emergence']);
+
+/**
+ * The presenting issue, outcome and notes a session is planned and generated with
+ */
+export function sessionFocus(profile: TreatmentClientProfile, session: TreatmentSessionInput) {
+  return {
+    presentingIssue: session.presentingIssue || profile.presentingIssue,
+    desiredOutcome: session.desiredOutcome || profile.desiredOutcome,
+    clientNotes: [profile.clientNotes, `Session ${session.sessionNumber} goal: ${session.goal}`].filter(Boolean).join('\n'),
+  };
+}
+
+export class TreatmentPlanner {
+  constructor(private planner = new StrategyPlanner()) {}
+
+  /**
+   * Arcs and metaphor for one session, keeping the series' metaphor family
+   */
+  async planSession(
+    profile: TreatmentClientProfile,
+    session: TreatmentSessionInput,
+    continuity?: SeriesContinuity | null,
+    symbolicDimensionLevel = PLANNING_SYMBOLIC_LEVEL
+  ): Promise<SessionPlan> {
+    const focus = sessionFocus(profile, session);
+    const safety = safetyScreener.screen(focus);
+
+    const contract = await this.planner.plan({
+      ...focus,
+      manualArcId: session.arcId || undefined,
+      arcJourney: session.arcJourney || undefined,
+      symbolicDimensionLevel,
+      avoidMetaphorFamilies: safety.modifications.avoidMetaphorFamilies,
+      preferredMetaphorFamily: continuity?.metaphorFamily || undefined,
+    });
+
+    return {
+      arcs: contract.selectedArcs.map(arc => ({ arcId: arc.arcId, arcName: arc.arcName, reason: arc.reason })),
+      metaphorFamily: contract.primaryMetaphor?.family ?? null,
+      isJourney: !!contract.isJourney,
+      reasoningLog: contract.reasoningLog,
+    };
+  }
+
+  /**
+   * (Re)plan every session not yet completed, in order. Until a session has been generated, the
+   * family the first planned session picked stands in as the series family.
+   */
+  async planSeries(profile: TreatmentClientProfile, sessions: PlannedSession[]): Promise<Map<number, SessionPlan>> {
+    const plans = new Map<number, SessionPlan>();
+    let seriesFamily: string | null = null;
+
+    for (const session of [...sessions].sort((a, b) => a.sessionNumber - b.sessionNumber)) {
+      if (session.status === 'completed') continue;
+
+      const continuity = this.buildContinuity(sessions, session.sessionNumber);
+      seriesFamily = continuity.metaphorFamily ?? seriesFamily;
+      const plan = await this.planSession(profile, session, { ...continuity, metaphorFamily: seriesFamily });
+      seriesFamily = seriesFamily ?? plan.metaphorFamily;
+      plans.set(session.sessionNumber, plan);
+    }
+    return plans;
+  }
+
+  /**
+   * The suggestions and metaphor images a generated session script left the client with
+   */
+  extractAnchors(script: string, plan: { arcs: string[]; metaphorFamily: string | null }): SessionAnchors {
+    const report = languagePatternDetector.analyze(script);
+    const suggestions = report.sentences
+      .filter(sentence => SUGGESTION_PHASES.has(sentence.phase))
+      .filter(sentence => sentence.tags.some(tag => SUGGESTION_PATTERNS.has(tag.pattern)))
+      .filter(sentence => sentence.text.length <= MAX_SUGGESTION_LENGTH)
+      .map(sentence => sentence.text)
+      .slice(-MAX_SUGGESTIONS_PER_SESSION); // The last ones are the post-hypnotic suggestions
+
+    return {
+      metaphorFamily: plan.metaphorFamily,
+      images: plan.metaphorFamily ? this.imagesIn(script, plan.metaphorFamily) : [],
+      suggestions,
+      arcs: plan.arcs,
+    };
+  }
+
+  /**
+   * What session `sessionNumber` inherits from the completed sessions before it
+   */
+  buildContinuity(sessions: PlannedSession[], sessionNumber: number): SeriesContinuity {
+    const previous = sessions
+      .filter(session => session.sessionNumber < sessionNumber && session.status === 'completed' && session.anchors)
+      .sort((a, b) => a.sessionNumber - b.sessionNumber);
+
+    // The first family the series used is its anchor
+    const metaphorFamily = previous.find(session => session.anchors!.metaphorFamily)?.anchors!.metaphorFamily ?? null;
+    const images = Array.from(new Set(
+      previous
+        .filter(session => session.anchors!.metaphorFamily === metaphorFamily)
+        .flatMap(session => session.anchors!.images)
+    )).slice(0, MAX_CONTINUITY_IMAGES);
+
+    const suggestions = previous
+      .flatMap(session => session.anchors!.suggestions.map(text => ({ sessionNumber: session.sessionNumber, text })))
+      .slice(-MAX_CONTINUITY_SUGGESTIONS);
+
+    return {
+      sessionNumber,
+      totalSessions: sessions.length,
+      metaphorFamily,
+      images,
+      suggestions,
+      previousSessions: previous.map(session => ({
+        sessionNumber: session.sessionNumber,
+        goal: session.goal,
+        arcs: session.anchors!.arcs,
+      })),
+    };
+  }
+
+  /**
+   * Family images that appear in the script (singular or plural)
+   */
+  private imagesIn(script: string, familyName: string): string[] {
+    const families: Record<string, { primary_images?: string[]; related_imagery?: string[] }> = methodologyConfig.get('metaphor-library').metaphor_families;
+    const family = families[familyName];
+    if (!family) return [];
+
+    const images: string[] = [...(family.primary_images || []), ...(family.related_imagery || [])];
+    const lower = script.toLowerCase();
+    return images.filter(image => {
+      const stem = image.toLowerCase().replace(/s$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`\\b${stem}s?\\b`).test(lower);
+    });
+  }
+}
+
+/**
+ * Prompt section asking a session script to return to the series' anchors
+ */
+export function formatSeriesContinuity(continuity: SeriesContinuity): string {
+  const lines = [`This is session ${continuity.sessionNumber} of ${continuity.totalSessions} in a treatment plan for the same client.`];
+
+  if (continuity.previousSessions.length === 0) {
+    lines.push('It is the first session: establish the metaphor and the key suggestions later sessions will return to.');
+    return lines.join('\n');
+  }
+
+  lines.push('Earlier sessions:');
+  for (const session of continuity.previousSessions) {
+    lines.push(`- Session ${session.sessionNumber}: ${session.goal}${session.arcs.length > 0 ? ` (arcs: ${session.arcs.join(', ')})` : ''}`);
+  }
+  if (continuity.metaphorFamily) {
+    lines.push(`Return to the ${continuity.metaphorFamily} metaphor the client already knows${continuity.images.length > 0 ? `, with its familiar images: ${continuity.images.join(', ')}` : ''}.`);
+  }
+  if (continuity.suggestions.length > 0) {
+    lines.push('Reference and build on these earlier suggestions (echo them in new words, as something already begun - do not repeat them verbatim):');
+    for (const suggestion of continuity.suggestions) {
+      lines.push(`- (session ${suggestion.sessionNumber}) "${suggestion.text}"`);
+    }
+  }
+  return lines.join('\n');
+}
+
+export const treatmentPlanner = new TreatmentPlanner();
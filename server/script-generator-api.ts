@@ -10,6 +10,8 @@ import { storage } from './storage';
 import { aiService } from './ai-service';
 import { templateSelector } from './template-selector';
 import { validateContent, validateMultipleFields } from './content-validator';
+import { SafetyReferralError } from './script-engine/safety-screener';
+import { screenClientContext } from './safety-screening';
 import { db } from './db';
 import { apiKeys } from '@shared/schema';
 import { eq } from 'drizzle-orm';
@@ -44,6 +46,7 @@ scriptGeneratorRouter.post('/clinical',
         arcId: z.string().optional(), // Optional narrative arc selection (e.g., "earned-delight", "oasis-rest")
         emergenceType: z.enum(['regular', 'sleep']).optional().default('regular'),
         targetWordCount: z.number().optional().default(1800),
+        targetDurationMinutes: z.number().min(5).max(90).optional(), // Overrides targetWordCount
       });
 
       const data = schema.parse(req.body);
@@ -59,6 +62,15 @@ scriptGeneratorRouter.post('/clinical',
         });
       }
 
+      // Clinical safety screening (audited); a refer-out answers 422 with the referral message
+      const safety = await screenClientContext(
+        { presentingIssue: data.presentingIssue, desiredOutcome: data.desiredOutcome, clientNotes: data.additionalNotes },
+        { source: 'api', userId: req.apiKey.userId }
+      );
+      if (safety.decision === 'refer_out') {
+        throw new SafetyReferralError(safety);
+      }
+
       // Get archetype (or use default)
       let archetype;
       if (data.archetypeId) {
@@ -131,6 +143,8 @@ scriptGeneratorRouter.post('/clinical',
         arcId: data.arcId, // Optional manual arc selection
         emergenceType: data.emergenceType,
         targetWordCount: data.targetWordCount,
+        targetDurationMinutes: data.targetDurationMinutes,
+        safety,
       });
 
       console.log(`[API] ✓ Clinical script generated (${result.fullScript.split(' ').length} words)`);
@@ -145,6 +159,7 @@ scriptGeneratorRouter.post('/clinical',
           text: result.fullScript,
           wordCount: result.fullScript.split(' ').length,
           emergenceType: data.emergenceType,
+          estimatedDuration: result.estimatedDuration,
         },
         metadata: {
           apiKeyId: req.apiKey.id,
@@ -165,6 +180,14 @@ scriptGeneratorRouter.post('/clinical',
           details: error.errors,
         });
       }
+      
+      if (error instanceof SafetyReferralError) {
+        return res.status(422).json({
+          error: 'Referral required',
+          message: error.message,
+          safety: error.result,
+        });
+      }
 
       res.status(500).json({
         error: 'Generation failed',
@@ -187,6 +210,7 @@ scriptGeneratorRouter.post('/dream',
         archetypeId: z.number().optional(),
         arcId: z.string().optional(), // Optional DREAM narrative arc selection
         targetWordCount: z.number().optional().default(3000),
+        targetDurationMinutes: z.number().min(5).max(90).optional(), // Overrides targetWordCount
       });
 
       const data = schema.parse(req.body);
@@ -200,6 +224,11 @@ scriptGeneratorRouter.post('/dream',
         });
       }
 
+      const safety = await screenClientContext({ presentingIssue: data.journeyIdea }, { source: 'api', userId: req.apiKey.userId });
+      if (safety.decision === 'refer_out') {
+        throw new SafetyReferralError(safety);
+      }
+
       // Get archetype (or use blended archetype default)
       let archetype;
       if (data.archetypeId) {
@@ -267,6 +296,8 @@ scriptGeneratorRouter.post('/dream',
         arcId: data.arcId, // Optional manual arc selection for DREAM
         emergenceType: 'sleep',
         targetWordCount: data.targetWordCount,
+        targetDurationMinutes: data.targetDurationMinutes,
+        safety,
       });
 
       console.log(`[API] ✓ DREAM script generated (${result.fullScript.split(' ').length} words)`);
@@ -287,6 +318,7 @@ scriptGeneratorRouter.post('/dream',
           text: result.fullScript,
           wordCount: result.fullScript.split(' ').length,
           emergenceType: 'sleep',
+          estimatedDuration: result.estimatedDuration,
         },
         metadata: {
           apiKeyId: req.apiKey.id,
@@ -306,6 +338,14 @@ scriptGeneratorRouter.post('/dream',
         });
       }
 
+      if (error instanceof SafetyReferralError) {
+        return res.status(422).json({
+          error: 'Referral required',
+          message: error.message,
+          safety: error.result,
+        });
+      }
+
       res.status(500).json({
         error: 'Generation failed',
         message: error.message || 'An unexpected error occurred',
@@ -0,0 +1,57 @@
+/**
+ * Offline evaluation of the template ranking model against the current heuristic
+ * Replays logged recommendations: trains on the older 80%, reports precision@3 on the newest 20%.
+ * With --save, retrains on every logged query and activates the model for the selector, unless it
+ * scored below the heuristic (--force activates it anyway).
+ * Usage: npx tsx server/scripts/evaluate-template-ranking.ts [--save] [--force]
+ */
+
+import { selectionLog } from "../selection-log";
+import {
+  trainRankingModel,
+  evaluateRanking,
+  splitRankingQueries,
+  MIN_TRAINING_QUERIES,
+  type RankerMetrics,
+} from "../template-ranker";
+
+const save = process.argv.includes("--save");
+const force = process.argv.includes("--force");
+
+const formatMetrics = (metrics: RankerMetrics) =>
+  `precision@3 ${metrics.precisionAt3.toFixed(3)}, hit rate@3 ${(metrics.hitRateAt3 * 100).toFixed(1)}%`;
+
+async function evaluateTemplateRanking() {
+  try {
+    const queries = await selectionLog.getLoggedQueries();
+    console.log(`Logged recommendations with a pick: ${queries.length}`);
+
+    if (queries.length < MIN_TRAINING_QUERIES) {
+      console.log(`ℹ️  Need at least ${MIN_TRAINING_QUERIES} to train and evaluate; keeping the heuristic`);
+      process.exit(0);
+    }
+
+    const { train, test } = splitRankingQueries(queries);
+    const evaluation = evaluateRanking(test, trainRankingModel(train));
+
+    console.log(`Trained on ${train.length}, replayed ${test.length}:`);
+    console.log(`  Heuristic: ${formatMetrics(evaluation.heuristic)}`);
+    console.log(`  Model:     ${formatMetrics(evaluation.model!)}`);
+
+    if (save) {
+      if (evaluation.model!.precisionAt3 < evaluation.heuristic.precisionAt3 && !force) {
+        console.warn("⚠️  The model scored below the heuristic; not activating it (use --force to override)");
+        process.exit(0);
+      }
+      const record = await selectionLog.activateModel(trainRankingModel(queries), queries.length, evaluation);
+      console.log(`✅ Activated ranking model ${record.id}`);
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Error evaluating template ranking:", error);
+    process.exit(1);
+  }
+}
+
+evaluateTemplateRanking();
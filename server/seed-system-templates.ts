@@ -3,8 +3,7 @@
  * Run with: npx tsx server/seed-system-templates.ts
  */
 
-import { db } from './db';
-import { templates } from '@shared/schema';
+import { templateImporter } from './template-transfer';
 import * as fs from 'fs';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
@@ -20,40 +19,16 @@ async function seedSystemTemplates() {
     const templatesPath = path.join(__dirname, 'seed-templates.json');
     const templatesData = JSON.parse(fs.readFileSync(templatesPath, 'utf-8'));
 
-    // Insert each template
-    for (const templateJson of templatesData) {
-      console.log(`📝 Inserting template: ${templateJson.name}`);
-      
-      // Insert with jsonData as main storage and denormalized fields for fast queries
-      // Use onConflictDoUpdate to make idempotent (can re-run seed script)
-      await db.insert(templates).values({
-        templateId: templateJson.id,
-        jsonData: templateJson,
-        // Denormalized for fast queries
-        name: templateJson.name,
-        description: templateJson.description,
-        category: templateJson.category,
-        tags: templateJson.tags,
-        // System template flags
-        createdBy: "system",
-        userId: null,
-        isPublic: true,
-        isSystem: true,
-        usageCount: 0,
-        ratingAvg: null
-      }).onConflictDoUpdate({
-        target: templates.templateId,
-        set: {
-          jsonData: templateJson,
-          name: templateJson.name,
-          description: templateJson.description,
-          category: templateJson.category,
-          tags: templateJson.tags,
-          updatedAt: new Date()
-        }
-      });
-      
-      console.log(`✅ Inserted: ${templateJson.name} (ID: ${templateJson.id})\n`);
+    // The seed file is the source of truth for system templates: overwrite keeps re-runs idempotent,
+    // and every content change is kept in the templates' version history
+    const report = await templateImporter.importTemplates(templatesData, { policy: 'overwrite', asSystem: true });
+    
+    for (const result of report.results) {
+      const icon = result.status === 'failed' ? '❌' : '✅';
+      console.log(`${icon} ${result.name ?? `Template #${result.index}`} (ID: ${result.templateId}): ${result.status}${result.version ? `, version ${result.version}` : ''}${result.message ? ` - ${result.message}` : ''}`);
+    }
+    if (report.summary.failed > 0) {
+      throw new Error(`${report.summary.failed} template(s) failed to seed`);
     }
 
     console.log('🎉 Successfully seeded all system templates!');
@@ -0,0 +1,163 @@
+/**
+ * Selection Log - records template recommendation outcomes for the ranking model
+ *
+ * A recommendation logs the shown candidates with their ranking features; picking a template for a
+ * preview or generation logs 'selected' (with the generation when there is one). Later favorites,
+ * script edits and remixes of that generation are traced back to the recommendation through it.
+ *
+ * Logging is best-effort: a failure is logged and never fails the user's request.
+ */
+
+import { randomUUID } from "crypto";
+import { eq, and, desc, asc } from "drizzle-orm";
+import { db } from "./db";
+import {
+  templateSelectionEvents,
+  templateRankingModels,
+  type TemplateSelectionEventType,
+  type TemplateRankingModelRecord,
+} from "@shared/schema";
+import type { LoggedRankingQuery, RankingCandidate, RankingEvaluation, RankingModel } from "./template-ranker";
+
+const MODEL_CACHE_MS = 5 * 60 * 1000;
+
+export interface RecommendationQuery {
+  presentingIssue: string;
+  desiredOutcome: string;
+  clientNotes: string;
+}
+
+type OutcomeEventType = Exclude<TemplateSelectionEventType, 'recommended' | 'selected'>;
+
+export class SelectionLog {
+  private cachedModel: { model: RankingModel | null; loadedAt: number } | null = null;
+
+  /**
+   * Log the candidates shown for a query; returns the recommendationId the client echoes back on selection
+   */
+  async logRecommendation(query: RecommendationQuery, candidates: RankingCandidate[], userId?: string): Promise<string> {
+    const recommendationId = randomUUID();
+    try {
+      await db.insert(templateSelectionEvents).values({
+        recommendationId,
+        eventType: 'recommended',
+        userId: userId ?? null,
+        query,
+        candidates,
+      });
+    } catch (error) {
+      console.error('[SELECTION LOG] Failed to log recommendation:', error);
+    }
+    return recommendationId;
+  }
+
+  async logSelection(recommendationId: string, templateId: string, options: { userId?: string; generationId?: number } = {}): Promise<void> {
+    try {
+      await db.insert(templateSelectionEvents).values({
+        recommendationId,
+        eventType: 'selected',
+        templateId,
+        userId: options.userId ?? null,
+        generationId: options.generationId ?? null,
+      });
+    } catch (error) {
+      console.error('[SELECTION LOG] Failed to log selection:', error);
+    }
+  }
+
+  /**
+   * Log what happened to a generated script; ignored for generations that didn't come from a recommendation
+   */
+  async logGenerationOutcome(generationId: number, eventType: OutcomeEventType, userId?: string): Promise<void> {
+    try {
+      const [selection] = await db
+        .select()
+        .from(templateSelectionEvents)
+        .where(and(eq(templateSelectionEvents.generationId, generationId), eq(templateSelectionEvents.eventType, 'selected')))
+        .orderBy(desc(templateSelectionEvents.createdAt))
+        .limit(1);
+      if (!selection) return;
+
+      await db.insert(templateSelectionEvents).values({
+        recommendationId: selection.recommendationId,
+        eventType,
+        templateId: selection.templateId,
+        userId: userId ?? null,
+        generationId,
+      });
+    } catch (error) {
+      console.error(`[SELECTION LOG] Failed to log ${eventType}:`, error);
+    }
+  }
+
+  /**
+   * Logged recommendations the user picked from, with the outcome of each pick
+   */
+  async getLoggedQueries(): Promise<LoggedRankingQuery[]> {
+    const events = await db.select().from(templateSelectionEvents).orderBy(asc(templateSelectionEvents.createdAt));
+
+    const queries = new Map<string, LoggedRankingQuery>();
+    for (const event of events) {
+      if (event.eventType === 'recommended') {
+        queries.set(event.recommendationId, {
+          recommendationId: event.recommendationId,
+          createdAt: event.createdAt,
+          candidates: (event.candidates as RankingCandidate[] | null) ?? [],
+          picks: [],
+        });
+        continue;
+      }
+
+      const query = queries.get(event.recommendationId);
+      if (!query || !event.templateId) continue;
+      const pick = query.picks.find(p => p.templateId === event.templateId);
+      if (event.eventType === 'selected') {
+        if (!pick) query.picks.push({ templateId: event.templateId, favorited: false, edited: false, regenerated: false });
+      } else if (pick) {
+        if (event.eventType === 'favorited') pick.favorited = true;
+        if (event.eventType === 'edited') pick.edited = true;
+        if (event.eventType === 'regenerated') pick.regenerated = true;
+      }
+    }
+
+    return Array.from(queries.values()).filter(query => query.picks.length > 0 && query.candidates.length > 0);
+  }
+
+  /**
+   * Store a trained model and make it the one the selector re-ranks with
+   */
+  async activateModel(model: RankingModel, trainedOn: number, metrics: RankingEvaluation): Promise<TemplateRankingModelRecord> {
+    const record = await db.transaction(async (tx) => {
+      await tx.update(templateRankingModels).set({ isActive: false }).where(eq(templateRankingModels.isActive, true));
+      const [created] = await tx.insert(templateRankingModels).values({ model, trainedOn, metrics, isActive: true }).returning();
+      return created;
+    });
+    this.cachedModel = null;
+    console.log(`[SELECTION LOG] Activated ranking model ${record.id} (trained on ${trainedOn} queries)`);
+    return record;
+  }
+
+  /**
+   * The active ranking model, or null to keep the heuristic order (cached for a few minutes)
+   */
+  async getActiveModel(): Promise<RankingModel | null> {
+    if (this.cachedModel && Date.now() - this.cachedModel.loadedAt < MODEL_CACHE_MS) {
+      return this.cachedModel.model;
+    }
+    try {
+      const [record] = await db
+        .select()
+        .from(templateRankingModels)
+        .where(eq(templateRankingModels.isActive, true))
+        .orderBy(desc(templateRankingModels.createdAt))
+        .limit(1);
+      this.cachedModel = { model: (record?.model as RankingModel | undefined) ?? null, loadedAt: Date.now() };
+    } catch (error) {
+      console.error('[SELECTION LOG] Failed to load ranking model:', error);
+      this.cachedModel = { model: null, loadedAt: Date.now() };
+    }
+    return this.cachedModel.model;
+  }
+}
+
+export const selectionLog = new SelectionLog();
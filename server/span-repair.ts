@@ -0,0 +1,138 @@
+/**
+ * Span Repair
+ *
+ * Rewrites only the offending sentences/paragraphs of a script instead of sending the whole
+ * script back to the model. Callers locate the spans (RepairTarget) for their failed checks;
+ * each span goes to the LLM with the sentence before and after it as context, and the
+ * rewrites are spliced back in as ScriptRepairs the user can accept or reject one by one.
+ */
+
+import { llmProvider, cleanJsonResponse } from './llm-provider';
+import { splitSentences } from './script-engine/phase-segmenter';
+import { applyRepairs, createRepair, type ScriptRepair } from '@shared/script-repair';
+
+// 'rewrite': the whole script goes back to the model; 'spans': only the located spans do
+export type RepairMode = 'rewrite' | 'spans';
+
+export interface RepairTarget {
+  start: number; // Offsets into the script
+  end: number;
+  reasons: string[];
+}
+
+export interface SpanRepairResult {
+  script: string; // The script with every repair applied
+  repairs: ScriptRepair[];
+  unrepaired: RepairTarget[]; // Spans the model skipped or answered unusably
+}
+
+// One call handles at most this many spans; the rest are left for the next run
+const MAX_SPANS_PER_CALL = 12;
+
+// A rewrite far shorter or longer than its span is drift, not a repair
+const MIN_LENGTH_RATIO = 0.3;
+const MAX_LENGTH_RATIO = 3;
+
+/**
+ * One target per sentence matching `predicate`
+ */
+export function sentenceTargets(
+  script: string,
+  predicate: (sentence: string, index: number) => boolean,
+  reason: string
+): RepairTarget[] {
+  return splitSentences(script)
+    .filter((sentence, i) => predicate(sentence.text, i))
+    .map(sentence => ({ start: sentence.start, end: sentence.end, reasons: [reason] }));
+}
+
+/**
+ * One target covering the sentences that start within [from, to) (the first `maxSentences` of them)
+ */
+export function rangeTarget(script: string, from: number, to: number, reason: string, maxSentences?: number): RepairTarget | null {
+  const sentences = splitSentences(script)
+    .filter(sentence => sentence.start >= from && sentence.start < to)
+    .slice(0, maxSentences);
+  if (sentences.length === 0) return null;
+  return { start: sentences[0].start, end: sentences[sentences.length - 1].end, reasons: [reason] };
+}
+
+/**
+ * Merge overlapping targets (their reasons are combined)
+ */
+export function mergeTargets(targets: RepairTarget[]): RepairTarget[] {
+  const merged: RepairTarget[] = [];
+  for (const target of [...targets].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && target.start < last.end) {
+      last.end = Math.max(last.end, target.end);
+      last.reasons.push(...target.reasons.filter(reason => !last.reasons.includes(reason)));
+    } else {
+      merged.push({ ...target, reasons: [...target.reasons] });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Rewrite the target spans with one LLM call and splice the rewrites back in
+ */
+export async function repairSpans(
+  script: string,
+  targets: RepairTarget[],
+  options: { task: string; system: string; guidance?: string }
+): Promise<SpanRepairResult> {
+  const merged = mergeTargets(targets);
+  const spans = merged.slice(0, MAX_SPANS_PER_CALL);
+  const unrepaired = merged.slice(MAX_SPANS_PER_CALL);
+  if (spans.length === 0) {
+    return { script, repairs: [], unrepaired };
+  }
+
+  const sentences = splitSentences(script);
+  const passages = spans.map((span, i) => {
+    const before = sentences.filter(sentence => sentence.end <= span.start).pop()?.text;
+    const after = sentences.find(sentence => sentence.start >= span.end)?.text;
+    return `[${i + 1}]
+Issues:
+${span.reasons.map(reason => `- ${reason}`).join('\n')}
+${before ? `Before (context, do not rewrite): ${before}\n` : ''}Passage: ${script.slice(span.start, span.end)}
+${after ? `After (context, do not rewrite): ${after}\n` : ''}`;
+  }).join('\n');
+
+  const responseText = await llmProvider.complete({
+    task: options.task,
+    system: options.system,
+    prompt: `Rewrite each numbered passage of a hypnosis script to fix its issues. The surrounding sentences are shown only so the rewrite flows into them - return the passage alone.
+${options.guidance ? `\n${options.guidance}\n` : ''}
+${passages}
+Keep each rewrite close to the passage's length, meaning and tone. If a passage doesn't need a change, leave it out.
+
+Return as JSON:
+{
+  "repairs": [{ "id": 1, "replacement": "The rewritten passage..." }]
+}`,
+    maxTokens: 4000,
+  });
+
+  const answer = JSON.parse(cleanJsonResponse(responseText)) as { repairs?: Array<{ id: number; replacement: string }> };
+
+  const repairs: ScriptRepair[] = [];
+  spans.forEach((span, i) => {
+    const original = script.slice(span.start, span.end);
+    const replacement = answer.repairs?.find(r => Number(r.id) === i + 1)?.replacement?.trim();
+    const usable = !!replacement
+      && replacement !== original
+      && replacement.length >= original.length * MIN_LENGTH_RATIO
+      && replacement.length <= original.length * MAX_LENGTH_RATIO;
+
+    if (usable) {
+      repairs.push(createRepair(script, `repair-${repairs.length + 1}`, span.start, span.end, replacement!, span.reasons));
+    } else {
+      unrepaired.push(span);
+    }
+  });
+
+  console.log(`[SPAN REPAIR] ${repairs.length}/${spans.length} spans repaired (${options.task})`);
+  return { script: applyRepairs(script, repairs), repairs, unrepaired };
+}
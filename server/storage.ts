@@ -1,4 +1,4 @@
-import { eq, and, gte, desc, sql } from "drizzle-orm";
+import { eq, and, gte, lt, desc, sql } from "drizzle-orm";
 import { db } from "./db";
 import {
   dimensions,
@@ -12,6 +12,12 @@ import {
   scriptPackages,
   packageScripts,
   arcSequences,
+  jobs,
+  generationAudio,
+  methodologyConfigs,
+  safetyScreenings,
+  treatmentPlans,
+  treatmentPlanSessions,
   type Dimension,
   type Archetype,
   type Style,
@@ -28,7 +34,20 @@ import {
   type InsertPackageScript,
   type ArcSequence,
   type InsertArcSequence,
+  type Job,
+  type InsertJob,
+  type GenerationAudio,
+  type InsertGenerationAudio,
+  type MethodologyConfig,
+  type InsertMethodologyConfig,
+  type SafetyScreening,
+  type InsertSafetyScreening,
+  type TreatmentPlan,
+  type InsertTreatmentPlan,
+  type TreatmentPlanSession,
+  type InsertTreatmentPlanSession,
 } from "@shared/schema";
+import { methodologyConfig } from "./script-engine/methodology-config";
 
 export interface IStorage {
   // User operations (for Replit Auth)
@@ -54,6 +73,7 @@ export interface IStorage {
   createGeneration(generation: InsertGeneration): Promise<Generation>;
   getGenerationById(id: number): Promise<Generation | undefined>;
   getGenerationByPaymentIntent(paymentIntentId: string): Promise<Generation | undefined>;
+  getGenerationByJobId(jobId: number): Promise<Generation | undefined>;
   getAllGenerations(): Promise<Generation[]>;
   getGenerationsByEmail(email: string): Promise<Generation[]>;
   getGenerationsByUserId(userId: string): Promise<Generation[]>;
@@ -62,6 +82,7 @@ export interface IStorage {
   getGenerationsByParentId(parentId: number): Promise<Generation[]>;
   updateGenerationPaymentStatus(id: number, paymentStatus: string): Promise<void>;
   updateGenerationScript(id: number, fullScript: string): Promise<void>;
+  updateGenerationImages(id: number, imageUrl: string, imageUrls: string[]): Promise<void>;
   updateGenerationFavorite(id: number, isFavorite: boolean): Promise<Generation>;
   deleteGeneration(id: number): Promise<void>;
   
@@ -78,6 +99,7 @@ export interface IStorage {
   getPackagesByUserId(userId: string): Promise<ScriptPackage[]>;
   getPackageById(id: number): Promise<ScriptPackage | undefined>;
   updatePackageStatus(id: number, status: string): Promise<void>;
+  markPackageExported(id: number, format: string): Promise<void>;
   
   // Package Scripts
   createPackageScript(script: InsertPackageScript): Promise<PackageScript>;
@@ -94,6 +116,56 @@ export interface IStorage {
   updateArcSequence(id: number, updates: Partial<InsertArcSequence>): Promise<ArcSequence>;
   deleteArcSequence(id: number): Promise<void>;
   incrementArcSequenceUsage(id: number): Promise<void>;
+  
+  // Background jobs
+  createJob(job: InsertJob): Promise<Job>;
+  getJobById(id: number): Promise<Job | undefined>;
+  claimNextJob(workerId: string, maxRunningPerUser: number): Promise<Job | undefined>;
+  updateJobProgress(id: number, progress: unknown[]): Promise<void>;
+  // Outcome writes only apply while workerId still holds the lease; false = the lease was lost
+  completeJob(id: number, workerId: string, result: unknown): Promise<boolean>;
+  retryJob(id: number, workerId: string, errorMessage: string, runAt: Date): Promise<boolean>;
+  failJob(id: number, workerId: string, errorMessage: string): Promise<boolean>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+  renewJobLease(id: number, workerId: string): Promise<void>;
+  getJobsByPayload(type: string, field: string, value: string | number): Promise<Job[]>;
+  
+  // Stored audio renditions
+  createGenerationAudio(audio: InsertGenerationAudio): Promise<GenerationAudio>;
+  getGenerationAudio(generationId: number): Promise<GenerationAudio[]>;
+  getGenerationAudioById(id: number): Promise<GenerationAudio | undefined>;
+  deleteGenerationAudio(id: number): Promise<void>;
+  markGenerationAudioStale(generationId: number, scriptHash: string): Promise<number>;
+  getGenerationAudioUrls(generationId: number): Promise<string[]>;
+  
+  // Methodology config versions
+  getActiveMethodologyConfigs(): Promise<MethodologyConfig[]>;
+  getMethodologyConfigVersions(key: string): Promise<MethodologyConfig[]>;
+  getMethodologyConfigVersion(key: string, version: number): Promise<MethodologyConfig | undefined>;
+  createMethodologyConfigVersion(config: InsertMethodologyConfig): Promise<MethodologyConfig>;
+  activateMethodologyConfigVersion(key: string, version: number): Promise<MethodologyConfig | undefined>;
+  
+  // Safety screening audit
+  createSafetyScreening(screening: InsertSafetyScreening): Promise<SafetyScreening>;
+  getSafetyScreenings(options?: { decision?: string; limit?: number }): Promise<SafetyScreening[]>;
+  
+  // Treatment plans
+  createTreatmentPlan(plan: InsertTreatmentPlan): Promise<TreatmentPlan>;
+  getTreatmentPlansByUserId(userId: string): Promise<TreatmentPlan[]>;
+  getTreatmentPlanById(id: number): Promise<TreatmentPlan | undefined>;
+  updateTreatmentPlanStatus(id: number, status: string): Promise<void>;
+  deleteTreatmentPlan(id: number): Promise<void>;
+  createTreatmentPlanSession(session: InsertTreatmentPlanSession): Promise<TreatmentPlanSession>;
+  getTreatmentPlanSessions(planId: number): Promise<TreatmentPlanSession[]>;
+  updateTreatmentPlanSession(id: number, updates: Partial<InsertTreatmentPlanSession>): Promise<TreatmentPlanSession>;
+}
+
+// Thrown inside claimNextJob to roll back a claim that would put a user over their running limit
+class JobClaimConflict extends Error {}
+
+// The job is still running under this worker's lease
+function leaseHeldBy(id: number, workerId: string) {
+  return and(eq(jobs.id, id), eq(jobs.lockedBy, workerId), eq(jobs.status, 'running'));
 }
 
 export class DatabaseStorage implements IStorage {
@@ -155,7 +227,10 @@ export class DatabaseStorage implements IStorage {
   
   // Generations
   async createGeneration(generation: InsertGeneration): Promise<Generation> {
-    const result = await db.insert(generations).values(generation).returning();
+    const result = await db
+      .insert(generations)
+      .values({ ...generation, methodologyVersions: generation.methodologyVersions ?? methodologyConfig.getVersions() })
+      .returning();
     return result[0];
   }
   
@@ -169,6 +244,11 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
   
+  async getGenerationByJobId(jobId: number): Promise<Generation | undefined> {
+    const result = await db.select().from(generations).where(eq(generations.jobId, jobId));
+    return result[0];
+  }
+  
   async getAllGenerations(): Promise<Generation[]> {
     return await db.select().from(generations).orderBy(desc(generations.createdAt));
   }
@@ -241,6 +321,10 @@ export class DatabaseStorage implements IStorage {
     await db.update(generations).set({ fullScript }).where(eq(generations.id, id));
   }
   
+  async updateGenerationImages(id: number, imageUrl: string, imageUrls: string[]): Promise<void> {
+    await db.update(generations).set({ imageUrl, imageUrls }).where(eq(generations.id, id));
+  }
+  
   async updateGenerationTitle(id: number, title: string): Promise<void> {
     await db.update(generations).set({ title }).where(eq(generations.id, id));
   }
@@ -351,6 +435,13 @@ export class DatabaseStorage implements IStorage {
       .where(eq(scriptPackages.id, id));
   }
 
+  async markPackageExported(id: number, format: string): Promise<void> {
+    await db
+      .update(scriptPackages)
+      .set({ exportedAt: new Date(), exportFormat: format, updatedAt: new Date() })
+      .where(eq(scriptPackages.id, id));
+  }
+
   // Package Scripts
   async createPackageScript(script: InsertPackageScript): Promise<PackageScript> {
     const [result] = await db.insert(packageScripts).values(script).returning();
@@ -435,6 +526,334 @@ export class DatabaseStorage implements IStorage {
       .set({ usageCount: sql`${arcSequences.usageCount} + 1` })
       .where(eq(arcSequences.id, id));
   }
+  
+  // Background jobs
+  async createJob(job: InsertJob): Promise<Job> {
+    const [result] = await db.insert(jobs).values(job).returning();
+    return result;
+  }
+  
+  async getJobById(id: number): Promise<Job | undefined> {
+    const [result] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return result;
+  }
+  
+  /**
+   * Atomically lease the next due job, skipping users already at their running limit.
+   * SKIP LOCKED lets several workers poll the same table without double-claiming; a per-user
+   * advisory lock serializes the running-limit check, which concurrent claims could both pass.
+   */
+  async claimNextJob(workerId: string, maxRunningPerUser: number): Promise<Job | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [claimed] = await tx
+          .update(jobs)
+          .set({
+            status: 'running',
+            lockedAt: new Date(),
+            lockedBy: workerId,
+            attempts: sql`${jobs.attempts} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(sql`${jobs.id} = (
+            SELECT j.id FROM jobs j
+            WHERE j.status = 'queued'
+              AND j.run_at <= now()
+              AND (SELECT count(*) FROM jobs r WHERE r.user_id = j.user_id AND r.status = 'running') < ${maxRunningPerUser}
+            ORDER BY j.run_at, j.id
+            LIMIT 1
+            FOR UPDATE SKIP LOCKED
+          )`)
+          .returning();
+        if (!claimed) return undefined;
+
+        // Wait out any other claim for this user, then count again with its job committed
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${claimed.userId}))`);
+        const [{ running }] = await tx
+          .select({ running: sql<number>`count(*)::int` })
+          .from(jobs)
+          .where(and(eq(jobs.userId, claimed.userId), eq(jobs.status, 'running')));
+        if (running > maxRunningPerUser) {
+          throw new JobClaimConflict();
+        }
+        return claimed;
+      });
+    } catch (error) {
+      if (error instanceof JobClaimConflict) return undefined; // Rolled back; the job stays queued
+      throw error;
+    }
+  }
+  
+  async updateJobProgress(id: number, progress: unknown[]): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ progress, updatedAt: new Date() })
+      .where(eq(jobs.id, id));
+  }
+  
+  async completeJob(id: number, workerId: string, result: unknown): Promise<boolean> {
+    const updated = await db
+      .update(jobs)
+      .set({
+        status: 'completed',
+        result: result ?? null,
+        errorMessage: null,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(leaseHeldBy(id, workerId))
+      .returning({ id: jobs.id });
+    return updated.length > 0;
+  }
+  
+  async retryJob(id: number, workerId: string, errorMessage: string, runAt: Date): Promise<boolean> {
+    const updated = await db
+      .update(jobs)
+      .set({ status: 'queued', errorMessage, runAt, lockedAt: null, lockedBy: null, updatedAt: new Date() })
+      .where(leaseHeldBy(id, workerId))
+      .returning({ id: jobs.id });
+    return updated.length > 0;
+  }
+  
+  async failJob(id: number, workerId: string, errorMessage: string): Promise<boolean> {
+    const updated = await db
+      .update(jobs)
+      .set({
+        status: 'failed',
+        errorMessage,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(leaseHeldBy(id, workerId))
+      .returning({ id: jobs.id });
+    return updated.length > 0;
+  }
+  
+  /**
+   * Return jobs whose worker died mid-run (lease expired) to the queue
+   */
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const result = await db
+      .update(jobs)
+      .set({ status: 'queued', lockedAt: null, lockedBy: null, runAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return result.length;
+  }
+  
+  /**
+   * Heartbeat: extend the lease of a job this worker is still running
+   */
+  async renewJobLease(id: number, workerId: string): Promise<void> {
+    await db
+      .update(jobs)
+      .set({ lockedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, 'running'), eq(jobs.lockedBy, workerId)));
+  }
+  
+  /**
+   * Jobs of a type whose payload has field = value (newest first), e.g. child jobs of a fan-out
+   */
+  async getJobsByPayload(type: string, field: string, value: string | number): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.type, type), sql`${jobs.payload}->>${field} = ${String(value)}`))
+      .orderBy(desc(jobs.createdAt));
+  }
+  
+  // Stored audio renditions
+  async createGenerationAudio(audio: InsertGenerationAudio): Promise<GenerationAudio> {
+    const [result] = await db.insert(generationAudio).values(audio).returning();
+    return result;
+  }
+  
+  async getGenerationAudio(generationId: number): Promise<GenerationAudio[]> {
+    return await db
+      .select()
+      .from(generationAudio)
+      .where(eq(generationAudio.generationId, generationId))
+      .orderBy(desc(generationAudio.createdAt));
+  }
+  
+  async getGenerationAudioById(id: number): Promise<GenerationAudio | undefined> {
+    const [result] = await db.select().from(generationAudio).where(eq(generationAudio.id, id));
+    return result;
+  }
+  
+  async deleteGenerationAudio(id: number): Promise<void> {
+    await db.delete(generationAudio).where(eq(generationAudio.id, id));
+  }
+  
+  /**
+   * Flag renditions of older script text as stale (and un-flag any that match again after a revert)
+   */
+  async markGenerationAudioStale(generationId: number, scriptHash: string): Promise<number> {
+    const result = await db
+      .update(generationAudio)
+      .set({ isStale: sql`${generationAudio.scriptHash} <> ${scriptHash}` })
+      .where(eq(generationAudio.generationId, generationId))
+      .returning({ id: generationAudio.id, isStale: generationAudio.isStale });
+    return result.filter(row => row.isStale).length;
+  }
+  
+  /**
+   * Current (non-stale) narration for a generation, oldest first
+   */
+  async getGenerationAudioUrls(generationId: number): Promise<string[]> {
+    const rows = await db
+      .select({ storagePath: generationAudio.storagePath })
+      .from(generationAudio)
+      .where(and(
+        eq(generationAudio.generationId, generationId),
+        eq(generationAudio.isStale, false)
+      ))
+      .orderBy(generationAudio.createdAt);
+    return rows.map(row => row.storagePath);
+  }
+  
+  // Methodology config versions
+  async getActiveMethodologyConfigs(): Promise<MethodologyConfig[]> {
+    return await db
+      .select()
+      .from(methodologyConfigs)
+      .where(eq(methodologyConfigs.isActive, true));
+  }
+  
+  async getMethodologyConfigVersions(key: string): Promise<MethodologyConfig[]> {
+    return await db
+      .select()
+      .from(methodologyConfigs)
+      .where(eq(methodologyConfigs.key, key))
+      .orderBy(desc(methodologyConfigs.version));
+  }
+  
+  async getMethodologyConfigVersion(key: string, version: number): Promise<MethodologyConfig | undefined> {
+    const [result] = await db
+      .select()
+      .from(methodologyConfigs)
+      .where(and(eq(methodologyConfigs.key, key), eq(methodologyConfigs.version, version)));
+    return result;
+  }
+  
+  /**
+   * Save a new version of a config and make it the active one
+   */
+  async createMethodologyConfigVersion(config: InsertMethodologyConfig): Promise<MethodologyConfig> {
+    return await db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: sql<number>`coalesce(max(${methodologyConfigs.version}), 0)` })
+        .from(methodologyConfigs)
+        .where(eq(methodologyConfigs.key, config.key));
+      
+      await tx
+        .update(methodologyConfigs)
+        .set({ isActive: false })
+        .where(eq(methodologyConfigs.key, config.key));
+      
+      const [result] = await tx
+        .insert(methodologyConfigs)
+        .values({ ...config, version: Number(latest) + 1, isActive: true })
+        .returning();
+      return result;
+    });
+  }
+  
+  /**
+   * Make an earlier version live again (rollback); version 0 deactivates them all so the bundled default is live
+   */
+  async activateMethodologyConfigVersion(key: string, version: number): Promise<MethodologyConfig | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(methodologyConfigs)
+        .set({ isActive: false })
+        .where(eq(methodologyConfigs.key, key));
+      
+      const [result] = await tx
+        .update(methodologyConfigs)
+        .set({ isActive: true })
+        .where(and(eq(methodologyConfigs.key, key), eq(methodologyConfigs.version, version)))
+        .returning();
+      return result;
+    });
+  }
+  
+  // Safety screening audit
+  async createSafetyScreening(screening: InsertSafetyScreening): Promise<SafetyScreening> {
+    const [result] = await db
+      .insert(safetyScreenings)
+      .values(screening)
+      .returning();
+    return result;
+  }
+  
+  async getSafetyScreenings(options: { decision?: string; limit?: number } = {}): Promise<SafetyScreening[]> {
+    return await db
+      .select()
+      .from(safetyScreenings)
+      .where(options.decision ? eq(safetyScreenings.decision, options.decision) : undefined)
+      .orderBy(desc(safetyScreenings.createdAt))
+      .limit(options.limit ?? 100);
+  }
+  
+  // Treatment plans
+  async createTreatmentPlan(plan: InsertTreatmentPlan): Promise<TreatmentPlan> {
+    const [result] = await db.insert(treatmentPlans).values(plan).returning();
+    return result;
+  }
+  
+  async getTreatmentPlansByUserId(userId: string): Promise<TreatmentPlan[]> {
+    return await db
+      .select()
+      .from(treatmentPlans)
+      .where(eq(treatmentPlans.userId, userId))
+      .orderBy(desc(treatmentPlans.createdAt));
+  }
+  
+  async getTreatmentPlanById(id: number): Promise<TreatmentPlan | undefined> {
+    const [result] = await db
+      .select()
+      .from(treatmentPlans)
+      .where(eq(treatmentPlans.id, id));
+    return result;
+  }
+  
+  async updateTreatmentPlanStatus(id: number, status: string): Promise<void> {
+    await db
+      .update(treatmentPlans)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(treatmentPlans.id, id));
+  }
+  
+  async deleteTreatmentPlan(id: number): Promise<void> {
+    await db.delete(treatmentPlans).where(eq(treatmentPlans.id, id));
+  }
+  
+  async createTreatmentPlanSession(session: InsertTreatmentPlanSession): Promise<TreatmentPlanSession> {
+    const [result] = await db.insert(treatmentPlanSessions).values(session).returning();
+    return result;
+  }
+  
+  async getTreatmentPlanSessions(planId: number): Promise<TreatmentPlanSession[]> {
+    return await db
+      .select()
+      .from(treatmentPlanSessions)
+      .where(eq(treatmentPlanSessions.planId, planId))
+      .orderBy(treatmentPlanSessions.sessionNumber);
+  }
+  
+  async updateTreatmentPlanSession(id: number, updates: Partial<InsertTreatmentPlanSession>): Promise<TreatmentPlanSession> {
+    const [result] = await db
+      .update(treatmentPlanSessions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(treatmentPlanSessions.id, id))
+      .returning();
+    return result;
+  }
 }
 
 export const storage = new DatabaseStorage();
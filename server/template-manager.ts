@@ -1,15 +1,43 @@
-import { eq, and, or, ilike, arrayContains, sql, desc } from "drizzle-orm";
+import { eq, and, or, ilike, arrayContains, sql, desc, asc, gte, inArray, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   templates,
+  templateVersions,
+  templateReviews,
   userTemplateLibraries,
+  users,
   type Template,
   type InsertTemplate,
+  type TemplateVersion,
+  type TemplateReview,
+  type InsertTemplateReview,
+  type TemplateSort,
   type UserTemplateLibrary,
   type InsertUserTemplateLibrary,
   type TemplateJSON,
   templateJSONSchema,
 } from "@shared/schema";
+import { diffTemplates, bumpTemplateVersion, type TemplateChange } from "@shared/template-diff";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface TemplateBrowseFilters {
+  type?: 'system' | 'public';
+  category?: string;
+  authorId?: string;
+  minRating?: number; // 1-5
+  sort?: TemplateSort; // Defaults to usage
+}
+
+export interface TemplateReviewWithAuthor extends TemplateReview {
+  author: { firstName: string | null; lastName: string | null; profileImageUrl: string | null };
+}
+
+export interface TemplateVersionOptions {
+  notes?: string;
+  createdBy?: string; // users.id of the editor
+  keepVersion?: boolean; // Store TemplateJSON.version exactly as given (imports) instead of auto-bumping
+}
 
 export interface ITemplateManager {
   // Template CRUD
@@ -19,16 +47,33 @@ export interface ITemplateManager {
   getSystemTemplates(): Promise<Template[]>;
   getPublicTemplates(): Promise<Template[]>;
   getUserTemplates(userId: string): Promise<Template[]>;
-  createTemplate(template: InsertTemplate): Promise<Template>;
-  updateTemplate(templateId: string, updates: Partial<InsertTemplate>): Promise<Template | undefined>;
+  createTemplate(template: InsertTemplate, options?: TemplateVersionOptions): Promise<Template>;
+  updateTemplate(templateId: string, updates: Partial<InsertTemplate>, options?: TemplateVersionOptions): Promise<Template | undefined>;
   deleteTemplate(templateId: string): Promise<void>;
   incrementUsageCount(templateId: string): Promise<void>;
   
+  // Template versions (immutable snapshots of jsonData)
+  getTemplateVersions(templateId: string): Promise<TemplateVersion[]>;
+  getTemplateVersion(templateId: string, version: number): Promise<TemplateVersion | undefined>;
+  diffTemplateVersions(templateId: string, fromVersion: number, toVersion: number): Promise<TemplateChange[] | undefined>;
+  rollbackTemplate(templateId: string, version: number, options?: TemplateVersionOptions): Promise<Template | undefined>;
+  recordCurrentVersion(templateId: string, options?: TemplateVersionOptions): Promise<number | undefined>;
+  pinVersion(template: Template): Promise<number | null>;
+  
   // Template querying
+  browseTemplates(filters: TemplateBrowseFilters): Promise<Template[]>;
   getTemplatesByCategory(category: string): Promise<Template[]>;
   searchTemplatesByTags(tags: string[]): Promise<Template[]>;
   searchTemplatesByPresentingIssue(issue: string): Promise<Template[]>;
   
+  // Marketplace reviews and moderation
+  getTemplateReviews(templateId: string): Promise<TemplateReviewWithAuthor[]>;
+  upsertTemplateReview(review: InsertTemplateReview): Promise<TemplateReview>;
+  deleteTemplateReview(templateId: string, userId: string): Promise<void>;
+  getModerationQueue(): Promise<Template[]>;
+  moderateTemplate(templateId: string, decision: 'approved' | 'rejected', moderatorId: string, notes?: string): Promise<Template | undefined>;
+  isListedPublicly(template: Template): boolean;
+  
   // User template library
   addTemplateToUserLibrary(userId: string, templateId: string): Promise<UserTemplateLibrary>;
   removeTemplateFromUserLibrary(userId: string, templateId: string): Promise<void>;
@@ -39,6 +84,18 @@ export interface ITemplateManager {
   validateTemplateJSON(jsonData: any): TemplateJSON;
 }
 
+// System templates, and user templates a moderator approved after they were made public
+const listedPublicly = or(
+  eq(templates.isSystem, true),
+  and(eq(templates.isPublic, true), eq(templates.moderationStatus, 'approved'))
+)!;
+
+const TEMPLATE_SORTS: Record<TemplateSort, SQL[]> = {
+  rating: [sql`${templates.ratingAvg} desc nulls last`, desc(templates.reviewCount), desc(templates.usageCount)],
+  usage: [desc(templates.usageCount), desc(templates.createdAt)],
+  recent: [desc(templates.createdAt)],
+};
+
 export class TemplateManager implements ITemplateManager {
   // Template CRUD
   async getTemplateById(templateId: string): Promise<Template | undefined> {
@@ -78,7 +135,7 @@ export class TemplateManager implements ITemplateManager {
     return await db
       .select()
       .from(templates)
-      .where(eq(templates.isPublic, true))
+      .where(listedPublicly)
       .orderBy(desc(templates.usageCount));
   }
 
@@ -90,30 +147,79 @@ export class TemplateManager implements ITemplateManager {
       .orderBy(desc(templates.createdAt));
   }
 
-  async createTemplate(template: InsertTemplate): Promise<Template> {
+  async createTemplate(template: InsertTemplate, options: TemplateVersionOptions = {}): Promise<Template> {
     // Validate JSON data
     this.validateTemplateJSON(template.jsonData);
     
-    const result = await db.insert(templates).values(template).returning();
-    return result[0];
+    // Templates published at creation wait for moderation like any other
+    const moderationStatus = template.isPublic && !template.isSystem ? 'pending' : template.moderationStatus;
+    
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(templates).values({ ...template, moderationStatus }).returning();
+      const currentVersion = await this.snapshot(tx, created.templateId, created.jsonData as TemplateJSON, null, options);
+      const [result] = await tx
+        .update(templates)
+        .set({ currentVersion })
+        .where(eq(templates.id, created.id))
+        .returning();
+      return result;
+    });
   }
 
-  async updateTemplate(templateId: string, updates: Partial<InsertTemplate>): Promise<Template | undefined> {
+  /**
+   * Updates in place; a jsonData change is snapshotted as a new version first (with its diff),
+   * bumping TemplateJSON.version when the caller left it unchanged
+   */
+  async updateTemplate(
+    templateId: string,
+    updates: Partial<InsertTemplate>,
+    options: TemplateVersionOptions = {}
+  ): Promise<Template | undefined> {
     // If updating JSON, validate it
     if (updates.jsonData) {
       this.validateTemplateJSON(updates.jsonData);
     }
     
-    const result = await db
-      .update(templates)
-      .set({
-        ...updates,
-        updatedAt: new Date(),
-      })
-      .where(eq(templates.templateId, templateId))
-      .returning();
-    
-    return result[0];
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(templates).where(eq(templates.templateId, templateId)).limit(1);
+      if (!existing) return undefined;
+      
+      if (updates.isPublic !== undefined && !existing.isSystem) {
+        updates = { ...updates, ...this.publicationUpdates(existing, updates.isPublic) };
+      }
+      
+      let currentVersion = existing.currentVersion;
+      if (updates.jsonData) {
+        const before = existing.jsonData as TemplateJSON;
+        let after = updates.jsonData as TemplateJSON;
+        const changes = diffTemplates(before, after);
+        
+        if (changes.length > 0) {
+          // New public content goes back through moderation before it is listed again
+          if (!existing.isSystem && (updates.isPublic ?? existing.isPublic)) {
+            updates = { ...updates, moderationStatus: 'pending', moderationNotes: null, moderatedBy: null, moderatedAt: null };
+          }
+          if (after.version === before.version && !options.keepVersion) {
+            after = { ...after, version: bumpTemplateVersion(before.version, changes) };
+            updates = { ...updates, jsonData: after };
+          }
+          // Templates created before versioning get their original content as version 1
+          const previous = currentVersion ?? await this.snapshot(tx, templateId, before, null, { notes: 'Original version' });
+          currentVersion = await this.snapshot(tx, templateId, after, { version: previous, jsonData: before }, options);
+        }
+      }
+      
+      const [result] = await tx
+        .update(templates)
+        .set({
+          ...updates,
+          currentVersion,
+          updatedAt: new Date(),
+        })
+        .where(eq(templates.templateId, templateId))
+        .returning();
+      return result;
+    });
   }
 
   async deleteTemplate(templateId: string): Promise<void> {
@@ -129,7 +235,150 @@ export class TemplateManager implements ITemplateManager {
       .where(eq(templates.templateId, templateId));
   }
 
+  // Template versions
+  async getTemplateVersions(templateId: string): Promise<TemplateVersion[]> {
+    return await db
+      .select()
+      .from(templateVersions)
+      .where(eq(templateVersions.templateId, templateId))
+      .orderBy(desc(templateVersions.version));
+  }
+
+  async getTemplateVersion(templateId: string, version: number): Promise<TemplateVersion | undefined> {
+    const result = await db
+      .select()
+      .from(templateVersions)
+      .where(and(eq(templateVersions.templateId, templateId), eq(templateVersions.version, version)))
+      .limit(1);
+    return result[0];
+  }
+
+  async diffTemplateVersions(templateId: string, fromVersion: number, toVersion: number): Promise<TemplateChange[] | undefined> {
+    const [from, to] = await Promise.all([
+      this.getTemplateVersion(templateId, fromVersion),
+      this.getTemplateVersion(templateId, toVersion),
+    ]);
+    if (!from || !to) return undefined;
+    return diffTemplates(from.jsonData as TemplateJSON, to.jsonData as TemplateJSON);
+  }
+
+  /**
+   * Restore an earlier version's content as a new version - history is never rewritten
+   */
+  async rollbackTemplate(templateId: string, version: number, options: TemplateVersionOptions = {}): Promise<Template | undefined> {
+    const target = await this.getTemplateVersion(templateId, version);
+    if (!target) return undefined;
+    
+    const jsonData = target.jsonData as TemplateJSON;
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(templates).where(eq(templates.templateId, templateId)).limit(1);
+      if (!existing) return undefined;
+      
+      const currentVersion = await this.snapshot(
+        tx,
+        templateId,
+        jsonData,
+        existing.currentVersion ? { version: existing.currentVersion, jsonData: existing.jsonData as TemplateJSON } : null,
+        { notes: options.notes || `Rolled back to version ${version}`, createdBy: options.createdBy },
+        version
+      );
+      
+      const [result] = await tx
+        .update(templates)
+        .set({
+          jsonData,
+          name: jsonData.name,
+          description: jsonData.description,
+          category: jsonData.category,
+          tags: jsonData.tags,
+          currentVersion,
+          updatedAt: new Date(),
+        })
+        .where(eq(templates.templateId, templateId))
+        .returning();
+      return result;
+    });
+  }
+
+  /**
+   * Snapshot jsonData if it was written without one (e.g. the seed upsert); returns the current version
+   */
+  async recordCurrentVersion(templateId: string, options: TemplateVersionOptions = {}): Promise<number | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(templates).where(eq(templates.templateId, templateId)).limit(1);
+      if (!existing) return undefined;
+      
+      const jsonData = existing.jsonData as TemplateJSON;
+      const [latest] = existing.currentVersion
+        ? await tx
+            .select()
+            .from(templateVersions)
+            .where(and(eq(templateVersions.templateId, templateId), eq(templateVersions.version, existing.currentVersion)))
+            .limit(1)
+        : [];
+      const previous = latest ? { version: latest.version, jsonData: latest.jsonData as TemplateJSON } : null;
+      if (previous && diffTemplates(previous.jsonData, jsonData).length === 0) return previous.version;
+      
+      const currentVersion = await this.snapshot(tx, templateId, jsonData, previous, options);
+      await tx.update(templates).set({ currentVersion }).where(eq(templates.templateId, templateId));
+      return currentVersion;
+    });
+  }
+
+  /**
+   * The version a generation using this (already loaded) template should pin
+   */
+  async pinVersion(template: Template): Promise<number | null> {
+    if (template.currentVersion) return template.currentVersion;
+    return (await this.recordCurrentVersion(template.templateId, { notes: 'Original version' })) ?? null;
+  }
+
+  private async snapshot(
+    tx: Transaction,
+    templateId: string,
+    jsonData: TemplateJSON,
+    previous: { version: number; jsonData: TemplateJSON } | null,
+    options: TemplateVersionOptions,
+    sourceVersion?: number
+  ): Promise<number> {
+    const [{ latest }] = await tx
+      .select({ latest: sql<number>`coalesce(max(${templateVersions.version}), 0)` })
+      .from(templateVersions)
+      .where(eq(templateVersions.templateId, templateId));
+    
+    const [created] = await tx
+      .insert(templateVersions)
+      .values({
+        templateId,
+        version: Number(latest) + 1,
+        semver: jsonData.version,
+        jsonData,
+        changes: previous ? diffTemplates(previous.jsonData, jsonData) : [],
+        notes: options.notes,
+        sourceVersion,
+        createdBy: options.createdBy,
+      })
+      .returning();
+    return created.version;
+  }
+
   // Template querying
+  /**
+   * Marketplace listing: everything publicly listed unless `type` narrows it, sorted by rating, usage or recency
+   */
+  async browseTemplates(filters: TemplateBrowseFilters): Promise<Template[]> {
+    const conditions: SQL[] = [filters.type === 'system' ? eq(templates.isSystem, true) : listedPublicly];
+    if (filters.category) conditions.push(eq(templates.category, filters.category));
+    if (filters.authorId) conditions.push(eq(templates.userId, filters.authorId));
+    if (filters.minRating) conditions.push(gte(templates.ratingAvg, Math.round(filters.minRating * 100)));
+    
+    return await db
+      .select()
+      .from(templates)
+      .where(and(...conditions))
+      .orderBy(...TEMPLATE_SORTS[filters.sort ?? 'usage']);
+  }
+
   async getTemplatesByCategory(category: string): Promise<Template[]> {
     return await db
       .select()
@@ -137,7 +386,7 @@ export class TemplateManager implements ITemplateManager {
       .where(
         and(
           eq(templates.category, category),
-          or(eq(templates.isPublic, true), eq(templates.isSystem, true))
+          listedPublicly
         )
       )
       .orderBy(desc(templates.usageCount));
@@ -150,7 +399,7 @@ export class TemplateManager implements ITemplateManager {
       .where(
         and(
           arrayContains(templates.tags, tags),
-          or(eq(templates.isPublic, true), eq(templates.isSystem, true))
+          listedPublicly
         )
       )
       .orderBy(desc(templates.usageCount));
@@ -164,13 +413,127 @@ export class TemplateManager implements ITemplateManager {
       .where(
         and(
           sql`${templates.jsonData}->>'presenting_issues' ILIKE ${`%${issue}%`}`,
-          or(eq(templates.isPublic, true), eq(templates.isSystem, true))
+          listedPublicly
         )
       )
       .orderBy(desc(templates.usageCount))
       .limit(10);
   }
 
+  // Marketplace reviews and moderation
+  async getTemplateReviews(templateId: string): Promise<TemplateReviewWithAuthor[]> {
+    const result = await db
+      .select({
+        review: templateReviews,
+        author: { firstName: users.firstName, lastName: users.lastName, profileImageUrl: users.profileImageUrl },
+      })
+      .from(templateReviews)
+      .innerJoin(users, eq(templateReviews.userId, users.id))
+      .where(eq(templateReviews.templateId, templateId))
+      .orderBy(desc(templateReviews.updatedAt));
+    
+    return result.map((r) => ({ ...r.review, author: r.author }));
+  }
+
+  /**
+   * One review per user per template - a second review replaces the first
+   */
+  async upsertTemplateReview(review: InsertTemplateReview): Promise<TemplateReview> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(templateReviews)
+        .values(review)
+        .onConflictDoUpdate({
+          target: [templateReviews.templateId, templateReviews.userId],
+          set: { rating: review.rating, comment: review.comment ?? null, updatedAt: new Date() },
+        })
+        .returning();
+      
+      await this.refreshRating(tx, review.templateId);
+      return result;
+    });
+  }
+
+  async deleteTemplateReview(templateId: string, userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(templateReviews)
+        .where(and(eq(templateReviews.templateId, templateId), eq(templateReviews.userId, userId)));
+      await this.refreshRating(tx, templateId);
+    });
+  }
+
+  /**
+   * User templates made public and not yet approved or rejected, oldest first
+   */
+  async getModerationQueue(): Promise<Template[]> {
+    return await db
+      .select()
+      .from(templates)
+      .where(
+        and(
+          eq(templates.isSystem, false),
+          eq(templates.isPublic, true),
+          inArray(templates.moderationStatus, ['none', 'pending']) // 'none': made public before moderation existed
+        )
+      )
+      .orderBy(asc(templates.updatedAt));
+  }
+
+  async moderateTemplate(
+    templateId: string,
+    decision: 'approved' | 'rejected',
+    moderatorId: string,
+    notes?: string
+  ): Promise<Template | undefined> {
+    const result = await db
+      .update(templates)
+      .set({
+        moderationStatus: decision,
+        moderationNotes: notes ?? null,
+        moderatedBy: moderatorId,
+        moderatedAt: new Date(),
+      })
+      .where(and(eq(templates.templateId, templateId), eq(templates.isSystem, false)))
+      .returning();
+    return result[0];
+  }
+
+  isListedPublicly(template: Template): boolean {
+    return template.isSystem || (template.isPublic && template.moderationStatus === 'approved');
+  }
+
+  /**
+   * Making a template public (again) queues it for moderation; making it private takes it out of the marketplace
+   */
+  private publicationUpdates(existing: Template, isPublic: boolean): Partial<InsertTemplate> {
+    if (!isPublic) {
+      return { isPublic, moderationStatus: 'none', moderationNotes: null, moderatedBy: null, moderatedAt: null };
+    }
+    if (existing.isPublic && existing.moderationStatus !== 'rejected') {
+      return { isPublic };
+    }
+    return { isPublic, moderationStatus: 'pending', moderationNotes: null, moderatedBy: null, moderatedAt: null };
+  }
+
+  private async refreshRating(tx: Transaction, templateId: string): Promise<void> {
+    const [{ average, count }] = await tx
+      .select({
+        average: sql<string | null>`avg(${templateReviews.rating})`,
+        count: sql<number>`count(*)`,
+      })
+      .from(templateReviews)
+      .where(eq(templateReviews.templateId, templateId));
+    
+    await tx
+      .update(templates)
+      .set({
+        ratingAvg: average === null ? null : Math.round(Number(average) * 100),
+        reviewCount: Number(count),
+      })
+      .where(eq(templates.templateId, templateId));
+  }
+
   // User template library
   async addTemplateToUserLibrary(userId: string, templateId: string): Promise<UserTemplateLibrary> {
     // Verify template exists
@@ -0,0 +1,203 @@
+/**
+ * Template Ranker - learning-to-rank for template recommendations
+ *
+ * The selector's heuristic scores a template from a handful of signals (issue match, use cases, tags,
+ * rating...). Those signals are logged as features with every recommendation, together with what the
+ * user did next, and a logistic regression learns how much each signal actually predicts a pick.
+ *
+ * - Training data: one logged query per recommendation; shown candidates are examples, picked ones positive
+ * - Outcomes adjust how much a pick counts: favorited scripts count double, edits and regenerations
+ *   (the script needed work) count less
+ * - Evaluation: precision@3 of the heuristic order vs the model order on the same logged queries
+ *
+ * Pure functions only; storage lives in selection-log.ts.
+ */
+
+export const RANKING_FEATURES = [
+  'presentingIssue', // Summed classifier confidence of presenting issue matches
+  'useCase', // Summed confidence of use case matches
+  'tags', // Tags found in the input
+  'keywords', // Note keywords matching a strong dimension
+  'beginner', // Beginner boost applied
+  'popularity', // log10(usageCount + 1)
+  'rating', // ratingSignal score
+  'system', // Curated system template
+  'fallback', // Added as a fallback rather than matched
+] as const;
+
+export type RankingFeature = typeof RANKING_FEATURES[number];
+export type RankingFeatures = Record<RankingFeature, number>;
+
+export interface RankingCandidate {
+  templateId: string;
+  heuristicScore: number;
+  features: RankingFeatures;
+}
+
+export interface RankingPick {
+  templateId: string;
+  favorited: boolean;
+  edited: boolean;
+  regenerated: boolean;
+}
+
+export interface LoggedRankingQuery {
+  recommendationId: string;
+  createdAt: Date;
+  candidates: RankingCandidate[]; // Heuristic order, as shown
+  picks: RankingPick[];
+}
+
+export interface RankingModel {
+  kind: 'logistic-regression';
+  features: RankingFeature[];
+  means: number[];
+  scales: number[];
+  weights: number[];
+  bias: number;
+}
+
+export interface RankingTrainingOptions {
+  epochs?: number;
+  learningRate?: number;
+  l2?: number;
+}
+
+export interface RankerMetrics {
+  precisionAt3: number;
+  hitRateAt3: number; // Queries with at least one pick in the top 3
+}
+
+export interface RankingEvaluation {
+  queries: number;
+  heuristic: RankerMetrics;
+  model: RankerMetrics | null;
+}
+
+export const MIN_TRAINING_QUERIES = 20;
+
+export function emptyRankingFeatures(): RankingFeatures {
+  const features = {} as RankingFeatures;
+  for (const feature of RANKING_FEATURES) features[feature] = 0;
+  return features;
+}
+
+/**
+ * How much a pick counts as a positive example
+ */
+export function pickWeight(pick: RankingPick): number {
+  let weight = 1;
+  if (pick.favorited) weight += 1;
+  if (pick.edited) weight -= 0.25;
+  if (pick.regenerated) weight -= 0.5;
+  return Math.max(0.25, weight);
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+function vectorize(features: RankingFeatures, model: Pick<RankingModel, 'features' | 'means' | 'scales'>): number[] {
+  return model.features.map((feature, i) => ((features[feature] ?? 0) - model.means[i]) / model.scales[i]);
+}
+
+/**
+ * Fit a weighted logistic regression (batch gradient descent, L2) on every shown candidate
+ */
+export function trainRankingModel(queries: LoggedRankingQuery[], options: RankingTrainingOptions = {}): RankingModel {
+  const { epochs = 400, learningRate = 0.1, l2 = 0.01 } = options;
+
+  const examples: Array<{ features: RankingFeatures; label: number; weight: number }> = [];
+  for (const query of queries) {
+    const picks = new Map(query.picks.map(pick => [pick.templateId, pick] as const));
+    for (const candidate of query.candidates) {
+      const pick = picks.get(candidate.templateId);
+      examples.push({ features: candidate.features, label: pick ? 1 : 0, weight: pick ? pickWeight(pick) : 1 });
+    }
+  }
+  if (examples.length === 0) {
+    throw new Error('No logged candidates to train on');
+  }
+
+  // Standardize so one learning rate suits counts, confidences and log usage alike
+  const features = [...RANKING_FEATURES];
+  const means = features.map(feature => examples.reduce((sum, e) => sum + e.features[feature], 0) / examples.length);
+  const scales = features.map((feature, i) => {
+    const variance = examples.reduce((sum, e) => sum + (e.features[feature] - means[i]) ** 2, 0) / examples.length;
+    return Math.sqrt(variance) || 1;
+  });
+  const model: RankingModel = { kind: 'logistic-regression', features, means, scales, weights: features.map(() => 0), bias: 0 };
+
+  const vectors = examples.map(e => vectorize(e.features, model));
+  const totalWeight = examples.reduce((sum, e) => sum + e.weight, 0);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = features.map(() => 0);
+    let biasGradient = 0;
+    examples.forEach((example, n) => {
+      const x = vectors[n];
+      const predicted = sigmoid(model.bias + x.reduce((sum, value, i) => sum + value * model.weights[i], 0));
+      const error = (predicted - example.label) * example.weight;
+      for (let i = 0; i < x.length; i++) gradient[i] += error * x[i];
+      biasGradient += error;
+    });
+    for (let i = 0; i < model.weights.length; i++) {
+      model.weights[i] -= learningRate * (gradient[i] / totalWeight + l2 * model.weights[i]);
+    }
+    model.bias -= learningRate * (biasGradient / totalWeight);
+  }
+
+  return model;
+}
+
+/**
+ * Probability the user picks a candidate with these features
+ */
+export function scoreWithModel(model: RankingModel, features: RankingFeatures): number {
+  const x = vectorize(features, model);
+  return sigmoid(model.bias + x.reduce((sum, value, i) => sum + value * model.weights[i], 0));
+}
+
+export function precisionAtK(rankedIds: string[], relevant: Set<string>, k: number): number {
+  return rankedIds.slice(0, k).filter(id => relevant.has(id)).length / k;
+}
+
+function metrics(queries: LoggedRankingQuery[], rank: (query: LoggedRankingQuery) => string[]): RankerMetrics {
+  let precision = 0;
+  let hits = 0;
+  for (const query of queries) {
+    const relevant = new Set(query.picks.map(pick => pick.templateId));
+    const p = precisionAtK(rank(query), relevant, 3);
+    precision += p;
+    if (p > 0) hits++;
+  }
+  return {
+    precisionAt3: queries.length ? precision / queries.length : 0,
+    hitRateAt3: queries.length ? hits / queries.length : 0,
+  };
+}
+
+/**
+ * Replay logged queries and compare the heuristic order with the model's
+ */
+export function evaluateRanking(queries: LoggedRankingQuery[], model: RankingModel | null): RankingEvaluation {
+  const heuristic = metrics(queries, query =>
+    [...query.candidates].sort((a, b) => b.heuristicScore - a.heuristicScore).map(c => c.templateId)
+  );
+  const modelMetrics = model
+    ? metrics(queries, query =>
+        query.candidates
+          .map(c => ({ templateId: c.templateId, score: scoreWithModel(model, c.features) }))
+          .sort((a, b) => b.score - a.score)
+          .map(c => c.templateId)
+      )
+    : null;
+  return { queries: queries.length, heuristic, model: modelMetrics };
+}
+
+/**
+ * Chronological split so evaluation never trains on queries from its own future
+ */
+export function splitRankingQueries(queries: LoggedRankingQuery[], testFraction = 0.2): { train: LoggedRankingQuery[]; test: LoggedRankingQuery[] } {
+  const ordered = [...queries].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const testSize = Math.max(1, Math.round(ordered.length * testFraction));
+  return { train: ordered.slice(0, ordered.length - testSize), test: ordered.slice(ordered.length - testSize) };
+}
@@ -1,10 +1,15 @@
 import { templateManager } from "./template-manager";
+import { issueClassifier, LABEL_MATCH_THRESHOLD } from "./script-engine/issue-classifier";
+import { selectionLog } from "./selection-log";
+import { emptyRankingFeatures, scoreWithModel, type RankingFeatures } from "./template-ranker";
 import type { Template, TemplateJSON } from "@shared/schema";
 
 export interface TemplateRecommendation {
   template: Template;
-  matchScore: number;
+  matchScore: number; // Heuristic score
   matchReasons: string[];
+  features: RankingFeatures; // Signals behind matchScore, logged for the ranking model
+  rankScore?: number; // Ranking model's pick probability, when a model is active
 }
 
 export interface ITemplateSelector {
@@ -15,6 +20,22 @@ export interface ITemplateSelector {
   ): Promise<TemplateRecommendation[]>;
 }
 
+// Ratings are averaged with RATING_PRIOR_WEIGHT neutral reviews before they count
+const RATING_PRIOR = 3.5;
+const RATING_PRIOR_WEIGHT = 3;
+const RATING_WEIGHT = 4; // Points per star above/below the prior (about -10 to +6)
+
+/**
+ * Score adjustment from marketplace reviews (ratingAvg is stored x100), or null without reviews
+ */
+export function ratingSignal(template: Pick<Template, 'ratingAvg' | 'reviewCount'>): { average: number; score: number } | null {
+  if (template.ratingAvg === null || !template.reviewCount) return null;
+
+  const average = template.ratingAvg / 100;
+  const shrunk = (RATING_PRIOR * RATING_PRIOR_WEIGHT + average * template.reviewCount) / (RATING_PRIOR_WEIGHT + template.reviewCount);
+  return { average, score: (shrunk - RATING_PRIOR) * RATING_WEIGHT };
+}
+
 export class TemplateSelector implements ITemplateSelector {
   /**
    * Smart template recommendation based on user input
@@ -42,8 +63,8 @@ export class TemplateSelector implements ITemplateSelector {
     console.log(`[TemplateSelector] Total templates after dedupe: ${allTemplates.length}`);
     
     // Score each template
-    const scored = allTemplates.map((template) => {
-      const { score, reasons } = this.scoreTemplate(
+    const scored: TemplateRecommendation[] = allTemplates.map((template) => {
+      const { score, reasons, features } = this.scoreTemplate(
         template,
         trimmedIssue,
         trimmedOutcome,
@@ -54,6 +75,7 @@ export class TemplateSelector implements ITemplateSelector {
         template,
         matchScore: score,
         matchReasons: reasons,
+        features,
       };
     });
     
@@ -71,10 +93,12 @@ export class TemplateSelector implements ITemplateSelector {
       const existingIds = new Set(scored.map(s => s.template.templateId));
       for (const fallback of fallbacks) {
         if (!existingIds.has(fallback.templateId)) {
+          const { features } = this.scoreTemplate(fallback, trimmedIssue, trimmedOutcome, trimmedNotes);
           scored.push({
             template: fallback,
             matchScore: 5, // Low score for fallback
             matchReasons: ['Popular beginner-friendly template'],
+            features: { ...features, fallback: 1 },
           });
           existingIds.add(fallback.templateId);
         }
@@ -91,6 +115,15 @@ export class TemplateSelector implements ITemplateSelector {
       }
     });
     
+    // Learned re-ranking: the heuristic picks the candidates, the active model (if any) orders them
+    const model = await selectionLog.getActiveModel();
+    if (model) {
+      scored.forEach((rec) => {
+        rec.rankScore = scoreWithModel(model, rec.features);
+      });
+      scored.sort((a, b) => b.rankScore! - a.rankScore!);
+    }
+    
     // Return all matched templates (up to 20)
     const count = Math.min(20, scored.length);
     console.log(`[TemplateSelector] Returning ${count} templates out of ${scored.length} total`);
@@ -105,9 +138,10 @@ export class TemplateSelector implements ITemplateSelector {
     presentingIssue: string,
     desiredOutcome: string,
     notes: string
-  ): { score: number; reasons: string[] } {
+  ): { score: number; reasons: string[]; features: RankingFeatures } {
     let score = 0;
     const reasons: string[] = [];
+    const features = emptyRankingFeatures();
     const templateData = template.jsonData as TemplateJSON;
 
     // Normalize text for comparison
@@ -116,27 +150,28 @@ export class TemplateSelector implements ITemplateSelector {
     const userNotes = notes.toLowerCase();
     const combinedInput = `${issue} ${outcome} ${userNotes}`.trim();
 
-    // 1. Check presenting_issues (high weight: +20 per match)
+    // 1. Check presenting_issues (high weight: up to +20 per match, scaled by confidence)
     // Only score if we have actual user input
     if (templateData.presenting_issues && issue.length > 0) {
-      for (const templateIssue of templateData.presenting_issues) {
-        const templateIssueLower = templateIssue.toLowerCase();
-        if (issue.includes(templateIssueLower) || templateIssueLower.includes(issue)) {
-          score += 20;
-          reasons.push(`Matches presenting issue: ${templateIssue}`);
-        }
+      for (const match of issueClassifier.match(issue, templateData.presenting_issues)) {
+        score += Math.round(20 * match.confidence);
+        features.presentingIssue += match.confidence;
+        reasons.push(`Matches presenting issue: ${match.label}${match.confidence < 1 ? ` (${Math.round(match.confidence * 100)}% match)` : ''}`);
       }
     }
 
-    // 2. Check use_cases (medium weight: +15 per match)
+    // 2. Check use_cases (medium weight: up to +15 per match)
     // Only score if we have actual combined input
     if (templateData.use_cases && combinedInput.length > 0) {
       for (const useCase of templateData.use_cases) {
         const useCaseLower = useCase.toLowerCase();
-        if (combinedInput.includes(useCaseLower) || 
-            (issue.length > 0 && useCaseLower.includes(issue))) {
-          score += 15;
-          reasons.push(`Matches use case: ${useCase}`);
+        const confidence = issue.length > 0 && useCaseLower.includes(issue)
+          ? 1
+          : issueClassifier.similarity(combinedInput, useCase).confidence;
+        if (confidence >= LABEL_MATCH_THRESHOLD) {
+          score += Math.round(15 * confidence);
+          features.useCase += confidence;
+          reasons.push(`Matches use case: ${useCase}${confidence < 1 ? ` (${Math.round(confidence * 100)}% match)` : ''}`);
         }
       }
     }
@@ -147,6 +182,7 @@ export class TemplateSelector implements ITemplateSelector {
       for (const tag of templateData.tags) {
         if (combinedInput.includes(tag.toLowerCase())) {
           score += 10;
+          features.tags++;
           reasons.push(`Matches tag: ${tag}`);
         }
       }
@@ -155,6 +191,7 @@ export class TemplateSelector implements ITemplateSelector {
     // 4. Special keyword matching in notes (low weight: +5 each)
     const keywordMatches = this.checkKeywordMatches(userNotes, templateData);
     score += keywordMatches.score;
+    features.keywords = keywordMatches.reasons.length;
     reasons.push(...keywordMatches.reasons);
 
     // 5. Beginner boost (if user mentions first-time, beginner, new)
@@ -162,18 +199,31 @@ export class TemplateSelector implements ITemplateSelector {
       if (templateData.category === 'beginner' || 
           templateData.tags?.includes('beginner')) {
         score += 25;
+        features.beginner = 1;
         reasons.push('Beginner-friendly for first-time clients');
       }
     }
 
     // 6. Popularity boost (small weight to break ties)
     if (template.usageCount > 0) {
-      score += Math.log10(template.usageCount + 1) * 2; // Log scale, max ~4 points
+      features.popularity = Math.log10(template.usageCount + 1);
+      score += features.popularity * 2; // Log scale, max ~4 points
+    }
+
+    // 7. Rating signal - shrunk toward a neutral prior so a couple of reviews can't dominate
+    const rating = ratingSignal(template);
+    if (rating) {
+      score += rating.score;
+      features.rating = rating.score;
+      if (rating.score > 0) {
+        reasons.push(`Highly rated (${rating.average.toFixed(1)}★ from ${template.reviewCount} review${template.reviewCount === 1 ? '' : 's'})`);
+      }
     }
 
-    // 7. System template boost (slight preference for curated templates)
+    // 8. System template boost (slight preference for curated templates)
     if (template.isSystem) {
       score += 3;
+      features.system = 1;
     }
 
     // If no matches at all, give a minimal score based on category
@@ -182,7 +232,7 @@ export class TemplateSelector implements ITemplateSelector {
       reasons.push('General beginner template');
     }
 
-    return { score, reasons };
+    return { score, reasons, features };
   }
 
   /**
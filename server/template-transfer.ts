@@ -0,0 +1,213 @@
+/**
+ * Template Transfer - portable template files for sharing template sets across deployments
+ *
+ * - Export: a single TemplateJSON document, or an archive of several
+ * - Import: accepts either (or a bare array), validates every template against templateJSONSchema and
+ *   reports per template; invalid entries fail on their own without stopping the rest
+ * - Conflicts (the template id already exists) follow the import policy:
+ *   skip - leave the existing template alone
+ *   overwrite - replace its content with the file verbatim, version string included
+ *   new-version - add the file as its next version; identical content is left unchanged, and the
+ *     version string is bumped past the existing one when the file's isn't newer
+ *   Either way the previous content stays in the template's version history.
+ */
+
+import { templateManager } from './template-manager';
+import { templateJSONSchema, type Template, type TemplateJSON } from '@shared/schema';
+import { diffTemplates, bumpTemplateVersion, compareTemplateVersions } from '@shared/template-diff';
+
+export const TEMPLATE_ARCHIVE_FORMAT = 'hypnobrain-template-archive';
+export const TEMPLATE_ARCHIVE_FORMAT_VERSION = 1;
+export const MAX_IMPORT_TEMPLATES = 200;
+
+export const TEMPLATE_IMPORT_POLICIES = ['skip', 'overwrite', 'new-version'] as const;
+export type TemplateImportPolicy = typeof TEMPLATE_IMPORT_POLICIES[number];
+
+export interface TemplateArchive {
+  format: typeof TEMPLATE_ARCHIVE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  templates: TemplateJSON[];
+}
+
+export interface ParsedTemplateEntry {
+  index: number; // Position in the uploaded document
+  templateId?: string;
+  template?: TemplateJSON;
+  error?: string;
+}
+
+export type TemplateImportStatus = 'created' | 'overwritten' | 'versioned' | 'unchanged' | 'skipped' | 'failed';
+
+export interface TemplateImportResult {
+  index: number;
+  templateId?: string;
+  name?: string;
+  status: TemplateImportStatus;
+  version?: number | null; // template_versions.version after the import
+  message?: string;
+}
+
+export interface TemplateImportReport {
+  policy: TemplateImportPolicy;
+  results: TemplateImportResult[];
+  summary: Record<TemplateImportStatus, number>;
+}
+
+export interface TemplateImportOptions {
+  policy: TemplateImportPolicy;
+  userId?: string; // The importing user; owns imported user templates (absent for the seed script)
+  asSystem?: boolean; // Admin bulk seeding: import as curated system templates
+  isPublic?: boolean; // User imports only; public templates still go through moderation
+}
+
+export function buildTemplateArchive(templates: TemplateJSON[]): TemplateArchive {
+  return {
+    format: TEMPLATE_ARCHIVE_FORMAT,
+    formatVersion: TEMPLATE_ARCHIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates,
+  };
+}
+
+/**
+ * Split an uploaded document (single template, archive or array) into validated entries
+ */
+export function parseTemplateDocument(document: unknown): ParsedTemplateEntry[] {
+  let items: unknown[];
+  if (Array.isArray(document)) {
+    items = document;
+  } else if (document && typeof document === 'object' && (document as any).format === TEMPLATE_ARCHIVE_FORMAT) {
+    const archive = document as Partial<TemplateArchive>;
+    if ((archive.formatVersion ?? 0) > TEMPLATE_ARCHIVE_FORMAT_VERSION) {
+      throw new Error(`Unsupported template archive version ${archive.formatVersion}`);
+    }
+    if (!Array.isArray(archive.templates)) {
+      throw new Error('Template archive has no templates array');
+    }
+    items = archive.templates;
+  } else if (document && typeof document === 'object') {
+    items = [document];
+  } else {
+    throw new Error('Expected a template document or a template archive');
+  }
+
+  if (items.length === 0) {
+    throw new Error('No templates to import');
+  }
+  if (items.length > MAX_IMPORT_TEMPLATES) {
+    throw new Error(`Too many templates (${items.length}); import at most ${MAX_IMPORT_TEMPLATES} at a time`);
+  }
+
+  const seen = new Set<string>();
+  return items.map((item, index) => {
+    const templateId = typeof (item as any)?.id === 'string' ? (item as any).id : undefined;
+    const result = templateJSONSchema.safeParse(item);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      return { index, templateId, error: `Invalid template JSON: ${issues.join('; ')}` };
+    }
+    if (seen.has(result.data.id)) {
+      return { index, templateId, error: `Duplicate template id "${result.data.id}" in this file` };
+    }
+    seen.add(result.data.id);
+    return { index, templateId: result.data.id, template: result.data as TemplateJSON };
+  });
+}
+
+export class TemplateImporter {
+  async importTemplates(document: unknown, options: TemplateImportOptions): Promise<TemplateImportReport> {
+    if (!options.asSystem && !options.userId) {
+      throw new Error('User template imports need an owner');
+    }
+    const results: TemplateImportResult[] = [];
+
+    // Sequential so a later entry sees the templates created by earlier ones
+    for (const entry of parseTemplateDocument(document)) {
+      if (!entry.template) {
+        results.push({ index: entry.index, templateId: entry.templateId, status: 'failed', message: entry.error });
+        continue;
+      }
+      try {
+        results.push({ index: entry.index, ...(await this.importTemplate(entry.template, options)) });
+      } catch (error: any) {
+        results.push({ index: entry.index, templateId: entry.templateId, name: entry.template.name, status: 'failed', message: error.message });
+      }
+    }
+
+    const summary: Record<TemplateImportStatus, number> = { created: 0, overwritten: 0, versioned: 0, unchanged: 0, skipped: 0, failed: 0 };
+    for (const result of results) summary[result.status]++;
+
+    console.log(`[TEMPLATE IMPORT] ${options.policy}: ${Object.entries(summary).filter(([, count]) => count > 0).map(([status, count]) => `${count} ${status}`).join(', ')}`);
+    return { policy: options.policy, results, summary };
+  }
+
+  private async importTemplate(template: TemplateJSON, options: TemplateImportOptions): Promise<Omit<TemplateImportResult, 'index'>> {
+    const base = { templateId: template.id, name: template.name };
+    const existing = await templateManager.getTemplateById(template.id);
+
+    if (!existing) {
+      const created = await templateManager.createTemplate(
+        {
+          templateId: template.id,
+          jsonData: template,
+          name: template.name,
+          description: template.description,
+          category: template.category,
+          tags: template.tags,
+          createdBy: options.asSystem ? 'system' : 'user',
+          userId: options.asSystem ? null : options.userId!,
+          isPublic: options.asSystem ? true : !!options.isPublic,
+          isSystem: !!options.asSystem,
+        },
+        { notes: 'Imported', createdBy: options.userId }
+      );
+      return { ...base, status: 'created', version: created.currentVersion };
+    }
+
+    if (options.policy === 'skip') {
+      return { ...base, status: 'skipped', version: existing.currentVersion, message: 'A template with this id already exists' };
+    }
+    if (!this.canReplace(existing, options)) {
+      return { ...base, status: 'failed', message: 'A template with this id belongs to someone else' };
+    }
+
+    const before = existing.jsonData as TemplateJSON;
+    const changes = diffTemplates(before, template);
+    let jsonData = template;
+    if (options.policy === 'new-version') {
+      if (changes.length === 0) {
+        return { ...base, status: 'unchanged', version: existing.currentVersion };
+      }
+      if (compareTemplateVersions(template.version, before.version) <= 0) {
+        jsonData = { ...template, version: bumpTemplateVersion(before.version, changes) };
+      }
+    }
+
+    const updated = await templateManager.updateTemplate(
+      template.id,
+      {
+        jsonData,
+        name: jsonData.name,
+        description: jsonData.description,
+        category: jsonData.category,
+        tags: jsonData.tags,
+      },
+      { notes: `Imported (${options.policy})`, createdBy: options.userId, keepVersion: true }
+    );
+
+    if (changes.length === 0) {
+      return { ...base, status: 'unchanged', version: updated?.currentVersion };
+    }
+    return { ...base, status: options.policy === 'overwrite' ? 'overwritten' : 'versioned', version: updated?.currentVersion };
+  }
+
+  /**
+   * System templates can only be replaced by a system import, user templates only by their owner
+   */
+  private canReplace(existing: Template, options: TemplateImportOptions): boolean {
+    return options.asSystem ? existing.isSystem : !existing.isSystem && existing.userId === options.userId;
+  }
+}
+
+export const templateImporter = new TemplateImporter();
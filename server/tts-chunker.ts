@@ -0,0 +1,186 @@
+/**
+ * TTS Chunker - plans a long script as provider-sized speech chunks and silences
+ *
+ * Scripts may carry reader-script cues (shared/reader-script.ts):
+ * - [pause Ns] and breathing cues become real silence between chunks
+ * - Section markers start a new chunk after a short gap
+ * - [slow] regions are voiced at a reduced speed, [soft] regions at a lower level
+ * Chunks break on sentence boundaries and never exceed maxChars.
+ */
+
+import {
+  parseReaderScript,
+  DEFAULT_BREATH_SECONDS,
+  type ReaderInline,
+  type ReaderSection,
+} from '@shared/reader-script';
+
+export interface SpeechChunk {
+  type: 'speech';
+  text: string;
+  speedFactor: number; // Multiplies the requested speed ([slow] regions < 1)
+  gain: number; // Multiplies the normalized level ([soft] regions < 1)
+  section: ReaderSection | null;
+}
+
+export interface SilenceGap {
+  type: 'silence';
+  seconds: number;
+}
+
+export type SpeechSegment = SpeechChunk | SilenceGap;
+
+export interface ChunkPlanOptions {
+  maxChars: number;
+  sectionGapSeconds: number;
+}
+
+const DEFAULT_PLAN_OPTIONS: ChunkPlanOptions = {
+  maxChars: parseInt(process.env.TTS_CHUNK_CHARS || '3000', 10), // OpenAI accepts up to 4096
+  sectionGapSeconds: 1.5,
+};
+
+export const SLOW_SPEED_FACTOR = 0.85;
+const SOFT_GAIN = 0.7;
+
+/**
+ * Split prose into sentences, keeping the closing punctuation (and quotes) with each sentence
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?…]["'”’)]?)\s+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+/**
+ * Break one overlong sentence on commas/semicolons, then on words
+ */
+function splitLongSentence(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  const parts = sentence.split(/(?<=[,;:])\s+|\s+/);
+  for (const part of parts) {
+    if (part.length > maxChars) {
+      if (current) pieces.push(current);
+      current = '';
+      for (let i = 0; i < part.length; i += maxChars) {
+        pieces.push(part.slice(i, i + maxChars));
+      }
+      continue;
+    }
+    const next = current ? `${current} ${part}` : part;
+    if (next.length > maxChars) {
+      pieces.push(current);
+      current = part;
+    } else {
+      current = next;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Group a paragraph's inline nodes into styled text runs separated by silences
+ */
+function paragraphRuns(paragraph: ReaderInline[]): Array<{ text: string; slow: boolean; soft: boolean } | SilenceGap> {
+  const runs: Array<{ text: string; slow: boolean; soft: boolean } | SilenceGap> = [];
+  for (const node of paragraph) {
+    if (node.type === 'pause') {
+      runs.push({ type: 'silence', seconds: node.seconds });
+    } else if (node.type === 'breath') {
+      runs.push({ type: 'silence', seconds: node.seconds ?? DEFAULT_BREATH_SECONDS });
+    } else {
+      const slow = !!node.style.slow;
+      const soft = !!node.style.soft;
+      const last = runs[runs.length - 1];
+      if (last && !('type' in last) && last.slow === slow && last.soft === soft) {
+        last.text += node.text;
+      } else {
+        runs.push({ text: node.text, slow, soft });
+      }
+    }
+  }
+  return runs;
+}
+
+export function planSpeech(text: string, options: Partial<ChunkPlanOptions> = {}): SpeechSegment[] {
+  const { maxChars, sectionGapSeconds } = { ...DEFAULT_PLAN_OPTIONS, ...options };
+  const segments: SpeechSegment[] = [];
+  let buffer = '';
+  let bufferStyle = { slow: false, soft: false };
+  let section: ReaderSection | null = null;
+
+  const flush = () => {
+    const chunk = buffer.trim();
+    buffer = '';
+    if (!chunk) return;
+    segments.push({
+      type: 'speech',
+      text: chunk,
+      speedFactor: bufferStyle.slow ? SLOW_SPEED_FACTOR : 1,
+      gain: bufferStyle.soft ? SOFT_GAIN : 1,
+      section,
+    });
+  };
+
+  // Explicit cues add up; structural gaps only guarantee a minimum
+  const addSilence = (seconds: number, mode: 'add' | 'min') => {
+    flush();
+    if (seconds <= 0 || segments.length === 0) return;
+    const last = segments[segments.length - 1];
+    if (last.type === 'silence') {
+      last.seconds = mode === 'add' ? last.seconds + seconds : Math.max(last.seconds, seconds);
+    } else {
+      segments.push({ type: 'silence', seconds });
+    }
+  };
+
+  const appendSentence = (sentence: string, style: { slow: boolean; soft: boolean }, separator: string) => {
+    if (buffer && (style.slow !== bufferStyle.slow || style.soft !== bufferStyle.soft)) {
+      flush();
+    }
+    bufferStyle = style;
+
+    const pieces = sentence.length > maxChars ? splitLongSentence(sentence, maxChars) : [sentence];
+    for (const piece of pieces) {
+      const next = buffer ? `${buffer}${separator}${piece}` : piece;
+      if (next.length > maxChars) {
+        flush();
+        buffer = piece;
+      } else {
+        buffer = next;
+      }
+      separator = ' ';
+    }
+  };
+
+  const script = parseReaderScript(text);
+  script.blocks.forEach((block, blockIndex) => {
+    if (blockIndex > 0 && block.section) {
+      addSilence(sectionGapSeconds, 'min');
+    }
+    section = block.section;
+    block.paragraphs.forEach((paragraph, paragraphIndex) => {
+      let separator = paragraphIndex > 0 || blockIndex > 0 ? '\n\n' : ' ';
+      for (const run of paragraphRuns(paragraph)) {
+        if ('type' in run) {
+          addSilence(run.seconds, 'add');
+          continue;
+        }
+        for (const sentence of splitSentences(run.text.replace(/\s*\n\s*/g, ' '))) {
+          appendSentence(sentence, { slow: run.slow, soft: run.soft }, separator);
+          separator = ' ';
+        }
+      }
+    });
+  });
+  flush();
+
+  // A trailing pause has nothing to separate
+  while (segments.length > 0 && segments[segments.length - 1].type === 'silence') {
+    segments.pop();
+  }
+  return segments;
+}
@@ -1,33 +1,279 @@
 import OpenAI from 'openai';
+import { createHash } from 'crypto';
+import { cassetteStore } from './cassette-store';
+import { ObjectStorageService } from './objectStorage';
+import { planSpeech } from './tts-chunker';
+import type { ReaderSection } from '@shared/reader-script';
+import {
+  concatSamples,
+  durationSeconds,
+  encodeAudio,
+  normalizeLoudness,
+  pcmToSamples,
+  silence,
+  TTS_SAMPLE_RATE,
+  type AudioFormat,
+} from './audio-utils';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+let openai: OpenAI | null = null;
+
+function getClient(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openai;
+}
 
 export interface TTSOptions {
   voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
   speed: number; // 0.25 to 4.0
   model?: 'tts-1' | 'tts-1-hd';
+  format?: AudioFormat; // Default mp3
+}
+
+export interface SectionTiming {
+  section: ReaderSection;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+/**
+ * Stitched narration before encoding (24kHz mono), for mixing or encoding
+ */
+export interface NarrationTrack {
+  samples: Int16Array;
+  sections: SectionTiming[];
+  chunkCount: number;
+  cachedChunks: number;
+}
+
+export interface SpeechResult {
+  audio: Buffer;
+  format: AudioFormat;
+  durationSeconds: number;
+  chunkCount: number;
+  cachedChunks: number;
+}
+
+/**
+ * Raw PCM per synthesized chunk, keyed on text + voice + speed + model
+ */
+export interface ITTSChunkCache {
+  get(key: string): Promise<Buffer | null>;
+  set(key: string, pcm: Buffer): Promise<void>;
+}
+
+export class MemoryTTSChunkCache implements ITTSChunkCache {
+  private entries = new Map<string, Buffer>();
+
+  constructor(private maxEntries: number = 200) {}
+
+  async get(key: string): Promise<Buffer | null> {
+    const pcm = this.entries.get(key);
+    if (!pcm) return null;
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, pcm);
+    return pcm;
+  }
+
+  async set(key: string, pcm: Buffer): Promise<void> {
+    this.entries.set(key, pcm);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+export class ObjectStorageTTSChunkCache implements ITTSChunkCache {
+  private objectStorage = new ObjectStorageService();
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.objectStorage.downloadPublicObject(`/public-objects/tts-cache/${key}.pcm`);
+  }
+
+  async set(key: string, pcm: Buffer): Promise<void> {
+    await this.objectStorage.savePublicObject(`tts-cache/${key}.pcm`, pcm, 'application/octet-stream');
+  }
+}
+
+/**
+ * TTS_CACHE: 'object' (default when object storage is configured), 'memory' or 'off'
+ */
+export function createTTSChunkCache(mode: string = process.env.TTS_CACHE || ''): ITTSChunkCache | null {
+  const selected = mode || (process.env.PUBLIC_OBJECT_SEARCH_PATHS ? 'object' : 'memory');
+  switch (selected) {
+    case 'object':
+      return new ObjectStorageTTSChunkCache();
+    case 'memory':
+      return new MemoryTTSChunkCache();
+    case 'off':
+      return null;
+    default:
+      throw new Error(`Unknown TTS_CACHE mode "${selected}"`);
+  }
+}
+
+export function chunkCacheKey(text: string, voice: string, speed: number, model: string): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ text, voice, speed, model }))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * Identifies the narrated text of a stored rendition, so edits can mark it stale
+ */
+export function hashScript(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Run tasks with at most `limit` in flight, preserving result order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+function clampSpeed(speed: number): number {
+  return Math.max(0.25, Math.min(4.0, Math.round(speed * 100) / 100));
 }
 
 export class TTSService {
+  private cache: ITTSChunkCache | null;
+  private concurrency: number;
+
+  constructor(
+    cache: ITTSChunkCache | null = createTTSChunkCache(),
+    concurrency: number = parseInt(process.env.TTS_CONCURRENCY || '3', 10)
+  ) {
+    this.cache = cache;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
   /**
    * Generate speech audio from text using OpenAI TTS
-   * Returns audio buffer
+   * Returns one stitched audio buffer (mp3 unless options.format says otherwise)
    */
   async generateSpeech(
     text: string,
     options: TTSOptions
   ): Promise<Buffer> {
-    const response = await openai.audio.speech.create({
-      model: options.model || 'tts-1-hd',
-      voice: options.voice,
-      input: text,
-      speed: options.speed,
+    const result = await this.synthesize(text, options);
+    return result.audio;
+  }
+
+  /**
+   * Long-form synthesis: split on sentence/section boundaries, voice chunks in parallel,
+   * insert silence for pause cues, level every chunk and encode once
+   */
+  async synthesize(text: string, options: TTSOptions): Promise<SpeechResult> {
+    const format = options.format || 'mp3';
+    const track = await this.renderNarration(text, options);
+
+    return {
+      audio: encodeAudio(track.samples, format),
+      format,
+      durationSeconds: durationSeconds(track.samples),
+      chunkCount: track.chunkCount,
+      cachedChunks: track.cachedChunks,
+    };
+  }
+
+  /**
+   * Stitched, leveled narration samples plus where each reader-script section starts and ends
+   */
+  async renderNarration(text: string, options: TTSOptions): Promise<NarrationTrack> {
+    const model = options.model || 'tts-1-hd';
+    const segments = planSpeech(text);
+    const speech = segments.filter(segment => segment.type === 'speech');
+    if (speech.length === 0) {
+      throw new Error('No speakable text');
+    }
+
+    let cachedChunks = 0;
+    const clips = await mapWithConcurrency(speech, this.concurrency, async (chunk) => {
+      const { pcm, cached } = await this.synthesizeChunk(
+        chunk.text,
+        options.voice,
+        clampSpeed(options.speed * chunk.speedFactor),
+        model
+      );
+      if (cached) cachedChunks++;
+      return normalizeLoudness(pcmToSamples(pcm), chunk.gain);
     });
 
-    const buffer = Buffer.from(await response.arrayBuffer());
-    return buffer;
+    const parts: Int16Array[] = [];
+    const sections: SectionTiming[] = [];
+    let clipIndex = 0;
+    let offset = 0;
+    for (const segment of segments) {
+      const part = segment.type === 'speech' ? clips[clipIndex++] : silence(segment.seconds);
+      if (segment.type === 'speech' && segment.section) {
+        const start = offset / TTS_SAMPLE_RATE;
+        const end = (offset + part.length) / TTS_SAMPLE_RATE;
+        const last = sections[sections.length - 1];
+        if (last?.section === segment.section) {
+          last.endSeconds = end;
+        } else {
+          sections.push({ section: segment.section, startSeconds: start, endSeconds: end });
+        }
+      }
+      parts.push(part);
+      offset += part.length;
+    }
+
+    const samples = concatSamples(parts);
+    console.log(`[TTS] ${speech.length} chunk(s) (${cachedChunks} cached), ${Math.round(durationSeconds(samples))}s of audio`);
+
+    return { samples, sections, chunkCount: speech.length, cachedChunks };
+  }
+
+  /**
+   * One provider call (raw 24kHz PCM), cached and recorded/replayed through the cassette store
+   */
+  private async synthesizeChunk(
+    text: string,
+    voice: TTSOptions['voice'],
+    speed: number,
+    model: string
+  ): Promise<{ pcm: Buffer; cached: boolean }> {
+    const key = chunkCacheKey(text, voice, speed, model);
+    const hit = await this.cache?.get(key).catch(() => null);
+    if (hit) {
+      return { pcm: hit, cached: true };
+    }
+
+    const pcmBase64 = await cassetteStore.run(
+      'tts',
+      'speech-pcm',
+      { prompt: text, model, voice, speed },
+      async () => {
+        const response = await getClient().audio.speech.create({
+          model,
+          voice,
+          input: text,
+          speed,
+          response_format: 'pcm',
+        });
+        return Buffer.from(await response.arrayBuffer()).toString('base64');
+      }
+    );
+
+    const pcm = Buffer.from(pcmBase64, 'base64');
+    await this.cache?.set(key, pcm).catch((error: any) => {
+      console.warn('[TTS] Could not cache chunk:', error.message);
+    });
+    return { pcm, cached: false };
   }
 
   /**
@@ -0,0 +1,308 @@
+/**
+ * Reader Script - lightweight markup for scripts that are read aloud
+ *
+ * Plain prose stays valid; cues are optional and bracketed so they survive
+ * copy/paste and are easy for the polish stage to emit:
+ *
+ *   [section induction]          Section marker on its own line
+ *                                (induction, deepening, work, ego cascade, emergence)
+ *   [pause 3s] [pause 500ms]     Timed pause ([pause] alone = 2s)
+ *   [breathe in] [breathe out 4s] [hold breath]   Breathing cues
+ *   [slow]...[/slow]             Slow-down region
+ *   [soft]...[/soft]             Softer, quieter delivery
+ *   *word*                       Emphasis
+ *
+ * Blank lines separate paragraphs. Unknown bracket tags are kept as text.
+ */
+
+export const READER_SECTIONS = ['induction', 'deepening', 'work', 'ego-cascade', 'emergence'] as const;
+export type ReaderSection = typeof READER_SECTIONS[number];
+
+export const READER_SECTION_LABELS: Record<ReaderSection, string> = {
+  induction: 'Induction',
+  deepening: 'Deepening',
+  work: 'Therapeutic Work',
+  'ego-cascade': 'Ego Cascade',
+  emergence: 'Emergence',
+};
+
+export const DEFAULT_PAUSE_SECONDS = 2;
+export const DEFAULT_BREATH_SECONDS = 4;
+
+export interface ReaderTextStyle {
+  slow?: boolean;
+  soft?: boolean;
+  emphasis?: boolean;
+}
+
+export type ReaderInline =
+  | { type: 'text'; text: string; style: ReaderTextStyle }
+  | { type: 'pause'; seconds: number }
+  | { type: 'breath'; cue: 'in' | 'out' | 'hold'; seconds?: number };
+
+export interface ReaderBlock {
+  section: ReaderSection | null; // null = before any section marker
+  paragraphs: ReaderInline[][];
+}
+
+export interface ReaderScript {
+  blocks: ReaderBlock[];
+}
+
+/**
+ * Prompt instructions for emitting the markup (used by the polish stage)
+ */
+export const READER_MARKUP_GUIDE = `READER MARKUP (the practitioner reads this script aloud):
+- Start each phase with a marker on its own line: [section induction], [section deepening], [section work], [section ego cascade], [section emergence]
+- Timed pauses: [pause 3s] (use 2-5s during induction/deepening, longer before emergence)
+- Breathing cues: [breathe in], [breathe out], [hold breath] - optional duration, e.g. [breathe out 6s]
+- Wrap passages to slow down in [slow]...[/slow] and passages to soften in [soft]...[/soft]
+- Mark single emphasized words with *asterisks*
+- Keep the cues sparse and never put any other brackets or stage directions in the text`;
+
+const TAG_PATTERN = /\[(\/?)([a-z][a-z -]*?)(?:\s+(\d+(?:\.\d+)?)\s*(ms|s))?\]|\*([^*\n]+)\*/gi;
+const SECTION_LINE = /^\s*\[section\s+([a-z -]+)\]\s*$/i;
+
+function toSection(name: string): ReaderSection | null {
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, '-');
+  if (normalized === 'therapeutic-work') return 'work';
+  if (normalized === 'ego-strengthening') return 'ego-cascade';
+  return (READER_SECTIONS as readonly string[]).includes(normalized) ? normalized as ReaderSection : null;
+}
+
+function toSeconds(value: string | undefined, unit: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const amount = parseFloat(value);
+  return unit?.toLowerCase() === 'ms' ? amount / 1000 : amount;
+}
+
+/**
+ * Parse one paragraph's inline cues; style regions carry across paragraphs via `style`
+ */
+function parseInline(text: string, style: ReaderTextStyle): ReaderInline[] {
+  const nodes: ReaderInline[] = [];
+  const pushText = (value: string, extra: ReaderTextStyle = {}) => {
+    const normalized = value.replace(/[ \t]+/g, ' ');
+    if (!normalized) return;
+    // Only set flags are kept so styles compare cleanly
+    const merged: ReaderTextStyle = {};
+    if (style.slow || extra.slow) merged.slow = true;
+    if (style.soft || extra.soft) merged.soft = true;
+    if (extra.emphasis) merged.emphasis = true;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text' && last.style.slow === merged.slow && last.style.soft === merged.soft
+      && last.style.emphasis === merged.emphasis) {
+      last.text += normalized;
+    } else {
+      nodes.push({ type: 'text', text: normalized, style: merged });
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of Array.from(text.matchAll(TAG_PATTERN))) {
+    pushText(text.slice(lastIndex, match.index!));
+    lastIndex = match.index! + match[0].length;
+
+    const [raw, closing, rawName, value, unit, emphasized] = match;
+    if (emphasized !== undefined) {
+      pushText(emphasized, { emphasis: true });
+      continue;
+    }
+
+    const name = rawName.trim().toLowerCase();
+    const seconds = toSeconds(value, unit);
+    if (name === 'slow' || name === 'soft') {
+      style[name as 'slow' | 'soft'] = !closing;
+    } else if (closing) {
+      pushText(raw);
+    } else if (name === 'pause') {
+      nodes.push({ type: 'pause', seconds: seconds ?? DEFAULT_PAUSE_SECONDS });
+    } else if (name === 'breathe in' || name === 'breathe out' || name === 'hold breath') {
+      const cue = name === 'breathe out' ? 'out' : name === 'hold breath' ? 'hold' : 'in';
+      nodes.push(seconds === undefined ? { type: 'breath', cue } : { type: 'breath', cue, seconds });
+    } else {
+      pushText(raw);
+    }
+  }
+  pushText(text.slice(lastIndex));
+
+  // Trim the paragraph's outer whitespace
+  const first = nodes[0];
+  if (first?.type === 'text') first.text = first.text.replace(/^\s+/, '');
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') last.text = last.text.replace(/\s+$/, '');
+  return nodes.filter(node => node.type !== 'text' || node.text.length > 0);
+}
+
+export function parseReaderScript(source: string): ReaderScript {
+  const blocks: ReaderBlock[] = [];
+  let current: ReaderBlock = { section: null, paragraphs: [] };
+  const style: ReaderTextStyle = {};
+  let lines: string[] = [];
+
+  const flushParagraph = () => {
+    const text = lines.join('\n').trim();
+    lines = [];
+    if (!text) return;
+    const inline = parseInline(text, style);
+    if (inline.length > 0) current.paragraphs.push(inline);
+  };
+
+  for (const line of source.replace(/\r\n/g, '\n').split('\n')) {
+    const sectionMatch = SECTION_LINE.exec(line);
+    const section = sectionMatch ? toSection(sectionMatch[1]) : null;
+    if (section) {
+      flushParagraph();
+      if (current.paragraphs.length > 0 || current.section) blocks.push(current);
+      current = { section, paragraphs: [] };
+    } else if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      lines.push(line);
+    }
+  }
+  flushParagraph();
+  if (current.paragraphs.length > 0 || current.section) blocks.push(current);
+
+  return { blocks };
+}
+
+const CUE_PATTERN = /\[(?:pause|breathe in|breathe out|hold breath|\/?slow|\/?soft|section [a-z -]+)(?:\s+\d+(?:\.\d+)?\s*(?:ms|s))?\]/i;
+
+/**
+ * True when the text uses any cue (emphasis alone doesn't count - prose uses asterisks too)
+ */
+export function hasReaderMarkup(source: string): boolean {
+  return CUE_PATTERN.test(source);
+}
+
+// ============================================
+// RENDERERS
+// ============================================
+
+function inlineText(nodes: ReaderInline[]): string {
+  return nodes
+    .map(node => node.type === 'text' ? node.text : ' ')
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
+
+/**
+ * Plain prose with every cue removed (what `fullScript` consumers expect)
+ */
+export function renderPlainText(script: ReaderScript): string {
+  return script.blocks
+    .flatMap(block => block.paragraphs.map(inlineText))
+    .filter(text => text.length > 0)
+    .join('\n\n');
+}
+
+function escapeMarkup(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatSeconds(seconds: number): string {
+  return Number.isInteger(seconds) ? `${seconds}s` : `${Math.round(seconds * 1000)}ms`;
+}
+
+const BREATH_LABELS = { in: 'breathe in', out: 'breathe out', hold: 'hold' } as const;
+
+export interface TeleprompterOptions {
+  title?: string;
+  fontSizePx?: number;
+}
+
+/**
+ * Standalone HTML page for reading aloud: large type, cues as badges, sections labelled
+ */
+export function renderTeleprompterHtml(script: ReaderScript, options: TeleprompterOptions = {}): string {
+  const fontSize = options.fontSizePx ?? 32;
+
+  const renderNode = (node: ReaderInline): string => {
+    if (node.type === 'pause') {
+      return `<span class="cue pause">pause ${formatSeconds(node.seconds)}</span>`;
+    }
+    if (node.type === 'breath') {
+      const duration = node.seconds !== undefined ? ` ${formatSeconds(node.seconds)}` : '';
+      return `<span class="cue breath">${BREATH_LABELS[node.cue]}${duration}</span>`;
+    }
+    let html = escapeMarkup(node.text).replace(/\n/g, '<br>');
+    if (node.style.emphasis) html = `<strong>${html}</strong>`;
+    const classes = [node.style.slow && 'slow', node.style.soft && 'soft'].filter(Boolean);
+    return classes.length > 0 ? `<span class="${classes.join(' ')}">${html}</span>` : html;
+  };
+
+  const body = script.blocks.map(block => {
+    const heading = block.section
+      ? `<h2 class="section section-${block.section}">${READER_SECTION_LABELS[block.section]}</h2>\n`
+      : '';
+    const paragraphs = block.paragraphs.map(p => `<p>${p.map(renderNode).join('')}</p>`).join('\n');
+    return `<section>\n${heading}${paragraphs}\n</section>`;
+  }).join('\n');
+
+  const title = escapeMarkup(options.title || 'Script');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { background: #111; color: #f5f5f0; font-family: Georgia, serif; font-size: ${fontSize}px; line-height: 1.6; max-width: 32em; margin: 0 auto; padding: 2em 1em 50vh; }
+  h1 { font-size: 0.8em; color: #999; font-weight: normal; }
+  h2.section { font-size: 0.55em; text-transform: uppercase; letter-spacing: 0.15em; color: #8ab4f8; border-top: 1px solid #333; padding-top: 1em; margin-top: 2em; }
+  .cue { display: inline-block; font-family: sans-serif; font-size: 0.5em; padding: 0.1em 0.6em; margin: 0 0.3em; border-radius: 1em; vertical-align: middle; }
+  .pause { background: #3a3a1a; color: #f0e68c; }
+  .breath { background: #1a3a2a; color: #90ee90; }
+  .slow { letter-spacing: 0.05em; border-bottom: 2px dotted #8ab4f8; }
+  .soft { color: #b8b8d8; font-style: italic; }
+  strong { color: #fff; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+${body}
+</body>
+</html>`;
+}
+
+export interface SsmlOptions {
+  defaultBreathSeconds?: number;
+}
+
+/**
+ * SSML for TTS: pauses and breaths become breaks, regions become prosody, sections become marks
+ */
+export function renderSsml(script: ReaderScript, options: SsmlOptions = {}): string {
+  const breathSeconds = options.defaultBreathSeconds ?? DEFAULT_BREATH_SECONDS;
+
+  const renderNode = (node: ReaderInline): string => {
+    if (node.type === 'pause') {
+      return `<break time="${formatSeconds(node.seconds)}"/>`;
+    }
+    if (node.type === 'breath') {
+      return `<break time="${formatSeconds(node.seconds ?? breathSeconds)}"/>`;
+    }
+    let ssml = escapeMarkup(node.text).replace(/\n/g, ' ');
+    if (node.style.emphasis) ssml = `<emphasis level="moderate">${ssml}</emphasis>`;
+    const prosody = [
+      node.style.slow && 'rate="slow"',
+      node.style.soft && 'volume="soft"',
+    ].filter(Boolean);
+    return prosody.length > 0 ? `<prosody ${prosody.join(' ')}>${ssml}</prosody>` : ssml;
+  };
+
+  const body = script.blocks.map(block => {
+    const mark = block.section ? `<mark name="${block.section}"/>` : '';
+    return mark + block.paragraphs.map(p => `<p>${p.map(renderNode).join('')}</p>`).join('');
+  }).join('');
+
+  return `<speak>${body}</speak>`;
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, serial, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, jsonb, serial, index, uniqueIndex, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -102,6 +102,7 @@ export const generations = pgTable("generations", {
   stripePaymentIntentId: varchar("stripe_payment_intent_id", { length: 255 }).unique(), // SECURITY: Prevent payment replay attacks
   paymentStatus: varchar("payment_status", { length: 50 }).default("pending_payment"), // 'pending_payment', 'completed', 'failed'
   templateUsed: varchar("template_used", { length: 255 }).references(() => templates.templateId, { onDelete: 'set null' }), // V2: Track which template was used
+  templateVersion: integer("template_version"), // Pinned template_versions.version of templateUsed at generation time
   
   // Prompt tracking (for testing, debugging, and transparency)
   systemPrompt: text("system_prompt"), // The full system prompt sent to Claude
@@ -112,6 +113,12 @@ export const generations = pgTable("generations", {
   parentGenerationId: integer("parent_generation_id").references((): any => generations.id, { onDelete: 'set null' }),
   versionLabel: varchar("version_label", { length: 100 }),
   
+  // Methodology config versions live when this was generated, e.g. { "narrative-arcs": 3, "principles": 0 } (0 = bundled)
+  methodologyVersions: jsonb("methodology_versions"),
+  
+  jobId: integer("job_id"), // Background job that created this generation; a re-run of the job reuses it
+  generationPlan: jsonb("generation_plan"), // What the ScriptEngine planned: { arcs, primaryMetaphor }
+  
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -151,6 +158,15 @@ export const templates = pgTable("templates", {
   
   usageCount: integer("usage_count").default(0).notNull(),
   ratingAvg: integer("rating_avg"), // Store as integer (e.g., 450 = 4.50)
+  reviewCount: integer("review_count").default(0).notNull(),
+  
+  // Marketplace moderation - user templates are only listed publicly once approved
+  moderationStatus: varchar("moderation_status", { length: 20 }).default("none").notNull(), // 'none', 'pending', 'approved', 'rejected'
+  moderationNotes: text("moderation_notes"), // Reviewer's reason, shown to the author on rejection
+  moderatedBy: varchar("moderated_by").references(() => users.id, { onDelete: 'set null' }),
+  moderatedAt: timestamp("moderated_at"),
+  
+  currentVersion: integer("current_version"), // Latest template_versions.version (null until first snapshot)
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -160,6 +176,7 @@ export const templates = pgTable("templates", {
   categoryIdx: index("templates_category_idx").on(table.category),
   templateIdIdx: index("templates_template_id_idx").on(table.templateId),
   tagsIdx: index("templates_tags_idx").using('gin', table.tags),
+  moderationStatusIdx: index("templates_moderation_status_idx").on(table.moderationStatus),
 }));
 
 // V2: User template libraries (saved templates)
@@ -173,6 +190,62 @@ export const userTemplateLibraries = pgTable("user_template_libraries", {
   userTemplateUniq: uniqueIndex("user_template_unique_idx").on(table.userId, table.templateId),
 }));
 
+// Immutable template snapshots - every change to jsonData adds a version; rollbacks add a copy of an older one
+export const templateVersions = pgTable("template_versions", {
+  id: serial("id").primaryKey(),
+  templateId: varchar("template_id", { length: 255 }).notNull().references(() => templates.templateId, { onDelete: 'cascade' }),
+  version: integer("version").notNull(),
+  semver: varchar("semver", { length: 50 }), // TemplateJSON.version at this snapshot
+  jsonData: jsonb("json_data").notNull(),
+  changes: jsonb("changes"), // TemplateChange[] against the previous version (empty for version 1)
+  notes: text("notes"),
+  sourceVersion: integer("source_version"), // Set when this version is a rollback to an earlier one
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  templateVersionIdx: uniqueIndex("template_versions_template_version_idx").on(table.templateId, table.version),
+}));
+
+// Marketplace reviews - one 1-5 rating (and optional comment) per user per template
+export const templateReviews = pgTable("template_reviews", {
+  id: serial("id").primaryKey(),
+  templateId: varchar("template_id", { length: 255 }).notNull().references(() => templates.templateId, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  rating: integer("rating").notNull(),
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  templateUserIdx: uniqueIndex("template_reviews_template_user_idx").on(table.templateId, table.userId),
+}));
+
+// Template recommendation outcomes - what was recommended for a query and what the user did with it.
+// Events sharing a recommendationId belong to one /api/templates/recommend call; the ranking model trains on them.
+export const templateSelectionEvents = pgTable("template_selection_events", {
+  id: serial("id").primaryKey(),
+  recommendationId: varchar("recommendation_id", { length: 64 }).notNull(),
+  eventType: varchar("event_type", { length: 20 }).notNull(), // 'recommended', 'selected', 'favorited', 'edited', 'regenerated'
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'set null' }),
+  templateId: varchar("template_id", { length: 255 }), // Null for 'recommended' (see candidates)
+  generationId: integer("generation_id").references(() => generations.id, { onDelete: 'set null' }),
+  query: jsonb("query"), // 'recommended' only: { presentingIssue, desiredOutcome, clientNotes }
+  candidates: jsonb("candidates"), // 'recommended' only: shown templates in heuristic order, with their ranking features
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  recommendationIdIdx: index("template_selection_events_recommendation_id_idx").on(table.recommendationId),
+  generationIdIdx: index("template_selection_events_generation_id_idx").on(table.generationId),
+}));
+
+// Trained template ranking models; the selector re-ranks with the active one
+export const templateRankingModels = pgTable("template_ranking_models", {
+  id: serial("id").primaryKey(),
+  model: jsonb("model").notNull(), // Feature weights and normalization (server/template-ranker.ts)
+  trainedOn: integer("trained_on").notNull(), // Logged queries used for training
+  metrics: jsonb("metrics"), // Offline evaluation at training time (precision@3 vs the heuristic)
+  isActive: boolean("is_active").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Script Packages (collections of themed scripts)
 export const scriptPackages = pgTable("script_packages", {
   id: serial("id").primaryKey(),
@@ -189,7 +262,7 @@ export const scriptPackages = pgTable("script_packages", {
   
   // Export tracking
   exportedAt: timestamp("exported_at"),
-  exportFormat: varchar("export_format", { length: 50 }), // 'pdf', 'docx', 'bundle'
+  exportFormat: varchar("export_format", { length: 50 }), // 'txt', 'pdf', 'docx', 'epub', 'bundle'
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -335,6 +408,32 @@ export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 export type UserTemplateLibrary = typeof userTemplateLibraries.$inferSelect;
 export type InsertUserTemplateLibrary = z.infer<typeof insertUserTemplateLibrarySchema>;
 
+export const insertTemplateVersionSchema = createInsertSchema(templateVersions).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+});
+
+export type TemplateVersion = typeof templateVersions.$inferSelect;
+export type InsertTemplateVersion = z.infer<typeof insertTemplateVersionSchema>;
+
+export const insertTemplateReviewSchema = createInsertSchema(templateReviews).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type TemplateReview = typeof templateReviews.$inferSelect;
+export type InsertTemplateReview = z.infer<typeof insertTemplateReviewSchema>;
+
+export type TemplateModerationStatus = 'none' | 'pending' | 'approved' | 'rejected';
+export type TemplateSelectionEventType = 'recommended' | 'selected' | 'favorited' | 'edited' | 'regenerated';
+
+export type TemplateSelectionEvent = typeof templateSelectionEvents.$inferSelect;
+export type InsertTemplateSelectionEvent = typeof templateSelectionEvents.$inferInsert;
+export type TemplateRankingModelRecord = typeof templateRankingModels.$inferSelect;
+export type TemplateSort = 'rating' | 'usage' | 'recent';
+
 // V2: Template JSON structure interfaces
 export interface TemplateJSON {
   id: string;
@@ -582,3 +681,298 @@ export const arcJourneySchema = z.object({
   },
   { message: "Stage weights must sum to 100%" }
 );
+
+// Background jobs (durable queue for script, package, image and TTS work)
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: varchar("type", { length: 50 }).notNull(), // 'script', 'package', 'image', 'tts'
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  payload: jsonb("payload").notNull(),
+  
+  // Lifecycle
+  status: varchar("status", { length: 50 }).default("queued").notNull(), // 'queued', 'running', 'completed', 'failed'
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Next eligible run (pushed back on retry)
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by", { length: 255 }), // Worker id holding the lease
+  
+  // Outcome
+  progress: jsonb("progress"), // Stage events reported so far
+  result: jsonb("result"),
+  errorMessage: text("error_message"),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  statusRunAtIdx: index("jobs_status_run_at_idx").on(table.status, table.runAt),
+  userIdIdx: index("jobs_user_id_idx").on(table.userId),
+}));
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+  completedAt: true,
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+
+// Versioned methodology configs (narrative arcs, metaphors, principles, language mastery, ego strengthening)
+// The newest active version per key is live; older versions stay for history and rollback
+export const methodologyConfigs = pgTable("methodology_configs", {
+  id: serial("id").primaryKey(),
+  key: varchar("key", { length: 50 }).notNull(), // 'narrative-arcs', 'metaphor-library', 'principles', 'language-mastery', 'ego-config'
+  version: integer("version").notNull(),
+  content: jsonb("content").notNull(),
+  notes: text("notes"), // What changed
+  isActive: boolean("is_active").default(false).notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  keyVersionIdx: uniqueIndex("methodology_configs_key_version_idx").on(table.key, table.version),
+}));
+
+export const insertMethodologyConfigSchema = createInsertSchema(methodologyConfigs).omit({
+  id: true,
+  version: true,
+  isActive: true,
+  createdAt: true,
+});
+
+export type MethodologyConfig = typeof methodologyConfigs.$inferSelect;
+export type InsertMethodologyConfig = z.infer<typeof insertMethodologyConfigSchema>;
+
+// Stored narration renditions per generation (replayed instead of re-billing TTS)
+export const generationAudio = pgTable("generation_audio", {
+  id: serial("id").primaryKey(),
+  generationId: integer("generation_id").notNull().references(() => generations.id, { onDelete: 'cascade' }),
+  voice: varchar("voice", { length: 50 }).notNull(),
+  speed: real("speed").notNull(),
+  model: varchar("model", { length: 50 }).notNull(),
+  format: varchar("format", { length: 10 }).default("mp3").notNull(), // 'mp3', 'wav'
+  bed: varchar("bed", { length: 50 }), // Ambient bed mixed underneath, null for voice only
+  durationSeconds: real("duration_seconds").notNull(),
+  bytes: integer("bytes").notNull(),
+  storagePath: varchar("storage_path", { length: 500 }).notNull(), // Public object URL
+  scriptHash: varchar("script_hash", { length: 64 }).notNull(), // sha256 of the narrated text
+  isStale: boolean("is_stale").default(false).notNull(), // Script edited since this was rendered
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  generationIdIdx: index("generation_audio_generation_id_idx").on(table.generationId),
+}));
+
+export const insertGenerationAudioSchema = createInsertSchema(generationAudio).omit({
+  id: true,
+  isStale: true,
+  createdAt: true,
+});
+
+export type GenerationAudio = typeof generationAudio.$inferSelect;
+export type InsertGenerationAudio = z.infer<typeof insertGenerationAudioSchema>;
+
+// Audit trail of clinical safety screenings (decision and reasons only; the client text is stored as a hash)
+export const safetyScreenings = pgTable("safety_screenings", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'set null' }), // Null for anonymous/free and API-key callers
+  source: varchar("source", { length: 50 }).notNull(), // 'intake', 'preview', 'free', 'paid', 'dream', 'template', 'remix', 'api', 'job', 'plan'
+  decision: varchar("decision", { length: 30 }).notNull(), // 'allowed', 'allowed_with_modifications', 'refer_out'
+  reasons: jsonb("reasons").notNull(), // SafetyReason[]
+  modifications: jsonb("modifications").notNull(), // { avoidMetaphorFamilies, directives }
+  inputHash: varchar("input_hash", { length: 64 }).notNull(), // sha256 of the screened text
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  decisionIdx: index("safety_screenings_decision_idx").on(table.decision),
+}));
+
+// Safety screening result (server/script-engine/safety-screener.ts), shown in the UI on referral
+export type SafetyDecision = 'allowed' | 'allowed_with_modifications' | 'refer_out';
+
+export interface SafetyReason {
+  code: string;
+  decision: Exclude<SafetyDecision, 'allowed'>;
+  field: 'presentingIssue' | 'desiredOutcome' | 'clientNotes';
+  matched: string; // The phrase or avoid_for issue that triggered the rule
+  message: string;
+}
+
+export interface SafetyModifications {
+  avoidMetaphorFamilies: string[];
+  directives: string[];
+}
+
+export interface SafetyScreeningResult {
+  decision: SafetyDecision;
+  reasons: SafetyReason[];
+  modifications: SafetyModifications;
+  referralMessage: string | null; // Only set for refer_out
+}
+
+export const insertSafetyScreeningSchema = createInsertSchema(safetyScreenings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type SafetyScreening = typeof safetyScreenings.$inferSelect;
+export type InsertSafetyScreening = z.infer<typeof insertSafetyScreeningSchema>;
+
+// Treatment plans (multi-session protocols for one client, see server/script-engine/treatment-planner.ts)
+export const treatmentPlans = pgTable("treatment_plans", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  title: varchar("title", { length: 255 }).notNull(),
+  clientProfile: jsonb("client_profile").notNull(), // TreatmentClientProfile
+  status: varchar("status", { length: 50 }).default("draft").notNull(), // 'draft', 'generating', 'in_progress', 'completed'
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdIdx: index("treatment_plans_user_id_idx").on(table.userId),
+}));
+
+// Sessions of a treatment plan, in order; each one builds on the sessions before it
+export const treatmentPlanSessions = pgTable("treatment_plan_sessions", {
+  id: serial("id").primaryKey(),
+  planId: integer("plan_id").notNull().references(() => treatmentPlans.id, { onDelete: 'cascade' }),
+  sessionNumber: integer("session_number").notNull(), // 1-based
+  goal: text("goal").notNull(),
+  
+  // Per-session focus (null = the client profile's)
+  presentingIssue: varchar("presenting_issue", { length: 255 }),
+  desiredOutcome: text("desired_outcome"),
+  
+  // Arc choice: a manual arc, a multi-stage journey, or neither (the planner chooses)
+  arcId: varchar("arc_id", { length: 255 }),
+  arcJourney: jsonb("arc_journey"), // ArcJourney
+  assignedTemplateId: varchar("assigned_template_id", { length: 255 }).references(() => templates.templateId, { onDelete: 'set null' }),
+  
+  plan: jsonb("plan"), // SessionPlan - the StrategyPlanner's arcs and metaphor for this session
+  anchors: jsonb("anchors"), // SessionAnchors - suggestions and metaphors of the generated script
+  generationId: integer("generation_id").references(() => generations.id, { onDelete: 'set null' }),
+  
+  status: varchar("status", { length: 50 }).default("planned").notNull(), // 'planned', 'generating', 'completed', 'failed'
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  planIdIdx: index("treatment_plan_sessions_plan_id_idx").on(table.planId),
+}));
+
+export interface TreatmentClientProfile {
+  name: string; // How the practitioner refers to the client (an alias is fine)
+  presentingIssue: string;
+  desiredOutcome: string;
+  clientNotes?: string;
+  emergenceType?: 'regular' | 'sleep';
+}
+
+export interface SessionPlan {
+  arcs: Array<{ arcId: string; arcName: string; reason: string }>;
+  metaphorFamily: string | null;
+  isJourney: boolean;
+  reasoningLog: string[];
+}
+
+// What a generated session left the client with, for later sessions to return to
+export interface SessionAnchors {
+  metaphorFamily: string | null;
+  images: string[]; // Images of the metaphor family the script actually used
+  suggestions: string[]; // Embedded commands / presuppositions from the work and emergence phases
+  arcs: string[];
+}
+
+// What a session inherits from the sessions before it
+export interface SeriesContinuity {
+  sessionNumber: number;
+  totalSessions: number;
+  metaphorFamily: string | null; // The series' established family
+  images: string[];
+  suggestions: Array<{ sessionNumber: number; text: string }>;
+  previousSessions: Array<{ sessionNumber: number; goal: string; arcs: string[] }>;
+}
+
+export const insertTreatmentPlanSchema = createInsertSchema(treatmentPlans).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTreatmentPlanSessionSchema = createInsertSchema(treatmentPlanSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type TreatmentPlan = typeof treatmentPlans.$inferSelect;
+export type InsertTreatmentPlan = z.infer<typeof insertTreatmentPlanSchema>;
+export type TreatmentPlanSession = typeof treatmentPlanSessions.$inferSelect;
+export type InsertTreatmentPlanSession = z.infer<typeof insertTreatmentPlanSessionSchema>;
+
+// Script phase segmentation (server/script-engine/phase-segmenter.ts), drawn as a timeline in the UI
+export type ScriptPhase = 'induction' | 'deepening' | 'work' | 'emergence';
+
+export interface PhaseSpan {
+  phase: ScriptPhase;
+  start: number; // Character offsets into the script
+  end: number;
+}
+
+export interface ScriptPhaseSegment extends PhaseSpan {
+  wordStart: number;
+  wordCount: number;
+  confidence: number; // 0-1, how sure the segmenter is about where this phase starts
+}
+
+export type PhaseSegmentationSource = 'headings' | 'cues' | 'llm' | 'estimated';
+
+export interface ScriptSegmentation {
+  source: PhaseSegmentationSource;
+  wordCount: number;
+  segments: ScriptPhaseSegment[];
+}
+
+// Spoken-duration estimate of a script (pacing model)
+export interface PhaseDuration {
+  phase: ScriptPhase;
+  words: number;
+  seconds: number;
+}
+
+export interface DurationEstimate {
+  words: number;
+  seconds: number; // Speech + pauses
+  minutes: number; // Rounded to 0.1
+  speechSeconds: number;
+  pauseSeconds: number; // Sentence/paragraph pauses and [pause]/breathing cues
+  speed: number; // TTS speed the estimate assumes
+  phases: PhaseDuration[];
+}
+
+// Word budgets that fill a target duration
+export interface WordBudget {
+  targetMinutes: number;
+  speed: number;
+  totalWords: number;
+  phases: Record<ScriptPhase, number>;
+  stages?: Array<{ arcId: string; weight: number; words: number }>; // Arc journey stages, when planned
+}
+
+// Generation progress events (streamed over SSE while a script is generated)
+export type GenerationStage = 'plan' | 'outline' | 'draft' | 'polish' | 'refiner' | 'quality' | 'finalize';
+
+export interface GenerationStageEvent {
+  type: 'stage';
+  stage: GenerationStage;
+  status: 'started' | 'complete';
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface GenerationTokenEvent {
+  type: 'token';
+  stage: 'draft' | 'polish';
+  text: string; // Newly generated script text since the previous token event
+}
+
+export type GenerationProgressEvent = GenerationStageEvent | GenerationTokenEvent;
@@ -0,0 +1,151 @@
+/**
+ * Script Repairs - span-level edits to a script that can be accepted or rejected one by one
+ *
+ * The repair stages rewrite only the offending sentences/paragraphs of a script. Each rewrite is
+ * a ScriptRepair: a character range of the base script, its replacement and a word diff. Repairs
+ * never overlap, so any subset of them can be applied to the base script independently.
+ */
+
+export type RepairDiffOp = { type: 'equal' | 'insert' | 'delete'; text: string };
+
+export interface ScriptRepair {
+  id: string;
+  start: number; // Offsets into the base script
+  end: number;
+  original: string;
+  replacement: string;
+  reasons: string[]; // The failed checks this repair addresses
+  diff: RepairDiffOp[];
+}
+
+// A script before repairs, with the repairs that were made to it
+export interface ScriptRepairSet {
+  base: string;
+  repairs: ScriptRepair[];
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+/**
+ * Word-level diff (longest common subsequence over words and the whitespace between them)
+ */
+export function diffWords(before: string, after: string): RepairDiffOp[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: RepairDiffOp[] = [];
+  const push = (type: RepairDiffOp['type'], text: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) last.text += text;
+    else ops.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+  return ops;
+}
+
+/**
+ * Build a repair of base[start, end)
+ */
+export function createRepair(
+  base: string,
+  id: string,
+  start: number,
+  end: number,
+  replacement: string,
+  reasons: string[]
+): ScriptRepair {
+  const original = base.slice(start, end);
+  return { id, start, end, original, replacement, reasons, diff: diffWords(original, replacement) };
+}
+
+/**
+ * Apply repairs to the base script; with `acceptedIds`, only those repairs are applied
+ */
+export function applyRepairs(base: string, repairs: ScriptRepair[], acceptedIds?: Iterable<string>): string {
+  const accepted = acceptedIds ? new Set(acceptedIds) : null;
+  return repairs
+    .filter(repair => !accepted || accepted.has(repair.id))
+    .sort((a, b) => b.start - a.start)
+    .reduce((script, repair) => script.slice(0, repair.start) + repair.replacement + script.slice(repair.end), base);
+}
+
+/**
+ * Combine two rounds of repairs into one set against the original base: `first` was made to
+ * `base`, `second` to the script with all of `first` applied. Repairs that touch the same
+ * text are merged into one, so the result still never overlaps.
+ */
+export function composeRepairs(base: string, first: ScriptRepair[], second: ScriptRepair[]): ScriptRepair[] {
+  const sortedFirst = [...first].sort((a, b) => a.start - b.start);
+  const intermediate = applyRepairs(base, sortedFirst);
+
+  // Where each first-round repair sits in the intermediate script
+  let shift = 0;
+  const firstImages = sortedFirst.map(repair => {
+    const start = repair.start + shift;
+    const delta = repair.replacement.length - (repair.end - repair.start);
+    shift += delta;
+    return { start, end: start + repair.replacement.length, reasons: repair.reasons, delta };
+  });
+  const secondShifts = second.map(repair => ({ ...repair, delta: repair.replacement.length - (repair.end - repair.start) }));
+  const spans = [...firstImages, ...secondShifts].sort((a, b) => a.start - b.start || a.end - b.end);
+
+  // Group touching spans (intermediate coordinates)
+  const clusters: Array<{ start: number; end: number; reasons: string[] }> = [];
+  for (const span of spans) {
+    const last = clusters[clusters.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+      last.reasons.push(...span.reasons.filter(reason => !last.reasons.includes(reason)));
+    } else {
+      clusters.push({ start: span.start, end: span.end, reasons: [...span.reasons] });
+    }
+  }
+
+  // Cluster boundaries back to base / forward to the final script: every repair that ends before
+  // the boundary shifts it (a repair that starts on a cluster's start belongs to that cluster)
+  const shiftAt = (repairs: Array<{ start: number; end: number; delta: number }>, offset: number, isEnd: boolean) =>
+    repairs
+      .filter(repair => repair.end <= offset && (isEnd || repair.start < offset))
+      .reduce((sum, repair) => sum + repair.delta, 0);
+
+  const final = applyRepairs(intermediate, second);
+
+  const toBase = (offset: number, isEnd: boolean) => offset - shiftAt(firstImages, offset, isEnd);
+  const toFinal = (offset: number, isEnd: boolean) => offset + shiftAt(secondShifts, offset, isEnd);
+
+  return clusters
+    .map((cluster, i) => createRepair(
+      base,
+      `repair-${i + 1}`,
+      toBase(cluster.start, false),
+      toBase(cluster.end, true),
+      final.slice(toFinal(cluster.start, false), toFinal(cluster.end, true)),
+      cluster.reasons
+    ))
+    .filter(repair => repair.replacement !== repair.original);
+}
@@ -0,0 +1,155 @@
+/**
+ * Template Diff
+ *
+ * Dimension-aware differences between two TemplateJSON snapshots, e.g.
+ * "somatic 40→70, added somatic technique 'progressive relaxation'".
+ * Used for template version history (each version stores its changes against the previous
+ * one) and the diff API; metadata such as usage counts is ignored.
+ */
+
+import type { DimensionConfig, TemplateJSON } from "./schema";
+
+export type TemplateChangeKind = 'level' | 'added' | 'removed' | 'changed' | 'enabled' | 'disabled';
+
+export interface TemplateChange {
+  path: string; // e.g. "dimensions.somatic.techniques"
+  dimension?: keyof DimensionConfig;
+  kind: TemplateChangeKind;
+  from?: unknown;
+  to?: unknown;
+  summary: string;
+}
+
+export const TEMPLATE_DIMENSIONS: Array<keyof DimensionConfig> = [
+  'somatic', 'language', 'symbolic', 'psychological', 'temporal', 'perspective', 'relational', 'spiritual',
+];
+
+// Singular labels for list items ("added technique '...'")
+const LIST_ITEM_LABELS: Record<string, string> = {
+  techniques: 'technique',
+  approaches: 'approach',
+  work_types: 'work type',
+  tags: 'tag',
+  use_cases: 'use case',
+  presenting_issues: 'presenting issue',
+  priority: 'priority hint',
+  avoid: 'avoid hint',
+};
+
+// Long text fields are reported as changed without quoting them
+const LONG_TEXT_FIELDS = new Set(['description']);
+
+const label = (field: string) => field.replace(/_/g, ' ');
+const quote = (value: unknown) => value === null || value === undefined || value === '' ? '(none)' : `'${value}'`;
+
+function diffList(path: string, itemLabel: string, before: unknown, after: unknown, dimension?: keyof DimensionConfig): TemplateChange[] {
+  const from = Array.isArray(before) ? before.map(String) : [];
+  const to = Array.isArray(after) ? after.map(String) : [];
+  const prefix = dimension ? `${dimension} ` : '';
+  return [
+    ...to.filter(item => !from.includes(item)).map(item => ({
+      path, dimension, kind: 'added' as const, to: item, summary: `added ${prefix}${itemLabel} '${item}'`,
+    })),
+    ...from.filter(item => !to.includes(item)).map(item => ({
+      path, dimension, kind: 'removed' as const, from: item, summary: `removed ${prefix}${itemLabel} '${item}'`,
+    })),
+  ];
+}
+
+function diffFields(
+  path: string,
+  before: Record<string, unknown> = {},
+  after: Record<string, unknown> = {},
+  dimension?: keyof DimensionConfig
+): TemplateChange[] {
+  const changes: TemplateChange[] = [];
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  for (const field of fields) {
+    const from = before[field];
+    const to = after[field];
+    const fieldPath = `${path}.${field}`;
+
+    if (Array.isArray(from) || Array.isArray(to)) {
+      changes.push(...diffList(fieldPath, LIST_ITEM_LABELS[field] ?? label(field), from, to, dimension));
+    } else if (from === to || (from == null && to == null)) {
+      continue;
+    } else if (dimension && field === 'level') {
+      changes.push({ path: fieldPath, dimension, kind: 'level', from, to, summary: `${dimension} ${from ?? 0}→${to ?? 0}` });
+    } else if (dimension && field === 'enabled') {
+      changes.push({ path: fieldPath, dimension, kind: to ? 'enabled' : 'disabled', from, to, summary: `${dimension} ${to ? 'enabled' : 'disabled'}` });
+    } else {
+      const name = dimension ? `${dimension} ${label(field)}` : label(field);
+      changes.push({
+        path: fieldPath,
+        dimension,
+        kind: 'changed',
+        from,
+        to,
+        summary: LONG_TEXT_FIELDS.has(field) ? `${name} changed` : `${name} ${quote(from)}→${quote(to)}`,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Changes from `before` to `after`: dimensions first, then the template's own fields, rules and hints
+ */
+export function diffTemplates(before: TemplateJSON, after: TemplateJSON): TemplateChange[] {
+  const dimensions = TEMPLATE_DIMENSIONS.flatMap(dimension => diffFields(
+    `dimensions.${dimension}`,
+    before.dimensions?.[dimension] as unknown as Record<string, unknown>,
+    after.dimensions?.[dimension] as unknown as Record<string, unknown>,
+    dimension
+  ));
+
+  const pick = (template: TemplateJSON) => ({
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    tags: template.tags,
+    use_cases: template.use_cases,
+    presenting_issues: template.presenting_issues,
+  });
+
+  return [
+    ...dimensions,
+    ...diffFields('', pick(before), pick(after)).map(change => ({ ...change, path: change.path.slice(1) })),
+    ...diffFields('generation_rules', { ...before.generation_rules }, { ...after.generation_rules }),
+    ...diffFields('prompting_hints', { ...before.prompting_hints }, { ...after.prompting_hints }),
+  ];
+}
+
+/**
+ * "somatic 40→70, added somatic technique 'progressive relaxation'"
+ */
+export function formatTemplateChanges(changes: TemplateChange[]): string {
+  return changes.length === 0 ? 'no changes' : changes.map(change => change.summary).join(', ');
+}
+
+/**
+ * Next `TemplateJSON.version` when an edit didn't set one: minor for dimension changes, patch otherwise
+ */
+export function bumpTemplateVersion(version: string, changes: TemplateChange[]): string {
+  const match = /^(\d+)\.(\d+)(?:\.(\d+))?$/.exec(version.trim());
+  if (!match) return version;
+
+  const [major, minor, patch] = [Number(match[1]), Number(match[2]), Number(match[3] ?? 0)];
+  return changes.some(change => change.dimension)
+    ? `${major}.${minor + 1}.0`
+    : `${major}.${minor}.${patch + 1}`;
+}
+
+/**
+ * Orders `TemplateJSON.version` strings numerically ("1.10.0" > "1.9.2"); non-numeric parts compare as 0
+ */
+export function compareTemplateVersions(a: string, b: string): number {
+  const parts = (version: string) => version.trim().split('.').map(part => parseInt(part, 10) || 0);
+  const [left, right] = [parts(a), parts(b)];
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { AIService } from '../../server/ai-service';
+import { cassetteStore } from '../../server/cassette-store';
 
 /**
  * Full Clinical Pipeline Integration Test
@@ -13,16 +14,21 @@ import { AIService } from '../../server/ai-service';
  * 
  * This ensures all imports, requires, and module dependencies work correctly.
  * 
- * ⚠️ EXPENSIVE TESTS: These make real AI API calls and take 60-90 seconds each.
- * Run with: npm test -- tests/integration/full-clinical-pipeline.test.ts
+ * ⚠️ EXPENSIVE TESTS: Recording makes real AI API calls and takes 60-90 seconds each.
+ * Record:  CASSETTE_MODE=record npx vitest run tests/integration/full-clinical-pipeline.test.ts
+ * Replay:  runs automatically once tests/cassettes/full-clinical-pipeline.json exists
  * 
  * These tests WOULD HAVE CAUGHT the require() bug in Quality Guard!
  */
 
-describe.skip('Full Clinical Pipeline Integration (EXPENSIVE - Real AI)', () => {
+const CASSETTE = 'full-clinical-pipeline';
+const recording = process.env.CASSETTE_MODE === 'record';
+
+describe.skipIf(!recording && !cassetteStore.hasCassette(CASSETTE))('Full Clinical Pipeline Integration (Recorded AI)', () => {
   let aiService: AIService;
 
   beforeAll(() => {
+    cassetteStore.useCassette(CASSETTE, recording ? 'record' : 'replay');
     aiService = new AIService();
   });
 
@@ -2,6 +2,7 @@
 // This runs before all tests
 
 import { beforeAll, afterAll } from 'vitest';
+import { cassetteStore } from '../server/cassette-store';
 
 // Mock environment variables if needed
 beforeAll(() => {
@@ -9,5 +10,9 @@ beforeAll(() => {
 });
 
 afterAll(() => {
-  // Cleanup code here
+  // Surface recordings whose prompts changed (e.g. DimensionAssembler edits)
+  const staleReport = cassetteStore.formatStaleReport();
+  if (staleReport) {
+    console.warn(staleReport);
+  }
 });
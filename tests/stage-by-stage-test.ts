@@ -10,15 +10,18 @@
  * Stage 4: Quality Guard (refinedScript → polishedScript)
  * 
  * Usage: tsx tests/stage-by-stage-test.ts
+ *        CASSETTE_MODE=record tsx tests/stage-by-stage-test.ts   (save live AI responses)
+ *        CASSETTE_MODE=replay tsx tests/stage-by-stage-test.ts   (deterministic, no API calls)
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { llmProvider } from '../server/llm-provider';
+import { cassetteStore } from '../server/cassette-store';
 import { analyzePatterns } from '../server/pattern-refiner';
 import { analyzeGrammar } from '../server/grammar-checker';
 import fs from 'fs/promises';
 import path from 'path';
 
-const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+cassetteStore.useCassette('stage-by-stage');
 
 interface TestCase {
   name: string;
@@ -94,19 +97,14 @@ Format as JSON:
   "storyLength": "approximate word count"
 }`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 3000,
+  const responseText = await llmProvider.complete({
+    task: 'stage1-story-shaper',
     system: systemPrompt,
-    messages: [{ role: 'user', content: userPrompt }],
+    prompt: userPrompt,
+    maxTokens: 3000,
   });
 
-  const textContent = response.content[0];
-  if (textContent.type !== 'text') {
-    throw new Error('Expected text response');
-  }
-
-  let jsonText = textContent.text.trim();
+  let jsonText = responseText.trim();
   if (jsonText.startsWith('```json')) {
     jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
   } else if (jsonText.startsWith('```')) {
@@ -195,19 +193,14 @@ Format as JSON:
   "fullScript": "The complete 3000-word hypnosis script here..."
 }`;
 
-  const response = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 8000,
+  const responseText = await llmProvider.complete({
+    task: 'stage2-dream-maker',
     system: systemPrompt,
-    messages: [{ role: 'user', content: userPrompt }],
+    prompt: userPrompt,
+    maxTokens: 8000,
   });
 
-  const textContent = response.content[0];
-  if (textContent.type !== 'text') {
-    throw new Error('Expected text response');
-  }
-
-  let jsonText = textContent.text.trim();
+  let jsonText = responseText.trim();
   if (jsonText.startsWith('```json')) {
     jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?$/g, '');
   } else if (jsonText.startsWith('```')) {
@@ -490,6 +483,11 @@ async function runTestSuite() {
       console.error(error.stack);
     }
   }
+
+  const staleReport = cassetteStore.formatStaleReport();
+  if (staleReport) {
+    console.warn(`\n${staleReport}`);
+  }
 }
 
 // Run test suite
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  audioMixer,
+  computeDuckEnvelope,
+  createBedGenerator,
+  fadeWindows,
+  AMBIENT_BEDS,
+  type AmbientBed,
+} from '../../server/audio-mixer';
+import { TTS_SAMPLE_RATE } from '../../server/audio-utils';
+import type { NarrationTrack } from '../../server/tts-service';
+
+function tone(seconds: number, amplitude: number): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * TTS_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin(i / 8) * amplitude);
+  }
+  return samples;
+}
+
+function track(samples: Int16Array, sections: NarrationTrack['sections'] = []): NarrationTrack {
+  return { samples, sections, chunkCount: 1, cachedChunks: 0 };
+}
+
+// Left/right samples of a stereo WAV from the mixer
+function readStereo(wav: Buffer): { left: number[]; right: number[] } {
+  const left: number[] = [];
+  const right: number[] = [];
+  for (let offset = 44; offset + 3 < wav.length; offset += 4) {
+    left.push(wav.readInt16LE(offset) / 32768);
+    right.push(wav.readInt16LE(offset + 2) / 32768);
+  }
+  return { left, right };
+}
+
+function rms(values: number[]): number {
+  return Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+}
+
+describe('bed generators', () => {
+  it('produces every bed at roughly speech level', () => {
+    for (const bed of Object.keys(AMBIENT_BEDS) as AmbientBed[]) {
+      const left = new Float32Array(TTS_SAMPLE_RATE * 5);
+      const right = new Float32Array(TTS_SAMPLE_RATE * 5);
+      createBedGenerator(bed).fill(left, right);
+
+      const level = rms(Array.from(left));
+      expect(level, bed).toBeGreaterThan(0.05);
+      expect(level, bed).toBeLessThan(0.2);
+    }
+  });
+
+  it('is reproducible for a seed', () => {
+    const a = new Float32Array(1000);
+    const b = new Float32Array(1000);
+    createBedGenerator('rain', 7).fill(a, new Float32Array(1000));
+    createBedGenerator('rain', 7).fill(b, new Float32Array(1000));
+
+    expect(Array.from(a)).toEqual(Array.from(b));
+  });
+
+  it('offsets the right ear for binaural beats', () => {
+    const left = new Float32Array(TTS_SAMPLE_RATE);
+    const right = new Float32Array(TTS_SAMPLE_RATE);
+    createBedGenerator('theta').fill(left, right);
+
+    expect(left[0]).toBe(right[0]);
+    expect(Array.from(left)).not.toEqual(Array.from(right));
+  });
+});
+
+describe('computeDuckEnvelope', () => {
+  it('stays up in silence and dips under speech', () => {
+    const samples = new Int16Array(TTS_SAMPLE_RATE * 4);
+    samples.set(tone(2, 4000), TTS_SAMPLE_RATE); // Speech from 1s to 3s
+    const envelope = computeDuckEnvelope(samples, 0.4);
+
+    expect(envelope[10]).toBe(1); // 0.1s
+    expect(envelope[250]).toBeCloseTo(0.4, 2); // 2.5s, well inside the phrase
+    expect(envelope[95]).toBeLessThan(1); // Lookahead dips before the phrase starts
+  });
+});
+
+describe('fadeWindows', () => {
+  it('fades across the induction and emergence sections', () => {
+    const narration = track(new Int16Array(TTS_SAMPLE_RATE * 120), [
+      { section: 'induction', startSeconds: 0, endSeconds: 30 },
+      { section: 'work', startSeconds: 31, endSeconds: 90 },
+      { section: 'emergence', startSeconds: 92, endSeconds: 120 },
+    ]);
+
+    expect(fadeWindows(narration, 60)).toEqual({ fadeInEnd: 30, fadeOutStart: 92, total: 180 });
+  });
+
+  it('falls back to fixed fades for unmarked scripts', () => {
+    const narration = track(new Int16Array(TTS_SAMPLE_RATE * 120));
+
+    expect(fadeWindows(narration, 0)).toEqual({ fadeInEnd: 20, fadeOutStart: 90, total: 120 });
+  });
+});
+
+describe('AudioMixer.mix', () => {
+  it('renders a stereo file covering the narration plus the tail', () => {
+    const result = audioMixer.mix(track(tone(2, 4000)), { bed: 'brown-noise', tailSeconds: 1, format: 'wav' });
+
+    expect(result.durationSeconds).toBe(3);
+    expect(result.audio.readUInt16LE(22)).toBe(2);
+    expect(result.audio.length).toBe(44 + 3 * TTS_SAMPLE_RATE * 4);
+  });
+
+  it('starts silent, fades the bed in and out to silence at the end', () => {
+    const narration = new Int16Array(TTS_SAMPLE_RATE * 6); // No speech, just the bed
+    const result = audioMixer.mix(track(narration), { bed: 'ocean', format: 'wav' });
+    const { left } = readStereo(result.audio);
+
+    expect(Math.abs(left[0])).toBeLessThan(0.001);
+    expect(rms(left.slice(TTS_SAMPLE_RATE * 2, TTS_SAMPLE_RATE * 3))).toBeGreaterThan(0.01);
+    expect(rms(left.slice(-100))).toBeLessThan(0.001);
+  });
+
+  it('keeps the bed quieter under speech when ducking', () => {
+    const narration = new Int16Array(TTS_SAMPLE_RATE * 12);
+    narration.set(tone(3, 4000), TTS_SAMPLE_RATE * 5); // Speech from 5s to 8s
+    const options = { bed: 'theta' as const, format: 'wav' as const };
+
+    const ducked = readStereo(audioMixer.mix(track(narration), { ...options, ducking: true }).audio);
+    const open = readStereo(audioMixer.mix(track(narration), { ...options, ducking: false }).audio);
+
+    // The right ear only carries the bed's offset tone plus the narration, so compare the bed's share there
+    const window = [TTS_SAMPLE_RATE * 6, TTS_SAMPLE_RATE * 7];
+    const bedUnderSpeech = (mix: { left: number[]; right: number[] }) =>
+      rms(mix.right.slice(window[0], window[1]).map((v, i) => v - narration[window[0] + i] / 32768));
+
+    expect(bedUnderSpeech(ducked)).toBeLessThan(bedUnderSpeech(open) * 0.6);
+  });
+});
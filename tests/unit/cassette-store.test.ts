@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CassetteStore,
+  CassetteMissError,
+  StaleCassetteError,
+  hashPrompt,
+} from '../../server/cassette-store';
+import { CassetteProvider, FixtureProvider } from '../../server/llm-provider';
+
+describe('Cassette Store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassettes-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const request = {
+    system: 'You are a hypnotherapist.\nSomatic level: 60',
+    prompt: 'Presenting issue: stress',
+    model: 'claude-sonnet-4-20250514',
+    temperature: 0.7,
+  };
+
+  describe('hashPrompt', () => {
+    it('should be stable for identical prompts', () => {
+      expect(hashPrompt('llm', 'full-script', request)).toBe(hashPrompt('llm', 'full-script', { ...request }));
+    });
+
+    it('should change when the model or temperature changes', () => {
+      expect(hashPrompt('llm', 'full-script', request))
+        .not.toBe(hashPrompt('llm', 'full-script', { ...request, model: 'other-model' }));
+      expect(hashPrompt('llm', 'full-script', request))
+        .not.toBe(hashPrompt('llm', 'full-script', { ...request, temperature: 0.2 }));
+    });
+
+    it('should change when the prompt changes', () => {
+      expect(hashPrompt('llm', 'full-script', request))
+        .not.toBe(hashPrompt('llm', 'full-script', { ...request, system: 'Somatic level: 70' }));
+    });
+  });
+
+  describe('record and replay', () => {
+    it('should pass through when mode is off', async () => {
+      const store = new CassetteStore('off', dir, 'test');
+      const result = await store.run('llm', 'full-script', request, async () => 'live');
+
+      expect(result).toBe('live');
+      expect(store.hasCassette('test')).toBe(false);
+    });
+
+    it('should record to disk and replay without calling the provider', async () => {
+      const recorder = new CassetteStore('record', dir, 'test');
+      await recorder.run('llm', 'full-script', request, async () => 'recorded response');
+
+      const saved = JSON.parse(fs.readFileSync(path.join(dir, 'test.json'), 'utf-8'));
+      expect(saved.interactions).toHaveLength(1);
+      expect(saved.interactions[0].request.model).toBe('claude-sonnet-4-20250514');
+      expect(saved.interactions[0].request.temperature).toBe(0.7);
+
+      const player = new CassetteStore('replay', dir, 'test');
+      const result = await player.run('llm', 'full-script', request, async () => {
+        throw new Error('provider should not be called');
+      });
+      expect(result).toBe('recorded response');
+    });
+
+    it('should replace the cassette on the first write of a recording run', async () => {
+      fs.writeFileSync(path.join(dir, 'test.json'), JSON.stringify({
+        version: 1,
+        name: 'test',
+        interactions: [{ key: 'old', kind: 'llm', task: 'full-script', request, response: 'old', recordedAt: '' }],
+      }));
+
+      const recorder = new CassetteStore('record', dir, 'test');
+      await recorder.run('llm', 'preview', request, async () => 'new');
+
+      const saved = JSON.parse(fs.readFileSync(path.join(dir, 'test.json'), 'utf-8'));
+      expect(saved.interactions.map((i: any) => i.task)).toEqual(['preview']);
+    });
+
+    it('should fail clearly when nothing was recorded for a task', async () => {
+      const player = new CassetteStore('replay', dir, 'empty');
+
+      await expect(player.run('llm', 'full-script', request, async () => 'live'))
+        .rejects.toBeInstanceOf(CassetteMissError);
+      expect(player.getStaleReport()).toHaveLength(0);
+    });
+  });
+
+  describe('stale detection', () => {
+    it('should report a stale cassette when the assembled prompt changes', async () => {
+      const recorder = new CassetteStore('record', dir, 'test');
+      await recorder.run('llm', 'full-script', request, async () => 'recorded response');
+
+      const player = new CassetteStore('replay', dir, 'test');
+      const changed = { ...request, system: 'You are a hypnotherapist.\nSomatic level: 80' };
+
+      const error = await player.run('llm', 'full-script', changed, async () => 'live').catch(e => e);
+      expect(error).toBeInstanceOf(StaleCassetteError);
+      expect(error.entry.firstDifference).toContain('system line 2');
+
+      const report = player.getStaleReport();
+      expect(report).toHaveLength(1);
+      expect(report[0].task).toBe('full-script');
+      expect(player.formatStaleReport()).toContain('1 stale recording');
+    });
+
+    it('should not replay a recording made against another model', async () => {
+      const recorder = new CassetteStore('record', dir, 'test');
+      await recorder.run('llm', 'full-script', request, async () => 'recorded response');
+
+      const player = new CassetteStore('replay', dir, 'test');
+      const error = await player.run('llm', 'full-script', { ...request, model: 'other-model' }, async () => 'live').catch(e => e);
+
+      expect(error).toBeInstanceOf(StaleCassetteError);
+      expect(error.entry.firstDifference).toContain('model');
+    });
+  });
+
+  describe('CassetteProvider', () => {
+    it('should record LLM calls with the inner provider model', async () => {
+      const store = new CassetteStore('record', dir, 'provider');
+      const provider = new CassetteProvider(new FixtureProvider(), store);
+
+      const text = await provider.complete({ task: 'dream-title', prompt: 'Forest walk', maxTokens: 100 });
+      expect(JSON.parse(text).title).toBeTruthy();
+
+      const saved = JSON.parse(fs.readFileSync(path.join(dir, 'provider.json'), 'utf-8'));
+      expect(saved.interactions[0].request.model).toBe('fixture-replay');
+      expect(saved.interactions[0].response).toBe(text);
+    });
+  });
+});
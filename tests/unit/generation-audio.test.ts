@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const storageMock = vi.hoisted(() => ({
+  createGenerationAudio: vi.fn(),
+}));
+const ttsMock = vi.hoisted(() => ({
+  synthesize: vi.fn(),
+  renderNarration: vi.fn(),
+}));
+const uploadAudioMock = vi.hoisted(() => vi.fn());
+
+// Keep the database, AI clients and object storage out of unit tests
+vi.mock('../../server/storage', () => ({ storage: storageMock }));
+vi.mock('../../server/ai-service', () => ({ aiService: {} }));
+vi.mock('../../server/template-manager', () => ({ templateManager: {} }));
+vi.mock('../../server/template-selector', () => ({ templateSelector: {} }));
+vi.mock('../../server/tts-service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../server/tts-service')>()),
+  ttsService: ttsMock,
+}));
+vi.mock('../../server/objectStorage', () => ({
+  ObjectStorageService: class {
+    uploadAudio = uploadAudioMock;
+  },
+}));
+
+import { registerJobHandlers } from '../../server/job-handlers';
+import { hashScript } from '../../server/tts-service';
+import type { JobHandler, JobQueue } from '../../server/job-queue';
+
+function ttsHandler(): JobHandler {
+  const handlers = new Map<string, JobHandler>();
+  registerJobHandlers({ registerHandler: (type: string, handler: JobHandler) => handlers.set(type, handler) } as unknown as JobQueue);
+  return handlers.get('tts')!;
+}
+
+const context = { job: { userId: 'user-1' }, isFinalAttempt: false, progress: () => {} } as any;
+
+describe('hashScript', () => {
+  it('changes with the text and nothing else', () => {
+    expect(hashScript('Relax now.')).toBe(hashScript('Relax now.'));
+    expect(hashScript('Relax now.')).not.toBe(hashScript('Relax now!'));
+    expect(hashScript('Relax now.')).toHaveLength(64);
+  });
+});
+
+describe('tts job handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ttsMock.synthesize.mockResolvedValue({ audio: Buffer.alloc(1200), format: 'mp3', durationSeconds: 42, chunkCount: 1, cachedChunks: 0 });
+    uploadAudioMock.mockResolvedValue('/public-objects/audio/abc.mp3');
+    storageMock.createGenerationAudio.mockResolvedValue({ id: 9 });
+  });
+
+  it('stores a rendition when the audio belongs to a generation', async () => {
+    const result = await ttsHandler()({ text: 'Relax now.', voice: 'nova', speed: 0.6, generationId: 5 }, context);
+
+    expect(storageMock.createGenerationAudio).toHaveBeenCalledWith({
+      generationId: 5,
+      voice: 'nova',
+      speed: 0.6,
+      model: 'tts-1-hd',
+      format: 'mp3',
+      bed: null,
+      durationSeconds: 42,
+      bytes: 1200,
+      storagePath: '/public-objects/audio/abc.mp3',
+      scriptHash: hashScript('Relax now.'),
+    });
+    expect(result).toMatchObject({ audioUrl: '/public-objects/audio/abc.mp3', renditionId: 9 });
+  });
+
+  it('only uploads free-standing narration', async () => {
+    const result = await ttsHandler()({ text: 'Relax now.', voice: 'nova', speed: 0.6 }, context);
+
+    expect(storageMock.createGenerationAudio).not.toHaveBeenCalled();
+    expect(result).toEqual({ audioUrl: '/public-objects/audio/abc.mp3', bytes: 1200, durationSeconds: 42, bed: null });
+  });
+});
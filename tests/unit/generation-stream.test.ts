@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import { GenerationEventStream, PartialJsonStringReader, wantsEventStream } from '../../server/generation-stream';
+
+/**
+ * Minimal stand-in for an Express response that records what was written
+ */
+class FakeResponse extends EventEmitter {
+  headers: Record<string, string> = {};
+  chunks: string[] = [];
+  statusCode = 0;
+  ended = false;
+
+  status(code: number) { this.statusCode = code; return this; }
+  setHeader(name: string, value: string) { this.headers[name] = value; }
+  flushHeaders() {}
+  write(chunk: string) { this.chunks.push(chunk); return true; }
+  end() { this.ended = true; }
+}
+
+describe('Generation Stream', () => {
+  describe('PartialJsonStringReader', () => {
+    it('should emit script text as JSON streams in', () => {
+      const reader = new PartialJsonStringReader('fullScript');
+      const chunks = ['{"fullScript": "Settle', ' in now.\\nYour breath', ' slows.", "marketingAssets": {"postTitle": "x"}}'];
+
+      const output = chunks.map(c => reader.push(c));
+
+      expect(output).toEqual(['Settle', ' in now.\nYour breath', ' slows.']);
+    });
+
+    it('should hold back escape sequences split across chunks', () => {
+      const reader = new PartialJsonStringReader('fullScript');
+
+      expect(reader.push('{"fullScript": "Rest\\')).toBe('Rest');
+      expect(reader.push('"deeply\\"')).toBe('"deeply"');
+      expect(reader.push(' \\u00e9')).toBe(' é');
+    });
+
+    it('should decode a value fed one character at a time', () => {
+      const reader = new PartialJsonStringReader('fullScript');
+      const raw = JSON.stringify({ fullScript: 'Rest "now".\n\tSoftly é \\ done', marketingAssets: {} });
+
+      const output = [...raw].map(c => reader.push(c)).join('');
+
+      expect(output).toBe('Rest "now".\n\tSoftly é \\ done');
+    });
+
+    it('should ignore text before the field and after the string closes', () => {
+      const reader = new PartialJsonStringReader('fullScript');
+
+      expect(reader.push('```json\n{"title": "Calm", ')).toBe('');
+      expect(reader.push('"fullScript": "Breathe."}')).toBe('Breathe.');
+      expect(reader.push('\n```')).toBe('');
+    });
+  });
+
+  describe('GenerationEventStream', () => {
+    it('should write SSE frames and close on complete', () => {
+      const res = new FakeResponse();
+      const stream = new GenerationEventStream(res as any);
+
+      stream.progress({ type: 'stage', stage: 'plan', status: 'complete', message: 'Engine plan ready' });
+      stream.progress({ type: 'token', stage: 'draft', text: 'Settle in' });
+      stream.complete({ generationId: 1 });
+
+      expect(res.headers['Content-Type']).toBe('text/event-stream');
+      expect(res.chunks[0]).toMatch(/^event: stage\ndata: \{.*"stage":"plan".*\}\n\n$/);
+      expect(res.chunks[1]).toContain('event: token');
+      expect(res.chunks[2]).toBe('event: complete\ndata: {"generationId":1}\n\n');
+      expect(res.ended).toBe(true);
+    });
+
+    it('should report failures as an error event', () => {
+      const res = new FakeResponse();
+      const stream = new GenerationEventStream(res as any);
+
+      stream.fail('AI unavailable');
+
+      expect(res.chunks).toEqual(['event: error\ndata: {"message":"AI unavailable"}\n\n']);
+      expect(res.ended).toBe(true);
+    });
+
+    it('should stop writing after the client disconnects', () => {
+      const res = new FakeResponse();
+      const stream = new GenerationEventStream(res as any);
+
+      res.emit('close');
+      stream.progress({ type: 'token', stage: 'draft', text: 'late' });
+
+      expect(res.chunks).toHaveLength(0);
+    });
+  });
+
+  it('should detect clients asking for an event stream', () => {
+    expect(wantsEventStream({ headers: { accept: 'text/event-stream' } } as any)).toBe(true);
+    expect(wantsEventStream({ headers: { accept: 'application/json' } } as any)).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { IssueClassifier, issueClassifier, tokenize } from '../../server/script-engine/issue-classifier';
+import { methodologyConfig } from '../../server/script-engine/methodology-config';
+import { StrategyPlanner } from '../../server/script-engine/strategy-planner';
+
+const vocabularies = () => ({
+  narrativeArcs: methodologyConfig.get('narrative-arcs'),
+  metaphorLibrary: methodologyConfig.get('metaphor-library'),
+});
+
+describe('tokenize', () => {
+  it('unifies contractions, apostrophes and word endings', () => {
+    expect(tokenize("Can’t stop WORRYING")).toEqual(tokenize("cannot stop worried"));
+    expect(tokenize('nurturing_self')).toEqual(['nurtur', 'self']);
+  });
+});
+
+describe('IssueClassifier', () => {
+  it('maps phrasing the keyword lists never covered onto the vocabularies', () => {
+    const night = issueClassifier.classify("can't switch off at night", vocabularies());
+    expect(night.metaphorIssues[0]).toMatchObject({ label: 'sleep' });
+    expect(night.arcIssues.some(m => m.label === 'insomnia from depletion' && m.confidence >= 0.7)).toBe(true);
+
+    const speaking = issueClassifier.classify('public speaking dread', vocabularies());
+    expect(speaking.arcIssues[0]).toMatchObject({ label: 'performance anxiety', confidence: 1 });
+    expect(speaking.plannerIssues[0]).toMatchObject({ label: 'anxiety' });
+  });
+
+  it('spreads along the graph with reduced confidence', () => {
+    const concepts = issueClassifier.concepts('stage fright');
+
+    expect(concepts.get('performance-anxiety')).toBe(1);
+    expect(concepts.get('anxiety')).toBeCloseTo(0.8);
+    expect(concepts.has('trauma')).toBe(false);
+  });
+
+  it('scores verbatim labels as certain and unrelated labels as no match', () => {
+    expect(issueClassifier.similarity('my chronic pain flares', 'chronic pain').confidence).toBe(1);
+    expect(issueClassifier.similarity('I want to quit smoking', 'creative block').confidence).toBe(0);
+    expect(issueClassifier.match('I want to quit smoking', ['creative block', 'cigarette cravings'])).toEqual([
+      expect.objectContaining({ label: 'cigarette cravings' }),
+    ]);
+  });
+
+  it('works from a custom lexicon', () => {
+    const classifier = new IssueClassifier({
+      concepts: {
+        'fear-of-flying': { phrases: ['flying', 'airplane', 'turbulence'], related: { anxiety: 0.7 } },
+        anxiety: { phrases: ['anxiety'], related: {} },
+      },
+    });
+
+    expect(classifier.match('turbulence terrifies me', ['fear of flying', 'anxiety'], 0.4)).toEqual([
+      expect.objectContaining({ label: 'fear of flying' }),
+      expect.objectContaining({ label: 'anxiety' }),
+    ]);
+  });
+});
+
+describe('StrategyPlanner issue classification', () => {
+  it('logs confidence scores and selects arcs from matched presenting issues', async () => {
+    const contract = await new StrategyPlanner().plan({
+      presentingIssue: 'grief after my mother died',
+      desiredOutcome: 'peace',
+      symbolicDimensionLevel: 60,
+    });
+
+    expect(contract.reasoningLog).toContainEqual(expect.stringMatching(/^Detected issues: trauma \(0\.\d\d\)/));
+    expect(contract.reasoningLog).toContainEqual(expect.stringMatching(/^Arc issue matches: .*death\/grief \(0\.\d\d\)/));
+    expect(contract.selectedArcs.find(arc => arc.arcId === 'oasis-rest')?.reason).toMatch(/Matches presenting issue: .*death\/grief/);
+  });
+
+  it('picks a metaphor from good_for issues when no issue mapping is confident', async () => {
+    const contract = await new StrategyPlanner().plan({
+      presentingIssue: "can't switch off at night",
+      desiredOutcome: 'deep rest',
+      symbolicDimensionLevel: 60,
+    });
+
+    expect(contract.primaryMetaphor).toMatchObject({ family: 'nature_gentle' });
+    expect(contract.primaryMetaphor?.reason).toMatch(/Good for sleep \(confidence 0\.\d\d/);
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Job, InsertJob } from '@shared/schema';
+
+// The queue only talks to the store it is given; keep the real database out of unit tests
+vi.mock('../../server/storage', () => ({ storage: {} }));
+
+import { JobQueue, PermanentJobError, computeBackoff, type IJobStore } from '../../server/job-queue';
+
+/**
+ * In-memory stand-in for the jobs table
+ */
+class MemoryJobStore implements IJobStore {
+  jobs = new Map<number, Job>();
+  private nextId = 1;
+
+  async createJob(job: InsertJob): Promise<Job> {
+    const now = new Date();
+    const created = {
+      id: this.nextId++,
+      type: job.type,
+      userId: job.userId,
+      payload: job.payload,
+      status: job.status ?? 'queued',
+      attempts: 0,
+      maxAttempts: job.maxAttempts ?? 3,
+      runAt: now,
+      lockedAt: null,
+      lockedBy: null,
+      progress: null,
+      result: null,
+      errorMessage: null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    } as Job;
+    this.jobs.set(created.id, created);
+    return created;
+  }
+
+  async getJobById(id: number) {
+    return this.jobs.get(id);
+  }
+
+  async claimNextJob(workerId: string, maxRunningPerUser: number) {
+    const running = (userId: string) =>
+      [...this.jobs.values()].filter(j => j.userId === userId && j.status === 'running').length;
+    const job = [...this.jobs.values()].find(
+      j => j.status === 'queued' && j.runAt <= new Date() && running(j.userId) < maxRunningPerUser
+    );
+    if (!job) return undefined;
+    Object.assign(job, { status: 'running', attempts: job.attempts + 1, lockedAt: new Date(), lockedBy: workerId });
+    return { ...job };
+  }
+
+  async updateJobProgress(id: number, progress: unknown[]) {
+    this.jobs.get(id)!.progress = [...progress];
+  }
+
+  private holdsLease(id: number, workerId: string) {
+    const job = this.jobs.get(id)!;
+    return job.status === 'running' && job.lockedBy === workerId;
+  }
+
+  async completeJob(id: number, workerId: string, result: unknown) {
+    if (!this.holdsLease(id, workerId)) return false;
+    Object.assign(this.jobs.get(id)!, { status: 'completed', result, completedAt: new Date(), lockedBy: null });
+    return true;
+  }
+
+  async retryJob(id: number, workerId: string, errorMessage: string, runAt: Date) {
+    if (!this.holdsLease(id, workerId)) return false;
+    Object.assign(this.jobs.get(id)!, { status: 'queued', errorMessage, runAt, lockedAt: null, lockedBy: null });
+    return true;
+  }
+
+  async failJob(id: number, workerId: string, errorMessage: string) {
+    if (!this.holdsLease(id, workerId)) return false;
+    Object.assign(this.jobs.get(id)!, { status: 'failed', errorMessage, completedAt: new Date(), lockedBy: null });
+    return true;
+  }
+
+  async requeueStaleJobs(lockedBefore: Date) {
+    let count = 0;
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running' && job.lockedAt && job.lockedAt < lockedBefore) {
+        Object.assign(job, { status: 'queued', lockedAt: null, runAt: new Date() });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async renewJobLease(id: number, workerId: string) {
+    const job = this.jobs.get(id)!;
+    if (job.status === 'running' && job.lockedBy === workerId) job.lockedAt = new Date();
+  }
+}
+
+describe('Job Queue', () => {
+  let store: MemoryJobStore;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    store = new MemoryJobStore();
+    queue = new JobQueue(store, { concurrency: 4, maxRunningPerUser: 1, backoffBaseMs: 1000, maxBackoffMs: 60000, leaseMs: 60000 });
+  });
+
+  const claimAndRun = async () => {
+    const job = await store.claimNextJob('test-worker', 1);
+    await queue.execute(job!);
+    return store.jobs.get(job!.id)!;
+  };
+
+  describe('computeBackoff', () => {
+    it('should double the delay each attempt up to the cap', () => {
+      expect(computeBackoff(1, 1000, 60000)).toBe(1000);
+      expect(computeBackoff(2, 1000, 60000)).toBe(2000);
+      expect(computeBackoff(3, 1000, 60000)).toBe(4000);
+      expect(computeBackoff(10, 1000, 60000)).toBe(60000);
+    });
+  });
+
+  it('should run the handler and store its result', async () => {
+    queue.registerHandler('script', async (payload) => ({ echoed: payload.value }));
+    await queue.enqueue('script', 'user-1', { value: 42 });
+
+    const job = await claimAndRun();
+
+    expect(job.status).toBe('completed');
+    expect(job.result).toEqual({ echoed: 42 });
+  });
+
+  it('should retry transient failures with backoff', async () => {
+    queue.registerHandler('image', async () => { throw new Error('rate limited'); });
+    await queue.enqueue('image', 'user-1', {});
+
+    const before = Date.now();
+    const job = await claimAndRun();
+
+    expect(job.status).toBe('queued');
+    expect(job.errorMessage).toBe('rate limited');
+    expect(job.runAt.getTime()).toBeGreaterThanOrEqual(before + 1000);
+  });
+
+  it('should fail permanently after the last attempt', async () => {
+    queue.registerHandler('tts', async () => { throw new Error('still down'); });
+    const created = await queue.enqueue('tts', 'user-1', {}, { maxAttempts: 1 });
+
+    const job = await claimAndRun();
+
+    expect(job.id).toBe(created.id);
+    expect(job.status).toBe('failed');
+  });
+
+  it('should not retry a PermanentJobError', async () => {
+    let isFinal: boolean | undefined;
+    queue.registerHandler('package', async (_payload, context) => {
+      isFinal = context.isFinalAttempt;
+      throw new PermanentJobError('Package not found');
+    });
+    await queue.enqueue('package', 'user-1', {});
+
+    const job = await claimAndRun();
+
+    expect(isFinal).toBe(false);
+    expect(job.status).toBe('failed');
+    expect(job.errorMessage).toBe('Package not found');
+  });
+
+  it('should fail jobs with no registered handler', async () => {
+    await queue.enqueue('tts', 'user-1', {});
+
+    const job = await claimAndRun();
+
+    expect(job.status).toBe('failed');
+    expect(job.errorMessage).toContain('No handler registered');
+  });
+
+  it('should persist stage progress and forward live events to waiters', async () => {
+    queue.registerHandler('script', async (_payload, { progress }) => {
+      progress({ type: 'stage', stage: 'plan', status: 'complete', message: 'Engine plan ready' });
+      progress({ type: 'token', stage: 'draft', text: 'Settle in' });
+      return { ok: true };
+    });
+    const created = await queue.enqueue('script', 'user-1', {});
+
+    const events: any[] = [];
+    const done = queue.waitForJob(created.id, (e) => events.push(e), 50);
+    const job = await claimAndRun();
+    const finished = await done;
+
+    expect(finished.status).toBe('completed');
+    expect(events.map(e => e.type)).toEqual(['stage', 'token']);
+    expect(job.progress).toHaveLength(1); // Tokens are streamed, not persisted
+  });
+
+  it('should respect the per-user running limit when claiming', async () => {
+    queue.registerHandler('script', () => new Promise(() => {})); // Never finishes
+    await queue.enqueue('script', 'user-1', {});
+    await queue.enqueue('script', 'user-1', {});
+    await queue.enqueue('script', 'user-2', {});
+
+    await queue.tick();
+
+    const running = [...store.jobs.values()].filter(j => j.status === 'running');
+    expect(running.map(j => j.userId).sort()).toEqual(['user-1', 'user-2']);
+  });
+
+  it('should survive a store error while recording the outcome', async () => {
+    queue.registerHandler('script', async () => ({ ok: true }));
+    await queue.enqueue('script', 'user-1', {});
+    store.completeJob = async () => { throw new Error('connection terminated'); };
+    store.retryJob = async () => { throw new Error('connection terminated'); };
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await queue.tick();
+
+    await vi.waitFor(() =>
+      expect(errors).toHaveBeenCalledWith(expect.stringContaining('Failed to record outcome'), 'connection terminated')
+    );
+    expect([...store.jobs.values()][0].status).toBe('running'); // Left for stale-lease recovery
+    errors.mockRestore();
+  });
+
+  it('should renew the lease while a long job runs', async () => {
+    vi.useFakeTimers();
+    try {
+      queue.registerHandler('script', () => new Promise(resolve => setTimeout(() => resolve({ ok: true }), 150000)));
+      await queue.enqueue('script', 'user-1', {});
+      const job = await store.claimNextJob('test-worker', 1);
+      const run = queue.execute(job!);
+
+      await vi.advanceTimersByTimeAsync(120000); // Two lease lengths
+      expect(await store.requeueStaleJobs(new Date(Date.now() - 60000))).toBe(0);
+
+      await vi.advanceTimersByTimeAsync(30000);
+      await run;
+      expect(store.jobs.get(job!.id)!.status).toBe('completed');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not record the outcome of a run that lost its lease', async () => {
+    let finish!: () => void;
+    queue.registerHandler('script', () => new Promise(resolve => { finish = () => resolve({ stale: true }); }));
+    await queue.enqueue('script', 'user-1', {});
+    const job = await store.claimNextJob('slow-worker', 1);
+    const run = queue.execute(job!);
+    await vi.waitFor(() => expect(finish).toBeDefined());
+
+    // The lease expires and another worker claims the job while the first is still running
+    store.jobs.get(job!.id)!.lockedAt = new Date(Date.now() - 120000);
+    await store.requeueStaleJobs(new Date(Date.now() - 60000));
+    await store.claimNextJob('other-worker', 1);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    finish();
+    await run;
+
+    expect(store.jobs.get(job!.id)).toMatchObject({ status: 'running', lockedBy: 'other-worker', result: null });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Lost the lease'));
+    warn.mockRestore();
+  });
+
+  it('should requeue jobs whose lease expired', async () => {
+    await queue.enqueue('script', 'user-1', {});
+    const job = await store.claimNextJob('dead-worker', 1);
+    store.jobs.get(job!.id)!.lockedAt = new Date(Date.now() - 120000);
+
+    expect(await store.requeueStaleJobs(new Date(Date.now() - 60000))).toBe(1);
+    expect(store.jobs.get(job!.id)!.status).toBe('queued');
+  });
+});
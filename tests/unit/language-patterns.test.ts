@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { languagePatternDetector, splitSentences, formatTonalBalance } from '../../server/script-engine/language-patterns';
+import { TranceDepthValidator } from '../../server/script-engine/trance-depth-validator';
+
+const patternsOf = (sentence: string) => languagePatternDetector.tagSentence(sentence).map(tag => tag.pattern);
+
+const SCRIPT = [
+  '## Induction',
+  'Take a breath, slow and easy. You might notice your shoulders softening. Your jaw releases a little.',
+  '',
+  '## Deepening',
+  'And as you breathe, warmth spreads through your chest. Perhaps you can let go even more. Your body knows how to rest.',
+  '',
+  '## Work',
+  'Your breath finds its own rhythm. You may find ease quickly or slowly, in your own time. Everyone has felt calm at some point.',
+  '',
+  '## Emergence',
+  'Feel your feet on the floor. Open your eyes. Come back now. Stretch gently.',
+].join('\n');
+
+describe('LanguagePatternDetector', () => {
+  it('tags each pattern with its evidence', () => {
+    expect(patternsOf('Take a breath, slow and easy.')).toEqual(['direct_command']);
+    expect(patternsOf('Perhaps your shoulders soften.')).toEqual(['soft_invitation']);
+    expect(patternsOf('You might notice your shoulders softening.')).toEqual(['embedded_command', 'soft_invitation']);
+    expect(patternsOf('And you can relax now.')).toContain('embedded_command');
+    expect(patternsOf('As you continue to rest, your breath deepens.')).toContain('presupposition');
+    expect(patternsOf('You can go deeper now or in a little while.')).toContain('double_bind');
+    expect(patternsOf('Everyone knows what it is like to drift off to sleep.')).toContain('truism');
+
+    expect(languagePatternDetector.tagSentence('Gently close your eyes.')).toEqual([{ pattern: 'direct_command', evidence: 'close' }]);
+  });
+
+  it('finds yes-sets only as runs of pacing statements', () => {
+    const report = languagePatternDetector.analyze(
+      "You're sitting here. You can hear my voice. Your hands are resting. Take a breath. You're listening."
+    );
+    const yesSet = report.sentences.filter(s => s.tags.some(tag => tag.pattern === 'yes_set')).map(s => s.index);
+
+    expect(yesSet).toEqual([0, 1, 2]);
+  });
+
+  it('splits sentences with offsets and keeps mid-sentence ellipses together', () => {
+    const script = 'Rest here... and let go. Now breathe.';
+    const sentences = splitSentences(script);
+
+    expect(sentences.map(s => s.text)).toEqual(['Rest here... and let go.', 'Now breathe.']);
+    expect(script.slice(sentences[1].start, sentences[1].end)).toBe('Now breathe.');
+  });
+
+  it('measures tonal balance per phase from headings against the configured targets', () => {
+    const report = languagePatternDetector.analyze(SCRIPT);
+    const phase = (name: string) => report.phases.find(p => p.phase === name)!;
+
+    expect(report.phaseSource).toBe('headings');
+    expect(phase('induction')).toMatchObject({ directCommands: 1, softInvitations: 2, invitationsPerCommand: 2, status: 'within' });
+    expect(phase('work')).toMatchObject({ directCommands: 0, status: 'within' });
+    expect(phase('emergence')).toMatchObject({ directCommands: 4, softInvitations: 0, status: 'too_directive' });
+    expect(report.commandRuns).toEqual([{ start: expect.any(Number), length: 4 }]);
+    expect(report.maxConsecutiveCommands).toBe(2);
+    expect(formatTonalBalance(report)).toContain('emergence 0.00 (too_directive)');
+  });
+
+  it('uses provided phase spans over headings', () => {
+    const report = languagePatternDetector.analyze(SCRIPT, [{ phase: 'work', start: 0, end: SCRIPT.length }]);
+
+    expect(report.phaseSource).toBe('provided');
+    expect(report.sentences.every(s => s.phase === 'work')).toBe(true);
+    expect(report.phases.find(p => p.phase === 'induction')!.status).toBe('no_data');
+  });
+
+  it('segments phases from cues without headings', () => {
+    const report = languagePatternDetector.analyze(`Take a breath. ${'Your breath deepens. '.repeat(6)}Open your eyes.`);
+
+    expect(report.phaseSource).toBe('cues');
+    expect(report.sentences[0].phase).toBe('induction');
+    expect(report.sentences[7].phase).toBe('emergence');
+  });
+});
+
+describe('TranceDepthValidator tonal balance', () => {
+  it('reports imbalanced phases and stacked commands', () => {
+    const validator = new TranceDepthValidator();
+    const result = validator.validate(SCRIPT);
+
+    expect(result.languagePatterns.overall.counts.direct_command).toBe(5);
+    expect(result.violations).toContainEqual(expect.objectContaining({ category: 'tonal_balance', issue: expect.stringMatching(/^Too directive in emergence/) }));
+    expect(result.violations).toContainEqual(expect.objectContaining({ category: 'tonal_balance', issue: '4 direct commands in a row' }));
+
+    const report = validator.getSummaryReport(result);
+    expect(report).toContain('TONAL BALANCE');
+    expect(report).toContain('induction: 2.00 (target 1-3, within)');
+  });
+});
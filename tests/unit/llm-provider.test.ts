@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FixtureProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  createLLMProvider,
+  cleanJsonResponse,
+} from '../../server/llm-provider';
+
+describe('LLM Provider', () => {
+  describe('FixtureProvider', () => {
+    it('should replay JSON fixtures from the default fixture directory', async () => {
+      const provider = new FixtureProvider();
+      const text = await provider.complete({ task: 'full-script', prompt: 'anything', maxTokens: 100 });
+      const result = JSON.parse(cleanJsonResponse(text));
+
+      expect(result.fullScript.length).toBeGreaterThan(500);
+      expect(result.marketingAssets.postTitle).toBeTruthy();
+    });
+
+    it('should replay plain text fixtures for orchestrator stages', async () => {
+      const provider = new FixtureProvider();
+      const outline = await provider.complete({ task: 'outline', prompt: 'anything', maxTokens: 100 });
+
+      expect(outline).toContain('Induction');
+    });
+
+    it('should be deterministic regardless of prompt', async () => {
+      const provider = new FixtureProvider();
+      const a = await provider.complete({ task: 'dream-title', prompt: 'one', maxTokens: 100 });
+      const b = await provider.complete({ task: 'dream-title', prompt: 'two', maxTokens: 100 });
+
+      expect(a).toBe(b);
+    });
+
+    it('should read from a custom fixture directory', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+      fs.writeFileSync(path.join(dir, 'custom.txt'), 'custom response');
+
+      const provider = new FixtureProvider(dir);
+      expect(await provider.complete({ task: 'custom', prompt: '', maxTokens: 10 })).toBe('custom response');
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should throw a clear error when a fixture is missing', async () => {
+      const provider = new FixtureProvider();
+
+      await expect(provider.complete({ task: 'does-not-exist', prompt: '', maxTokens: 10 }))
+        .rejects.toThrow('No LLM fixture for task "does-not-exist"');
+    });
+  });
+
+  describe('createLLMProvider', () => {
+    it('should select the provider by name', () => {
+      expect(createLLMProvider('anthropic')).toBeInstanceOf(AnthropicProvider);
+      expect(createLLMProvider('openai')).toBeInstanceOf(OpenAICompatibleProvider);
+      expect(createLLMProvider('stub')).toBeInstanceOf(FixtureProvider);
+    });
+
+    it('should apply a model override', () => {
+      expect(createLLMProvider('openai', 'llama3.1').model).toBe('llama3.1');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() => createLLMProvider('bogus')).toThrow('Unknown LLM_PROVIDER "bogus"');
+    });
+  });
+
+  describe('cleanJsonResponse', () => {
+    it('should strip markdown code fences', () => {
+      expect(cleanJsonResponse('```json\n{"a": 1}\n```')).toBe('{"a": 1}');
+      expect(cleanJsonResponse('{"a": 1}')).toBe('{"a": 1}');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  methodologyConfig,
+  validateMethodologyConfig,
+  METHODOLOGY_CONFIG_KEYS,
+} from '../../server/script-engine/methodology-config';
+import { StrategyPlanner } from '../../server/script-engine/strategy-planner';
+import { TranceDepthValidator } from '../../server/script-engine/trance-depth-validator';
+import { getNarrativeArcById } from '../../server/script-engine/narrative-arc-loader';
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('methodology config validation', () => {
+  it('accepts every bundled config', () => {
+    for (const key of METHODOLOGY_CONFIG_KEYS) {
+      expect(() => validateMethodologyConfig(key, methodologyConfig.getBundled(key)), key).not.toThrow();
+    }
+  });
+
+  it('rejects foundation arcs that are not defined', () => {
+    const arcs = clone(methodologyConfig.getBundled('narrative-arcs'));
+    arcs.arc_selection_rules.always_include.push('no-such-arc');
+
+    expect(() => validateMethodologyConfig('narrative-arcs', arcs)).toThrow(/Foundation arc \\"no-such-arc\\" is not defined/);
+  });
+
+  it('rejects recommended metaphor families that do not exist', () => {
+    const library = clone(methodologyConfig.getBundled('metaphor-library'));
+    library.issue_to_metaphor_mapping.anxiety.recommended = ['volcano'];
+
+    expect(() => validateMethodologyConfig('metaphor-library', library)).toThrow(/Unknown metaphor family \\"volcano\\"/);
+  });
+
+  it('rejects a principle missing its directives', () => {
+    const principles = clone(methodologyConfig.getBundled('principles')) as any;
+    delete principles.principles[0].prompt_directives;
+
+    expect(() => validateMethodologyConfig('principles', principles)).toThrow();
+  });
+});
+
+describe('MethodologyConfigStore', () => {
+  afterEach(() => {
+    methodologyConfig.load([]);
+  });
+
+  it('starts on the bundled defaults at version 0', () => {
+    expect(methodologyConfig.getVersions()).toEqual({
+      'narrative-arcs': 0,
+      'metaphor-library': 0,
+      'principles': 0,
+      'language-mastery': 0,
+      'ego-config': 0,
+    });
+  });
+
+  it('hot-swaps configs into engine classes that already exist', async () => {
+    const planner = new StrategyPlanner();
+    const validator = new TranceDepthValidator();
+
+    const arcs = clone(methodologyConfig.getBundled('narrative-arcs'));
+    arcs.arcs[0].name = 'Effortless Ease (edited)';
+    arcs.arc_selection_rules.always_include = [arcs.arcs[0].id];
+    const language = clone(methodologyConfig.getBundled('language-mastery'));
+    language.language_craft.forbidden_cliches = ['drift like a feather'];
+
+    const result = methodologyConfig.load([
+      { key: 'narrative-arcs', version: 4, content: arcs },
+      { key: 'language-mastery', version: 2, content: language },
+    ]);
+
+    expect(result.errors).toEqual([]);
+    expect(methodologyConfig.getVersions()).toMatchObject({ 'narrative-arcs': 4, 'language-mastery': 2, 'principles': 0 });
+
+    const contract = await planner.plan({ presentingIssue: 'general', desiredOutcome: 'calm' });
+    expect(contract.arcPriority).toEqual([arcs.arcs[0].id]);
+    expect(getNarrativeArcById(arcs.arcs[0].id)?.name).toBe('Effortless Ease (edited)');
+
+    const validation = validator.validate('And you drift like a feather, resting.');
+    expect(validation.violations.some(v => v.forbidden_phrase === 'drift like a feather')).toBe(true);
+  });
+
+  it('keeps the previous version when a record fails validation', () => {
+    const arcs = clone(methodologyConfig.getBundled('narrative-arcs'));
+    methodologyConfig.load([{ key: 'narrative-arcs', version: 1, content: arcs }]);
+
+    const result = methodologyConfig.load([{ key: 'narrative-arcs', version: 2, content: { version: '2', arcs: [] } }]);
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ key: 'narrative-arcs', version: 2 });
+    expect(methodologyConfig.getVersions()['narrative-arcs']).toBe(1);
+  });
+
+  it('falls back to the bundled default when a key has no active record', () => {
+    const arcs = clone(methodologyConfig.getBundled('narrative-arcs'));
+    methodologyConfig.load([{ key: 'narrative-arcs', version: 3, content: arcs }]);
+
+    methodologyConfig.load([]);
+
+    expect(methodologyConfig.getVersions()['narrative-arcs']).toBe(0);
+    expect(methodologyConfig.get('narrative-arcs')).toBe(methodologyConfig.getBundled('narrative-arcs'));
+  });
+});
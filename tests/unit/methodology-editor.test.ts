@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { methodologyConfig, validateMethodologyConfig } from '../../server/script-engine/methodology-config';
+import {
+  narrativeArcInputSchema,
+  metaphorFamilyInputSchema,
+  upsertArc,
+  removeArc,
+  upsertMetaphorFamily,
+  removeMetaphorFamily,
+  getMappedIssues,
+  getRecommendedIssues,
+  MethodologyEditError,
+} from '../../server/script-engine/methodology-editor';
+import { StrategyPlanner } from '../../server/script-engine/strategy-planner';
+
+const harborArc = narrativeArcInputSchema.parse({
+  id: 'quiet-harbor',
+  name: 'Quiet Harbor',
+  category: 'clinical',
+  presenting_issues: ['stage fright'],
+  key_language: ['Safe in the harbor now'],
+  prompt_integration: 'Return to the harbor whenever the waves rise.',
+  mapped_issues: ['anxiety'],
+});
+
+const mountainFamily = metaphorFamilyInputSchema.parse({
+  name: 'mountain_stillness',
+  primary_images: ['mountain', 'snowfield'],
+  good_for_issues: ['anxiety'],
+  recommended_for: ['anxiety'],
+});
+
+describe('arc edits', () => {
+  it('adds an arc and maps it to its planner issues without touching the live config', () => {
+    const live = methodologyConfig.get('narrative-arcs');
+    const draft = upsertArc(live, harborArc, 'create');
+
+    expect(draft.arcs.find(arc => arc.id === 'quiet-harbor')).toMatchObject({ name: 'Quiet Harbor', category: 'clinical' });
+    expect(draft.arcs.find(arc => arc.id === 'quiet-harbor')).not.toHaveProperty('mapped_issues');
+    expect(getMappedIssues(draft, 'quiet-harbor')).toEqual(['anxiety']);
+    expect(live.arcs.some(arc => arc.id === 'quiet-harbor')).toBe(false);
+    expect(() => validateMethodologyConfig('narrative-arcs', draft)).not.toThrow();
+  });
+
+  it('rejects duplicates on create and unknown ids on update', () => {
+    const live = methodologyConfig.get('narrative-arcs');
+    const draft = upsertArc(live, harborArc, 'create');
+
+    expect(() => upsertArc(draft, harborArc, 'create')).toThrow(MethodologyEditError);
+    expect(() => upsertArc(live, harborArc, 'update')).toThrow(/not found/);
+  });
+
+  it('moves mappings on update and keeps fields the editor does not manage', () => {
+    const live = methodologyConfig.get('narrative-arcs');
+    const existing = live.arcs[0];
+    const update = narrativeArcInputSchema.parse({
+      ...existing,
+      category: 'clinical',
+      name: 'Renamed',
+      mapped_issues: ['burnout'],
+    });
+
+    const draft = upsertArc(live, update, 'update');
+    const arc = draft.arcs.find(a => a.id === existing.id)!;
+
+    expect(arc.name).toBe('Renamed');
+    expect(arc.core_message).toBe(existing.core_message);
+    expect(getMappedIssues(draft, existing.id)).toEqual(['burnout']);
+  });
+
+  it('removes an arc from every mapping but refuses foundation arcs', () => {
+    const draft = upsertArc(methodologyConfig.get('narrative-arcs'), harborArc, 'create');
+    const removed = removeArc(draft, 'quiet-harbor');
+
+    expect(removed.arcs.some(arc => arc.id === 'quiet-harbor')).toBe(false);
+    expect(getMappedIssues(removed, 'quiet-harbor')).toEqual([]);
+
+    const foundation = draft.arc_selection_rules.always_include[0];
+    expect(() => removeArc(draft, foundation)).toThrow(/foundation arc/);
+  });
+  it('saves a DREAM arc into dream_arcs where the planner cannot pick it', () => {
+    const live = methodologyConfig.get('narrative-arcs');
+    const dreamArc = narrativeArcInputSchema.parse({ ...harborArc, category: 'dream' });
+    const draft = upsertArc(live, dreamArc, 'create');
+
+    expect(draft.dream_arcs.find(arc => arc.id === 'quiet-harbor')).toMatchObject({ name: 'Quiet Harbor' });
+    expect(draft.arcs.some(arc => arc.id === 'quiet-harbor')).toBe(false);
+    expect(getMappedIssues(draft, 'quiet-harbor')).toEqual([]);
+    expect(() => validateMethodologyConfig('narrative-arcs', draft)).not.toThrow();
+
+    expect(() => upsertArc(draft, harborArc, 'create')).toThrow(/already exists/);
+    const moved = upsertArc(draft, harborArc, 'update');
+    expect(moved.dream_arcs.some(arc => arc.id === 'quiet-harbor')).toBe(false);
+    expect(moved.arcs.find(arc => arc.id === 'quiet-harbor')).toMatchObject({ category: 'clinical' });
+    expect(getMappedIssues(moved, 'quiet-harbor')).toEqual(['anxiety']);
+
+    expect(removeArc(draft, 'quiet-harbor').dream_arcs.some(arc => arc.id === 'quiet-harbor')).toBe(false);
+  });
+});
+
+describe('metaphor family edits', () => {
+  it('adds a family as the first recommendation for its issues', () => {
+    const draft = upsertMetaphorFamily(methodologyConfig.get('metaphor-library'), mountainFamily, 'create');
+
+    expect(draft.metaphor_families).toHaveProperty('mountain_stillness');
+    expect(draft.issue_to_metaphor_mapping.anxiety.recommended[0]).toBe('mountain_stillness');
+    expect(getRecommendedIssues(draft, 'mountain_stillness')).toEqual(['anxiety']);
+    expect(() => validateMethodologyConfig('metaphor-library', draft)).not.toThrow();
+  });
+
+  it('removes a family from the recommendations and protects the default', () => {
+    const draft = upsertMetaphorFamily(methodologyConfig.get('metaphor-library'), mountainFamily, 'create');
+    const removed = removeMetaphorFamily(draft, 'mountain_stillness');
+
+    expect(removed.metaphor_families).not.toHaveProperty('mountain_stillness');
+    expect(() => validateMethodologyConfig('metaphor-library', removed)).not.toThrow();
+    expect(() => removeMetaphorFamily(draft, 'nature_gentle')).toThrow(/default family/);
+  });
+});
+
+describe('dry-run planning', () => {
+  it('plans against a draft config while the live planner is unchanged', async () => {
+    const narrativeArcs = upsertArc(methodologyConfig.get('narrative-arcs'), harborArc, 'create');
+    const metaphorLibrary = upsertMetaphorFamily(methodologyConfig.get('metaphor-library'), mountainFamily, 'create');
+    const input = { presentingIssue: 'anxious before big meetings', desiredOutcome: 'calm', symbolicDimensionLevel: 80 };
+    // Leave room for the draft arc after the foundation arcs
+    narrativeArcs.arc_selection_rules.max_arcs_per_script = 10;
+
+    const draftPlan = await new StrategyPlanner({ narrativeArcs, metaphorLibrary }).plan(input);
+    const livePlan = await new StrategyPlanner().plan(input);
+
+    expect(draftPlan.arcPriority).toContain('quiet-harbor');
+    expect(draftPlan.primaryMetaphor?.family).toBe('mountain_stillness');
+    expect(livePlan.arcPriority).not.toContain('quiet-harbor');
+    expect(livePlan.primaryMetaphor?.family).not.toBe('mountain_stillness');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { pacingModel } from '../../server/script-engine/pacing-model';
+
+const SENTENCE = 'You might notice your breath slowing now, and your shoulders soften as the chair holds you.';
+const paragraph = (count: number) => Array.from({ length: count }, () => SENTENCE).join(' ');
+
+describe('PacingModel', () => {
+  it('estimates spoken duration per phase, slower at lower TTS speeds', () => {
+    const script = [
+      `## Induction\n${paragraph(10)}`,
+      `## Work\n${paragraph(10)}`,
+      `## Emergence\n${paragraph(5)}`,
+    ].join('\n\n');
+
+    const estimate = pacingModel.estimate(script);
+    expect(estimate.words).toBe(25 * 16);
+    expect(estimate.speed).toBe(0.6);
+    expect(estimate.seconds).toBe(estimate.speechSeconds + estimate.pauseSeconds);
+    expect(estimate.phases.map(p => p.phase)).toEqual(['induction', 'work', 'emergence']);
+
+    // Same words, but the induction is read slower than the work phase
+    const [induction, work] = estimate.phases;
+    expect(induction.words).toBe(work.words);
+    expect(induction.seconds).toBeGreaterThan(work.seconds);
+
+    expect(pacingModel.estimate(script, { speed: 1 }).seconds).toBeLessThan(estimate.seconds * 0.7);
+  });
+
+  it('counts reader-script pauses, breathing cues and slow regions', () => {
+    const plain = `[section work]\n${paragraph(2)}`;
+    const cued = `[section work]\n[slow]${paragraph(2)}[/slow] [pause 5s] [breathe out 6s]`;
+
+    const base = pacingModel.estimate(plain);
+    const withCues = pacingModel.estimate(cued);
+    expect(withCues.pauseSeconds - base.pauseSeconds).toBe(11);
+    expect(withCues.speechSeconds).toBeGreaterThan(base.speechSeconds);
+    expect(withCues.phases.map(p => p.phase)).toEqual(['work']);
+  });
+
+  it('turns a target duration into word budgets that read back at that duration', () => {
+    const budget = pacingModel.wordBudget(20, {
+      journey: { totalStages: 2, stages: [{ arcId: 'oasis-rest', weight: 40 }, { arcId: 'earned-delight', weight: 60 }] } as any,
+    });
+
+    expect(budget.phases.work).toBeGreaterThan(budget.phases.induction);
+    expect(Object.values(budget.phases).reduce((a, b) => a + b, 0)).toBeCloseTo(budget.totalWords, -1);
+    expect(budget.stages).toEqual([
+      { arcId: 'oasis-rest', weight: 40, words: Math.round(budget.totalWords * 0.4) },
+      { arcId: 'earned-delight', weight: 60, words: Math.round(budget.totalWords * 0.6) },
+    ]);
+
+    // Slower narration fits fewer words in the same time, and a sleep emergence is read slowest
+    expect(pacingModel.wordBudget(20, { speed: 0.5 }).totalWords).toBeLessThan(budget.totalWords);
+    expect(pacingModel.wordBudget(20, { emergenceType: 'sleep' }).totalWords).toBeLessThan(budget.totalWords);
+
+    // A script written to the budget estimates close to the target
+    const sentences = Math.round(budget.totalWords / 16);
+    const script = [
+      paragraph(Math.round(sentences * 0.2)),
+      `And with each breath you drift deeper. ${paragraph(Math.round(sentences * 0.15))}`,
+      `Imagine a quiet garden. ${paragraph(Math.round(sentences * 0.5))}`,
+      `In a moment you can open your eyes. ${paragraph(Math.round(sentences * 0.15))}`,
+    ].join('\n\n');
+    expect(Math.abs(pacingModel.estimate(script).minutes - 20)).toBeLessThan(2);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { PackageExporter, slugify, splitParagraphs, type PackageExportContent } from '../../server/package-exporter';
+
+const content: PackageExportContent = {
+  title: 'Calm & Clear',
+  theme: 'anxiety relief',
+  description: 'Twelve scripts for everyday calm',
+  scripts: [
+    {
+      title: 'Quiet Harbor',
+      description: 'Settling into stillness',
+      presentingIssue: 'Racing thoughts at night',
+      desiredOutcome: 'Drift into calm sleep',
+      script: 'Take a deep breath...\n\nAnd let the harbor grow quiet.\nThe boats rest.',
+      imageUrls: ['/public-objects/dream-thumbnails/a.png'],
+      audioUrls: ['/public-objects/audio/b.mp3'],
+    },
+    {
+      title: 'Steady <Ground>',
+      presentingIssue: 'Work stress',
+      desiredOutcome: 'Feel grounded',
+      script: 'Feel your feet on the floor.',
+      imageUrls: [],
+      audioUrls: [],
+    },
+  ],
+};
+
+describe('PackageExporter', () => {
+  const exporter = new PackageExporter();
+
+  it('keeps the plain-text layout', async () => {
+    const file = await exporter.export(content, 'txt');
+    const text = file.buffer.toString('utf-8');
+
+    expect(file.extension).toBe('txt');
+    expect(text).toContain('SCRIPT 1: Quiet Harbor');
+    expect(text).toContain('Presenting Issue: Racing thoughts at night');
+    expect(text).toContain('SCRIPT 2: Steady <Ground>');
+  });
+
+  it('builds a DOCX with a chapter heading per script', async () => {
+    const file = await exporter.export(content, 'docx');
+    const zip = await JSZip.loadAsync(file.buffer);
+    const documentXml = await zip.file('word/document.xml')!.async('string');
+
+    expect(file.contentType).toContain('wordprocessingml');
+    expect(documentXml).toContain('1. Quiet Harbor');
+    expect(documentXml).toContain('Steady &lt;Ground&gt;');
+    expect(documentXml).toContain('Racing thoughts at night');
+    expect(documentXml).toContain('TOC'); // Table of contents field
+  });
+
+  it('builds a PDF', async () => {
+    const file = await exporter.export(content, 'pdf');
+
+    expect(file.contentType).toBe('application/pdf');
+    expect(file.buffer.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('builds an EPUB with the mimetype stored first', async () => {
+    const file = await exporter.export(content, 'epub');
+    const zip = await JSZip.loadAsync(file.buffer);
+
+    // E-readers require the uncompressed mimetype entry at the very start of the archive
+    expect(file.buffer.subarray(30, 38).toString()).toBe('mimetype');
+    expect(await zip.file('mimetype')!.async('string')).toBe('application/epub+zip');
+
+    const opf = await zip.file('OEBPS/content.opf')!.async('string');
+    expect(opf).toContain('<dc:title>Calm &amp; Clear</dc:title>');
+    expect(opf).toContain('chapter-02.xhtml');
+
+    const nav = await zip.file('OEBPS/nav.xhtml')!.async('string');
+    expect(nav).toContain('2. Steady &lt;Ground&gt;');
+  });
+
+  it('bundles Markdown with stored audio and images', async () => {
+    const loaded: string[] = [];
+    const file = await exporter.export(content, 'bundle', async (url) => {
+      loaded.push(url);
+      return Buffer.from(`data:${url}`);
+    });
+    const zip = await JSZip.loadAsync(file.buffer);
+    const names = Object.keys(zip.files);
+
+    expect(file.extension).toBe('zip');
+    expect(names).toContain('README.md');
+    expect(names).toContain('scripts/01-quiet-harbor.md');
+    expect(names).toContain('scripts/02-steady-ground.md');
+    expect(names).toContain('audio/01-quiet-harbor.mp3');
+    expect(names).toContain('images/01-quiet-harbor.png');
+    expect(loaded).toEqual(['/public-objects/audio/b.mp3', '/public-objects/dream-thumbnails/a.png']);
+
+    const markdown = await zip.file('scripts/01-quiet-harbor.md')!.async('string');
+    expect(markdown).toContain('## Presenting Issue');
+    expect(markdown).toContain('And let the harbor grow quiet.');
+  });
+
+  it('skips assets that are no longer stored', async () => {
+    const file = await exporter.export(content, 'bundle', async () => null);
+    const zip = await JSZip.loadAsync(file.buffer);
+
+    expect(Object.keys(zip.files).some(name => name.startsWith('audio/'))).toBe(false);
+  });
+});
+
+describe('export helpers', () => {
+  it('slugifies titles for file names', () => {
+    expect(slugify('Calm Shores: Part 1')).toBe('calm-shores-part-1');
+    expect(slugify('!!!')).toBe('untitled');
+  });
+
+  it('splits paragraphs on blank lines', () => {
+    expect(splitParagraphs('One.\nStill one.\n\n\nTwo.')).toEqual(['One.\nStill one.', 'Two.']);
+  });
+});
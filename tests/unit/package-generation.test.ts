@@ -0,0 +1,284 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const storageMock = vi.hoisted(() => ({
+  getPackageById: vi.fn(),
+  getPackageScripts: vi.fn(),
+  updatePackageScript: vi.fn(),
+  updatePackageStatus: vi.fn(),
+  getJobsByPayload: vi.fn(),
+  getArchetypeById: vi.fn(),
+  getGenerationByJobId: vi.fn(),
+  createGeneration: vi.fn(),
+  createSafetyScreening: vi.fn(),
+  getTreatmentPlanById: vi.fn(),
+  getTreatmentPlanSessions: vi.fn(),
+  updateTreatmentPlanSession: vi.fn(),
+  updateTreatmentPlanStatus: vi.fn(),
+}));
+const templateSelectorMock = vi.hoisted(() => ({
+  recommendTemplates: vi.fn(),
+}));
+
+// Keep the database and AI clients out of unit tests
+vi.mock('../../server/storage', () => ({ storage: storageMock }));
+vi.mock('../../server/ai-service', () => ({ aiService: {} }));
+vi.mock('../../server/template-manager', () => ({ templateManager: {} }));
+vi.mock('../../server/template-selector', () => ({ templateSelector: templateSelectorMock }));
+vi.mock('../../server/tts-service', () => ({ ttsService: {} }));
+vi.mock('../../server/objectStorage', () => ({ ObjectStorageService: class {} }));
+
+import { registerJobHandlers, refreshPackageStatus, selectScriptsToGenerate } from '../../server/job-handlers';
+import { PermanentJobError, type JobHandler, type JobQueue } from '../../server/job-queue';
+
+const script = (id: number, status: string, generationId: number | null = null) => ({ id, status, generationId });
+
+/**
+ * Captures registered handlers and enqueued jobs
+ */
+function createFakeQueue() {
+  const handlers = new Map<string, JobHandler>();
+  const enqueued: Array<{ type: string; payload: any }> = [];
+  const queue = {
+    registerHandler: (type: string, handler: JobHandler) => handlers.set(type, handler),
+    enqueue: async (type: string, _userId: string, payload: any) => {
+      enqueued.push({ type, payload });
+      return { id: enqueued.length };
+    },
+  } as unknown as JobQueue;
+  return { queue, handlers, enqueued };
+}
+
+describe('selectScriptsToGenerate', () => {
+  const scripts = [
+    script(1, 'completed', 101),
+    script(2, 'failed'),
+    script(3, 'concept'),
+    script(4, 'completed'), // completed but its generation link is missing
+  ];
+
+  it('returns every script in "all" mode', () => {
+    expect(selectScriptsToGenerate(scripts, 'all').map(s => s.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('skips completed scripts with a generation in "missing" mode', () => {
+    expect(selectScriptsToGenerate(scripts, 'missing').map(s => s.id)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('refreshPackageStatus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    [['completed', 'completed'], 'completed'],
+    [['failed', 'failed'], 'failed'],
+    [['completed', 'failed'], 'partial'],
+    [['completed', 'concept'], 'partial'],
+    [['completed', 'generating'], 'generating'],
+    [['concept', 'concept'], 'draft'],
+  ])('derives %j as %s', async (statuses, expected) => {
+    storageMock.getPackageScripts.mockResolvedValue(statuses.map((status, i) => script(i + 1, status)));
+
+    await expect(refreshPackageStatus(7)).resolves.toBe(expected);
+    expect(storageMock.updatePackageStatus).toHaveBeenCalledWith(7, expected);
+  });
+});
+
+describe('package job handler', () => {
+  const context = { job: { userId: 'user-1' }, isFinalAttempt: false, progress: () => {} } as any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    storageMock.getPackageById.mockResolvedValue({ id: 7 });
+    storageMock.getJobsByPayload.mockResolvedValue([]);
+  });
+
+  it('only queues failed or unfinished scripts in "missing" mode', async () => {
+    storageMock.getPackageScripts.mockResolvedValue([
+      script(1, 'completed', 101),
+      script(2, 'failed'),
+      script(3, 'completed', 103),
+    ]);
+    const { queue, handlers, enqueued } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    const result: any = await handlers.get('package')!({ packageId: 7, mode: 'missing' }, context);
+
+    expect(enqueued.map(j => j.payload.packageScriptId)).toEqual([2]);
+    expect(storageMock.updatePackageScript).toHaveBeenCalledTimes(1);
+    expect(storageMock.updatePackageScript).toHaveBeenCalledWith(2, { status: 'generating', errorMessage: null });
+    expect(result.reusedCount).toBe(2);
+  });
+
+  it('settles the package status when nothing is missing', async () => {
+    storageMock.getPackageScripts.mockResolvedValue([
+      script(1, 'completed', 101),
+      script(2, 'completed', 102),
+    ]);
+    const { queue, handlers, enqueued } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    const result: any = await handlers.get('package')!({ packageId: 7, mode: 'missing' }, context);
+
+    expect(enqueued).toHaveLength(0);
+    expect(result.status).toBe('completed');
+    expect(storageMock.updatePackageStatus).toHaveBeenCalledWith(7, 'completed');
+  });
+
+  it('regenerates every script by default', async () => {
+    storageMock.getPackageScripts.mockResolvedValue([
+      script(1, 'completed', 101),
+      script(2, 'failed'),
+    ]);
+    const { queue, handlers, enqueued } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    await handlers.get('package')!({ packageId: 7 }, context);
+
+    expect(enqueued.map(j => j.payload.packageScriptId)).toEqual([1, 2]);
+  });
+
+  it('reuses script jobs an earlier run of the package job already queued', async () => {
+    storageMock.getPackageScripts.mockResolvedValue([script(1, 'generating'), script(2, 'concept')]);
+    storageMock.getJobsByPayload.mockImplementation(async (_type: string, _field: string, scriptId: number) =>
+      scriptId === 1 ? [{ id: 41, status: 'running' }] : [{ id: 12, status: 'completed' }]
+    );
+    const { queue, handlers, enqueued } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    const result: any = await handlers.get('package')!({ packageId: 7, mode: 'missing' }, context);
+
+    expect(enqueued.map(j => j.payload.packageScriptId)).toEqual([2]);
+    expect(result.scriptJobIds).toEqual([41, 1]);
+  });
+
+  it('marks an empty package failed instead of leaving it generating', async () => {
+    storageMock.getPackageScripts.mockResolvedValue([]);
+    const { queue, handlers } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    await expect(handlers.get('package')!({ packageId: 7 }, context)).rejects.toThrow('no scripts');
+    expect(storageMock.updatePackageStatus).toHaveBeenCalledWith(7, 'failed');
+  });
+
+  it('fails scripts it could not queue on the final attempt and settles the package', async () => {
+    const scripts = [script(1, 'concept'), script(2, 'concept')];
+    storageMock.getPackageScripts.mockResolvedValue(scripts);
+    storageMock.updatePackageScript.mockImplementation(async (id: number, updates: any) => {
+      Object.assign(scripts.find(s => s.id === id)!, updates);
+    });
+    const { queue, handlers } = createFakeQueue();
+    queue.enqueue = vi.fn()
+      .mockResolvedValueOnce({ id: 1 })
+      .mockRejectedValueOnce(new Error('connection terminated')) as any;
+    registerJobHandlers(queue);
+
+    await expect(handlers.get('package')!({ packageId: 7 }, { ...context, isFinalAttempt: true })).rejects.toThrow();
+
+    expect(storageMock.updatePackageScript).toHaveBeenCalledWith(2, { status: 'failed', errorMessage: 'connection terminated' });
+    expect(storageMock.updatePackageScript).not.toHaveBeenCalledWith(1, expect.objectContaining({ status: 'failed' }));
+    expect(storageMock.updatePackageStatus).toHaveBeenLastCalledWith(7, 'generating'); // Script 1's job settles it
+  });
+
+  it('leaves the package generating while a retry will follow', async () => {
+    storageMock.getPackageScripts.mockResolvedValue([script(1, 'concept')]);
+    const { queue, handlers } = createFakeQueue();
+    queue.enqueue = vi.fn().mockRejectedValue(new Error('connection terminated')) as any;
+    registerJobHandlers(queue);
+
+    await expect(handlers.get('package')!({ packageId: 7 }, context)).rejects.toThrow();
+    expect(storageMock.updatePackageScript).not.toHaveBeenCalledWith(1, expect.objectContaining({ status: 'failed' }));
+  });
+});
+
+describe('package script job', () => {
+  const context = { job: { id: 12, userId: 'user-1' }, isFinalAttempt: false, progress: () => {} } as any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('links the generation an earlier run saved instead of writing another', async () => {
+    storageMock.getPackageScripts.mockResolvedValue([script(4, 'generating')]);
+    storageMock.getGenerationByJobId.mockResolvedValue({ id: 61 });
+    const { queue, handlers } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    const result = await handlers.get('script')!({ kind: 'package-script', packageId: 7, packageScriptId: 4 }, context);
+
+    expect(storageMock.getGenerationByJobId).toHaveBeenCalledWith(12);
+    expect(storageMock.createGeneration).not.toHaveBeenCalled();
+    expect(storageMock.updatePackageScript).toHaveBeenCalledWith(4, { generationId: 61, status: 'completed', errorMessage: null });
+    expect(result).toEqual({ generationId: 61 });
+  });
+});
+
+describe('treatment session job', () => {
+  const context = { job: { id: 31, userId: 'user-1' }, isFinalAttempt: false, progress: () => {} } as any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('links the saved script and takes its anchors from that script when the job runs again', async () => {
+    storageMock.getTreatmentPlanById.mockResolvedValue({ id: 2, title: 'Sleep Series', clientProfile: {} });
+    storageMock.getTreatmentPlanSessions.mockResolvedValue([{ id: 8, sessionNumber: 1, status: 'generating' }]);
+    storageMock.getGenerationByJobId.mockResolvedValue({
+      id: 44,
+      fullScript: 'You notice the forest path beneath your feet. And as you rest tonight, you sleep deeply and easily.',
+      generationPlan: { arcs: ['oasis-rest'], primaryMetaphor: 'forest' },
+    });
+    const { queue, handlers } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    const result: any = await handlers.get('script')!({ kind: 'treatment-session', planId: 2, sessionId: 8 }, context);
+
+    expect(storageMock.createGeneration).not.toHaveBeenCalled();
+    expect(storageMock.updateTreatmentPlanSession).toHaveBeenCalledWith(8, expect.objectContaining({
+      generationId: 44,
+      status: 'completed',
+      anchors: expect.objectContaining({ arcs: ['oasis-rest'], metaphorFamily: 'forest' }),
+    }));
+    expect(result.generationId).toBe(44);
+  });
+});
+
+describe('DREAM script job', () => {
+  const context = { job: { id: 5, userId: 'user-1' }, isFinalAttempt: false, progress: () => {} } as any;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    storageMock.getArchetypeById.mockResolvedValue({ id: 3, name: 'The Guide', description: null });
+  });
+
+  it('finishes from the saved script when the job runs again', async () => {
+    storageMock.getGenerationByJobId.mockResolvedValue({ id: 90, title: 'Moonlit Shore', fullScript: 'Settle in and rest.' });
+    storageMock.getJobsByPayload.mockResolvedValue([{ id: 77, status: 'completed' }]);
+    const { queue, handlers, enqueued } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    const result: any = await handlers.get('script')!({ kind: 'dream', journeyIdea: 'a shore at night', archetypeId: 3 }, context);
+
+    expect(storageMock.getGenerationByJobId).toHaveBeenCalledWith(5);
+    expect(storageMock.createGeneration).not.toHaveBeenCalled();
+    expect(enqueued).toHaveLength(0);
+    expect(result).toMatchObject({ generationId: 90, title: 'Moonlit Shore', imageJobId: 77 });
+  });
+
+  it("screens the user's journey idea, not just the shaped story", async () => {
+    storageMock.getGenerationByJobId.mockResolvedValue(undefined);
+    templateSelectorMock.recommendTemplates.mockResolvedValue([{ template: { templateId: 't', jsonData: { dimensions: { somatic: { level: 50 }, symbolic: { level: 50 } } } } }]);
+    const { queue, handlers } = createFakeQueue();
+    registerJobHandlers(queue);
+
+    const run = handlers.get('script')!(
+      { kind: 'dream', journeyIdea: 'I want to die and drift away forever', expandedStory: 'A gentle walk along a moonlit shore.', archetypeId: 3 },
+      context
+    );
+
+    await expect(run).rejects.toBeInstanceOf(PermanentJobError);
+    expect(storageMock.createSafetyScreening).toHaveBeenCalledWith(expect.objectContaining({ source: 'dream', decision: 'refer_out' }));
+    expect(storageMock.createGeneration).not.toHaveBeenCalled();
+  });
+});
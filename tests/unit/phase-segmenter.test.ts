@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { phaseSegmenter, phaseText } from '../../server/script-engine/phase-segmenter';
+import { llmProvider } from '../../server/llm-provider';
+import { runPhaseChecks } from '../../server/quality-guard';
+
+// Four paragraphs with the usual transition cues and no headings
+const SCRIPT = [
+  'Settle into the chair and let your body rest. Your breath moves in its own rhythm. The weight of your hands rests easily.',
+  'And with each breath you drift a little deeper. Your shoulders soften as you sink down.',
+  'Imagine a quiet garden at dusk. The garden grows in its own time. Perhaps a path opens ahead. And tonight, as you rest, you might notice the calm already beginning.',
+  'In a moment, as this journey comes to a close, you can drift into peaceful sleep. Resting now. Sleeping soundly.',
+].join('\n\n');
+
+const phaseOf = (text: string, segmentation = phaseSegmenter.segment(SCRIPT)) =>
+  segmentation.segments.find(s => SCRIPT.indexOf(text) >= s.start && SCRIPT.indexOf(text) < s.end)?.phase;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('PhaseSegmenter', () => {
+  it('finds phase boundaries from transition cues with offsets and word positions', () => {
+    const segmentation = phaseSegmenter.segment(SCRIPT);
+
+    expect(segmentation.source).toBe('cues');
+    expect(segmentation.segments.map(s => s.phase)).toEqual(['induction', 'deepening', 'work', 'emergence']);
+    expect(phaseOf('Settle into the chair')).toBe('induction');
+    expect(phaseOf('And with each breath')).toBe('deepening');
+    expect(phaseOf('Imagine a quiet garden')).toBe('work');
+    expect(phaseOf('In a moment')).toBe('emergence');
+
+    const [induction, deepening] = segmentation.segments;
+    expect(induction.start).toBe(0);
+    expect(deepening.start).toBe(induction.end);
+    expect(deepening.wordStart).toBe(induction.wordCount);
+    expect(segmentation.segments.reduce((sum, s) => sum + s.wordCount, 0)).toBe(segmentation.wordCount);
+  });
+
+  it('prefers phase headings when the script has them', () => {
+    const script = '## Induction\nRest here.\n\n## Work\nImagine a garden.\n\n## Emergence\nOpen your eyes.';
+    const segmentation = phaseSegmenter.segment(script);
+
+    expect(segmentation.source).toBe('headings');
+    expect(segmentation.segments.map(s => s.phase)).toEqual(['induction', 'work', 'emergence']);
+    expect(phaseText(script, segmentation, 'work')).toContain('Imagine a garden.');
+    expect(phaseText(script, segmentation, 'deepening')).toBe('');
+  });
+
+  it('falls back to position when there are no cues', () => {
+    const script = Array.from({ length: 20 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+    const segmentation = phaseSegmenter.segment(script);
+
+    expect(segmentation.source).toBe('estimated');
+    expect(segmentation.segments.every(s => s.confidence < 0.5)).toBe(true);
+    expect(segmentation.segments.map(s => s.wordCount)).toEqual([20, 15, 50, 15]);
+  });
+
+  it('asks the LLM only when unsure and keeps the heuristics on a bad answer', async () => {
+    const complete = vi.spyOn(llmProvider, 'complete');
+    const script = Array.from({ length: 8 }, (_, i) => `Sentence number ${i} is here.`).join(' ');
+
+    complete.mockResolvedValueOnce('{ "induction": 0, "deepening": 2, "work": 3, "emergence": 7 }');
+    const assisted = await phaseSegmenter.segmentWithAssist(script, { useLlm: true });
+    expect(assisted.source).toBe('llm');
+    expect(assisted.segments.map(s => s.wordCount)).toEqual([10, 5, 20, 5]);
+
+    complete.mockResolvedValueOnce('{ "induction": 0, "deepening": 5, "work": 3, "emergence": 7 }');
+    expect((await phaseSegmenter.segmentWithAssist(script, { useLlm: true })).source).toBe('estimated');
+
+    await phaseSegmenter.segmentWithAssist(SCRIPT, { useLlm: true });
+    await phaseSegmenter.segmentWithAssist(script);
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('per-phase quality checks', () => {
+  it('scores each check against its phase', () => {
+    const checks = runPhaseChecks(SCRIPT, phaseSegmenter.segment(SCRIPT), 'sleep');
+    const check = (name: string) => checks.find(c => c.name === name)!;
+
+    expect(check('Somatic Anchoring')).toMatchObject({ phase: 'induction', passed: true });
+    expect(check('Emergence Type')).toMatchObject({ phase: 'emergence', passed: true });
+    expect(check('Metaphor Consistency')).toMatchObject({ phase: 'work', passed: true });
+    expect(check('Benefit Cascade Structure').phase).toBe('work');
+  });
+
+  it('ignores awakening language outside the emergence for sleep scripts', () => {
+    const script = SCRIPT.replace('Imagine a quiet garden at dusk.', 'Imagine waking refreshed tomorrow in a quiet garden.');
+    const segmentation = phaseSegmenter.segment(script);
+
+    expect(runPhaseChecks(script, segmentation, 'sleep').find(c => c.name === 'Emergence Type')!.passed).toBe(true);
+  });
+
+  it('fails somatic anchoring when the body arrives late in the induction', () => {
+    const opening = Array.from({ length: 40 }, () => 'Words of welcome drift by.').join(' ');
+    const script = `## Induction\n${opening} Your breath and your body rest.\n\n## Emergence\nOpen your eyes.`;
+    const [somatic] = runPhaseChecks(script, phaseSegmenter.segment(script), 'regular');
+
+    expect(somatic).toMatchObject({ name: 'Somatic Anchoring', phase: 'induction', passed: false });
+  });
+});
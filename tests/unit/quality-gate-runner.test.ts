@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { QualityGateRunner, qualityGateRunner } from '../../server/script-engine/quality-gate-runner';
+import { llmProvider, type LLMRequest } from '../../server/llm-provider';
+import { runQualityGuard } from '../../server/quality-guard';
+
+const runner = new QualityGateRunner();
+
+const OPENING = 'Settle into the chair and notice your breath. Your body rests, and the weight of your hands feels heavy and warm.';
+const WORK = 'Perhaps a garden grows in its own time, or perhaps something else entirely, in your own way, whatever that means to you. Your body is healing and your sleep is deepening.';
+const CLOSE = 'You might notice energy returning, calm and steady, as you open your eyes.';
+const SCRIPT = [OPENING, WORK, CLOSE].join('\n\n');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('QualityGateRunner', () => {
+  it('evaluates regex gates within the declared word position', () => {
+    const gate = { gate: 'body_breath_early', check: 'Body early', method: 'regex', pattern: '\\b(breath|body)\\b', min_matches: 2, max_word_position: 10 };
+
+    expect(runner.evaluate(SCRIPT, gate)).toEqual({ passed: true, details: '2 matches in the first 10 words (minimum: 2)' });
+    expect(runner.evaluate(`${'Welcome here. '.repeat(10)}${SCRIPT}`, gate)).toMatchObject({ passed: false });
+  });
+
+  it('counts keywords, required patterns and forbidden phrases', () => {
+    expect(runner.evaluate(SCRIPT, { gate: 'k', check: '', method: 'keyword', keywords: ['weight', 'tingling'], min_matches: 1 }))
+      .toMatchObject({ passed: true, details: '1 occurrences (minimum: 1): weight' });
+    expect(runner.evaluate(SCRIPT, { gate: 'p', check: '', method: 'pattern_check', require_patterns: ['or perhaps', 'whatever'], min_occurrences: 3 }))
+      .toMatchObject({ passed: false });
+    expect(runner.evaluate(`${SCRIPT} You are enough.`, { gate: 'x', check: '', method: 'keyword_exclusion', forbidden_phrases: ['you are enough'], max_matches: 0 }))
+      .toMatchObject({ passed: false, details: '1 found (maximum: 0): you are enough' });
+  });
+
+  it('measures permissive ratio, sentence rhythm and distribution', () => {
+    expect(runner.evaluate('Close your eyes. Take a breath. You might rest.', { gate: 'r', check: '', method: 'linguistic_analysis', count_permission_words: ['might'], min_ratio: 0.8 }))
+      .toMatchObject({ passed: false, details: expect.stringContaining('33% permissive') });
+    expect(runner.evaluate(OPENING, { gate: 'o', check: '', method: 'sentence_analysis', section: 'first_150_words', target_avg_length: [8, 12] }))
+      .toMatchObject({ passed: true });
+    expect(runner.evaluate('Rest now. Rest now. Rest now.', { gate: 'v', check: '', method: 'statistical', require_variance: true }))
+      .toMatchObject({ passed: false });
+    expect(runner.evaluate(SCRIPT, { gate: 'd', check: '', method: 'distribution_check', pattern: '\\bheal\\w*', require_in_sections: ['beginning_third', 'middle_third'] }))
+      .toMatchObject({ passed: false, details: expect.stringMatching(/^Missing from beginning_third/) });
+    expect(runner.evaluate(SCRIPT, { gate: 'u', check: '', method: 'vibes' })).toEqual({ skipped: 'Unknown gate method "vibes"' });
+  });
+
+  it('runs every gate in principles.json and judges semantic gates with one LLM call', async () => {
+    const complete = vi.spyOn(llmProvider, 'complete').mockResolvedValue(
+      '{ "results": [{ "gate": "single_primary_metaphor", "passed": false, "details": "Garden and ocean compete" }] }'
+    );
+
+    const results = await qualityGateRunner.run(SCRIPT);
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(results).toHaveLength(14);
+    expect(results.find(r => r.gate === 'single_primary_metaphor')).toMatchObject({
+      status: 'failed',
+      principleId: 'metaphor-consistency',
+      details: 'Garden and ocean compete',
+      fix: expect.stringContaining('one primary metaphor family'),
+    });
+    expect(results.find(r => r.gate === 'client_agency')).toMatchObject({ status: 'skipped', details: 'No verdict from LLM judge' });
+    expect(results.find(r => r.gate === 'body_breath_early')!.status).toBe('passed');
+
+    const offline = await qualityGateRunner.run(SCRIPT, { useLlmJudge: false });
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(offline.filter(r => r.method.startsWith('semantic')).every(r => r.status === 'skipped')).toBe(true);
+  });
+});
+
+describe('quality gates in the Quality Guard', () => {
+  it('sends failed gates to the micro-polish with their fix instructions', async () => {
+    const prompts: LLMRequest[] = [];
+    vi.spyOn(llmProvider, 'complete').mockImplementation(async (request) => {
+      prompts.push(request);
+      return JSON.stringify({ polishedScript: SCRIPT });
+    });
+
+    const report = await runQualityGuard(`${SCRIPT} You are enough.`, { emergenceType: 'regular', targetWordCount: 80, useLlmJudge: false });
+
+    const polish = prompts.find(p => p.task === 'micro-polish')!;
+    expect(polish.prompt).toContain('Avoids emotional affirmations, focuses on functional changes');
+    expect(polish.prompt).toContain('Fix (Recognition of Inherent Wholeness & Functional Improvement): Replace emotional affirmations');
+
+    // Gates are re-run on the polished script
+    expect(report.finalScript).toBe(SCRIPT);
+    expect(report.gates.find(g => g.gate === 'no_emotional_affirmations')!.status).toBe('passed');
+    expect(report.checks.some(c => c.principle === 'Emotional Safety')).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseReaderScript,
+  renderPlainText,
+  renderTeleprompterHtml,
+  renderSsml,
+  hasReaderMarkup,
+} from '@shared/reader-script';
+
+const MARKED_UP = `[section induction]
+You can let your eyes close now. [pause 3s] [breathe in] And breathe out slowly.
+
+[slow]Each breath settles you deeper.
+[/slow]
+
+[section ego cascade]
+You are *capable* and calm. [soft]Resting here.[/soft] [pause 500ms]
+
+[section emergence]
+In a moment you'll return. [breathe out 6s] Welcome back.`;
+
+describe('parseReaderScript', () => {
+  it('splits the script into sections and paragraphs', () => {
+    const script = parseReaderScript(MARKED_UP);
+
+    expect(script.blocks.map(b => b.section)).toEqual(['induction', 'ego-cascade', 'emergence']);
+    expect(script.blocks[0].paragraphs).toHaveLength(2);
+  });
+
+  it('parses timed pauses and breathing cues', () => {
+    const [first] = parseReaderScript(MARKED_UP).blocks[0].paragraphs;
+
+    expect(first).toContainEqual({ type: 'pause', seconds: 3 });
+    expect(first).toContainEqual({ type: 'breath', cue: 'in' });
+  });
+
+  it('converts millisecond pauses and keeps breath durations', () => {
+    const blocks = parseReaderScript(MARKED_UP).blocks;
+
+    expect(blocks[1].paragraphs[0]).toContainEqual({ type: 'pause', seconds: 0.5 });
+    expect(blocks[2].paragraphs[0]).toContainEqual({ type: 'breath', cue: 'out', seconds: 6 });
+  });
+
+  it('applies slow, soft and emphasis styles', () => {
+    const blocks = parseReaderScript(MARKED_UP).blocks;
+    const slow = blocks[0].paragraphs[1][0];
+    const ego = blocks[1].paragraphs[0];
+
+    expect(slow).toMatchObject({ type: 'text', style: { slow: true } });
+    expect(ego).toContainEqual({ type: 'text', text: 'capable', style: { emphasis: true } });
+    expect(ego).toContainEqual({ type: 'text', text: 'Resting here.', style: { soft: true } });
+  });
+
+  it('treats unmarked prose as a single untitled block', () => {
+    const script = parseReaderScript('First paragraph.\n\nSecond [aside] paragraph.');
+
+    expect(script.blocks).toHaveLength(1);
+    expect(script.blocks[0].section).toBeNull();
+    expect(renderPlainText(script)).toBe('First paragraph.\n\nSecond [aside] paragraph.');
+  });
+});
+
+describe('renderers', () => {
+  const script = parseReaderScript(MARKED_UP);
+
+  it('renders plain text with every cue removed', () => {
+    const text = renderPlainText(script);
+
+    expect(text).not.toMatch(/\[|\*/);
+    expect(text).toContain('You can let your eyes close now. And breathe out slowly.');
+    expect(text.split('\n\n')).toHaveLength(4);
+  });
+
+  it('renders a teleprompter page with sections and cue badges', () => {
+    const html = renderTeleprompterHtml(script, { title: 'Calm <Sleep>' });
+
+    expect(html).toContain('<title>Calm &lt;Sleep&gt;</title>');
+    expect(html).toContain('Ego Cascade');
+    expect(html).toContain('<span class="cue pause">pause 3s</span>');
+    expect(html).toContain('<span class="cue breath">breathe out 6s</span>');
+    expect(html).toContain('<strong>capable</strong>');
+  });
+
+  it('renders SSML breaks, prosody and section marks', () => {
+    const ssml = renderSsml(script);
+
+    expect(ssml.startsWith('<speak>')).toBe(true);
+    expect(ssml).toContain('<mark name="induction"/>');
+    expect(ssml).toContain('<break time="3s"/>');
+    expect(ssml).toContain('<break time="500ms"/>');
+    expect(ssml).toContain('<break time="4s"/>'); // Default breath
+    expect(ssml).toContain('<prosody rate="slow">');
+    expect(ssml).toContain('<prosody volume="soft">Resting here.</prosody>');
+    expect(ssml).toContain('<emphasis level="moderate">capable</emphasis>');
+  });
+});
+
+describe('hasReaderMarkup', () => {
+  it('detects cues but not plain prose', () => {
+    expect(hasReaderMarkup(MARKED_UP)).toBe(true);
+    expect(hasReaderMarkup('Just relax. *Deeply*.')).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { SafetyScreener, SafetyReferralError, safetyScreener } from '../../server/script-engine/safety-screener';
+import { StrategyPlanner } from '../../server/script-engine/strategy-planner';
+import { ScriptEngine } from '../../server/script-engine';
+import { validateContent } from '../../server/content-validator';
+
+describe('SafetyScreener', () => {
+  it('allows clinical language the old keyword list rejected', () => {
+    for (const presentingIssue of ['kill the cravings for sugar', 'worried about my blood pressure']) {
+      expect(validateContent(presentingIssue).isValid).toBe(true);
+      expect(safetyScreener.screen({ presentingIssue }).decision).not.toBe('refer_out');
+    }
+    expect(safetyScreener.screen({ presentingIssue: 'kill the cravings for sugar' })).toMatchObject({
+      decision: 'allowed',
+      reasons: [],
+      referralMessage: null,
+    });
+  });
+
+  it('adds directives and avoids metaphor families per avoid_for', () => {
+    const result = safetyScreener.screen({ presentingIssue: 'fear of water since nearly drowning', clientNotes: 'has asthma' });
+
+    expect(result.decision).toBe('allowed_with_modifications');
+    expect(result.modifications.avoidMetaphorFamilies).toEqual(['water']);
+    expect(result.reasons).toContainEqual(expect.objectContaining({ code: 'metaphor_avoid_for', field: 'presentingIssue', matched: 'drowning fears' }));
+    expect(result.reasons).toContainEqual(expect.objectContaining({ code: 'breathing_condition', field: 'clientNotes', matched: 'asthma' }));
+    expect(result.modifications.directives.some(d => /breath-holding/.test(d))).toBe(true);
+  });
+
+  it('refers out active suicidality and psychosis with the referral message', () => {
+    const suicidal = safetyScreener.screen({ presentingIssue: 'stress at work', clientNotes: 'says they want to die' });
+    expect(suicidal.decision).toBe('refer_out');
+    expect(suicidal.reasons).toContainEqual(expect.objectContaining({ code: 'active_suicidality', matched: 'want to die' }));
+    expect(suicidal.referralMessage).toMatch(/licensed mental health professional/);
+
+    expect(safetyScreener.screen({ presentingIssue: 'Hearing voices that tell me what to do' }).reasons)
+      .toContainEqual(expect.objectContaining({ code: 'psychosis', decision: 'refer_out' }));
+  });
+
+  it('ignores negated modification phrases within the same clause', () => {
+    expect(safetyScreener.screen({ presentingIssue: 'exam anxiety', clientNotes: 'No asthma' }).decision).toBe('allowed');
+    expect(safetyScreener.screen({ presentingIssue: 'exam anxiety', clientNotes: 'not sure, has asthma' }).decision)
+      .toBe('allowed_with_modifications');
+  });
+
+  it('never lets negation hide a refer-out phrase', () => {
+    for (const clientNotes of ["I don't care, I want to die", 'no, I just want to end it all', 'No suicidal thoughts']) {
+      expect(safetyScreener.screen({ presentingIssue: 'stress at work', clientNotes }).decision).toBe('refer_out');
+    }
+  });
+
+  it('works from custom rules', () => {
+    const screener = new SafetyScreener({
+      referral_message: 'Refer to a doctor',
+      negation_cues: ['no'],
+      negation_window: 2,
+      metaphor_avoid_threshold: 0.75,
+      refer_out: [{ code: 'mania', message: 'Manic episode', phrases: ['manic episode'] }],
+      modifications: [{ code: 'migraine', message: 'Migraines', phrases: ['migraine'], directives: ['Keep imagery dim'], avoid_metaphor_families: [] }],
+    });
+
+    expect(screener.screen({ presentingIssue: 'in a manic episode' })).toMatchObject({ decision: 'refer_out', referralMessage: 'Refer to a doctor' });
+    expect(screener.screen({ presentingIssue: 'no manic episode lately' }).decision).toBe('refer_out');
+    expect(screener.screen({ presentingIssue: 'no migraine lately' }).decision).toBe('allowed');
+    expect(screener.screen({ presentingIssue: 'gets a migraine at work' }).modifications.directives).toEqual(['Keep imagery dim']);
+  });
+});
+
+describe('safety screening in the engine', () => {
+  it('plans around avoided metaphor families', async () => {
+    const input = { presentingIssue: 'grief after my mother died', desiredOutcome: 'peace', symbolicDimensionLevel: 60 };
+    const contract = await new StrategyPlanner().plan({ ...input, avoidMetaphorFamilies: ['water', 'garden'] });
+
+    expect(contract.primaryMetaphor?.family).not.toMatch(/^(water|garden)$/);
+    expect(contract.reasoningLog).toContain('Avoiding metaphor families (safety): water, garden');
+  });
+
+  it('refuses to build prompts for a refer-out and carries modifications into the prompt', async () => {
+    const engine = new ScriptEngine();
+
+    await expect(engine.generate({ presentingIssue: 'I feel suicidal most nights', desiredOutcome: 'sleep' }))
+      .rejects.toBeInstanceOf(SafetyReferralError);
+
+    const output = await engine.generate({ presentingIssue: 'epilepsy and trouble sleeping', desiredOutcome: 'deep rest' });
+    expect(output.safety.decision).toBe('allowed_with_modifications');
+    expect(output.structuredInstructions).toContain('=== SAFETY MODIFICATIONS ===');
+    expect(output.enhancedSystemPrompt).toMatch(/CLIENT SAFETY MODIFICATIONS[\s\S]*strobing/);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { applyRepairs, composeRepairs, createRepair, diffWords } from '../../shared/script-repair';
+import { repairSpans, sentenceTargets } from '../../server/span-repair';
+import { llmProvider, type LLMRequest } from '../../server/llm-provider';
+import { runQualityGuard } from '../../server/quality-guard';
+import { analyzePatterns, locateOverusedPatterns, refinePatterns } from '../../server/pattern-refiner';
+
+const SCRIPT = [
+  'Settle into the chair and notice your breath. Your body rests, and the weight of your hands feels heavy and warm.',
+  'Perhaps a garden grows in its own time. You are enough. Your sleep is deepening and your body is healing.',
+  'You might notice energy returning, calm and steady, as you open your eyes.',
+].join('\n\n');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('script repairs', () => {
+  it('diffs words and applies any subset of repairs to the base script', () => {
+    expect(diffWords('you might rest now', 'you can rest now')).toEqual([
+      { type: 'equal', text: 'you ' },
+      { type: 'delete', text: 'might' },
+      { type: 'insert', text: 'can' },
+      { type: 'equal', text: ' rest now' },
+    ]);
+
+    const base = 'One. Two. Three.';
+    const repairs = [createRepair(base, 'a', 0, 4, 'First.', []), createRepair(base, 'b', 10, 16, 'Third!', [])];
+    expect(applyRepairs(base, repairs)).toBe('First. Two. Third!');
+    expect(applyRepairs(base, repairs, ['b'])).toBe('One. Two. Third!');
+    expect(applyRepairs(base, repairs, [])).toBe(base);
+  });
+
+  it('composes two rounds of repairs against the original base', () => {
+    const base = 'One. Two. Three. Four.';
+    const first = [createRepair(base, 'a', 0, 4, 'The first one.', ['refiner'])];
+    const intermediate = applyRepairs(base, first); // 'The first one. Two. Three. Four.'
+    const second = [
+      createRepair(intermediate, 'b', 4, 14, 'initial one.', ['quality']), // Inside the first repair
+      createRepair(intermediate, 'c', 27, 32, 'Fourth.', ['quality']),
+    ];
+
+    const composed = composeRepairs(base, first, second);
+
+    expect(composed.map(r => [r.original, r.replacement, r.reasons])).toEqual([
+      ['One.', 'The initial one.', ['refiner', 'quality']],
+      ['Four.', 'Fourth.', ['quality']],
+    ]);
+    expect(applyRepairs(base, composed)).toBe(applyRepairs(intermediate, second));
+    expect(applyRepairs(base, composed, [composed[1].id])).toBe('One. Two. Three. Fourth.');
+  });
+});
+
+describe('repairSpans', () => {
+  it('sends only the target spans with their context and splices the rewrites back', async () => {
+    const prompts: LLMRequest[] = [];
+    vi.spyOn(llmProvider, 'complete').mockImplementation(async (request) => {
+      prompts.push(request);
+      return JSON.stringify({ repairs: [{ id: 1, replacement: 'Your body knows how to rest.' }, { id: 2, replacement: '' }] });
+    });
+    const targets = [
+      ...sentenceTargets(SCRIPT, s => s === 'You are enough.', 'Emotional affirmation'),
+      ...sentenceTargets(SCRIPT, s => s.startsWith('You might notice'), 'Too directive'),
+    ];
+
+    const result = await repairSpans(SCRIPT, targets, { task: 'span-repair', system: 'Polish' });
+
+    expect(prompts[0].prompt).toContain('Passage: You are enough.');
+    expect(prompts[0].prompt).toContain('Before (context, do not rewrite): Perhaps a garden grows in its own time.');
+    expect(prompts[0].prompt).not.toContain('Settle into the chair');
+    expect(result.script).toBe(SCRIPT.replace('You are enough.', 'Your body knows how to rest.'));
+    expect(result.repairs).toHaveLength(1);
+    expect(result.repairs[0]).toMatchObject({ original: 'You are enough.', reasons: ['Emotional affirmation'] });
+    expect(result.unrepaired.map(t => t.reasons[0])).toEqual(['Too directive']);
+  });
+});
+
+describe('span repair mode', () => {
+  it('repairs the sentences a failed gate points at instead of rewriting the script', async () => {
+    const prompts: LLMRequest[] = [];
+    vi.spyOn(llmProvider, 'complete').mockImplementation(async (request) => {
+      prompts.push(request);
+      // Answer only for the affirmation's passage, wherever it landed in the numbering
+      const id = Number(request.prompt.match(/\[(\d+)\]\nIssues:(?:\n- [^\n]*)*\n(?:Before[^\n]*\n)?Passage: You are enough\./)?.[1]);
+      return JSON.stringify({ repairs: [{ id, replacement: 'Your body knows how to rest.' }] });
+    });
+
+    const report = await runQualityGuard(SCRIPT, { emergenceType: 'regular', targetWordCount: 80, useLlmJudge: false, repairMode: 'spans' });
+
+    expect(prompts.some(p => p.task === 'micro-polish')).toBe(false);
+    const repair = prompts.find(p => p.task === 'span-repair')!;
+    expect(repair.prompt).toContain('Passage: You are enough.');
+    expect(repair.prompt).toContain('Fix (Recognition of Inherent Wholeness & Functional Improvement)');
+    expect(report.finalScript).toBe(SCRIPT.replace('You are enough.', 'Your body knows how to rest.'));
+    expect(report.repairs).toHaveLength(1);
+    expect(report.gates.find(g => g.gate === 'no_emotional_affirmations')!.status).toBe('passed');
+  });
+
+  it('rewrites only the pattern occurrences past the threshold', async () => {
+    const script = Array.from({ length: 5 }, (_, i) => `Perhaps you rest in place number ${i}.`).join(' ');
+    const analysis = analyzePatterns(script);
+
+    const targets = locateOverusedPatterns(script, analysis);
+    expect(targets.map(t => script.slice(t.start, t.end))).toContain('Perhaps you rest in place number 3.');
+    expect(targets.map(t => script.slice(t.start, t.end))).not.toContain('Perhaps you rest in place number 0.');
+
+    const complete = vi.spyOn(llmProvider, 'complete').mockResolvedValue(
+      JSON.stringify({ repairs: [{ id: 1, replacement: 'You rest in place number 2.' }] })
+    );
+    const result = await refinePatterns(script, analysis, { mode: 'spans' });
+
+    expect(complete.mock.calls[0][0].task).toBe('pattern-repair');
+    expect(result.refinedScript).toContain('You rest in place number 2.');
+    expect(result.repairs).toHaveLength(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { diffTemplates, formatTemplateChanges, bumpTemplateVersion, compareTemplateVersions } from '../../shared/template-diff';
+import type { TemplateJSON } from '../../shared/schema';
+
+const seedTemplates: TemplateJSON[] = JSON.parse(
+  readFileSync(path.join(__dirname, '../../server/seed-templates.json'), 'utf-8')
+);
+const base = seedTemplates[0];
+const clone = (template: TemplateJSON): TemplateJSON => JSON.parse(JSON.stringify(template));
+
+describe('diffTemplates', () => {
+  it('reports no changes for identical content, ignoring metadata and version', () => {
+    const after = clone(base);
+    after.version = '9.9.9';
+    after.metadata = { ...after.metadata, usage_count: 42 } as any;
+
+    expect(diffTemplates(base, after)).toEqual([]);
+    expect(formatTemplateChanges([])).toBe('no changes');
+  });
+
+  it('describes dimension level and technique changes', () => {
+    const after = clone(base);
+    after.dimensions.somatic.level = 70;
+    after.dimensions.somatic.techniques = [...(base.dimensions.somatic.techniques || []), 'progressive relaxation'];
+    const before = clone(base);
+    before.dimensions.somatic.level = 40;
+
+    const changes = diffTemplates(before, after);
+    expect(changes[0]).toMatchObject({ dimension: 'somatic', kind: 'level', from: 40, to: 70 });
+    expect(formatTemplateChanges(changes)).toBe("somatic 40→70, added somatic technique 'progressive relaxation'");
+  });
+
+  it('covers removed items, enabled flags and top-level fields', () => {
+    const after = clone(base);
+    after.dimensions.spiritual.enabled = !base.dimensions.spiritual.enabled;
+    after.tags = base.tags.slice(1);
+    after.name = 'Renamed';
+    after.description = 'A much longer description';
+
+    const summaries = diffTemplates(base, after).map(change => change.summary);
+    expect(summaries).toContain(`spiritual ${after.dimensions.spiritual.enabled ? 'enabled' : 'disabled'}`);
+    expect(summaries).toContain(`removed tag '${base.tags[0]}'`);
+    expect(summaries).toContain(`name '${base.name}'→'Renamed'`);
+    expect(summaries).toContain('description changed');
+  });
+});
+
+describe('bumpTemplateVersion', () => {
+  it('bumps minor for dimension changes and patch otherwise', () => {
+    const after = clone(base);
+    after.dimensions.language.level = base.dimensions.language.level + 10;
+    expect(bumpTemplateVersion('1.2.3', diffTemplates(base, after))).toBe('1.3.0');
+
+    const renamed = clone(base);
+    renamed.name = 'Renamed';
+    expect(bumpTemplateVersion('1.2', diffTemplates(base, renamed))).toBe('1.2.1');
+    expect(bumpTemplateVersion('draft', [])).toBe('draft');
+  });
+});
+
+describe('compareTemplateVersions', () => {
+  it('orders version strings numerically', () => {
+    expect(compareTemplateVersions('1.10.0', '1.9.2')).toBeGreaterThan(0);
+    expect(compareTemplateVersions('1.2', '1.2.0')).toBe(0);
+    expect(compareTemplateVersions('0.9.9', '1.0.0')).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  trainRankingModel,
+  scoreWithModel,
+  evaluateRanking,
+  splitRankingQueries,
+  precisionAtK,
+  pickWeight,
+  emptyRankingFeatures,
+  type LoggedRankingQuery,
+  type RankingCandidate,
+  type RankingFeatures,
+} from '../../server/template-ranker';
+
+const candidate = (templateId: string, heuristicScore: number, features: Partial<RankingFeatures>): RankingCandidate => ({
+  templateId,
+  heuristicScore,
+  features: { ...emptyRankingFeatures(), ...features },
+});
+
+// Users consistently pick the well-rated template, which the heuristic ranks below popular ones
+const loggedQuery = (n: number): LoggedRankingQuery => ({
+  recommendationId: `rec-${n}`,
+  createdAt: new Date(2026, 0, 1, 0, n),
+  candidates: [
+    candidate('popular-a', 30, { presentingIssue: 1, popularity: 3 }),
+    candidate('popular-b', 28, { presentingIssue: 1, popularity: 2.8 }),
+    candidate('system', 26, { presentingIssue: 1, system: 1 }),
+    candidate('rated', 24, { presentingIssue: 1, rating: 4 + (n % 3) * 0.5 }),
+    candidate('unrelated', 5, { fallback: 1 }),
+  ],
+  picks: [{ templateId: 'rated', favorited: n % 2 === 0, edited: false, regenerated: false }],
+});
+
+const queries = Array.from({ length: 30 }, (_, n) => loggedQuery(n));
+
+describe('template ranker', () => {
+  it('weights picks by what happened to the script', () => {
+    const pick = { templateId: 't', favorited: false, edited: false, regenerated: false };
+    expect(pickWeight(pick)).toBe(1);
+    expect(pickWeight({ ...pick, favorited: true })).toBe(2);
+    expect(pickWeight({ ...pick, edited: true, regenerated: true })).toBe(0.25);
+  });
+
+  it('computes precision@k against the picked templates', () => {
+    expect(precisionAtK(['a', 'b', 'c', 'd'], new Set(['b', 'd']), 3)).toBeCloseTo(1 / 3);
+    expect(precisionAtK(['a'], new Set(['z']), 3)).toBe(0);
+  });
+
+  it('learns the signal users actually follow and beats the heuristic on held-out queries', () => {
+    const { train, test } = splitRankingQueries(queries);
+    expect(test.map(q => q.recommendationId)).toEqual(['rec-24', 'rec-25', 'rec-26', 'rec-27', 'rec-28', 'rec-29']);
+
+    const model = trainRankingModel(train);
+    const rated = scoreWithModel(model, test[0].candidates[3].features);
+    const popular = scoreWithModel(model, test[0].candidates[0].features);
+    expect(rated).toBeGreaterThan(popular);
+
+    const evaluation = evaluateRanking(test, model);
+    expect(evaluation.heuristic).toEqual({ precisionAt3: 0, hitRateAt3: 0 });
+    expect(evaluation.model).toEqual({ precisionAt3: 1 / 3, hitRateAt3: 1 });
+  });
+
+  it('reports only the heuristic without a model', () => {
+    expect(evaluateRanking(queries, null).model).toBeNull();
+    expect(() => trainRankingModel([])).toThrow();
+  });
+});
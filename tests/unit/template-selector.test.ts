@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Template, TemplateJSON } from '../../shared/schema';
+
+const templateManagerMock = vi.hoisted(() => ({
+  getSystemTemplates: vi.fn(),
+  getPublicTemplates: vi.fn(),
+}));
+const selectionLogMock = vi.hoisted(() => ({
+  getActiveModel: vi.fn(),
+}));
+
+// Keep the database out of unit tests
+vi.mock('../../server/template-manager', () => ({ templateManager: templateManagerMock }));
+vi.mock('../../server/selection-log', () => ({ selectionLog: selectionLogMock }));
+
+import { templateSelector, ratingSignal } from '../../server/template-selector';
+import { RANKING_FEATURES, type RankingModel } from '../../server/template-ranker';
+
+const seedTemplates: TemplateJSON[] = JSON.parse(
+  readFileSync(path.join(__dirname, '../../server/seed-templates.json'), 'utf-8')
+);
+
+const template = (templateId: string, overrides: Partial<Template> = {}): Template => ({
+  id: 0,
+  templateId,
+  jsonData: { ...seedTemplates[0], id: templateId },
+  name: templateId,
+  description: null,
+  category: seedTemplates[0].category,
+  tags: seedTemplates[0].tags,
+  createdBy: 'user',
+  userId: 'author-1',
+  isPublic: true,
+  isSystem: false,
+  usageCount: 0,
+  ratingAvg: null,
+  reviewCount: 0,
+  moderationStatus: 'approved',
+  moderationNotes: null,
+  moderatedBy: null,
+  moderatedAt: null,
+  currentVersion: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('ratingSignal', () => {
+  it('ignores unrated templates and shrinks sparse ratings toward neutral', () => {
+    expect(ratingSignal({ ratingAvg: null, reviewCount: 0 })).toBeNull();
+
+    const single = ratingSignal({ ratingAvg: 500, reviewCount: 1 })!;
+    const many = ratingSignal({ ratingAvg: 500, reviewCount: 30 })!;
+    expect(single.score).toBeGreaterThan(0);
+    expect(many.score).toBeGreaterThan(single.score);
+    expect(ratingSignal({ ratingAvg: 150, reviewCount: 10 })!.score).toBeLessThan(0);
+  });
+});
+
+describe('TemplateSelector', () => {
+  beforeEach(() => {
+    templateManagerMock.getSystemTemplates.mockResolvedValue([]);
+    selectionLogMock.getActiveModel.mockResolvedValue(null);
+  });
+
+  it('ranks a well-reviewed template above an otherwise identical one', async () => {
+    templateManagerMock.getPublicTemplates.mockResolvedValue([
+      template('unrated'),
+      template('panned', { ratingAvg: 180, reviewCount: 8 }),
+      template('loved', { ratingAvg: 480, reviewCount: 12 }),
+    ]);
+
+    const issue = seedTemplates[0].presenting_issues[0];
+    const recommendations = await templateSelector.recommendTemplates(issue, 'feel calm');
+
+    expect(recommendations.map(r => r.template.templateId)).toEqual(['loved', 'unrated', 'panned']);
+    expect(recommendations[0].matchReasons).toContain('Highly rated (4.8★ from 12 reviews)');
+    expect(recommendations[0].features.rating).toBeGreaterThan(0);
+  });
+
+  it('re-ranks candidates with the active ranking model', async () => {
+    templateManagerMock.getPublicTemplates.mockResolvedValue([
+      template('popular', { usageCount: 900 }),
+      template('loved', { ratingAvg: 480, reviewCount: 12 }),
+    ]);
+    // A model that has learned users ignore popularity and only follow ratings
+    const model: RankingModel = {
+      kind: 'logistic-regression',
+      features: [...RANKING_FEATURES],
+      means: RANKING_FEATURES.map(() => 0),
+      scales: RANKING_FEATURES.map(() => 1),
+      weights: RANKING_FEATURES.map(feature => (feature === 'popularity' ? -1 : 0)),
+      bias: 0,
+    };
+    selectionLogMock.getActiveModel.mockResolvedValue(model);
+
+    const issue = seedTemplates[0].presenting_issues[0];
+    const recommendations = await templateSelector.recommendTemplates(issue, 'feel calm');
+
+    expect(recommendations[0].matchScore).toBeLessThan(recommendations[1].matchScore);
+    expect(recommendations.map(r => r.template.templateId)).toEqual(['loved', 'popular']);
+    expect(recommendations[0].rankScore).toBeGreaterThan(recommendations[1].rankScore!);
+  });
+});
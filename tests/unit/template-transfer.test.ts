@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Template, TemplateJSON } from '../../shared/schema';
+
+// In-memory stand-in for the templates table
+const store = vi.hoisted(() => new Map<string, any>());
+const templateManagerMock = vi.hoisted(() => ({
+  getTemplateById: vi.fn(async (templateId: string) => store.get(templateId)),
+  createTemplate: vi.fn(async (template: any) => {
+    const created = { ...template, currentVersion: 1 };
+    store.set(template.templateId, created);
+    return created;
+  }),
+  updateTemplate: vi.fn(async (templateId: string, updates: any) => {
+    const updated = { ...store.get(templateId), ...updates, currentVersion: store.get(templateId).currentVersion + 1 };
+    store.set(templateId, updated);
+    return updated;
+  }),
+}));
+
+vi.mock('../../server/template-manager', () => ({ templateManager: templateManagerMock }));
+
+import { templateImporter, parseTemplateDocument, buildTemplateArchive } from '../../server/template-transfer';
+
+const seedTemplates: TemplateJSON[] = JSON.parse(
+  readFileSync(path.join(__dirname, '../../server/seed-templates.json'), 'utf-8')
+);
+const [first, second] = seedTemplates;
+
+const existing = (jsonData: TemplateJSON, overrides: Partial<Template> = {}) =>
+  store.set(jsonData.id, { templateId: jsonData.id, jsonData, isSystem: false, userId: 'user-1', currentVersion: 1, ...overrides });
+
+describe('parseTemplateDocument', () => {
+  it('accepts single documents, archives and arrays, and fails invalid entries individually', () => {
+    expect(parseTemplateDocument(first).map(e => e.templateId)).toEqual([first.id]);
+    expect(parseTemplateDocument(buildTemplateArchive([first, second])).map(e => e.templateId)).toEqual([first.id, second.id]);
+
+    const entries = parseTemplateDocument([first, { ...second, dimensions: undefined }, first]);
+    expect(entries[0].template).toBeDefined();
+    expect(entries[1].error).toMatch(/^Invalid template JSON: dimensions/);
+    expect(entries[2].error).toContain('Duplicate template id');
+
+    expect(() => parseTemplateDocument('nope')).toThrow();
+    expect(() => parseTemplateDocument({ format: 'hypnobrain-template-archive', formatVersion: 99, templates: [] })).toThrow(/Unsupported/);
+  });
+});
+
+describe('TemplateImporter', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.clearAllMocks();
+  });
+
+  it('creates new templates owned by the importing user and reports per template', async () => {
+    const report = await templateImporter.importTemplates(buildTemplateArchive([first, second]), { policy: 'skip', userId: 'user-1' });
+
+    expect(report.summary).toMatchObject({ created: 2, failed: 0 });
+    expect(store.get(first.id)).toMatchObject({ userId: 'user-1', isSystem: false, isPublic: false });
+  });
+
+  it('applies the conflict policy to existing templates', async () => {
+    existing(first);
+    const changed = { ...first, dimensions: { ...first.dimensions, somatic: { ...first.dimensions.somatic, level: 20 } } };
+
+    expect((await templateImporter.importTemplates(changed, { policy: 'skip', userId: 'user-1' })).results[0].status).toBe('skipped');
+    expect(templateManagerMock.updateTemplate).not.toHaveBeenCalled();
+
+    const overwrite = await templateImporter.importTemplates(changed, { policy: 'overwrite', userId: 'user-1' });
+    expect(overwrite.results[0]).toMatchObject({ status: 'overwritten', version: 2 });
+    expect(store.get(first.id).jsonData.version).toBe(first.version); // Verbatim
+
+    existing(first);
+    const versioned = await templateImporter.importTemplates(changed, { policy: 'new-version', userId: 'user-1' });
+    expect(versioned.results[0].status).toBe('versioned');
+    expect(store.get(first.id).jsonData.version).not.toBe(first.version); // Bumped past the existing version
+
+    existing(first);
+    expect((await templateImporter.importTemplates(first, { policy: 'new-version', userId: 'user-1' })).results[0].status).toBe('unchanged');
+  });
+
+  it("won't replace another user's or a system template", async () => {
+    existing(first, { userId: 'someone-else' });
+    existing(second, { isSystem: true, userId: null });
+
+    const report = await templateImporter.importTemplates([first, second], { policy: 'overwrite', userId: 'user-1' });
+    expect(report.results.map(r => r.status)).toEqual(['failed', 'failed']);
+
+    const seeded = await templateImporter.importTemplates([second], { policy: 'overwrite', asSystem: true });
+    expect(seeded.results[0].status).not.toBe('failed');
+  });
+});
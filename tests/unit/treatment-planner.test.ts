@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { treatmentPlanner, formatSeriesContinuity, type PlannedSession } from '../../server/script-engine/treatment-planner';
+import type { SessionAnchors, TreatmentClientProfile } from '../../shared/schema';
+
+const PROFILE: TreatmentClientProfile = {
+  name: 'Client A',
+  presentingIssue: 'anxiety before presentations',
+  desiredOutcome: 'Feel calm and grounded when speaking',
+};
+
+const anchors = (overrides: Partial<SessionAnchors>): SessionAnchors => ({
+  metaphorFamily: 'tree',
+  images: [],
+  suggestions: [],
+  arcs: [],
+  ...overrides,
+});
+
+describe('TreatmentPlanner', () => {
+  it('plans each session with its own arc choice and keeps the series metaphor family', async () => {
+    const sessions: PlannedSession[] = [
+      { sessionNumber: 1, goal: 'Build a felt sense of safety', status: 'planned' },
+      { sessionNumber: 2, goal: 'Rehearse speaking with confidence', presentingIssue: 'low confidence at work', arcId: 'future-self', status: 'planned' },
+    ];
+
+    const plans = await treatmentPlanner.planSeries(PROFILE, sessions);
+    const [first, second] = [plans.get(1)!, plans.get(2)!];
+
+    expect(first.metaphorFamily).toBeTruthy();
+    expect(second.arcs.map(a => a.arcId)).toContain('future-self');
+    expect(second.metaphorFamily).toBe(first.metaphorFamily);
+    expect(second.reasoningLog.join('\n')).toContain('Series continuity');
+  });
+
+  it('drops the series family when it is contraindicated for a session', async () => {
+    const plan = await treatmentPlanner.planSession(
+      PROFILE,
+      { sessionNumber: 2, goal: 'Let worries flow away', presentingIssue: 'fear of water since nearly drowning' },
+      { sessionNumber: 2, totalSessions: 4, metaphorFamily: 'water', images: [], suggestions: [], previousSessions: [] }
+    );
+
+    expect(plan.metaphorFamily).not.toBe('water');
+  });
+
+  it('extracts the images and suggestions a session used and carries them to later sessions', () => {
+    const script = [
+      'Settle in and notice your breath as the chair holds you.',
+      'Imagine a tall tree, its roots reaching down into the earth, its branches open to the sky.',
+      'And you can notice how calm you already feel when you stand before others, steady as those roots.',
+      'Each time you step up to speak, you find that calm waiting for you.',
+    ].join('\n\n');
+
+    const first = treatmentPlanner.extractAnchors(script, { arcs: ['future-self'], metaphorFamily: 'tree' });
+    expect(first.images).toEqual(expect.arrayContaining(['roots', 'branches']));
+    expect(first.suggestions.length).toBeGreaterThan(0);
+
+    const sessions: PlannedSession[] = [
+      { sessionNumber: 1, goal: 'Safety', status: 'completed', anchors: first },
+      { sessionNumber: 2, goal: 'Confidence', status: 'completed', anchors: anchors({ images: ['roots', 'leaves'], suggestions: ['You keep growing stronger.'] }) },
+      { sessionNumber: 3, goal: 'Presenting', status: 'planned' },
+      { sessionNumber: 4, goal: 'Consolidation', status: 'planned' },
+    ];
+
+    const continuity = treatmentPlanner.buildContinuity(sessions, 3);
+    expect(continuity.metaphorFamily).toBe('tree');
+    expect(continuity.images).toEqual(Array.from(new Set([...first.images, 'leaves'])));
+    expect(continuity.suggestions[continuity.suggestions.length - 1]).toEqual({ sessionNumber: 2, text: 'You keep growing stronger.' });
+    expect(continuity.previousSessions.map(s => s.sessionNumber)).toEqual([1, 2]);
+
+    const prompt = formatSeriesContinuity(continuity);
+    expect(prompt).toContain('session 3 of 4');
+    expect(prompt).toContain('Return to the tree metaphor');
+    expect(prompt).toContain('"You keep growing stronger."');
+
+    // Session 1 has nothing to inherit
+    expect(formatSeriesContinuity(treatmentPlanner.buildContinuity(sessions, 1))).toContain('It is the first session');
+  });
+});
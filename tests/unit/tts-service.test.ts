@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Each fake provider call returns 0.5s of tone, so durations are predictable
+const runMock = vi.hoisted(() => vi.fn());
+vi.mock('../../server/cassette-store', () => ({ cassetteStore: { run: runMock } }));
+vi.mock('../../server/objectStorage', () => ({ ObjectStorageService: class {} }));
+
+import { planSpeech, splitSentences } from '../../server/tts-chunker';
+import { TTSService, MemoryTTSChunkCache } from '../../server/tts-service';
+import { encodeWav, measureRms, normalizeLoudness, TTS_SAMPLE_RATE } from '../../server/audio-utils';
+
+function tone(seconds: number, amplitude: number): Int16Array {
+  const samples = new Int16Array(Math.round(seconds * TTS_SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin(i / 8) * amplitude);
+  }
+  return samples;
+}
+
+function fakePcmBase64(): string {
+  const samples = tone(0.5, 4000);
+  return Buffer.from(samples.buffer).toString('base64');
+}
+
+describe('planSpeech', () => {
+  it('keeps short prose in a single chunk', () => {
+    const segments = planSpeech('Relax now. Let your breath slow.\n\nSettle in.');
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ type: 'speech', speedFactor: 1, gain: 1, section: null });
+  });
+
+  it('splits long scripts on sentence boundaries under the limit', () => {
+    const sentence = 'You can let your body rest deeply and comfortably now.';
+    const text = Array.from({ length: 40 }, () => sentence).join(' ');
+    const segments = planSpeech(text, { maxChars: 300 });
+
+    expect(segments.length).toBeGreaterThan(1);
+    for (const segment of segments) {
+      expect(segment.type).toBe('speech');
+      if (segment.type === 'speech') {
+        expect(segment.text.length).toBeLessThanOrEqual(300);
+        expect(segment.text.endsWith('.')).toBe(true);
+      }
+    }
+  });
+
+  it('breaks an overlong sentence on clause boundaries', () => {
+    const text = Array.from({ length: 30 }, (_, i) => `drifting softly ${i},`).join(' ') + ' and resting.';
+    const segments = planSpeech(text, { maxChars: 120 });
+
+    expect(segments.every(s => s.type === 'speech' && s.text.length <= 120)).toBe(true);
+  });
+
+  it('turns pause and breathing cues into silence', () => {
+    const segments = planSpeech('Close your eyes. [pause 3s] [breathe in] Now rest.');
+
+    expect(segments).toEqual([
+      { type: 'speech', text: 'Close your eyes.', speedFactor: 1, gain: 1, section: null },
+      { type: 'silence', seconds: 7 },
+      { type: 'speech', text: 'Now rest.', speedFactor: 1, gain: 1, section: null },
+    ]);
+  });
+
+  it('starts a new chunk after each section with a gap', () => {
+    const segments = planSpeech('[section induction]\nBegin.\n\n[section emergence]\nReturn.');
+
+    expect(segments.map(s => s.type)).toEqual(['speech', 'silence', 'speech']);
+    expect(segments.map(s => s.type === 'speech' ? s.section : null)).toEqual(['induction', null, 'emergence']);
+  });
+
+  it('voices slow and soft regions separately', () => {
+    const segments = planSpeech('Notice. [slow]Slower now.[/slow] [soft]Quietly.[/soft]');
+
+    expect(segments).toEqual([
+      { type: 'speech', text: 'Notice.', speedFactor: 1, gain: 1, section: null },
+      { type: 'speech', text: 'Slower now.', speedFactor: 0.85, gain: 1, section: null },
+      { type: 'speech', text: 'Quietly.', speedFactor: 1, gain: 0.7, section: null },
+    ]);
+  });
+
+  it('drops a trailing pause', () => {
+    const segments = planSpeech('Sleep now. [pause 10s]');
+
+    expect(segments).toHaveLength(1);
+  });
+});
+
+describe('splitSentences', () => {
+  it('keeps punctuation and closing quotes with the sentence', () => {
+    expect(splitSentences('She said "rest." Then quiet! Really?')).toEqual(['She said "rest."', 'Then quiet!', 'Really?']);
+  });
+});
+
+describe('audio utils', () => {
+  it('levels quiet and loud clips to a similar loudness', () => {
+    const quiet = normalizeLoudness(tone(1, 500));
+    const loud = normalizeLoudness(tone(1, 20000));
+
+    expect(Math.abs(measureRms(quiet) - measureRms(loud))).toBeLessThan(0.01);
+  });
+
+  it('writes a valid WAV header', () => {
+    const wav = encodeWav(tone(0.1, 1000));
+
+    expect(wav.subarray(0, 4).toString()).toBe('RIFF');
+    expect(wav.readUInt32LE(24)).toBe(TTS_SAMPLE_RATE);
+    expect(wav.length).toBe(44 + Math.round(0.1 * TTS_SAMPLE_RATE) * 2);
+  });
+});
+
+describe('TTSService.synthesize', () => {
+  beforeEach(() => {
+    runMock.mockReset();
+    runMock.mockImplementation(async () => fakePcmBase64());
+  });
+
+  it('stitches chunks and silences into one file', async () => {
+    const service = new TTSService(null);
+    const result = await service.synthesize('First part. [pause 2s] Second part.', {
+      voice: 'nova',
+      speed: 0.6,
+      format: 'wav',
+    });
+
+    expect(runMock).toHaveBeenCalledTimes(2);
+    expect(result.chunkCount).toBe(2);
+    expect(result.durationSeconds).toBeCloseTo(3, 2); // 0.5s + 2s + 0.5s
+    expect(result.audio.subarray(0, 4).toString()).toBe('RIFF');
+  });
+
+  it('encodes MP3 by default', async () => {
+    const service = new TTSService(null);
+    const result = await service.synthesize('Just rest.', { voice: 'nova', speed: 0.6 });
+
+    expect(result.format).toBe('mp3');
+    expect(result.audio.length).toBeGreaterThan(0);
+  });
+
+  it('reuses cached chunks after a small edit', async () => {
+    const service = new TTSService(new MemoryTTSChunkCache());
+    const options = { voice: 'nova' as const, speed: 0.6, format: 'wav' as const };
+
+    await service.synthesize('Unchanged opening. [pause 1s] Original ending.', options);
+    const edited = await service.synthesize('Unchanged opening. [pause 1s] Edited ending.', options);
+
+    expect(runMock).toHaveBeenCalledTimes(3);
+    expect(edited.cachedChunks).toBe(1);
+  });
+
+  it('slows [slow] regions via the provider speed', async () => {
+    const service = new TTSService(null);
+    await service.synthesize('[slow]Deeper.[/slow]', { voice: 'nova', speed: 0.6, format: 'wav' });
+
+    expect(runMock.mock.calls[0][2]).toMatchObject({ prompt: 'Deeper.', speed: 0.51 });
+  });
+
+  it('reports where each section lands in the narration', async () => {
+    const service = new TTSService(null);
+    const track = await service.renderNarration('[section induction]\nBegin.\n\n[section emergence]\nReturn.', {
+      voice: 'nova',
+      speed: 0.6,
+    });
+
+    expect(track.sections).toEqual([
+      { section: 'induction', startSeconds: 0, endSeconds: 0.5 },
+      { section: 'emergence', startSeconds: 2, endSeconds: 2.5 }, // After the 1.5s section gap
+    ]);
+  });
+
+  it('never runs more chunks at once than the concurrency cap', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    runMock.mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return fakePcmBase64();
+    });
+
+    const service = new TTSService(null, 2);
+    const text = Array.from({ length: 6 }, (_, i) => `Part ${i}.`).join(' [pause 1s] ');
+    await service.synthesize(text, { voice: 'nova', speed: 0.6, format: 'wav' });
+
+    expect(runMock).toHaveBeenCalledTimes(6);
+    expect(maxInFlight).toBe(2);
+  });
+});